@@ -8,6 +8,10 @@ import NewProject from './pages/NewProject';
 import EditProject from './pages/EditProject';
 import ProjectPage from './pages/ProjectPage';
 import ThreadPage from './pages/ThreadPage';
+import RoadmapPage from './pages/RoadmapPage';
+import ChangelogPage from './pages/ChangelogPage';
+import ChangelogEditor from './pages/ChangelogEditor';
+import AcceptInvitation from './pages/AcceptInvitation';
 import NotFound from './pages/NotFound';
 import ProtectedRoute from './components/ProtectedRoute';
 import Layout from './components/Layout';
@@ -48,8 +52,16 @@ function App() {
                 <EditProject />
               </ProtectedRoute>
             } />
+            <Route path="dashboard/changelog/:projectId" element={
+              <ProtectedRoute>
+                <ChangelogEditor />
+              </ProtectedRoute>
+            } />
+            <Route path="invitations/:projectId/:invitationId" element={<AcceptInvitation />} />
             <Route path=":projectSlug" element={<ProjectPage />} />
             <Route path=":projectSlug/thread/:threadId" element={<ThreadPage />} />
+            <Route path=":projectSlug/roadmap" element={<RoadmapPage />} />
+            <Route path=":projectSlug/changelog" element={<ChangelogPage />} />
             <Route path="*" element={<NotFound />} />
           </Route>
         </Routes>
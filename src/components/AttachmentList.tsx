@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Attachment, formatFileSize, getAttachmentUrl, isImageAttachment } from '../lib/attachments';
+import { getImageVariantUrl } from '../lib/images';
+
+interface AttachmentListProps {
+  attachments?: Attachment[];
+  className?: string;
+}
+
+interface LightboxProps {
+  images: Attachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+// Shows one image at full size over the page, with arrows to step through the others
+const Lightbox = ({ images, index, onIndexChange, onClose }: LightboxProps) => {
+  const image = images[index];
+  const hasSeveral = images.length > 1;
+
+  const step = (offset: number) => onIndexChange((index + offset + images.length) % images.length);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (hasSeveral && e.key === 'ArrowLeft') step(-1);
+      if (hasSeveral && e.key === 'ArrowRight') step(1);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black/80 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label={image.name}
+      onClick={onClose}
+    >
+      <img
+        src={getImageVariantUrl(getAttachmentUrl(image), 2048)}
+        alt={image.name}
+        className="max-h-[85vh] max-w-full object-contain rounded-md shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      />
+      <div className="mt-3 flex items-center gap-4 text-sm text-gray-200" onClick={(e) => e.stopPropagation()}>
+        {hasSeveral && (
+          <button type="button" onClick={() => step(-1)} className="px-2 py-1 rounded hover:bg-white/10" aria-label="Previous image">
+            &larr;
+          </button>
+        )}
+        <span className="truncate max-w-xs">{image.name}</span>
+        {hasSeveral && (
+          <span className="text-gray-400">
+            {index + 1} / {images.length}
+          </span>
+        )}
+        <a href={getAttachmentUrl(image)} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">
+          Open original
+        </a>
+        {hasSeveral && (
+          <button type="button" onClick={() => step(1)} className="px-2 py-1 rounded hover:bg-white/10" aria-label="Next image">
+            &rarr;
+          </button>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 text-gray-200 hover:text-white"
+        aria-label="Close"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+// Image attachments as thumbnails that open in a lightbox, other files as download links
+const AttachmentList = ({ attachments = [], className = '' }: AttachmentListProps) => {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter((attachment) => !isImageAttachment(attachment));
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((image, index) => (
+            <button
+              key={image.key}
+              type="button"
+              onClick={() => setLightboxIndex(index)}
+              className="w-24 h-24 overflow-hidden rounded-md border border-gray-200 hover:border-gray-400 transition-colors"
+              title={image.name}
+            >
+              <img src={getImageVariantUrl(getAttachmentUrl(image), 192)} alt={image.name} loading="lazy" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file) => (
+            <li key={file.key}>
+              <a
+                href={getAttachmentUrl(file)}
+                className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                {file.name}
+                <span className="text-xs text-gray-400">{formatFileSize(file.size)}</span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {lightboxIndex !== null && (
+        <Lightbox images={images} index={lightboxIndex} onIndexChange={setLightboxIndex} onClose={() => setLightboxIndex(null)} />
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
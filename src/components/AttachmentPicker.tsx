@@ -0,0 +1,115 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { useAuth } from '../lib/AuthContext';
+import {
+  Attachment,
+  ATTACHMENT_ACCEPT,
+  checkAttachmentFile,
+  formatFileSize,
+  MAX_ATTACHMENTS,
+  uploadAttachment,
+} from '../lib/attachments';
+
+interface AttachmentPickerProps {
+  attachments: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  // Lets the form hold off submitting until every picked file is uploaded
+  onUploadingChange?: (uploading: boolean) => void;
+  disabled?: boolean;
+}
+
+// Uploads files as soon as they are picked and lists the ones ready to be posted. Uploads
+// need a signed-in user, so visitors are asked to sign in instead.
+const AttachmentPicker = ({ attachments, onChange, onUploadingChange, disabled = false }: AttachmentPickerProps) => {
+  const { currentUser } = useAuth();
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (attachments.length + files.length > MAX_ATTACHMENTS) {
+      setError(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+      return;
+    }
+
+    const problem = files.map(checkAttachmentFile).find((message) => message !== null);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setError(null);
+    setUploading(true);
+    onUploadingChange?.(true);
+
+    const results = await Promise.allSettled(files.map(uploadAttachment));
+    const uploaded = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (failed) {
+      console.error('Error uploading attachment:', failed.reason);
+      setError(failed.reason instanceof Error ? failed.reason.message : 'Failed to upload the file. Please try again.');
+    }
+
+    onChange([...attachments, ...uploaded]);
+    setUploading(false);
+    onUploadingChange?.(false);
+  };
+
+  const removeAttachment = (key: string) => {
+    onChange(attachments.filter((attachment) => attachment.key !== key));
+  };
+
+  if (!currentUser) {
+    return <p className="text-xs text-gray-400">Sign in to attach screenshots or log files.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {attachments.length > 0 && (
+        <ul className="space-y-1">
+          {attachments.map((attachment) => (
+            <li key={attachment.key} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm bg-gray-50 border border-gray-100 rounded-md">
+              <span className="truncate text-gray-700">
+                {attachment.name}
+                <span className="ml-2 text-xs text-gray-400">{formatFileSize(attachment.size)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => removeAttachment(attachment.key)}
+                disabled={disabled || uploading}
+                className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || uploading || attachments.length >= MAX_ATTACHMENTS}
+          className="inline-flex items-center gap-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+          </svg>
+          {uploading ? 'Uploading...' : 'Attach files'}
+        </button>
+        <span className="text-xs text-gray-400">Screenshots up to 10MB, logs up to 5MB, ZIP up to 20MB</span>
+        <input ref={fileInputRef} type="file" multiple accept={ATTACHMENT_ACCEPT} onChange={handleFileChange} className="hidden" />
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+    </div>
+  );
+};
+
+export default AttachmentPicker;
@@ -0,0 +1,29 @@
+interface HighlightedTextProps {
+  text: string;
+  // [start, end) character ranges to highlight, in order
+  highlights: Array<[number, number]>;
+}
+
+const HighlightedText = ({ text, highlights }: HighlightedTextProps) => {
+  const parts = [];
+  let cursor = 0;
+
+  highlights.forEach(([start, end], index) => {
+    if (start < cursor) return;
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
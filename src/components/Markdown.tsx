@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import 'highlight.js/styles/github.css';
+import { renderMarkdown } from '../lib/markdown';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+const Markdown = ({ content, className = '' }: MarkdownProps) => {
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  // renderMarkdown escapes raw HTML in the source and sanitizes its output
+  return <div className={`markdown ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default Markdown;
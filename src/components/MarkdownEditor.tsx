@@ -0,0 +1,44 @@
+import { TextareaHTMLAttributes, useState } from 'react';
+import Markdown from './Markdown';
+
+interface MarkdownEditorProps extends Omit<TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// A textarea with a tab to preview the Markdown as it will be shown
+const MarkdownEditor = ({ value, onChange, className = '', ...textareaProps }: MarkdownEditorProps) => {
+  const [tab, setTab] = useState<'write' | 'preview'>('write');
+
+  const tabClasses = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-md transition-colors ${active ? 'bg-gray-100 text-gray-900 font-medium' : 'text-gray-500 hover:text-gray-700'}`;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex gap-1">
+          <button type="button" onClick={() => setTab('write')} className={tabClasses(tab === 'write')}>
+            Write
+          </button>
+          <button type="button" onClick={() => setTab('preview')} className={tabClasses(tab === 'preview')}>
+            Preview
+          </button>
+        </div>
+        <span className="text-xs text-gray-400">Markdown supported</span>
+      </div>
+      {tab === 'write' ? (
+        <textarea value={value} onChange={(e) => onChange(e.target.value)} className={className} {...textareaProps} />
+      ) : (
+        <div className="min-h-24 px-4 py-3 border border-gray-200 rounded-lg bg-white">
+          {value.trim() ? (
+            <Markdown content={value} className="text-gray-700" />
+          ) : (
+            <p className="text-sm text-gray-400">Nothing to preview</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarkdownEditor;
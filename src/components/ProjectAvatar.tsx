@@ -1,3 +1,5 @@
+import { getImageVariantUrl } from '../lib/images';
+
 interface ProjectAvatarProps {
   name: string;
   size?: 'sm' | 'md' | 'lg';
@@ -34,11 +36,14 @@ const ProjectAvatar = ({ name, size = 'md', imageUrl }: ProjectAvatarProps) => {
     lg: 'w-16 h-16 text-xl'
   }[size];
 
+  // Twice the displayed width, for high-density screens
+  const imageWidth = { sm: 64, md: 96, lg: 128 }[size];
+
   // If we have an image URL, display the image
   if (imageUrl) {
     return (
       <img 
-        src={imageUrl} 
+        src={getImageVariantUrl(imageUrl, imageWidth)} 
         alt={name} 
         className={`${sizeClass} rounded-full object-cover`}
         title={name}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { ReactionType, reactionTypes } from '../lib/reactions';
+
+interface ReactionBarProps {
+  counts: Record<string, number>;
+  // The current visitor's reactions
+  mine: ReactionType[];
+  onToggle: (reaction: ReactionType) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const ReactionBar = ({ counts, mine, onToggle, disabled = false, className = '' }: ReactionBarProps) => {
+  const [showPicker, setShowPicker] = useState(false);
+  const used = reactionTypes.filter((reaction) => (counts[reaction.value] || 0) > 0);
+
+  const pick = (reaction: ReactionType) => {
+    setShowPicker(false);
+    onToggle(reaction);
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 ${className}`}>
+      {used.map((reaction) => {
+        const isMine = mine.includes(reaction.value);
+        return (
+          <button
+            key={reaction.value}
+            type="button"
+            aria-pressed={isMine}
+            aria-label={`${reaction.label}: ${counts[reaction.value]}`}
+            title={isMine ? `Remove your ${reaction.label.toLowerCase()} reaction` : reaction.label}
+            onClick={() => onToggle(reaction.value)}
+            disabled={disabled}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs transition-colors disabled:opacity-60 ${
+              isMine
+                ? 'bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100'
+                : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+            }`}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{counts[reaction.value]}</span>
+          </button>
+        );
+      })}
+      <div className="relative">
+        <button
+          type="button"
+          aria-label="Add reaction"
+          aria-expanded={showPicker}
+          title="Add reaction"
+          onClick={() => setShowPicker(!showPicker)}
+          disabled={disabled}
+          className="inline-flex items-center px-2 py-0.5 rounded-full border border-gray-200 text-xs text-gray-500 hover:border-gray-300 hover:text-gray-700 transition-colors disabled:opacity-60"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+        {showPicker && (
+          <div className="absolute left-0 bottom-full mb-1 z-10 flex gap-0.5 p-1 bg-white border border-gray-200 rounded-md shadow-md">
+            {reactionTypes.map((reaction) => (
+              <button
+                key={reaction.value}
+                type="button"
+                aria-pressed={mine.includes(reaction.value)}
+                title={reaction.label}
+                onClick={() => pick(reaction.value)}
+                className={`w-8 h-8 rounded-md text-base hover:bg-gray-100 ${mine.includes(reaction.value) ? 'bg-blue-50' : ''}`}
+              >
+                {reaction.emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReactionBar;
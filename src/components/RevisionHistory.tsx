@@ -0,0 +1,36 @@
+export interface Revision {
+  id: string;
+  // Only kept for the thread itself
+  title?: string;
+  content: string;
+  // When this text was replaced by an edit
+  createdAt: Date;
+}
+
+interface RevisionHistoryProps {
+  // Earlier versions, newest first
+  revisions: Revision[];
+}
+
+const RevisionHistory = ({ revisions }: RevisionHistoryProps) => {
+  if (revisions.length === 0) return null;
+
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer text-gray-500 hover:text-gray-700 select-none">
+        {revisions.length === 1 ? '1 earlier version' : `${revisions.length} earlier versions`}
+      </summary>
+      <ol className="mt-2 space-y-2">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="border-l-2 border-gray-200 pl-3">
+            <div className="text-xs text-gray-400 mb-1">Replaced {revision.createdAt.toLocaleString()}</div>
+            {revision.title && <div className="font-medium text-gray-700 mb-1">{revision.title}</div>}
+            <div className="text-gray-600 whitespace-pre-line">{revision.content}</div>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+export default RevisionHistory;
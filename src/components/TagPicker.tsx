@@ -0,0 +1,42 @@
+import { getTagBadgeClasses, ProjectTag } from '../lib/projectTags';
+
+interface TagPickerProps {
+  tags: ProjectTag[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  // Most tags that can be selected at once
+  max?: number;
+  disabled?: boolean;
+}
+
+const TagPicker = ({ tags, selected, onChange, max, disabled = false }: TagPickerProps) => {
+  const toggleTag = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter((tag) => tag !== value) : [...selected, value]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {tags.map((tag) => {
+        const isSelected = selected.includes(tag.value);
+        return (
+          <button
+            key={tag.value}
+            type="button"
+            aria-pressed={isSelected}
+            disabled={disabled || (!isSelected && max !== undefined && selected.length >= max)}
+            onClick={() => toggleTag(tag.value)}
+            className={`px-2 py-1 text-xs rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              isSelected
+                ? `${getTagBadgeClasses(tag.color)} border-transparent`
+                : 'text-gray-500 bg-white border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            {tag.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TagPicker;
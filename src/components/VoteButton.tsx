@@ -0,0 +1,30 @@
+interface VoteButtonProps {
+  count: number;
+  // Whether the current visitor has voted
+  voted: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+}
+
+const VoteButton = ({ count, voted, onToggle, disabled = false }: VoteButtonProps) => (
+  <button
+    type="button"
+    aria-pressed={voted}
+    onClick={onToggle}
+    disabled={disabled}
+    title={voted ? 'Remove your vote' : 'Vote for this thread'}
+    className={`flex flex-col items-center justify-center w-14 py-1.5 rounded-md border text-sm transition-colors disabled:opacity-60 ${
+      voted
+        ? 'bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100'
+        : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300 hover:bg-gray-50'
+    }`}
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+      <path fillRule="evenodd" d="M14.707 12.707a1 1 0 01-1.414 0L10 9.414l-3.293 3.293a1 1 0 01-1.414-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 010 1.414z" clipRule="evenodd" />
+    </svg>
+    <span className="font-medium">{count}</span>
+    <span className="sr-only">{count === 1 ? 'vote' : 'votes'}</span>
+  </button>
+);
+
+export default VoteButton;
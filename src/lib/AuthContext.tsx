@@ -9,11 +9,13 @@ import {
   updateProfile,
   UserCredential,
   GoogleAuthProvider,
-  signInWithPopup
+  signInWithPopup,
+  sendEmailVerification
 } from 'firebase/auth';
 import { doc, setDoc, serverTimestamp, getDoc } from 'firebase/firestore';
 import { auth, db } from './firebase';
 import { transferAnonymousUserData } from './userDataTransfer';
+import { saveContactEmail } from './threadApi';
 
 interface AuthContextType {
   currentUser: User | null;
@@ -51,12 +53,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       // Create user document in Firestore
       await setDoc(doc(db, 'users', user.uid), {
-        email,
         displayName,
         createdAt: serverTimestamp(),
         photoURL: user.photoURL,
       });
 
+      // Notifications are only sent to verified addresses, see the effect below
+      await sendEmailVerification(user);
+
       return userCredential;
     } catch (error) {
       console.error('Error in signup:', error);
@@ -82,7 +86,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         if (!userDoc.exists()) {
           // Create user document
           await setDoc(userDocRef, {
-            email: user.email,
             displayName: user.displayName,
             createdAt: serverTimestamp(),
             photoURL: user.photoURL,
@@ -90,7 +93,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           console.log('User document created for:', user.displayName);
           
           // Transfer anonymous data to the newly registered user
-          const transferResult = await transferAnonymousUserData(user.uid);
+          const transferResult = await transferAnonymousUserData();
           console.log('Data transfer result:', transferResult.message);
         } else {
           console.log('User already exists:', user.displayName);
@@ -119,6 +122,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       setCurrentUser(user);
       setLoading(false);
+
+      // The user document is public, so the thread API keeps the address notifications go to
+      // in a private document, taken from the ID token once Firebase has verified it
+      if (user?.emailVerified) {
+        saveContactEmail().catch((error) => console.error('Error saving contact email:', error));
+      }
     });
 
     return unsubscribe;
@@ -0,0 +1,123 @@
+/**
+ * Attachments
+ * Screenshots and log files attached to threads and responses. Files are uploaded straight
+ * to R2 with a presigned URL from the image worker, and the thread API stores their details
+ * on the thread or response document.
+ */
+
+import { workerAuthHeaders } from './images';
+
+const WORKER_URL = import.meta.env.VITE_WORKER_URL;
+
+export interface Attachment {
+  // Object key in the bucket, e.g. attachments/<uuid>.png
+  key: string;
+  // The file's name on the reporter's machine
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+// Most attachments one thread or response can have
+export const MAX_ATTACHMENTS = 5;
+
+// File types that can be attached and the largest size allowed for each. The image worker
+// enforces the same limits in src/attachments.ts when signing the upload.
+export const attachmentTypes: Record<string, { label: string; maxSize: number }> = {
+  'image/png': { label: 'PNG', maxSize: 10 * 1024 * 1024 },
+  'image/jpeg': { label: 'JPG', maxSize: 10 * 1024 * 1024 },
+  'image/gif': { label: 'GIF', maxSize: 10 * 1024 * 1024 },
+  'image/webp': { label: 'WebP', maxSize: 10 * 1024 * 1024 },
+  'text/plain': { label: 'TXT', maxSize: 5 * 1024 * 1024 },
+  'application/json': { label: 'JSON', maxSize: 5 * 1024 * 1024 },
+  'application/zip': { label: 'ZIP', maxSize: 20 * 1024 * 1024 },
+};
+
+// Value for the accept attribute of file inputs. Log files often have no registered type, so
+// their extensions are listed too.
+export const ATTACHMENT_ACCEPT = [...Object.keys(attachmentTypes), '.log', '.txt', '.json', '.zip'].join(',');
+
+/**
+ * Formats a size in bytes for display, e.g. 1.4 MB
+ */
+export const formatFileSize = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${Math.round(size / 1024)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Works out the type a file is uploaded as. Browsers leave the type of .log files empty,
+ * so those are sent as plain text.
+ */
+const getAttachmentType = (file: File): string => {
+  if (file.type) return file.type;
+  return /\.(log|txt)$/i.test(file.name) ? 'text/plain' : '';
+};
+
+/**
+ * Checks a file against the attachment limits before uploading it
+ *
+ * @returns A message describing the problem, or null when the file can be attached
+ */
+export const checkAttachmentFile = (file: File): string | null => {
+  const type = attachmentTypes[getAttachmentType(file)];
+  if (!type) {
+    return `${file.name} can't be attached. Attach images, text, JSON or ZIP files.`;
+  }
+  if (file.size > type.maxSize) {
+    return `${file.name} is larger than the ${formatFileSize(type.maxSize)} allowed for ${type.label} files.`;
+  }
+  return null;
+};
+
+/**
+ * Uploads a file as an attachment
+ *
+ * @param file File picked by the user, already checked with checkAttachmentFile
+ * @returns Promise resolving to the attachment to send along with the thread or response
+ */
+export const uploadAttachment = async (file: File): Promise<Attachment> => {
+  const contentType = getAttachmentType(file);
+
+  // Only signed-in users can upload; the worker records them as the file's owner
+  const response = await fetch(`${WORKER_URL}/api/attachments/upload-url`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await workerAuthHeaders()) },
+    body: JSON.stringify({
+      fileType: contentType,
+      fileSize: file.size,
+    }),
+  });
+  const result = await response.json().catch(() => null);
+
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || 'Failed to prepare the upload');
+  }
+
+  // The URL is signed for this type, size and owner, so the upload sends exactly the headers it came with
+  const upload = await fetch(result.uploadUrl, {
+    method: 'PUT',
+    headers: result.headers,
+    body: file,
+  });
+
+  if (!upload.ok) {
+    throw new Error(`Failed to upload ${file.name}`);
+  }
+
+  return { key: result.key, name: file.name, contentType, size: file.size };
+};
+
+/**
+ * Gets the URL an attachment is served from. Files that aren't images download under
+ * their original name.
+ */
+export const getAttachmentUrl = (attachment: Attachment): string => {
+  const id = attachment.key.split('/').pop();
+  return `${WORKER_URL}/api/attachments/${id}?name=${encodeURIComponent(attachment.name)}`;
+};
+
+export const isImageAttachment = (attachment: Attachment): boolean => {
+  return attachment.contentType.startsWith('image/');
+};
@@ -0,0 +1,26 @@
+/**
+ * Utility functions for what authors can do with their own threads and responses.
+ * The thread API worker enforces the same rules in its lib/revisions.ts.
+ */
+
+import { getAnonymousUserId } from './userUtils';
+
+// How long after posting authors can still edit or delete what they wrote
+export const AUTHOR_EDIT_WINDOW_HOURS = 24;
+
+/**
+ * Whether the current visitor wrote a thread or response: signed-in users by their ID,
+ * everyone else by the anonymous ID stored in this browser. This only decides which
+ * buttons to show; the thread API checks the anonymous token before any change.
+ */
+export const isOwnPost = (post: { authorId?: string; anonymousId?: string }, userId?: string): boolean => {
+  if (userId) return post.authorId === userId;
+  return !!post.anonymousId && post.anonymousId === getAnonymousUserId();
+};
+
+/**
+ * Whether something posted at `createdAt` can still be edited or deleted by its author
+ */
+export const isWithinEditWindow = (createdAt: Date): boolean => {
+  return Date.now() - createdAt.getTime() < AUTHOR_EDIT_WINDOW_HOURS * 60 * 60 * 1000;
+};
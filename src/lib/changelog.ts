@@ -0,0 +1,128 @@
+/**
+ * Changelog
+ * Release notes a project owner writes in the dashboard, each linking to the threads the
+ * release resolved. Entries are written through the thread API worker, which also serves
+ * the Atom and RSS feeds of the published ones.
+ */
+
+import { collection, query, where, orderBy, limit, getDocs, getDoc, doc, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from './firebase';
+
+const THREAD_API_URL = import.meta.env.VITE_THREAD_API_URL;
+
+export type ChangelogStatus = 'draft' | 'published';
+
+export interface ChangelogEntry {
+  id: string;
+  projectId: string;
+  title: string;
+  // Markdown
+  content: string;
+  version?: string;
+  threadIds: string[];
+  status: ChangelogStatus;
+  authorName: string;
+  createdAt: Date;
+  publishedAt?: Date;
+}
+
+// A thread an entry links to, or can link to
+export interface ChangelogThread {
+  id: string;
+  title: string;
+  closedAt?: Date;
+}
+
+// Most entries shown on the changelog page and most solved threads offered for linking
+const CHANGELOG_QUERY_LIMIT = 50;
+const SOLVED_THREADS_LIMIT = 100;
+
+const toChangelogEntry = (entryDoc: QueryDocumentSnapshot): ChangelogEntry => {
+  const data = entryDoc.data();
+  return {
+    id: entryDoc.id,
+    projectId: data.projectId,
+    title: data.title,
+    content: data.content,
+    version: data.version || undefined,
+    threadIds: data.threadIds || [],
+    status: data.status,
+    authorName: data.authorName,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    publishedAt: data.publishedAt?.toDate() || undefined,
+  };
+};
+
+/**
+ * The title an entry is shown under, e.g. "v1.4.0: Dark mode"
+ */
+export const getChangelogEntryTitle = (entry: { title: string; version?: string }): string => {
+  return entry.version ? `${entry.version}: ${entry.title}` : entry.title;
+};
+
+/**
+ * Loads a project's published entries, newest first
+ */
+export const fetchPublishedChangelog = async (projectId: string): Promise<ChangelogEntry[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'changelog'),
+    where('projectId', '==', projectId),
+    where('status', '==', 'published'),
+    orderBy('publishedAt', 'desc'),
+    limit(CHANGELOG_QUERY_LIMIT)
+  ));
+  return snapshot.docs.map(toChangelogEntry);
+};
+
+/**
+ * Loads all of a project's entries, drafts included, newest first. Drafts are only
+ * readable by the project team.
+ */
+export const fetchProjectChangelog = async (projectId: string): Promise<ChangelogEntry[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'changelog'),
+    where('projectId', '==', projectId),
+    orderBy('createdAt', 'desc'),
+    limit(CHANGELOG_QUERY_LIMIT)
+  ));
+  return snapshot.docs.map(toChangelogEntry);
+};
+
+/**
+ * Loads the project's threads closed as solved, most recently closed first, which are
+ * the threads an entry can link to
+ */
+export const fetchSolvedThreads = async (projectId: string): Promise<ChangelogThread[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'threads'),
+    where('projectId', '==', projectId),
+    where('closingReason', '==', 'solved'),
+    orderBy('closedAt', 'desc'),
+    limit(SOLVED_THREADS_LIMIT)
+  ));
+  return snapshot.docs.map((threadDoc) => ({
+    id: threadDoc.id,
+    title: threadDoc.data().title,
+    closedAt: threadDoc.data().closedAt?.toDate() || undefined,
+  }));
+};
+
+/**
+ * Loads the threads entries link to, skipping any that were deleted since
+ *
+ * @returns Promise resolving to the threads by ID
+ */
+export const fetchChangelogThreads = async (threadIds: string[]): Promise<Map<string, ChangelogThread>> => {
+  const threadDocs = await Promise.all([...new Set(threadIds)].map((threadId) => getDoc(doc(db, 'threads', threadId))));
+
+  return new Map(threadDocs
+    .filter((threadDoc) => threadDoc.exists())
+    .map((threadDoc) => [threadDoc.id, { id: threadDoc.id, title: threadDoc.data()!.title }]));
+};
+
+/**
+ * Gets the URL of a project's changelog feed
+ */
+export const getChangelogFeedUrl = (projectSlug: string, format: 'atom' | 'rss'): string => {
+  return `${THREAD_API_URL}/api/changelog/${projectSlug}/${format}`;
+};
@@ -1,4 +1,4 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
 
 // Get API key from environment variables
 const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
@@ -8,6 +8,13 @@ const model = genAI.getGenerativeModel({
   model: "gemini-2.0-flash-lite",
 });
 
+const embeddingModel = genAI.getGenerativeModel({
+  model: "text-embedding-004",
+});
+
+// Gemini embeds at most 100 texts per batch request
+const MAX_EMBEDDING_BATCH_SIZE = 100;
+
 const generationConfig = {
   temperature: 1,
   topP: 0.95,
@@ -18,7 +25,7 @@ const generationConfig = {
 
 interface GeneratedIssueData {
   title: string;
-  tag: string;
+  tags: string[];
 }
 
 // Debounce function to limit API calls
@@ -42,12 +49,22 @@ export function debounce<F extends (...args: any[]) => Promise<any>>(
   };
 }
 
-// Generate issue title and tag based on content
-export async function generateIssueTitleAndTag(content: string): Promise<GeneratedIssueData> {
+// Tags the model can pick from
+interface TagOption {
+  value: string;
+  label: string;
+}
+
+// Most tags the model may suggest for one issue
+const MAX_SUGGESTED_TAGS = 3;
+
+// Generate issue title and tags based on content. Tags are empty when the model
+// didn't pick any of the project's tags, so callers can apply their own default
+export async function generateIssueTitleAndTag(content: string, tags: TagOption[]): Promise<GeneratedIssueData> {
   if (!content || content.trim().length < 10) {
     return {
       title: "",
-      tag: "question" // Default tag
+      tags: []
     };
   }
 
@@ -58,10 +75,11 @@ export async function generateIssueTitleAndTag(content: string): Promise<Generat
     });
 
     const prompt = `
-Based on the following issue description, generate a concise title (max 10 words) and the most appropriate tag from this list: bug, feature, question, help, documentation.
-Return ONLY the title and tag in this exact format:
+Based on the following issue description, generate a concise title (max 10 words) and the most appropriate tags from this list: ${tags.map((tag) => `${tag.value} (${tag.label})`).join(", ")}.
+Pick one tag, or up to ${MAX_SUGGESTED_TAGS} if the issue clearly fits several, most fitting first. Use the tag values before the parentheses.
+Return ONLY the title and tags in this exact format:
 TITLE: [generated title]
-TAG: [tag]
+TAGS: [tag], [tag]
 
 Issue description:
 ${content}
@@ -70,28 +88,45 @@ ${content}
     const result = await chatSession.sendMessage(prompt);
     const response = result.response.text();
     
-    // Parse the response to extract title and tag
+    // Parse the response to extract title and tags
     const titleMatch = response.match(/TITLE:\s*(.*)/i);
-    const tagMatch = response.match(/TAG:\s*(.*)/i);
+    const tagsMatch = response.match(/TAGS?:\s*(.*)/i);
     
     const title = titleMatch ? titleMatch[1].trim() : "";
-    let tag = tagMatch ? tagMatch[1].trim().toLowerCase() : "question";
+    const suggestedTags = tagsMatch ? tagsMatch[1].split(",").map((tag) => tag.trim().toLowerCase()) : [];
     
-    // Validate that the tag is one of the allowed values
-    const validTags = ["bug", "feature", "question", "help", "documentation"];
-    if (!validTags.includes(tag)) {
-      tag = "question"; // Default to question if invalid tag
-    }
+    // Keep only the allowed values, once each
+    const validTags = [...new Set(suggestedTags)]
+      .filter((tag) => tags.some((option) => option.value === tag))
+      .slice(0, MAX_SUGGESTED_TAGS);
     
-    return { title, tag };
+    return { title, tags: validTags };
   } catch (error) {
-    console.error("Error generating title and tag:", error);
+    console.error("Error generating title and tags:", error);
     return {
       title: "",
-      tag: "question" // Default tag on error
+      tags: []
     };
   }
 }
 
 // Debounced version to prevent too many API calls
-export const debouncedGenerateIssueTitleAndTag = debounce(generateIssueTitleAndTag, 2000); 
\ No newline at end of file
+export const debouncedGenerateIssueTitleAndTag = debounce(generateIssueTitleAndTag, 2000);
+
+// Embed texts for similarity comparison. Vectors come back in the same order as the texts;
+// errors are thrown so callers can fall back to another method
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += MAX_EMBEDDING_BATCH_SIZE) {
+    const result = await embeddingModel.batchEmbedContents({
+      requests: texts.slice(i, i + MAX_EMBEDDING_BATCH_SIZE).map((text) => ({
+        content: { role: "user", parts: [{ text }] },
+        taskType: TaskType.SEMANTIC_SIMILARITY,
+      })),
+    });
+    embeddings.push(...result.embeddings.map((embedding) => embedding.values));
+  }
+
+  return embeddings;
+}
@@ -0,0 +1,80 @@
+/**
+ * Images
+ * Project logos are uploaded to the image worker, which records the signed-in uploader as
+ * their owner. Images it serves can be requested at a smaller width, which the worker
+ * resizes and converts to WebP or AVIF for browsers that support them.
+ */
+
+import { auth } from './firebase';
+
+const WORKER_URL = import.meta.env.VITE_WORKER_URL;
+
+/**
+ * Headers identifying the signed-in user to the image worker
+ */
+export const workerAuthHeaders = async (): Promise<Record<string, string>> => {
+  const idToken = await auth.currentUser?.getIdToken();
+  return idToken ? { Authorization: `Bearer ${idToken}` } : {};
+};
+
+/**
+ * Uploads a project logo. Only signed-in users can upload logos.
+ *
+ * @returns Promise resolving to the URL the logo is served from
+ */
+export const uploadLogo = async (file: File): Promise<string> => {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(`${WORKER_URL}/api/images/upload`, {
+    method: 'POST',
+    headers: await workerAuthHeaders(),
+    body: formData,
+  });
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok || !data?.success || !data.key) {
+    throw new Error(data?.error || 'Failed to upload image');
+  }
+
+  return `${WORKER_URL}/api/images/${data.key}`;
+};
+
+/**
+ * Deletes an image the signed-in user uploaded, e.g. the logo a project no longer uses.
+ * Images hosted elsewhere are left alone, and failures only get logged as the nightly
+ * cleanup removes unused images anyway.
+ */
+export const deleteUploadedImage = async (url: string): Promise<void> => {
+  if (!WORKER_URL || !url.startsWith(`${WORKER_URL}/api/images/`)) return;
+
+  const key = new URL(url).pathname.split('/').pop();
+  try {
+    const response = await fetch(`${WORKER_URL}/api/images/${key}`, {
+      method: 'DELETE',
+      headers: await workerAuthHeaders(),
+    });
+    if (!response.ok) {
+      console.warn(`Could not delete image ${key}: status ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error deleting image:', error);
+  }
+};
+
+/**
+ * Gets the URL of an image resized to a width. Pass twice the displayed size so the image
+ * stays sharp on high-density screens. Images hosted elsewhere are returned unchanged.
+ *
+ * @param url Image URL, e.g. a project's logoUrl
+ * @param width Width in pixels; the worker rounds it up to one of the widths it serves
+ */
+export const getImageVariantUrl = (url: string, width: number): string => {
+  if (!WORKER_URL || !url.startsWith(`${WORKER_URL}/api/`)) {
+    return url;
+  }
+
+  const variant = new URL(url);
+  variant.searchParams.set('w', String(width));
+  return variant.toString();
+};
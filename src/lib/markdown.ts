@@ -0,0 +1,41 @@
+/**
+ * Markdown rendering for thread and response content
+ * Content is stored as the Markdown the author wrote and rendered here with GitHub-style
+ * tables, strikethrough, autolinks and line breaks. Raw HTML in the source is shown as
+ * text, and the output is sanitized before it reaches the page.
+ */
+
+import MarkdownIt from 'markdown-it';
+import hljs from 'highlight.js/lib/common';
+import DOMPurify from 'dompurify';
+
+const markdown = new MarkdownIt({
+  html: false,
+  linkify: true,
+  // Single newlines break lines, as they did when content was shown as plain text
+  breaks: true,
+  // Fenced code in a known language is highlighted; anything else is left to markdown-it to escape
+  highlight: (code, language) => {
+    if (!language || !hljs.getLanguage(language)) return '';
+    try {
+      return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    } catch (error) {
+      console.error('Error highlighting code block:', error);
+      return '';
+    }
+  },
+});
+
+// Links open in a new tab and pass no referrer or ranking to the linked site
+markdown.renderer.rules.link_open = (tokens, index, options, _env, self) => {
+  tokens[index].attrSet('target', '_blank');
+  tokens[index].attrSet('rel', 'nofollow noopener noreferrer');
+  return self.renderToken(tokens, index, options);
+};
+
+/**
+ * Renders Markdown to sanitized HTML, safe to insert into the page
+ */
+export const renderMarkdown = (source: string): string => {
+  return DOMPurify.sanitize(markdown.render(source), { ADD_ATTR: ['target'] });
+};
@@ -0,0 +1,75 @@
+/**
+ * Notification preferences
+ * Which emails a signed-in user gets, kept on their user document. Users change them on
+ * the dashboard or a thread page, or through the unsubscribe links at the bottom of every
+ * email. The thread API worker, which sends the emails, checks them and handles the links.
+ */
+
+import { doc, setDoc, arrayUnion, arrayRemove, DocumentData } from 'firebase/firestore';
+import { db } from './firebase';
+
+// All emails, only those about threads the user started, a digest instead, or none
+export type EmailPreference = 'all' | 'own-threads' | 'digest' | 'none';
+
+// How often users who chose the digest get it
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  emails: EmailPreference;
+  digestFrequency: DigestFrequency;
+  mutedProjectIds: string[];
+  mutedThreadIds: string[];
+}
+
+export const EMAIL_PREFERENCE_OPTIONS: Array<{ value: EmailPreference; label: string; description: string }> = [
+  { value: 'all', label: 'All emails', description: 'New issues, responses, assignments, roadmap moves and releases' },
+  { value: 'own-threads', label: 'Only threads I started', description: 'Emails about threads you opened yourself' },
+  { value: 'digest', label: 'Digest only', description: 'A daily or weekly summary of new, unanswered and reopened threads in your projects' },
+  { value: 'none', label: 'None', description: 'No notification emails' },
+];
+
+/**
+ * Reads the preferences from a user document, filling in the defaults: all emails,
+ * nothing muted
+ */
+export const getNotificationPreferences = (userData: DocumentData | undefined): NotificationPreferences => {
+  const preferences = userData?.notificationPreferences || {};
+  return {
+    emails: preferences.emails || 'all',
+    digestFrequency: preferences.digestFrequency || 'daily',
+    mutedProjectIds: preferences.mutedProjectIds || [],
+    mutedThreadIds: preferences.mutedThreadIds || [],
+  };
+};
+
+/**
+ * Saves which emails the user gets
+ */
+export const saveEmailPreference = async (userId: string, emails: EmailPreference): Promise<void> => {
+  await setDoc(doc(db, 'users', userId), { notificationPreferences: { emails } }, { merge: true });
+};
+
+/**
+ * Saves how often the user gets the digest
+ */
+export const saveDigestFrequency = async (userId: string, digestFrequency: DigestFrequency): Promise<void> => {
+  await setDoc(doc(db, 'users', userId), { notificationPreferences: { digestFrequency } }, { merge: true });
+};
+
+/**
+ * Mutes or unmutes emails about a project
+ */
+export const setProjectMuted = async (userId: string, projectId: string, muted: boolean): Promise<void> => {
+  await setDoc(doc(db, 'users', userId), {
+    notificationPreferences: { mutedProjectIds: muted ? arrayUnion(projectId) : arrayRemove(projectId) }
+  }, { merge: true });
+};
+
+/**
+ * Mutes or unmutes emails about a thread
+ */
+export const setThreadMuted = async (userId: string, threadId: string, muted: boolean): Promise<void> => {
+  await setDoc(doc(db, 'users', userId), {
+    notificationPreferences: { mutedThreadIds: muted ? arrayUnion(threadId) : arrayRemove(threadId) }
+  }, { merge: true });
+};
@@ -0,0 +1,90 @@
+/**
+ * Utility functions for the tags a project files its threads under. Each project can
+ * define its own tags in `tags` on the project document; projects that haven't get the
+ * default set below.
+ */
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+export interface ProjectTag {
+  value: string;
+  label: string;
+  color: TagColor;
+}
+
+// Class names are spelled out in full so Tailwind keeps them in the build
+export const tagColors: Array<{ value: TagColor; label: string; badge: string; swatch: string }> = [
+  { value: 'gray', label: 'Gray', badge: 'text-gray-600 bg-gray-100', swatch: 'bg-gray-400' },
+  { value: 'red', label: 'Red', badge: 'text-red-600 bg-red-50', swatch: 'bg-red-500' },
+  { value: 'orange', label: 'Orange', badge: 'text-orange-600 bg-orange-50', swatch: 'bg-orange-500' },
+  { value: 'yellow', label: 'Yellow', badge: 'text-yellow-600 bg-yellow-50', swatch: 'bg-yellow-500' },
+  { value: 'green', label: 'Green', badge: 'text-green-600 bg-green-50', swatch: 'bg-green-500' },
+  { value: 'teal', label: 'Teal', badge: 'text-teal-600 bg-teal-50', swatch: 'bg-teal-500' },
+  { value: 'blue', label: 'Blue', badge: 'text-blue-600 bg-blue-50', swatch: 'bg-blue-500' },
+  { value: 'indigo', label: 'Indigo', badge: 'text-indigo-600 bg-indigo-50', swatch: 'bg-indigo-500' },
+  { value: 'purple', label: 'Purple', badge: 'text-purple-600 bg-purple-50', swatch: 'bg-purple-500' },
+  { value: 'pink', label: 'Pink', badge: 'text-pink-600 bg-pink-50', swatch: 'bg-pink-500' },
+];
+
+export const defaultProjectTags: ProjectTag[] = [
+  { value: 'bug', label: 'Bug', color: 'red' },
+  { value: 'feature', label: 'Feature', color: 'green' },
+  { value: 'question', label: 'Question', color: 'blue' },
+  { value: 'help', label: 'Help', color: 'purple' },
+  { value: 'documentation', label: 'Docs', color: 'yellow' },
+];
+
+export const MAX_PROJECT_TAGS = 20;
+
+// Most tags one thread can have
+export const MAX_THREAD_TAGS = 5;
+
+/**
+ * Gets a project's tags from its document data, falling back to the defaults
+ */
+export const getProjectTags = (projectData: { tags?: ProjectTag[] }): ProjectTag[] => {
+  return projectData.tags && projectData.tags.length > 0 ? projectData.tags : defaultProjectTags;
+};
+
+/**
+ * Finds a tag by value. Threads can carry a tag the project no longer has until
+ * they are migrated, so unknown values get a plain gray tag.
+ */
+export const findProjectTag = (tags: ProjectTag[], value: string): ProjectTag => {
+  return tags.find((tag) => tag.value === value) || { value, label: value, color: 'gray' };
+};
+
+/**
+ * Gets the badge classes for a tag color
+ */
+export const getTagBadgeClasses = (color: TagColor): string => {
+  return tagColors.find((tagColor) => tagColor.value === color)?.badge || tagColors[0].badge;
+};
+
+/**
+ * The tag a thread gets when none was chosen: "question" while the project has it,
+ * as it always has been, otherwise the project's first tag
+ */
+export const getDefaultTag = (tags: ProjectTag[]): string => {
+  return tags.some((tag) => tag.value === 'question') ? 'question' : tags[0].value;
+};
+
+/**
+ * Turns a tag label into the value stored on threads, e.g. "Good first issue" -> "good-first-issue"
+ */
+export const tagValueFromLabel = (label: string): string => {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 30);
+};
+
+/**
+ * Gets a thread's tags from its document data. Threads created before threads could have
+ * several tags only have a single `tag`.
+ */
+export const getThreadTags = (threadData: { tags?: string[]; tag?: string }): string[] => {
+  if (threadData.tags && threadData.tags.length > 0) return threadData.tags;
+  return [threadData.tag || 'question'];
+};
@@ -0,0 +1,105 @@
+/**
+ * Utility functions for the people who run a project: the owner, identified by the
+ * project's `ownerId`, and the members listed in its `memberRoles` map
+ */
+
+import { collection, doc, getDoc, getDocs } from 'firebase/firestore';
+import { db } from './firebase';
+
+export type ProjectRole = 'owner' | 'maintainer' | 'triager';
+export type MemberRole = Exclude<ProjectRole, 'owner'>;
+
+// Things a project member may do, granted by role
+export type ProjectPermission = 'closeThreads' | 'assignThreads' | 'tagThreads' | 'deleteThreads' | 'respondAsTeam' | 'manageMembers';
+
+const rolePermissions: Record<ProjectRole, ProjectPermission[]> = {
+  owner: ['closeThreads', 'assignThreads', 'tagThreads', 'deleteThreads', 'respondAsTeam', 'manageMembers'],
+  maintainer: ['closeThreads', 'assignThreads', 'tagThreads', 'deleteThreads', 'respondAsTeam'],
+  triager: ['closeThreads', 'assignThreads', 'tagThreads'],
+};
+
+export const projectRoles: Array<{ value: ProjectRole; label: string; description: string }> = [
+  { value: 'owner', label: 'Owner', description: 'Full access, including managing the team' },
+  { value: 'maintainer', label: 'Maintainer', description: 'Can respond as the team, assign, tag, close and delete threads and responses' },
+  { value: 'triager', label: 'Triager', description: 'Can assign, tag, close and reopen threads' },
+];
+
+export interface ProjectTeam {
+  ownerId: string;
+  memberRoles?: Record<string, MemberRole>;
+}
+
+export interface TeamMember {
+  userId: string;
+  role: ProjectRole;
+  displayName?: string;
+  email?: string;
+}
+
+/**
+ * Gets the role a user has on a project
+ *
+ * @param project Project with its owner and member roles
+ * @param userId ID of the user to check, if any
+ * @returns The user's role, or null if they are not on the team
+ */
+export const getProjectRole = (project: ProjectTeam, userId?: string | null): ProjectRole | null => {
+  if (!userId) return null;
+  if (project.ownerId === userId) return 'owner';
+  return project.memberRoles?.[userId] || null;
+};
+
+/**
+ * Checks whether a user's role on a project grants a permission
+ *
+ * @param project Project with its owner and member roles
+ * @param userId ID of the user to check, if any
+ * @param permission The permission needed
+ * @returns True if the user may perform the action
+ */
+export const hasProjectPermission = (
+  project: ProjectTeam,
+  userId: string | null | undefined,
+  permission: ProjectPermission
+): boolean => {
+  const role = getProjectRole(project, userId);
+  return !!role && rolePermissions[role].includes(permission);
+};
+
+/**
+ * Gets the display label for a role
+ */
+export const getRoleLabel = (role: ProjectRole): string => {
+  return projectRoles.find((projectRole) => projectRole.value === role)?.label || role;
+};
+
+/**
+ * Fetches everyone on a project team, owner first. Member documents are only
+ * readable by the team, so call this for signed-in team members. The owner's email
+ * address is private, so only the members' are included.
+ *
+ * @param projectId ID of the project
+ * @param ownerId ID of the project owner
+ * @returns Promise resolving to the team members with their names and, for members, emails
+ */
+export const fetchProjectTeam = async (projectId: string, ownerId: string): Promise<TeamMember[]> => {
+  const [ownerDoc, membersSnapshot] = await Promise.all([
+    getDoc(doc(db, 'users', ownerId)),
+    getDocs(collection(db, 'projects', projectId, 'members')),
+  ]);
+
+  const owner: TeamMember = {
+    userId: ownerId,
+    role: 'owner',
+    displayName: ownerDoc.data()?.displayName || undefined,
+  };
+
+  const members = membersSnapshot.docs.map((memberDoc) => ({
+    userId: memberDoc.id,
+    role: memberDoc.data().role as MemberRole,
+    displayName: memberDoc.data().displayName || undefined,
+    email: memberDoc.data().email || undefined,
+  }));
+
+  return [owner, ...members];
+};
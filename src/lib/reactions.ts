@@ -0,0 +1,33 @@
+/**
+ * Votes and reactions
+ * Visitors can vote for a thread and react to responses with an emoji, once per user or
+ * anonymous ID. The thread API worker stores them by name and keeps the totals on the
+ * thread and response documents.
+ */
+
+export type ReactionType = 'thumbs-up' | 'thumbs-down' | 'laugh' | 'hooray' | 'confused' | 'heart' | 'rocket' | 'eyes';
+
+// The reactions offered under each response, in display order. The worker accepts the
+// same names in its lib/votes.ts.
+export const reactionTypes: Array<{ value: ReactionType; emoji: string; label: string }> = [
+  { value: 'thumbs-up', emoji: '👍', label: 'Thumbs up' },
+  { value: 'thumbs-down', emoji: '👎', label: 'Thumbs down' },
+  { value: 'laugh', emoji: '😄', label: 'Laugh' },
+  { value: 'hooray', emoji: '🎉', label: 'Hooray' },
+  { value: 'confused', emoji: '😕', label: 'Confused' },
+  { value: 'heart', emoji: '❤️', label: 'Heart' },
+  { value: 'rocket', emoji: '🚀', label: 'Rocket' },
+  { value: 'eyes', emoji: '👀', label: 'Eyes' },
+];
+
+/**
+ * Adds or removes one reaction from a response's counts, for showing a change before
+ * the worker has confirmed it
+ */
+export const adjustReactionCounts = (
+  counts: Record<string, number>,
+  reaction: ReactionType,
+  amount: number
+): Record<string, number> => {
+  return { ...counts, [reaction]: Math.max(0, (counts[reaction] || 0) + amount) };
+};
@@ -0,0 +1,144 @@
+/**
+ * Public roadmap
+ * A project's feature requests grouped into columns by status and ordered by votes. The
+ * roadmap shows threads with the project's roadmap tag and threads closed to the feature
+ * backlog; the thread API worker maps columns to statuses the same way in its lib/roadmap.ts.
+ */
+
+import { collection, query, where, orderBy, limit, getDocs, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from './firebase';
+import { getProjectTags, getThreadTags, ProjectTag } from './projectTags';
+import { ClosingReason, ThreadStatus } from './threadStatus';
+
+export type RoadmapColumn = 'under-consideration' | 'planned' | 'in-progress' | 'shipped';
+
+// Class names are spelled out in full so Tailwind keeps them in the build
+export const roadmapColumns: Array<{ value: RoadmapColumn; label: string; description: string; accent: string }> = [
+  { value: 'under-consideration', label: 'Under consideration', description: 'Ideas the team is weighing up', accent: 'border-t-gray-400' },
+  { value: 'planned', label: 'Planned', description: 'Accepted and scheduled for later', accent: 'border-t-purple-500' },
+  { value: 'in-progress', label: 'In progress', description: 'Being built right now', accent: 'border-t-yellow-500' },
+  { value: 'shipped', label: 'Shipped', description: 'Done and released', accent: 'border-t-green-500' },
+];
+
+// The tag that puts a thread on the roadmap of projects that haven't picked one
+const DEFAULT_ROADMAP_TAG = 'feature';
+
+/**
+ * Gets the tag that puts a project's threads on its roadmap, or null when the project has
+ * no roadmap: the owner turned it off, or the tag is no longer one of the project's tags
+ */
+export const getRoadmapTag = (projectData: { tags?: ProjectTag[]; roadmapTag?: string | null }): string | null => {
+  const tag = projectData.roadmapTag === undefined ? DEFAULT_ROADMAP_TAG : projectData.roadmapTag;
+  return tag && getProjectTags(projectData).some((projectTag) => projectTag.value === tag) ? tag : null;
+};
+
+// Most threads read for each of the roadmap's queries
+const ROADMAP_QUERY_LIMIT = 200;
+
+export interface RoadmapCard {
+  id: string;
+  title: string;
+  status: ThreadStatus;
+  closingReason?: ClosingReason;
+  tags: string[];
+  voteCount: number;
+  responseCount: number;
+  createdAt: Date;
+}
+
+/**
+ * The column a thread shows in, or null for threads closed for any reason but solved or
+ * moved to the feature backlog
+ */
+export const getRoadmapColumn = (thread: { status: ThreadStatus; closingReason?: ClosingReason }): RoadmapColumn | null => {
+  switch (thread.status) {
+    case 'planned':
+      return 'planned';
+    case 'in-progress':
+      return 'in-progress';
+    case 'closed':
+      if (thread.closingReason === 'solved') return 'shipped';
+      return thread.closingReason === 'feature backlog' ? 'under-consideration' : null;
+    default:
+      return 'under-consideration';
+  }
+};
+
+// The status a thread gets when it is moved to a column
+const columnStatuses: Record<RoadmapColumn, { status: ThreadStatus; closingReason?: ClosingReason }> = {
+  'under-consideration': { status: 'triaged' },
+  planned: { status: 'planned' },
+  'in-progress': { status: 'in-progress' },
+  shipped: { status: 'closed', closingReason: 'solved' },
+};
+
+/**
+ * A card as it is after being moved to another column
+ */
+export const moveRoadmapCard = (card: RoadmapCard, column: RoadmapColumn): RoadmapCard => {
+  return { ...card, closingReason: undefined, ...columnStatuses[column] };
+};
+
+/**
+ * Orders cards by votes, most first, and newest first among cards with as many votes
+ */
+export const sortRoadmapCards = (cards: RoadmapCard[]): RoadmapCard[] => {
+  return [...cards].sort((a, b) => b.voteCount - a.voteCount || b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+const toRoadmapCard = (threadDoc: QueryDocumentSnapshot): RoadmapCard => {
+  const data = threadDoc.data();
+  return {
+    id: threadDoc.id,
+    title: data.title,
+    status: data.status,
+    closingReason: data.closingReason || undefined,
+    tags: getThreadTags(data),
+    voteCount: data.voteCount || 0,
+    responseCount: data.responseCount || 0,
+    createdAt: data.createdAt?.toDate() || new Date(),
+  };
+};
+
+/**
+ * Loads a project's roadmap: its threads with the roadmap tag and the threads closed to
+ * the feature backlog, grouped by column with the most voted first
+ */
+export const fetchRoadmap = async (projectId: string, roadmapTag: string): Promise<Record<RoadmapColumn, RoadmapCard[]>> => {
+  const [featureSnapshot, backlogSnapshot] = await Promise.all([
+    getDocs(query(
+      collection(db, 'threads'),
+      where('projectId', '==', projectId),
+      where('tags', 'array-contains', roadmapTag),
+      orderBy('voteCount', 'desc'),
+      orderBy('createdAt', 'desc'),
+      limit(ROADMAP_QUERY_LIMIT)
+    )),
+    getDocs(query(
+      collection(db, 'threads'),
+      where('projectId', '==', projectId),
+      where('closingReason', '==', 'feature backlog'),
+      limit(ROADMAP_QUERY_LIMIT)
+    )),
+  ]);
+
+  // A feature thread closed to the backlog is found by both queries
+  const cards = new Map<string, RoadmapCard>();
+  [...featureSnapshot.docs, ...backlogSnapshot.docs].forEach((threadDoc) => cards.set(threadDoc.id, toRoadmapCard(threadDoc)));
+
+  const columns: Record<RoadmapColumn, RoadmapCard[]> = {
+    'under-consideration': [],
+    planned: [],
+    'in-progress': [],
+    shipped: [],
+  };
+  cards.forEach((card) => {
+    const column = getRoadmapColumn(card);
+    if (column) columns[column].push(card);
+  });
+
+  for (const column of roadmapColumns) {
+    columns[column.value] = sortRoadmapCards(columns[column.value]);
+  }
+  return columns;
+};
@@ -0,0 +1,188 @@
+/**
+ * Similar thread detection
+ * Compares a draft question against a project's existing threads so visitors can find an
+ * answered issue before filing a duplicate. Uses Gemini embeddings, falling back to a local
+ * TF-IDF comparison when embeddings are unavailable.
+ */
+
+import { collection, query, where, orderBy, limit, getDocs } from 'firebase/firestore';
+import { db } from './firebase';
+import { embedTexts } from './geminiService';
+import { ThreadStatus } from './threadStatus';
+
+// Only the most recent threads are compared, which keeps the embedding calls bounded
+const MAX_CANDIDATE_THREADS = 200;
+
+// Minimum similarity for a thread to be suggested, per method
+const EMBEDDING_THRESHOLD = 0.72;
+const TFIDF_THRESHOLD = 0.2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'have',
+  'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or', 'so', 'that', 'the',
+  'there', 'this', 'to', 'was', 'what', 'when', 'why', 'with', 'you', 'your'
+]);
+
+export interface SimilarThread {
+  id: string;
+  title: string;
+  status: ThreadStatus;
+  closingReason?: string;
+  responseCount: number;
+  similarity: number;
+}
+
+interface CandidateThread extends Omit<SimilarThread, 'similarity'> {
+  text: string;
+}
+
+interface ProjectCorpus {
+  threads: CandidateThread[];
+  // Filled in lazily the first time embeddings are used
+  embeddings?: number[][];
+}
+
+// Threads and their embeddings are loaded once per project per page load
+const corpusCache = new Map<string, Promise<ProjectCorpus>>();
+
+// Set after an embedding request fails, e.g. without an API key, so later drafts go straight to TF-IDF
+let embeddingsUnavailable = false;
+
+const loadCorpus = (projectId: string): Promise<ProjectCorpus> => {
+  let corpus = corpusCache.get(projectId);
+
+  if (!corpus) {
+    corpus = (async () => {
+      const q = query(
+        collection(db, 'threads'),
+        where('projectId', '==', projectId),
+        orderBy('createdAt', 'desc'),
+        limit(MAX_CANDIDATE_THREADS)
+      );
+
+      const querySnapshot = await getDocs(q);
+      // Duplicates are left out in favour of the threads they point to
+      const threads = querySnapshot.docs
+        .filter((threadDoc) => threadDoc.data().closingReason !== 'duplicate')
+        .map((threadDoc) => {
+          const data = threadDoc.data();
+          return {
+            id: threadDoc.id,
+            title: data.title,
+            status: data.status,
+            closingReason: data.closingReason || undefined,
+            responseCount: data.responseCount || 0,
+            text: `${data.title}\n${data.content}`,
+          };
+        });
+
+      return { threads };
+    })();
+
+    // Let a failed load be retried on the next call
+    corpus.catch(() => corpusCache.delete(projectId));
+    corpusCache.set(projectId, corpus);
+  }
+
+  return corpus;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const tokenize = (text: string): string[] => {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+};
+
+/**
+ * Scores each thread against the draft with TF-IDF weighted cosine similarity
+ */
+const tfidfSimilarities = (draft: string, threads: CandidateThread[]): number[] => {
+  const documents = threads.map((thread) => tokenize(thread.text));
+  const draftTerms = tokenize(draft);
+
+  // Document frequency of each term, counting the draft as a document too
+  const documentFrequency = new Map<string, number>();
+  for (const terms of [...documents, draftTerms]) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const documentCount = documents.length + 1;
+  const vocabulary = [...documentFrequency.keys()];
+  const vocabularyIndex = new Map(vocabulary.map((term, i) => [term, i]));
+
+  const toVector = (terms: string[]): number[] => {
+    const vector = new Array(vocabulary.length).fill(0);
+    for (const term of terms) {
+      vector[vocabularyIndex.get(term)!] += 1;
+    }
+    return vector.map((count, i) => (count ? count * Math.log(documentCount / documentFrequency.get(vocabulary[i])!) : 0));
+  };
+
+  const draftVector = toVector(draftTerms);
+  return documents.map((terms) => cosineSimilarity(draftVector, toVector(terms)));
+};
+
+/**
+ * Scores each thread against the draft with Gemini embeddings
+ */
+const embeddingSimilarities = async (draft: string, corpus: ProjectCorpus): Promise<number[]> => {
+  if (!corpus.embeddings) {
+    corpus.embeddings = await embedTexts(corpus.threads.map((thread) => thread.text));
+  }
+
+  const [draftEmbedding] = await embedTexts([draft]);
+  return corpus.embeddings.map((embedding) => cosineSimilarity(draftEmbedding, embedding));
+};
+
+/**
+ * Finds existing threads in a project that look like the draft being written
+ *
+ * @param projectId ID of the project
+ * @param draft Title and description written so far
+ * @param maxResults Maximum number of threads to return
+ * @returns Promise resolving to the most similar threads, most similar first
+ */
+export const findSimilarThreads = async (projectId: string, draft: string, maxResults = 5): Promise<SimilarThread[]> => {
+  const corpus = await loadCorpus(projectId);
+  if (corpus.threads.length === 0) {
+    return [];
+  }
+
+  let embeddingScores: number[] | null = null;
+  if (!embeddingsUnavailable) {
+    try {
+      embeddingScores = await embeddingSimilarities(draft, corpus);
+    } catch (error) {
+      console.error('Error comparing embeddings, falling back to TF-IDF:', error);
+      embeddingsUnavailable = true;
+    }
+  }
+
+  const similarities = embeddingScores || tfidfSimilarities(draft, corpus.threads);
+  const threshold = embeddingScores ? EMBEDDING_THRESHOLD : TFIDF_THRESHOLD;
+
+  return corpus.threads
+    .map((thread, i) => ({
+      id: thread.id,
+      title: thread.title,
+      status: thread.status,
+      closingReason: thread.closingReason,
+      responseCount: thread.responseCount,
+      similarity: similarities[i],
+    }))
+    .filter((thread) => thread.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, maxResults);
+};
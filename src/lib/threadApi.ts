@@ -0,0 +1,398 @@
+/**
+ * Thread API service
+ * Sends thread, response and project team writes to the thread-api worker, which
+ * validates them and stamps author identity, roles and counters server-side
+ */
+
+import { auth } from './firebase';
+import { getAnonymousToken, getAnonymousUserId, getAnonymousUserName } from './userUtils';
+import { MemberRole } from './projectTeam';
+import { ProjectTag } from './projectTags';
+import { ActiveThreadStatus, ClosingReason, ThreadStatus } from './threadStatus';
+import { Attachment } from './attachments';
+import { ReactionType } from './reactions';
+import { RoadmapColumn } from './roadmap';
+
+const THREAD_API_URL = import.meta.env.VITE_THREAD_API_URL;
+
+interface ApiResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Calls the thread API, attaching the signed-in user's ID token when there is one
+ *
+ * @param path API path, e.g. /api/threads
+ * @param method HTTP method
+ * @param body Optional JSON body
+ * @param extraHeaders Optional headers to send along
+ * @returns Promise resolving to the parsed response, rejecting with the API error message
+ */
+const apiRequest = async <T extends ApiResult>(
+  path: string,
+  method: string,
+  body?: object,
+  extraHeaders: Record<string, string> = {}
+): Promise<T> => {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...extraHeaders,
+  };
+
+  const idToken = await auth.currentUser?.getIdToken();
+  if (idToken) {
+    headers.Authorization = `Bearer ${idToken}`;
+  }
+
+  const response = await fetch(`${THREAD_API_URL}${path}`, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const result = await response.json().catch(() => null) as T | null;
+
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `Request failed with status ${response.status}`);
+  }
+
+  return result;
+};
+
+/**
+ * Identity fields for visitors who are not signed in. Signed-in users are
+ * identified by their ID token instead.
+ */
+const anonymousAuthor = () => {
+  if (auth.currentUser) {
+    return {};
+  }
+
+  return {
+    anonymousId: getAnonymousUserId(),
+    anonymousToken: getAnonymousToken(),
+    authorName: getAnonymousUserName(),
+  };
+};
+
+/**
+ * Creates a new thread in a project
+ *
+ * @returns Promise resolving to the new thread's ID
+ */
+export const createThread = async (data: {
+  projectId: string;
+  title: string;
+  content: string;
+  tags: string[];
+  attachments?: Attachment[];
+}): Promise<string> => {
+  const result = await apiRequest<ApiResult & { id: string }>('/api/threads', 'POST', {
+    ...data,
+    ...anonymousAuthor(),
+  });
+  return result.id;
+};
+
+/**
+ * Closes a thread with a reason (team members who can close threads)
+ *
+ * @param duplicateOf ID of the thread this one duplicates, required when closing as a duplicate
+ * @returns Promise resolving to the original thread a duplicate was linked to, or null
+ */
+export const closeThread = async (
+  threadId: string,
+  closingReason: ClosingReason,
+  closingNote?: string,
+  duplicateOf?: string
+): Promise<string | null> => {
+  const result = await apiRequest<ApiResult & { duplicateOf: string | null }>(`/api/threads/${threadId}`, 'PATCH', {
+    status: 'closed',
+    closingReason,
+    closingNote: closingNote || undefined,
+    duplicateOf,
+  });
+  return result.duplicateOf;
+};
+
+/**
+ * Moves a thread to another open status, or reopens a closed thread as 'open'
+ */
+export const updateThreadStatus = async (threadId: string, status: ActiveThreadStatus): Promise<void> => {
+  await apiRequest(`/api/threads/${threadId}`, 'PATCH', { status });
+};
+
+/**
+ * Moves a thread to another column of the roadmap (team members who can close threads),
+ * changing its status to match
+ */
+export const moveOnRoadmap = async (threadId: string, column: RoadmapColumn): Promise<void> => {
+  await apiRequest(`/api/threads/${threadId}/roadmap`, 'PUT', { column });
+};
+
+/**
+ * Assigns a thread to a member of the project team, or unassigns it with null
+ */
+export const assignThread = async (threadId: string, assigneeId: string | null): Promise<void> => {
+  await apiRequest(`/api/threads/${threadId}/assignee`, 'PUT', { assigneeId });
+};
+
+/**
+ * Replaces the tags of a thread (team members who can triage)
+ */
+export const updateThreadTags = async (threadId: string, tags: string[]): Promise<void> => {
+  await apiRequest(`/api/threads/${threadId}/tags`, 'PUT', { tags });
+};
+
+/**
+ * Edits the title and content of one of your own threads. Authors can only do so within
+ * the edit window after posting.
+ */
+export const updateThread = async (threadId: string, data: { title: string; content: string }): Promise<void> => {
+  const { anonymousToken } = anonymousAuthor();
+  await apiRequest(`/api/threads/${threadId}/content`, 'PUT', { ...data, anonymousToken });
+};
+
+/**
+ * Deletes a thread and all of its responses (team members who can delete threads, or the
+ * author within the edit window)
+ */
+export const deleteThread = async (threadId: string): Promise<void> => {
+  const { anonymousToken } = anonymousAuthor();
+  await apiRequest(`/api/threads/${threadId}`, 'DELETE', { anonymousToken });
+};
+
+/**
+ * Adds a response to a thread
+ *
+ * @returns Promise resolving to the new response's ID and whether it was posted as the founder
+ */
+export const createResponse = async (
+  threadId: string,
+  content: string,
+  attachments: Attachment[] = []
+): Promise<{ id: string; isFounder: boolean }> => {
+  const result = await apiRequest<ApiResult & { id: string; isFounder: boolean }>(
+    `/api/threads/${threadId}/responses`,
+    'POST',
+    { content, attachments, ...anonymousAuthor() }
+  );
+  return { id: result.id, isFounder: result.isFounder };
+};
+
+/**
+ * Edits the content of one of your own responses within the edit window
+ */
+export const updateResponse = async (responseId: string, content: string): Promise<void> => {
+  const { anonymousToken } = anonymousAuthor();
+  await apiRequest(`/api/responses/${responseId}`, 'PATCH', { content, anonymousToken });
+};
+
+/**
+ * Deletes a response (team members who can delete threads, or the author within the edit window)
+ */
+export const deleteResponse = async (responseId: string): Promise<void> => {
+  const { anonymousToken } = anonymousAuthor();
+  await apiRequest(`/api/responses/${responseId}`, 'DELETE', { anonymousToken });
+};
+
+/**
+ * Finds out whether the current visitor voted for a thread and how they reacted to its responses
+ *
+ * @returns Promise resolving to the vote and the reactions by response ID
+ */
+export const fetchMyVotes = async (threadId: string): Promise<{ voted: boolean; reactions: Record<string, ReactionType[]> }> => {
+  const { anonymousToken } = anonymousAuthor();
+  const result = await apiRequest<ApiResult & { voted: boolean; reactions: Record<string, ReactionType[]> }>(
+    `/api/threads/${threadId}/my-votes`,
+    'GET',
+    undefined,
+    anonymousToken ? { 'X-Anonymous-Token': anonymousToken } : {}
+  );
+  return { voted: result.voted, reactions: result.reactions };
+};
+
+/**
+ * Votes for a thread, or takes the vote back. Each user or anonymous visitor has one vote.
+ */
+export const setThreadVote = async (threadId: string, voted: boolean): Promise<void> => {
+  const { anonymousToken } = anonymousAuthor();
+  await apiRequest(`/api/threads/${threadId}/vote`, voted ? 'PUT' : 'DELETE', { anonymousToken });
+};
+
+/**
+ * Adds or removes one of the current visitor's reactions to a response
+ */
+export const setResponseReaction = async (responseId: string, reaction: ReactionType, reacted: boolean): Promise<void> => {
+  const { anonymousToken } = anonymousAuthor();
+  await apiRequest(`/api/responses/${responseId}/reactions/${reaction}`, reacted ? 'PUT' : 'DELETE', { anonymousToken });
+};
+
+/**
+ * Moves threads and responses posted anonymously from this browser to the signed-in user
+ *
+ * @returns Promise resolving to the number of transferred items
+ */
+export const transferAnonymousData = async (anonymousToken: string): Promise<number> => {
+  const result = await apiRequest<ApiResult & { transferred: number }>('/api/anonymous-transfer', 'POST', { anonymousToken });
+  return result.transferred;
+};
+
+/**
+ * Saves the signed-in user's verified email address as the one notifications go to. The
+ * thread API takes it from the ID token, so it fails for addresses not verified yet.
+ */
+export const saveContactEmail = async (): Promise<void> => {
+  await apiRequest<ApiResult>('/api/users/me/contact', 'PUT');
+};
+
+export interface ThreadSearchResult {
+  threadId: string;
+  title: string;
+  status: ThreadStatus;
+  tags: string[];
+  responseCount: number;
+  voteCount: number;
+  createdAt: Date | null;
+  // [start, end) character ranges of the words that matched
+  titleHighlights: Array<[number, number]>;
+  snippet: string;
+  snippetHighlights: Array<[number, number]>;
+}
+
+/**
+ * Searches a project's threads and their responses. Supports "quoted phrases" and prefix* terms.
+ *
+ * @param filters Optional status ('active' for any but closed) and tags the matching threads must have,
+ * needing any of the tags unless tagMatch is 'all'
+ * @returns Promise resolving to the matching threads, best match first
+ */
+export const searchThreads = async (
+  projectId: string,
+  query: string,
+  filters: { status?: ThreadStatus | 'active'; tags?: string[]; tagMatch?: 'any' | 'all' } = {}
+): Promise<ThreadSearchResult[]> => {
+  const params = new URLSearchParams({ q: query });
+  if (filters.status) params.set('status', filters.status);
+  if (filters.tags && filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+  if (filters.tagMatch) params.set('tagMatch', filters.tagMatch);
+  const result = await apiRequest<ApiResult & { results: Array<Omit<ThreadSearchResult, 'createdAt'> & { createdAt: string | null }> }>(
+    `/api/projects/${projectId}/search?${params}`,
+    'GET'
+  );
+  return result.results.map((searchResult) => ({
+    ...searchResult,
+    createdAt: searchResult.createdAt ? new Date(searchResult.createdAt) : null,
+  }));
+};
+
+/**
+ * Invites someone to a project team and emails them the link to accept (owner only)
+ *
+ * @returns Promise resolving to the new invitation's ID and whether the email was sent
+ */
+export const inviteTeamMember = async (
+  projectId: string,
+  email: string,
+  role: MemberRole
+): Promise<{ id: string; emailSent: boolean }> => {
+  const result = await apiRequest<ApiResult & { id: string; emailSent: boolean }>(`/api/projects/${projectId}/invitations`, 'POST', {
+    email,
+    role,
+  });
+  return { id: result.id, emailSent: result.emailSent };
+};
+
+/**
+ * Withdraws a pending team invitation (owner only)
+ */
+export const revokeInvitation = async (projectId: string, invitationId: string): Promise<void> => {
+  await apiRequest(`/api/projects/${projectId}/invitations/${invitationId}`, 'DELETE');
+};
+
+/**
+ * Joins a project team with an invitation sent to the signed-in user's email
+ */
+export const acceptInvitation = async (projectId: string, invitationId: string): Promise<void> => {
+  await apiRequest(`/api/projects/${projectId}/invitations/${invitationId}/accept`, 'POST');
+};
+
+/**
+ * Changes a team member's role (owner only)
+ */
+export const updateMemberRole = async (projectId: string, userId: string, role: MemberRole): Promise<void> => {
+  await apiRequest(`/api/projects/${projectId}/members/${userId}`, 'PATCH', { role });
+};
+
+/**
+ * Removes a member from a project team, or leaves it when called with your own ID
+ */
+export const removeTeamMember = async (projectId: string, userId: string): Promise<void> => {
+  await apiRequest(`/api/projects/${projectId}/members/${userId}`, 'DELETE');
+};
+
+/**
+ * Replaces a project's tags (owner only). On threads, removed tags are replaced by
+ * `replacementTag`, or by the first of the new tags when none is given.
+ *
+ * @param roadmapTag The tag of the threads on the roadmap, null for no roadmap, or undefined to keep it
+ * @returns Promise resolving to the number of threads that were retagged
+ */
+export const updateProjectTags = async (
+  projectId: string,
+  tags: ProjectTag[],
+  replacementTag?: string,
+  roadmapTag?: string | null
+): Promise<number> => {
+  const result = await apiRequest<ApiResult & { migrated: number }>(`/api/projects/${projectId}/tags`, 'PUT', {
+    tags,
+    replacementTag,
+    roadmapTag,
+  });
+  return result.migrated;
+};
+
+// The fields of a changelog entry the owner writes
+export interface ChangelogEntryInput {
+  title: string;
+  content: string;
+  version?: string;
+  // Threads closed as solved that the release resolves
+  threadIds: string[];
+  // Takes a draft live; published entries stay published
+  publish: boolean;
+}
+
+/**
+ * Writes a changelog entry (owner only)
+ *
+ * @returns Promise resolving to the new entry's ID and whether it went live
+ */
+export const createChangelogEntry = async (
+  projectId: string,
+  entry: ChangelogEntryInput
+): Promise<{ id: string; published: boolean }> => {
+  const result = await apiRequest<ApiResult & { id: string; published: boolean }>('/api/changelog', 'POST', {
+    projectId,
+    ...entry,
+  });
+  return { id: result.id, published: result.published };
+};
+
+/**
+ * Edits a changelog entry or publishes a draft (owner only)
+ *
+ * @returns Promise resolving to true if this edit took the entry live
+ */
+export const updateChangelogEntry = async (entryId: string, entry: ChangelogEntryInput): Promise<boolean> => {
+  const result = await apiRequest<ApiResult & { published: boolean }>(`/api/changelog/${entryId}`, 'PATCH', entry);
+  return result.published;
+};
+
+/**
+ * Deletes a changelog entry (owner only)
+ */
+export const deleteChangelogEntry = async (entryId: string): Promise<void> => {
+  await apiRequest(`/api/changelog/${entryId}`, 'DELETE');
+};
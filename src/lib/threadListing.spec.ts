@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchThreadPage } from './threadListing';
+
+interface StoredThread {
+  id: string;
+  data: Record<string, unknown>;
+}
+
+type Constraint =
+  | { kind: 'where'; field: string; op: string; value: unknown }
+  | { kind: 'orderBy'; field: string; direction: 'asc' | 'desc' }
+  | { kind: 'limit' | 'limitToLast'; count: number }
+  | { kind: 'startAfter' | 'endBefore'; snapshot: { id: string; data: () => Record<string, unknown> } };
+
+// The threads collection, queried by the stand-in for Firestore below
+const store = vi.hoisted(() => ({ threads: [] as StoredThread[], queries: 0 }));
+
+vi.mock('./firebase', () => ({ db: {} }));
+
+// Runs queries on the stored threads the way Firestore does, cursors included
+vi.mock('firebase/firestore', () => {
+  const sortValue = (value: unknown) => {
+    const timestamp = value as { toDate?: () => Date } | undefined;
+    return timestamp?.toDate ? timestamp.toDate().getTime() : (value as number);
+  };
+
+  const snapshot = (thread: StoredThread) => ({ id: thread.id, data: () => thread.data });
+
+  const matches = (thread: StoredThread, constraint: Extract<Constraint, { kind: 'where' }>) => {
+    const value = thread.data[constraint.field];
+    switch (constraint.op) {
+      case '==':
+        return value === constraint.value;
+      case 'in':
+        return (constraint.value as unknown[]).includes(value);
+      case 'array-contains':
+        return ((value as unknown[]) || []).includes(constraint.value);
+      case 'array-contains-any':
+        return ((value as unknown[]) || []).some((item) => (constraint.value as unknown[]).includes(item));
+      default:
+        throw new Error(`Unsupported operator ${constraint.op}`);
+    }
+  };
+
+  return {
+    collection: () => 'threads',
+    doc: (_db: unknown, _collection: string, id: string) => id,
+    query: (_collection: string, ...constraints: Constraint[]) => constraints,
+    where: (field: string, op: string, value: unknown) => ({ kind: 'where', field, op, value }),
+    orderBy: (field: string, direction: 'asc' | 'desc' = 'asc') => ({ kind: 'orderBy', field, direction }),
+    limit: (count: number) => ({ kind: 'limit', count }),
+    limitToLast: (count: number) => ({ kind: 'limitToLast', count }),
+    startAfter: (cursor: Constraint) => ({ kind: 'startAfter', snapshot: cursor }),
+    endBefore: (cursor: Constraint) => ({ kind: 'endBefore', snapshot: cursor }),
+    getDoc: async (id: string) => {
+      const thread = store.threads.find((candidate) => candidate.id === id);
+      return { id, exists: () => !!thread, data: () => thread?.data };
+    },
+    getDocs: async (constraints: Constraint[]) => {
+      store.queries++;
+      const orders = constraints.filter((constraint) => constraint.kind === 'orderBy');
+      // Ties are broken by document ID, in the direction of the last order
+      const compare = (a: Record<string, unknown> & { id: string }, b: Record<string, unknown> & { id: string }) => {
+        for (const { field, direction } of orders) {
+          const difference = sortValue(a[field]) - sortValue(b[field]);
+          if (difference !== 0) return direction === 'desc' ? -difference : difference;
+        }
+        const idOrder = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+        return orders[orders.length - 1]?.direction === 'desc' ? -idOrder : idOrder;
+      };
+      const position = (thread: { id: string; data: () => Record<string, unknown> }) => ({ ...thread.data(), id: thread.id });
+
+      let threads = store.threads
+        .filter((thread) => constraints.every((constraint) => constraint.kind !== 'where' || matches(thread, constraint)))
+        .sort((a, b) => compare(position(snapshot(a)), position(snapshot(b))));
+
+      for (const constraint of constraints) {
+        if (constraint.kind === 'startAfter') {
+          threads = threads.filter((thread) => compare(position(snapshot(thread)), position(constraint.snapshot)) > 0);
+        } else if (constraint.kind === 'endBefore') {
+          threads = threads.filter((thread) => compare(position(snapshot(thread)), position(constraint.snapshot)) < 0);
+        }
+      }
+      for (const constraint of constraints) {
+        if (constraint.kind === 'limit') threads = threads.slice(0, constraint.count);
+        if (constraint.kind === 'limitToLast') threads = threads.slice(-constraint.count);
+      }
+
+      return { docs: threads.map(snapshot) };
+    },
+  };
+});
+
+// Thread `t1` is the oldest
+const storeThreads = (threads: Array<{ tags?: string[]; status?: string; projectId?: string }>) => {
+  store.threads = threads.map((thread, i) => ({
+    id: `t${i + 1}`,
+    data: {
+      projectId: 'project1',
+      status: 'open',
+      tags: ['bug'],
+      title: `Thread ${i + 1}`,
+      createdAt: { toDate: () => new Date(2025, 0, i + 1) },
+      ...thread,
+    },
+  }));
+};
+
+const ids = (page: { threads: Array<{ id: string }> }) => page.threads.map((thread) => thread.id);
+
+describe('fetchThreadPage', () => {
+  beforeEach(() => {
+    storeThreads([{}, {}, {}, {}, {}]);
+    store.queries = 0;
+  });
+
+  it('starts with the newest threads and a cursor to the older ones', async () => {
+    const page = await fetchThreadPage('project1', {}, undefined, 2);
+    expect(ids(page)).toEqual(['t5', 't4']);
+    expect(page.newerCursor).toBeNull();
+    expect(page.olderCursor).toBe('t4');
+  });
+
+  it('pages to older threads after the cursor', async () => {
+    const page = await fetchThreadPage('project1', {}, { after: 't4' }, 2);
+    expect(ids(page)).toEqual(['t3', 't2']);
+    expect(page.newerCursor).toBe('t3');
+    expect(page.olderCursor).toBe('t2');
+  });
+
+  it('has no older cursor on the last page', async () => {
+    const page = await fetchThreadPage('project1', {}, { after: 't2' }, 2);
+    expect(ids(page)).toEqual(['t1']);
+    expect(page.newerCursor).toBe('t1');
+    expect(page.olderCursor).toBeNull();
+  });
+
+  it('pages back to newer threads before the cursor', async () => {
+    const page = await fetchThreadPage('project1', {}, { before: 't1' }, 2);
+    expect(ids(page)).toEqual(['t3', 't2']);
+    expect(page.newerCursor).toBe('t3');
+    expect(page.olderCursor).toBe('t2');
+  });
+
+  it('pages back onto a full first page', async () => {
+    const page = await fetchThreadPage('project1', {}, { before: 't3' }, 2);
+    expect(ids(page)).toEqual(['t5', 't4']);
+    expect(page.newerCursor).toBeNull();
+    expect(page.olderCursor).toBe('t4');
+  });
+
+  it('falls back to the first page when the cursor thread was deleted', async () => {
+    const page = await fetchThreadPage('project1', {}, { after: 'deleted' }, 2);
+    expect(ids(page)).toEqual(['t5', 't4']);
+    expect(page.newerCursor).toBeNull();
+  });
+
+  it('falls back to the first page when nothing is left past the cursor', async () => {
+    const page = await fetchThreadPage('project1', {}, { after: 't1' }, 2);
+    expect(ids(page)).toEqual(['t5', 't4']);
+  });
+
+  it('only lists threads of the project with the status', async () => {
+    storeThreads([{}, { status: 'closed' }, { projectId: 'project2' }, {}]);
+    const page = await fetchThreadPage('project1', { status: 'active' }, undefined, 5);
+    expect(ids(page)).toEqual(['t4', 't1']);
+    expect(page.olderCursor).toBeNull();
+  });
+
+  it('narrows threads down to all of the tags, paging past the ones that lack some', async () => {
+    storeThreads([{ tags: ['bug', 'ui'] }, { tags: ['ui'] }, { tags: ['bug', 'ui'] }, { tags: ['bug'] }, { tags: ['ui', 'bug'] }]);
+
+    const first = await fetchThreadPage('project1', { tags: ['bug', 'ui'], tagMatch: 'all' }, undefined, 2);
+    expect(ids(first)).toEqual(['t5', 't3']);
+    expect(first.olderCursor).toBe('t3');
+
+    const second = await fetchThreadPage('project1', { tags: ['bug', 'ui'], tagMatch: 'all' }, { after: first.olderCursor! }, 2);
+    expect(ids(second)).toEqual(['t1']);
+    expect(second.olderCursor).toBeNull();
+  });
+
+  it('lists threads with any of the tags by default, in one query', async () => {
+    storeThreads([{ tags: ['bug'] }, { tags: ['ui'] }, { tags: ['docs'] }]);
+    const page = await fetchThreadPage('project1', { tags: ['bug', 'ui'] }, undefined, 5);
+    expect(ids(page)).toEqual(['t2', 't1']);
+    expect(store.queries).toBe(1);
+  });
+});
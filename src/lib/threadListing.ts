@@ -0,0 +1,245 @@
+/**
+ * Thread listing queries
+ * Loads a project's threads one page at a time in the chosen order, with the status, tag
+ * and assignee filters applied by Firestore rather than in the browser. Firestore can only
+ * require one tag per query, so threads that need several tags are narrowed down here.
+ */
+
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  limitToLast,
+  startAfter,
+  endBefore,
+  getDocs,
+  getDoc,
+  doc,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { getThreadTags } from './projectTags';
+import { activeThreadStatuses, ThreadStatus } from './threadStatus';
+
+export const THREADS_PAGE_SIZE = 20;
+
+// Threads read per query while narrowing down to what a query can't filter, and the number of queries
+// made before settling for a partial page
+const TAG_SCAN_BATCH_SIZE = 100;
+const MAX_TAG_SCAN_BATCHES = 5;
+
+// Firestore's limit on the disjunctions an `in` and an `array-contains-any` filter
+// expand to together
+const MAX_QUERY_DISJUNCTIONS = 30;
+
+export type ThreadSort = 'newest' | 'most-votes' | 'most-responses' | 'recently-updated' | 'oldest-unanswered';
+
+export const threadSorts: Array<{ value: ThreadSort; label: string }> = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'most-votes', label: 'Most votes' },
+  { value: 'most-responses', label: 'Most responses' },
+  { value: 'recently-updated', label: 'Recently updated' },
+  { value: 'oldest-unanswered', label: 'Oldest unanswered' },
+];
+
+export const isThreadSort = (value: string | null): value is ThreadSort => {
+  return threadSorts.some((sort) => sort.value === value);
+};
+
+// The query constraints behind each sort order
+const sortConstraints: Record<ThreadSort, () => QueryConstraint[]> = {
+  newest: () => [orderBy('createdAt', 'desc')],
+  'most-votes': () => [orderBy('voteCount', 'desc'), orderBy('createdAt', 'desc')],
+  'most-responses': () => [orderBy('responseCount', 'desc'), orderBy('createdAt', 'desc')],
+  'recently-updated': () => [orderBy('updatedAt', 'desc')],
+  // Threads still waiting for a first response, longest waiting first
+  'oldest-unanswered': () => [where('responseCount', '==', 0), orderBy('createdAt', 'asc')],
+};
+
+export interface ThreadSummary {
+  id: string;
+  title: string;
+  content: string;
+  status: ThreadStatus;
+  createdAt: Date;
+  updatedAt?: Date;
+  authorName: string;
+  authorId?: string;
+  tags: string[];
+  responseCount?: number;
+  voteCount?: number;
+  anonymousId?: string;
+  assigneeId?: string;
+}
+
+export type TagMatch = 'any' | 'all';
+
+export interface ThreadListOptions {
+  // A status, or 'active' for any status but closed
+  status?: ThreadStatus | 'active';
+  tags?: string[];
+  // Whether threads need all of the tags or any one of them (the default)
+  tagMatch?: TagMatch;
+  assigneeId?: string;
+  sort?: ThreadSort;
+}
+
+// A page starts right after one thread (older threads) or ends right before one (newer threads)
+export type ThreadCursor = { after: string } | { before: string };
+
+export interface ThreadListPage {
+  threads: ThreadSummary[];
+  // Thread IDs to page from, or null when there is nothing further in that direction
+  newerCursor: string | null;
+  olderCursor: string | null;
+}
+
+const toThreadSummary = (threadDoc: QueryDocumentSnapshot): ThreadSummary => {
+  const data = threadDoc.data();
+  return {
+    id: threadDoc.id,
+    title: data.title,
+    content: data.content,
+    status: data.status,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate(),
+    authorName: data.authorName,
+    authorId: data.authorId,
+    tags: getThreadTags(data),
+    responseCount: data.responseCount || 0,
+    voteCount: data.voteCount || 0,
+    anonymousId: data.anonymousId,
+    assigneeId: data.assigneeId || undefined,
+  };
+};
+
+/**
+ * Fetches one page of a project's threads. Each combination of a filter and a sort
+ * order is served by the composite indexes in firestore.indexes.json.
+ *
+ * @param projectId ID of the project
+ * @param options Status, tags and assignee to filter by, and the sort order (newest first by default)
+ * @param cursor Thread to page from, or undefined for the first page
+ * @param pageSize Number of threads per page
+ * @returns Promise resolving to the threads and the cursors for the neighbouring pages
+ */
+export const fetchThreadPage = async (
+  projectId: string,
+  options: ThreadListOptions,
+  cursor?: ThreadCursor,
+  pageSize = THREADS_PAGE_SIZE
+): Promise<ThreadListPage> => {
+  const constraints: QueryConstraint[] = [where('projectId', '==', projectId)];
+  const tags = options.tags || [];
+  const needsAllTags = tags.length > 1 && options.tagMatch === 'all';
+  // Active threads matching any of many tags are over the disjunction limit, so their
+  // status is checked below instead
+  const needsActiveCheck = options.status === 'active' && !needsAllTags &&
+    activeThreadStatuses.length * tags.length > MAX_QUERY_DISJUNCTIONS;
+  const scanning = needsAllTags || needsActiveCheck;
+
+  if (options.status === 'active') {
+    if (!needsActiveCheck) constraints.push(where('status', 'in', activeThreadStatuses));
+  } else if (options.status) {
+    constraints.push(where('status', '==', options.status));
+  }
+  if (tags.length > 0) {
+    // Threads needing all tags are queried by the first one and checked for the rest below
+    constraints.push(needsAllTags || tags.length === 1 ? where('tags', 'array-contains', tags[0]) : where('tags', 'array-contains-any', tags));
+  }
+  if (options.assigneeId) {
+    constraints.push(where('assigneeId', '==', options.assigneeId));
+  }
+
+  constraints.push(...sortConstraints[options.sort || 'newest']());
+
+  // Cursors are thread IDs so they can live in the URL; the document supplies the position
+  const cursorId = cursor && ('after' in cursor ? cursor.after : cursor.before);
+  const cursorDoc = cursorId ? await getDoc(doc(db, 'threads', cursorId)) : null;
+
+  if (cursorDoc && !cursorDoc.exists()) {
+    // The thread was deleted, so fall back to the first page
+    return fetchThreadPage(projectId, options, undefined, pageSize);
+  }
+
+  const pagingBack = !!cursor && 'before' in cursor;
+  const matches = (thread: ThreadSummary) =>
+    (!needsAllTags || tags.every((tag) => thread.tags.includes(tag))) &&
+    (!needsActiveCheck || thread.status !== 'closed');
+
+  // Read until there is one matching thread more than a page, to find out whether there is
+  // another page, or until the reads run out
+  const batchSize = scanning ? TAG_SCAN_BATCH_SIZE : pageSize + 1;
+  const maxBatches = scanning ? MAX_TAG_SCAN_BATCHES : 1;
+  const found: ThreadSummary[] = [];
+  // The newest and oldest threads read, matching or not
+  let newestRead: QueryDocumentSnapshot | null = null;
+  let oldestRead: QueryDocumentSnapshot | null = null;
+  let exhausted = false;
+
+  for (let batch = 0; batch < maxBatches && found.length <= pageSize && !exhausted; batch++) {
+    const boundary = pagingBack ? newestRead || cursorDoc : oldestRead || cursorDoc;
+    const batchConstraints = [...constraints];
+
+    // Fetch from the cursor outwards, towards newer threads when paging back
+    if (boundary && pagingBack) {
+      batchConstraints.push(endBefore(boundary), limitToLast(batchSize));
+    } else if (boundary) {
+      batchConstraints.push(startAfter(boundary), limit(batchSize));
+    } else {
+      batchConstraints.push(limit(batchSize));
+    }
+
+    const docs = (await getDocs(query(collection(db, 'threads'), ...batchConstraints))).docs;
+    exhausted = docs.length < batchSize;
+    if (docs.length === 0) break;
+
+    const threads = docs.map(toThreadSummary).filter(matches);
+    if (pagingBack) {
+      found.unshift(...threads);
+      newestRead = docs[0];
+      oldestRead = oldestRead || docs[docs.length - 1];
+    } else {
+      found.push(...threads);
+      newestRead = newestRead || docs[0];
+      oldestRead = docs[docs.length - 1];
+    }
+  }
+
+  if (pagingBack) {
+    // Paging back onto the newest threads is just the first page, filled up to a full page
+    if (exhausted && found.length <= pageSize) {
+      return fetchThreadPage(projectId, options, undefined, pageSize);
+    }
+
+    const pageThreads = found.slice(-pageSize);
+    return {
+      threads: pageThreads,
+      newerCursor: found.length > pageSize ? pageThreads[0].id : newestRead!.id,
+      olderCursor: oldestRead!.id,
+    };
+  }
+
+  // Nothing is left past the cursor, e.g. after the filters changed under a shared link
+  if (cursorDoc && found.length === 0 && exhausted) {
+    return fetchThreadPage(projectId, options, undefined, pageSize);
+  }
+
+  // Threads that were read but didn't match can serve as cursors too, as paging skips them anyway
+  const pageThreads = found.slice(0, pageSize);
+  let olderCursor: string | null = null;
+  if (found.length > pageSize) {
+    olderCursor = pageThreads[pageThreads.length - 1].id;
+  } else if (!exhausted && oldestRead) {
+    olderCursor = oldestRead.id;
+  }
+
+  return {
+    threads: pageThreads,
+    newerCursor: cursorDoc && newestRead ? newestRead.id : null,
+    olderCursor,
+  };
+};
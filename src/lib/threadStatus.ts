@@ -0,0 +1,46 @@
+/**
+ * The thread workflow: the statuses a thread moves through and which moves are allowed.
+ * The thread API worker enforces the same table in its lib/workflow.ts.
+ */
+
+export type ThreadStatus = 'open' | 'triaged' | 'in-progress' | 'needs-info' | 'planned' | 'closed';
+
+// Every status except closed counts as open for the project counters
+export type ActiveThreadStatus = Exclude<ThreadStatus, 'closed'>;
+
+export type ClosingReason = 'solved' | 'feature backlog' | 'duplicate' | 'other';
+
+// Class names are spelled out in full so Tailwind keeps them in the build
+export const threadStatuses: Array<{ value: ThreadStatus; label: string; description: string; badge: string }> = [
+  { value: 'open', label: 'Open', description: 'New and not looked at yet', badge: 'bg-blue-50 text-blue-600' },
+  { value: 'triaged', label: 'Triaged', description: 'Seen by the team and waiting to be picked up', badge: 'bg-indigo-50 text-indigo-600' },
+  { value: 'in-progress', label: 'In progress', description: 'Someone on the team is working on it', badge: 'bg-yellow-50 text-yellow-600' },
+  { value: 'needs-info', label: 'Waiting on reporter', description: 'The team needs more information to continue', badge: 'bg-orange-50 text-orange-600' },
+  { value: 'planned', label: 'Planned', description: 'Accepted and scheduled for later', badge: 'bg-purple-50 text-purple-600' },
+  { value: 'closed', label: 'Closed', description: 'Solved, moved to the backlog, a duplicate or otherwise done', badge: 'bg-green-50 text-green-600' },
+];
+
+// Statuses each status can move to. Closed threads are reopened as open.
+export const statusTransitions: Record<ThreadStatus, ThreadStatus[]> = {
+  open: ['triaged', 'in-progress', 'needs-info', 'planned', 'closed'],
+  triaged: ['in-progress', 'needs-info', 'planned', 'closed'],
+  'in-progress': ['triaged', 'needs-info', 'planned', 'closed'],
+  'needs-info': ['triaged', 'in-progress', 'closed'],
+  planned: ['triaged', 'in-progress', 'closed'],
+  closed: ['open'],
+};
+
+export const activeThreadStatuses = threadStatuses
+  .map((status) => status.value)
+  .filter((status): status is ActiveThreadStatus => status !== 'closed');
+
+export const isThreadStatus = (value: string | null): value is ThreadStatus => {
+  return threadStatuses.some((status) => status.value === value);
+};
+
+/**
+ * Gets the label, description and badge classes of a status. Unknown values are shown as open.
+ */
+export const getStatusConfig = (status: string) => {
+  return threadStatuses.find((config) => config.value === status) || threadStatuses[0];
+};
@@ -1,70 +1,29 @@
 /**
  * Utilities for transferring anonymous user data to authenticated users
  */
-import { collection, query, where, getDocs, writeBatch, doc } from 'firebase/firestore';
-import { db } from './firebase';
-import { getAnonymousUserId, clearAnonymousUserData } from './userUtils';
+import { clearAnonymousUserData, hasAnonymousIdentity, getAnonymousToken } from './userUtils';
+import { transferAnonymousData } from './threadApi';
 
 /**
- * Transfers all data (threads and responses) from an anonymous user to an authenticated user
+ * Transfers all data (threads and responses) from an anonymous user to the signed-in user
  * 
- * @param userId The authenticated user's ID
  * @returns Promise that resolves when the transfer is complete
  */
-export const transferAnonymousUserData = async (userId: string): Promise<{success: boolean; message: string}> => {
+export const transferAnonymousUserData = async (): Promise<{success: boolean; message: string}> => {
   try {
-    const anonymousId = getAnonymousUserId();
-    
-    // If no anonymous ID exists, nothing to transfer
-    if (!anonymousId) {
+    // If this browser never posted anonymously, nothing to transfer
+    if (!hasAnonymousIdentity()) {
       return { success: true, message: 'No anonymous data to transfer' };
     }
     
-    const batch = writeBatch(db);
-    let transferCount = 0;
-    
-    // Transfer threads
-    const threadsQuery = query(
-      collection(db, 'threads'),
-      where('anonymousId', '==', anonymousId)
-    );
-    
-    const threadsSnapshot = await getDocs(threadsQuery);
-    
-    threadsSnapshot.forEach(threadDoc => {
-      const threadRef = doc(db, 'threads', threadDoc.id);
-      batch.update(threadRef, {
-        authorId: userId,
-        anonymousId: null // Remove anonymous ID
-      });
-      transferCount++;
-    });
-    
-    // Transfer responses
-    const responsesQuery = query(
-      collection(db, 'responses'),
-      where('anonymousId', '==', anonymousId)
-    );
-    
-    const responsesSnapshot = await getDocs(responsesQuery);
-    
-    responsesSnapshot.forEach(responseDoc => {
-      const responseRef = doc(db, 'responses', responseDoc.id);
-      batch.update(responseRef, {
-        authorId: userId,
-        anonymousId: null // Remove anonymous ID
-      });
-      transferCount++;
-    });
+    // The thread API reassigns the threads and responses whose token hash matches, server-side
+    const transferCount = await transferAnonymousData(getAnonymousToken());
     
     // If no data to transfer
     if (transferCount === 0) {
       return { success: true, message: 'No anonymous data found to transfer' };
     }
     
-    // Commit the batch update
-    await batch.commit();
-    
     // Clear anonymous user data from localStorage
     clearAnonymousUserData();
     
@@ -6,6 +6,7 @@ import { adjectives, nouns, getRandomWord, capitalize } from './words';
 
 const ANONYMOUS_USER_ID_KEY = 'anonymous_user_id';
 const ANONYMOUS_USER_NAME_KEY = 'anonymous_user_name';
+const ANONYMOUS_USER_TOKEN_KEY = 'anonymous_user_token';
 
 /**
  * Gets the current anonymous user ID from localStorage or creates a new one if it doesn't exist
@@ -24,6 +25,31 @@ export const getAnonymousUserId = (): string => {
   return userId;
 };
 
+/**
+ * Gets the secret token that proves this browser wrote its anonymous posts, creating it if
+ * it doesn't exist. Unlike the anonymous ID, which is stored on every post and anyone can
+ * read, the token is only sent to the thread API, which stores nothing but its hash.
+ */
+export const getAnonymousToken = (): string => {
+  let token = localStorage.getItem(ANONYMOUS_USER_TOKEN_KEY);
+
+  if (!token) {
+    // 32 random bytes, hex encoded
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    token = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(ANONYMOUS_USER_TOKEN_KEY, token);
+  }
+
+  return token;
+};
+
+/**
+ * Whether this browser has an anonymous identity, i.e. may have posted anonymously
+ */
+export const hasAnonymousIdentity = (): boolean => {
+  return !!localStorage.getItem(ANONYMOUS_USER_TOKEN_KEY);
+};
+
 /**
  * Generates a memorable username by combining random adjective, noun, and a short number
  */
@@ -61,4 +87,5 @@ export const getAnonymousUserName = (): string => {
 export const clearAnonymousUserData = (): void => {
   localStorage.removeItem(ANONYMOUS_USER_ID_KEY);
   localStorage.removeItem(ANONYMOUS_USER_NAME_KEY);
+  localStorage.removeItem(ANONYMOUS_USER_TOKEN_KEY);
 }; 
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { useAuth } from '../lib/AuthContext';
+import { acceptInvitation } from '../lib/threadApi';
+import { getRoleLabel, MemberRole } from '../lib/projectTeam';
+import ProjectAvatar from '../components/ProjectAvatar';
+
+interface InvitedProject {
+  name: string;
+  slug: string;
+  logoUrl?: string;
+}
+
+interface Invitation {
+  email: string;
+  role: MemberRole;
+  invitedByName: string;
+}
+
+const AcceptInvitation = () => {
+  const { projectId, invitationId } = useParams<{ projectId: string; invitationId: string }>();
+  const { currentUser, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+
+  const [project, setProject] = useState<InvitedProject | null>(null);
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      if (!projectId || !invitationId || authLoading) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const projectDoc = await getDoc(doc(db, 'projects', projectId));
+        if (!projectDoc.exists()) {
+          setError('This project no longer exists');
+          return;
+        }
+
+        const projectData = projectDoc.data();
+        setProject({
+          name: projectData.name,
+          slug: projectData.slug,
+          logoUrl: projectData.logoUrl,
+        });
+
+        // Invitations can only be read once signed in with the invited email
+        if (!currentUser) return;
+
+        // ...and only once that email is verified, which may have happened in another tab
+        if (!currentUser.emailVerified) {
+          await currentUser.reload();
+          if (!currentUser.emailVerified) {
+            setError(`Verify ${currentUser.email} with the link we emailed you, then reload this page to accept the invitation.`);
+            return;
+          }
+          // The ID token still says unverified until it is refreshed
+          await currentUser.getIdToken(true);
+        }
+
+        try {
+          const invitationDoc = await getDoc(doc(db, 'projects', projectId, 'invitations', invitationId));
+          if (!invitationDoc.exists()) {
+            setError('This invitation has already been used or was withdrawn');
+            return;
+          }
+
+          const invitationData = invitationDoc.data();
+          setInvitation({
+            email: invitationData.email,
+            role: invitationData.role,
+            invitedByName: invitationData.invitedByName,
+          });
+        } catch (invitationError) {
+          console.error('Error fetching invitation:', invitationError);
+          setError(`This invitation was sent to a different email address than ${currentUser.email}. Sign in with the invited account to accept it.`);
+        }
+      } catch (error) {
+        console.error('Error fetching project:', error);
+        setError('Failed to load the invitation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [projectId, invitationId, currentUser, authLoading]);
+
+  const handleAccept = async () => {
+    if (!projectId || !invitationId || !project) return;
+
+    try {
+      setAccepting(true);
+      setError(null);
+      await acceptInvitation(projectId, invitationId);
+      navigate(`/${project.slug}`);
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to accept the invitation');
+      setAccepting(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12 flex justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  const redirect = encodeURIComponent(`/invitations/${projectId}/${invitationId}`);
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-12">
+      <div className="border border-gray-200 rounded-lg p-6 bg-white shadow-sm text-center">
+        {project && (
+          <div className="flex justify-center mb-4">
+            {project.logoUrl ? (
+              <img
+                src={project.logoUrl}
+                alt={`${project.name} logo`}
+                className="w-16 h-16 rounded-md object-cover"
+              />
+            ) : (
+              <ProjectAvatar name={project.name} size="lg" />
+            )}
+          </div>
+        )}
+
+        <h1 className="text-xl font-medium text-gray-900 mb-2">
+          {project ? `Join ${project.name}` : 'Team invitation'}
+        </h1>
+
+        {invitation && (
+          <p className="text-sm text-gray-600 mb-6">
+            {invitation.invitedByName} invited you to join the team as a {getRoleLabel(invitation.role).toLowerCase()}.
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md mb-6 text-sm text-left">
+            {error}
+          </div>
+        )}
+
+        {!currentUser ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 mb-4">
+              Sign in with the email address this invitation was sent to.
+            </p>
+            <Link
+              to={`/login?redirect=${redirect}`}
+              className="block px-5 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors text-sm"
+            >
+              Sign in
+            </Link>
+            <Link
+              to={`/register?redirect=${redirect}`}
+              className="block px-5 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors text-sm"
+            >
+              Create an account
+            </Link>
+          </div>
+        ) : invitation && (
+          <button
+            onClick={handleAccept}
+            disabled={accepting}
+            className="w-full px-5 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-1 focus:ring-gray-900 disabled:opacity-50 transition-colors text-sm"
+          >
+            {accepting ? 'Joining...' : 'Accept Invitation'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
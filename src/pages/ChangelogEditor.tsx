@@ -0,0 +1,370 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { useAuth } from '../lib/AuthContext';
+import MarkdownEditor from '../components/MarkdownEditor';
+import { createChangelogEntry, deleteChangelogEntry, updateChangelogEntry } from '../lib/threadApi';
+import {
+  ChangelogEntry,
+  ChangelogThread,
+  fetchChangelogThreads,
+  fetchProjectChangelog,
+  fetchSolvedThreads,
+  getChangelogEntryTitle,
+} from '../lib/changelog';
+
+interface Project {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+// The entry being written: a new one, or an existing one by ID
+interface EntryForm {
+  id: string | null;
+  title: string;
+  version: string;
+  content: string;
+  threadIds: string[];
+}
+
+const emptyForm: EntryForm = { id: null, title: '', version: '', content: '', threadIds: [] };
+
+const ChangelogEditor = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { currentUser } = useAuth();
+  const [project, setProject] = useState<Project | null>(null);
+  const [entries, setEntries] = useState<ChangelogEntry[]>([]);
+  const [solvedThreads, setSolvedThreads] = useState<ChangelogThread[]>([]);
+  // Titles of the threads entries link to, which may be older than the solved threads listed
+  const [linkedThreads, setLinkedThreads] = useState<Map<string, ChangelogThread>>(new Map());
+  const [form, setForm] = useState<EntryForm>(emptyForm);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  const [fetchLoading, setFetchLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refreshEntries = async (id: string) => {
+    const projectEntries = await fetchProjectChangelog(id);
+    setEntries(projectEntries);
+    setLinkedThreads(await fetchChangelogThreads(projectEntries.flatMap((entry) => entry.threadIds)));
+  };
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      if (!currentUser || !projectId) return;
+
+      try {
+        setFetchLoading(true);
+        setError(null);
+
+        const projectDoc = await getDoc(doc(db, 'projects', projectId));
+        if (!projectDoc.exists()) {
+          setError('Project not found');
+          return;
+        }
+
+        const projectData = projectDoc.data();
+        if (projectData.ownerId !== currentUser.uid) {
+          setError('Only the project owner can write its changelog');
+          return;
+        }
+
+        setProject({ id: projectDoc.id, name: projectData.name, slug: projectData.slug });
+
+        const [, threads] = await Promise.all([refreshEntries(projectDoc.id), fetchSolvedThreads(projectDoc.id)]);
+        setSolvedThreads(threads);
+      } catch (error) {
+        console.error('Error fetching changelog:', error);
+        setError('Failed to load the changelog. Please try again.');
+      } finally {
+        setFetchLoading(false);
+      }
+    };
+
+    fetchProject();
+  }, [currentUser, projectId]);
+
+  const handleSave = async (e: FormEvent, publish: boolean) => {
+    e.preventDefault();
+    if (!project) return;
+
+    if (!form.title.trim() || !form.content.trim()) {
+      setError('An entry needs a title and some notes');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setNotice(null);
+
+      const input = {
+        title: form.title.trim(),
+        content: form.content.trim(),
+        version: form.version.trim() || undefined,
+        threadIds: form.threadIds,
+        publish,
+      };
+
+      // The thread API emails the participants of the linked threads when an entry goes live
+      const published = form.id
+        ? await updateChangelogEntry(form.id, input)
+        : (await createChangelogEntry(project.id, input)).published;
+
+      setNotice(published ? 'Entry published' : 'Entry saved');
+      setForm(emptyForm);
+      await refreshEntries(project.id);
+    } catch (error) {
+      console.error('Error saving changelog entry:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save the entry. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (!project) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      setNotice(null);
+      await deleteChangelogEntry(entryId);
+      if (form.id === entryId) setForm(emptyForm);
+      await refreshEntries(project.id);
+    } catch (error) {
+      console.error('Error deleting changelog entry:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete the entry. Please try again.');
+    } finally {
+      setSaving(false);
+      setConfirmingDeleteId(null);
+    }
+  };
+
+  const handleEdit = (entry: ChangelogEntry) => {
+    setForm({
+      id: entry.id,
+      title: entry.title,
+      version: entry.version || '',
+      content: entry.content,
+      threadIds: entry.threadIds,
+    });
+    setError(null);
+    setNotice(null);
+  };
+
+  const toggleThread = (threadId: string) => {
+    setForm({
+      ...form,
+      threadIds: form.threadIds.includes(threadId)
+        ? form.threadIds.filter((id) => id !== threadId)
+        : [...form.threadIds, threadId],
+    });
+  };
+
+  if (fetchLoading && !error) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-gray-800"></div>
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 text-center">
+        <h1 className="text-2xl font-medium text-gray-900 mb-4">{error || 'Project not found'}</h1>
+        <Link to="/dashboard" className="text-blue-600 hover:underline">Back to dashboard</Link>
+      </div>
+    );
+  }
+
+  const editingEntry = entries.find((entry) => entry.id === form.id);
+  // Linked threads that aren't among the recently solved ones are still listed so they can be unlinked
+  const threadOptions = [
+    ...solvedThreads,
+    ...form.threadIds
+      .filter((threadId) => !solvedThreads.some((thread) => thread.id === threadId))
+      .map((threadId) => linkedThreads.get(threadId) || { id: threadId, title: 'Deleted thread' }),
+  ];
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 pb-20">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mt-6 mb-8">
+        <div>
+          <h1 className="text-2xl font-medium text-gray-900">{project.name} Changelog</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Write release notes and link the threads they resolve. Everyone who took part in those threads gets an email when an entry is published.
+          </p>
+        </div>
+        <Link
+          to={`/${project.slug}/changelog`}
+          className="mt-4 md:mt-0 px-3 py-1 bg-gray-100 text-gray-600 rounded-md hover:bg-gray-200 transition-colors text-sm whitespace-nowrap"
+        >
+          View changelog
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md mb-6 text-sm">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-50 border border-green-100 text-green-700 px-4 py-3 rounded-md mb-6 text-sm">
+          {notice}
+        </div>
+      )}
+
+      <form onSubmit={(e) => handleSave(e, false)} className="border border-gray-200 rounded-md p-6 mb-10 space-y-5">
+        <h2 className="text-lg font-medium text-gray-900">
+          {editingEntry ? `Edit ${editingEntry.status === 'draft' ? 'draft' : 'entry'}` : 'New entry'}
+        </h2>
+
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1">
+            <label htmlFor="entryTitle" className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input
+              id="entryTitle"
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              maxLength={200}
+              required
+              className="w-full px-3 py-2 border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-900 focus:border-gray-900"
+              placeholder="Dark mode and faster search"
+            />
+          </div>
+          <div className="md:w-40">
+            <label htmlFor="entryVersion" className="block text-sm font-medium text-gray-700 mb-1">Version (optional)</label>
+            <input
+              id="entryVersion"
+              type="text"
+              value={form.version}
+              onChange={(e) => setForm({ ...form, version: e.target.value })}
+              maxLength={50}
+              className="w-full px-3 py-2 border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-900 focus:border-gray-900"
+              placeholder="v1.4.0"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="entryContent" className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <MarkdownEditor
+            id="entryContent"
+            value={form.content}
+            onChange={(content) => setForm({ ...form, content })}
+            required
+            rows={8}
+            placeholder="What changed in this release?"
+            className="w-full px-3 py-2 border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-900 focus:border-gray-900"
+          />
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-1">Resolved threads</span>
+          {threadOptions.length > 0 ? (
+            <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+              {threadOptions.map((thread) => (
+                <label key={thread.id} className="flex items-center px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form.threadIds.includes(thread.id)}
+                    onChange={() => toggleThread(thread.id)}
+                    className="mr-3"
+                  />
+                  <span className="flex-1 text-gray-700 truncate">{thread.title}</span>
+                  {thread.closedAt && (
+                    <span className="ml-4 text-xs text-gray-400 whitespace-nowrap">Solved {thread.closedAt.toLocaleDateString()}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No threads have been closed as solved yet.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={(e) => handleSave(e, true)}
+            disabled={saving}
+            className="px-4 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors text-sm disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : editingEntry?.status === 'published' ? 'Update entry' : 'Publish'}
+          </button>
+          {editingEntry?.status !== 'published' && (
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-gray-100 text-gray-600 rounded-md hover:bg-gray-200 transition-colors text-sm disabled:opacity-50"
+            >
+              Save draft
+            </button>
+          )}
+          {form.id && (
+            <button
+              type="button"
+              onClick={() => setForm(emptyForm)}
+              disabled={saving}
+              className="px-4 py-2 text-gray-500 hover:text-gray-700 text-sm"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <h2 className="text-lg font-medium text-gray-900 mb-4">Entries</h2>
+      {entries.length > 0 ? (
+        <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between px-4 py-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900 truncate">{getChangelogEntryTitle(entry)}</span>
+                  {entry.status === 'draft' && (
+                    <span className="px-2 py-0.5 text-xs rounded-md bg-yellow-50 text-yellow-700">Draft</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {entry.publishedAt ? `Published on ${entry.publishedAt.toLocaleDateString()}` : `Created on ${entry.createdAt.toLocaleDateString()}`}
+                  {entry.threadIds.length > 0 && ` · ${entry.threadIds.length} thread${entry.threadIds.length !== 1 ? 's' : ''}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 ml-4 text-sm whitespace-nowrap">
+                {confirmingDeleteId === entry.id ? (
+                  <>
+                    <span className="text-gray-500">Delete?</span>
+                    <button onClick={() => handleDelete(entry.id)} disabled={saving} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+                      Delete
+                    </button>
+                    <button onClick={() => setConfirmingDeleteId(null)} className="text-gray-500 hover:text-gray-700">
+                      Keep
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => handleEdit(entry)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                    <button onClick={() => setConfirmingDeleteId(entry.id)} className="text-gray-500 hover:text-red-600">Delete</button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No entries yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default ChangelogEditor;
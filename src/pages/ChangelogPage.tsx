@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link, useLocation } from 'react-router-dom';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { useAuth } from '../lib/AuthContext';
+import Markdown from '../components/Markdown';
+import {
+  ChangelogEntry,
+  ChangelogThread,
+  fetchChangelogThreads,
+  fetchPublishedChangelog,
+  getChangelogFeedUrl,
+} from '../lib/changelog';
+
+interface Project {
+  id: string;
+  name: string;
+  slug: string;
+  ownerId: string;
+}
+
+const ChangelogPage = () => {
+  const { projectSlug } = useParams<{ projectSlug: string }>();
+  const location = useLocation();
+  const [project, setProject] = useState<Project | null>(null);
+  const [entries, setEntries] = useState<ChangelogEntry[]>([]);
+  const [threads, setThreads] = useState<Map<string, ChangelogThread>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const { currentUser } = useAuth();
+
+  useEffect(() => {
+    const fetchProjectAndChangelog = async () => {
+      if (!projectSlug) return;
+
+      try {
+        const projectSnapshot = await getDocs(query(
+          collection(db, 'projects'),
+          where('slug', '==', projectSlug)
+        ));
+
+        if (projectSnapshot.empty) {
+          setError('Project not found');
+          return;
+        }
+
+        const projectDoc = projectSnapshot.docs[0];
+        const projectData = projectDoc.data();
+        setProject({
+          id: projectDoc.id,
+          name: projectData.name,
+          slug: projectData.slug,
+          ownerId: projectData.ownerId,
+        });
+
+        const publishedEntries = await fetchPublishedChangelog(projectDoc.id);
+        setEntries(publishedEntries);
+        setThreads(await fetchChangelogThreads(publishedEntries.flatMap((entry) => entry.threadIds)));
+      } catch (error) {
+        console.error('Error fetching changelog:', error);
+        setError('Failed to load the changelog');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProjectAndChangelog();
+  }, [projectSlug]);
+
+  // Feed items link to their entry's anchor, which only exists once the entries have loaded
+  useEffect(() => {
+    if (loading || !location.hash) return;
+    document.getElementById(decodeURIComponent(location.hash.slice(1)))?.scrollIntoView();
+  }, [loading, location.hash]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gray-800"></div>
+      </div>
+    );
+  }
+
+  if (error || !project) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 text-center">
+        <h1 className="text-2xl font-medium text-gray-900 mb-4">{error || 'Changelog not found'}</h1>
+        <Link to="/" className="text-blue-600 hover:underline">Go home</Link>
+      </div>
+    );
+  }
+
+  const isOwner = currentUser?.uid === project.ownerId;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 pb-20">
+      {/* Breadcrumb Navigation */}
+      <div className="py-4 text-sm flex items-center mb-4">
+        <Link to="/" className="text-gray-500 hover:text-gray-700 transition-colors">Home</Link>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mx-2 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <Link to={`/${project.slug}`} className="text-gray-500 hover:text-gray-700 transition-colors font-medium">{project.name}</Link>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mx-2 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="text-gray-900">Changelog</span>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-medium text-gray-900 mb-1">{project.name} Changelog</h1>
+          <p className="text-gray-600">What's new, and the threads each release resolved.</p>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <span className="flex items-center text-gray-500">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 5c7.18 0 13 5.82 13 13M6 11a7 7 0 017 7m-6 0a1 1 0 11-2 0 1 1 0 012 0z" />
+            </svg>
+            Subscribe:
+          </span>
+          <a href={getChangelogFeedUrl(project.slug, 'atom')} className="text-blue-600 hover:underline">Atom</a>
+          <a href={getChangelogFeedUrl(project.slug, 'rss')} className="text-blue-600 hover:underline">RSS</a>
+          {isOwner && (
+            <Link
+              to={`/dashboard/changelog/${project.id}`}
+              className="ml-2 px-3 py-1 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors"
+            >
+              Write an entry
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {entries.length > 0 ? (
+        <div className="space-y-10">
+          {entries.map((entry) => {
+            const linkedThreads = entry.threadIds
+              .map((threadId) => threads.get(threadId))
+              .filter((thread): thread is ChangelogThread => !!thread);
+
+            return (
+              <article key={entry.id} id={entry.id} className="border-b border-gray-100 pb-10 last:border-b-0 scroll-mt-20">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  {entry.version && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-md bg-green-50 text-green-700">{entry.version}</span>
+                  )}
+                  <a href={`#${entry.id}`} className="text-sm text-gray-500 hover:text-gray-700">
+                    {(entry.publishedAt || entry.createdAt).toLocaleDateString('en-US', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric'
+                    })}
+                  </a>
+                </div>
+                <h2 className="text-xl font-medium text-gray-900 mb-3">{entry.title}</h2>
+                <Markdown content={entry.content} className="text-gray-700" />
+
+                {linkedThreads.length > 0 && (
+                  <div className="mt-4">
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">Resolves</h3>
+                    <ul className="space-y-1">
+                      {linkedThreads.map((thread) => (
+                        <li key={thread.id} className="flex items-center text-sm">
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2 text-green-500 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                          </svg>
+                          <Link to={`/${project.slug}/thread/${thread.id}`} className="text-gray-700 hover:text-blue-600">
+                            {thread.title}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </article>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-12 border border-gray-200 rounded-md">
+          <h2 className="text-lg font-medium text-gray-900 mb-2">No releases yet</h2>
+          <p className="text-gray-600 text-sm max-w-md mx-auto">
+            {isOwner
+              ? 'Write your first entry to tell people what shipped and which threads it resolved.'
+              : 'Check back later, or subscribe to the feed to hear about new releases.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangelogPage;
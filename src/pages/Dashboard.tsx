@@ -5,7 +5,20 @@ import { collection, query, where, getDocs, FirestoreError, doc, getDoc, updateD
 import { updateProfile } from 'firebase/auth';
 import { db } from '../lib/firebase';
 import ProjectAvatar from '../components/ProjectAvatar';
+import { getImageVariantUrl } from '../lib/images';
 import UserAvatar from '../components/UserAvatar';
+import { activeThreadStatuses, getStatusConfig } from '../lib/threadStatus';
+import {
+  DigestFrequency,
+  EMAIL_PREFERENCE_OPTIONS,
+  EmailPreference,
+  getNotificationPreferences,
+  NotificationPreferences,
+  saveDigestFrequency,
+  saveEmailPreference,
+  setProjectMuted,
+  setThreadMuted,
+} from '../lib/notificationPreferences';
 
 interface Project {
   id: string;
@@ -17,11 +30,21 @@ interface Project {
   logoUrl?: string;
   totalIssues?: number;
   closedIssues?: number;
+  // Number of threads per workflow status, kept by the thread API
+  statusCounts?: Record<string, number>;
   twitterUrl?: string;
   linkedinUrl?: string;
   githubUrl?: string;
 }
 
+interface AssignedThread {
+  id: string;
+  title: string;
+  createdAt: Date;
+  projectName: string;
+  projectSlug: string;
+}
+
 const Dashboard = () => {
   const { currentUser } = useAuth();
   const [projects, setProjects] = useState<Project[]>([]);
@@ -38,6 +61,13 @@ const Dashboard = () => {
   const [updatingProfile, setUpdatingProfile] = useState(false);
   const [profileUpdateError, setProfileUpdateError] = useState<string | null>(null);
   const [userCreationDate, setUserCreationDate] = useState<Date | null>(null);
+  const [assignedThreads, setAssignedThreads] = useState<AssignedThread[]>([]);
+  
+  // Email notification preferences, with the names of the muted projects and threads
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(getNotificationPreferences(undefined));
+  const [mutedNames, setMutedNames] = useState<Record<string, string>>({});
+  const [savingPreferences, setSavingPreferences] = useState(false);
+  const [preferencesError, setPreferencesError] = useState<string | null>(null);
 
   useEffect(() => {
     if (currentUser) {
@@ -59,6 +89,19 @@ const Dashboard = () => {
             setTwitterUrl(userData.twitterUrl || '');
             setLinkedinUrl(userData.linkedinUrl || '');
             setGithubUrl(userData.githubUrl || '');
+            
+            const preferences = getNotificationPreferences(userData);
+            setNotificationPreferences(preferences);
+            
+            // Look up what was muted, skipping projects and threads deleted since
+            const [projectDocs, threadDocs] = await Promise.all([
+              Promise.all(preferences.mutedProjectIds.map((projectId) => getDoc(doc(db, 'projects', projectId)))),
+              Promise.all(preferences.mutedThreadIds.map((threadId) => getDoc(doc(db, 'threads', threadId)))),
+            ]);
+            setMutedNames(Object.fromEntries([
+              ...projectDocs.filter((projectDoc) => projectDoc.exists()).map((projectDoc) => [projectDoc.id, projectDoc.data().name]),
+              ...threadDocs.filter((threadDoc) => threadDoc.exists()).map((threadDoc) => [threadDoc.id, threadDoc.data().title]),
+            ]));
           }
         } catch (error) {
           console.error('Error fetching user profile:', error);
@@ -95,6 +138,7 @@ const Dashboard = () => {
             logoUrl: data.logoUrl,
             totalIssues: data.totalIssues || 0,
             closedIssues: data.closedIssues || 0,
+            statusCounts: data.statusCounts || {},
             twitterUrl: data.twitterUrl,
             linkedinUrl: data.linkedinUrl,
             githubUrl: data.githubUrl,
@@ -124,6 +168,51 @@ const Dashboard = () => {
     fetchProjects();
   }, [currentUser]);
 
+  useEffect(() => {
+    // Fetch open threads assigned to the user across all projects
+    const fetchAssignedThreads = async () => {
+      if (!currentUser) return;
+
+      try {
+        const q = query(
+          collection(db, 'threads'),
+          where('assigneeId', '==', currentUser.uid)
+        );
+
+        const querySnapshot = await getDocs(q);
+        const openThreads = querySnapshot.docs.filter((threadDoc) => threadDoc.data().status !== 'closed');
+
+        // Look up each project once for its name and URL
+        const projectIds = [...new Set(openThreads.map((threadDoc) => threadDoc.data().projectId as string))];
+        const projectDocs = await Promise.all(projectIds.map((projectId) => getDoc(doc(db, 'projects', projectId))));
+        const projectsById = new Map(projectDocs.filter((projectDoc) => projectDoc.exists()).map((projectDoc) => [projectDoc.id, projectDoc.data()]));
+
+        const threadsData: AssignedThread[] = [];
+        openThreads.forEach((threadDoc) => {
+          const data = threadDoc.data();
+          const project = projectsById.get(data.projectId);
+          if (!project) return;
+
+          threadsData.push({
+            id: threadDoc.id,
+            title: data.title,
+            createdAt: data.createdAt?.toDate() || new Date(),
+            projectName: project.name,
+            projectSlug: project.slug,
+          });
+        });
+
+        threadsData.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+        setAssignedThreads(threadsData);
+      } catch (error) {
+        console.error('Error fetching assigned threads:', error);
+      }
+    };
+
+    fetchAssignedThreads();
+  }, [currentUser]);
+
   // Calculate the percentage of closed issues
   const getClosedPercentage = (totalIssues: number, closedIssues: number) => {
     if (totalIssues === 0) return 0;
@@ -202,7 +291,6 @@ const Dashboard = () => {
         await setDoc(userDocRef, {
           ...socialData,
           displayName: currentUser.displayName || '',
-          email: currentUser.email,
           uid: currentUser.uid,
           createdAt: serverTimestamp()
         });
@@ -217,6 +305,71 @@ const Dashboard = () => {
     }
   };
 
+  // Change which emails the user gets
+  const handleEmailPreferenceChange = async (emails: EmailPreference) => {
+    if (!currentUser) return;
+    
+    const previous = notificationPreferences;
+    setNotificationPreferences({ ...previous, emails });
+    setPreferencesError(null);
+    setSavingPreferences(true);
+    try {
+      await saveEmailPreference(currentUser.uid, emails);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setNotificationPreferences(previous);
+      setPreferencesError('Failed to save your email preferences. Please try again.');
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  // Change how often the user gets the digest
+  const handleDigestFrequencyChange = async (digestFrequency: DigestFrequency) => {
+    if (!currentUser) return;
+    
+    const previous = notificationPreferences;
+    setNotificationPreferences({ ...previous, digestFrequency });
+    setPreferencesError(null);
+    setSavingPreferences(true);
+    try {
+      await saveDigestFrequency(currentUser.uid, digestFrequency);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setNotificationPreferences(previous);
+      setPreferencesError('Failed to save your email preferences. Please try again.');
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  // Get emails about a muted project or thread again
+  const handleUnmute = async (kind: 'project' | 'thread', id: string) => {
+    if (!currentUser) return;
+    
+    setPreferencesError(null);
+    setSavingPreferences(true);
+    try {
+      if (kind === 'project') {
+        await setProjectMuted(currentUser.uid, id, false);
+        setNotificationPreferences((current) => ({ ...current, mutedProjectIds: current.mutedProjectIds.filter((projectId) => projectId !== id) }));
+      } else {
+        await setThreadMuted(currentUser.uid, id, false);
+        setNotificationPreferences((current) => ({ ...current, mutedThreadIds: current.mutedThreadIds.filter((threadId) => threadId !== id) }));
+      }
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setPreferencesError('Failed to unmute. Please try again.');
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  const mutedItems = [
+    ...notificationPreferences.mutedProjectIds.map((id) => ({ kind: 'project' as const, id })),
+    ...notificationPreferences.mutedThreadIds.map((id) => ({ kind: 'thread' as const, id })),
+  ];
+
   return (
     <div className="max-w-4xl mx-auto px-4">
       {/* User Profile Section */}
@@ -447,6 +600,100 @@ const Dashboard = () => {
         </div>
       )}
       
+      {/* Which notification emails the user gets */}
+      <div className="mb-10">
+        <h2 className="text-xl font-medium text-gray-900 mb-4">Email Notifications</h2>
+        <div className="border border-gray-200 rounded-md p-4">
+          {preferencesError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+              {preferencesError}
+            </div>
+          )}
+          <div className="space-y-3">
+            {EMAIL_PREFERENCE_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-start cursor-pointer">
+                <input
+                  type="radio"
+                  name="emailPreference"
+                  value={option.value}
+                  checked={notificationPreferences.emails === option.value}
+                  onChange={() => handleEmailPreferenceChange(option.value)}
+                  disabled={savingPreferences}
+                  className="mt-1 mr-3"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          
+          {notificationPreferences.emails === 'digest' && (
+            <div className="mt-4 ml-6 flex items-center text-sm">
+              <label htmlFor="digestFrequency" className="text-gray-700 mr-2">Send the digest</label>
+              <select
+                id="digestFrequency"
+                value={notificationPreferences.digestFrequency}
+                onChange={(e) => handleDigestFrequencyChange(e.target.value as DigestFrequency)}
+                disabled={savingPreferences}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly, on Mondays</option>
+              </select>
+            </div>
+          )}
+          
+          {mutedItems.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Muted</h3>
+              <ul className="divide-y divide-gray-100">
+                {mutedItems.map(({ kind, id }) => (
+                  <li key={`${kind}-${id}`} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-700 truncate">
+                      <span className="text-xs text-gray-500 mr-2">{kind === 'project' ? 'Project' : 'Thread'}</span>
+                      {mutedNames[id] || (kind === 'project' ? 'Deleted project' : 'Deleted thread')}
+                    </span>
+                    <button
+                      onClick={() => handleUnmute(kind, id)}
+                      disabled={savingPreferences}
+                      className="ml-4 text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      Unmute
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+      
+      {/* Threads assigned to the user */}
+      {assignedThreads.length > 0 && (
+        <div className="mb-10">
+          <h2 className="text-xl font-medium text-gray-900 mb-4">Assigned to Me</h2>
+          <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+            {assignedThreads.map((thread) => (
+              <Link
+                key={thread.id}
+                to={`/${thread.projectSlug}/thread/${thread.id}`}
+                className="block px-4 py-3 hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900 truncate">{thread.title}</span>
+                  <span className="ml-4 text-xs text-gray-500 whitespace-nowrap">{thread.projectName}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Opened on {thread.createdAt.toLocaleDateString()}
+                </p>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+      
       {/* Projects Header */}
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-10">
         <h1 className="text-2xl font-medium text-gray-900 mb-4 md:mb-0">Your Projects</h1>
@@ -475,7 +722,7 @@ const Dashboard = () => {
               <div className="flex items-start space-x-4 mb-4">
                 {project.logoUrl ? (
                   <img 
-                    src={project.logoUrl} 
+                    src={getImageVariantUrl(project.logoUrl, 96)} 
                     alt={`${project.name} logo`} 
                     className="w-12 h-12 rounded-md object-cover"
                   />
@@ -510,6 +757,23 @@ const Dashboard = () => {
                   
                   <p className="text-gray-600 text-sm mt-3 mb-4 line-clamp-2">{project.description}</p>
                   
+                  {/* Threads in each open workflow status, linking to the filtered thread list */}
+                  {activeThreadStatuses.some((status) => (project.statusCounts?.[status] ?? 0) > 0) && (
+                    <div className="flex flex-wrap gap-1.5 mb-4">
+                      {activeThreadStatuses
+                        .filter((status) => (project.statusCounts?.[status] ?? 0) > 0)
+                        .map((status) => (
+                          <Link
+                            key={status}
+                            to={`/${project.slug}?status=${status}`}
+                            className={`px-2 py-0.5 text-xs rounded-md ${getStatusConfig(status).badge} hover:opacity-80`}
+                          >
+                            {project.statusCounts?.[status]} {getStatusConfig(status).label.toLowerCase()}
+                          </Link>
+                        ))}
+                    </div>
+                  )}
+                  
                   {project.website && (
                     <a 
                       href={project.website} 
@@ -537,6 +801,12 @@ const Dashboard = () => {
                   >
                     View
                   </Link>
+                  <Link
+                    to={`/dashboard/changelog/${project.id}`}
+                    className="px-3 py-1 bg-gray-100 text-gray-600 rounded-md hover:bg-gray-200 transition-colors text-sm"
+                  >
+                    Changelog
+                  </Link>
                   <Link
                     to={`/dashboard/edit-project/${project.id}`}
                     className="px-3 py-1 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors text-sm"
@@ -1,10 +1,84 @@
 import { useState, useEffect, FormEvent } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '../lib/AuthContext';
-import { doc, updateDoc, getDoc, serverTimestamp, FirestoreError, collection, query, where, getDocs } from 'firebase/firestore';
+import { doc, updateDoc, getDoc, deleteDoc, serverTimestamp, FirestoreError, collection, query, where, getDocs, orderBy, limit } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import ProjectAvatar from '../components/ProjectAvatar';
 import ImageUpload from '../components/ImageUpload';
+import { deleteUploadedImage, uploadLogo } from '../lib/images';
+import { MemberRole, getRoleLabel, projectRoles } from '../lib/projectTeam';
+import { inviteTeamMember, revokeInvitation, updateMemberRole, removeTeamMember, updateProjectTags } from '../lib/threadApi';
+import { getProjectTags, getTagBadgeClasses, MAX_PROJECT_TAGS, ProjectTag, TagColor, tagColors, tagValueFromLabel } from '../lib/projectTags';
+import { getRoadmapTag } from '../lib/roadmap';
+
+interface TeamMember {
+  userId: string;
+  role: MemberRole;
+  displayName?: string;
+  email?: string;
+}
+
+interface PendingInvitation {
+  id: string;
+  email: string;
+  role: MemberRole;
+}
+
+// An email the email worker gave up on, see the thread API worker's failedEmails endpoint
+interface FailedEmail {
+  id: string;
+  subject: string;
+  recipientName: string | null;
+  // Masked, e.g. j***@example.com
+  recipientEmail: string;
+  error: string;
+  attempts: number;
+  createdAt: Date | null;
+}
+
+// How many failed emails are listed, the most recent first
+const MAX_FAILED_EMAILS = 50;
+
+// Load the emails that could not be delivered to the project's users
+const fetchFailedEmails = async (projectId: string): Promise<FailedEmail[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'projects', projectId, 'failedEmails'),
+    orderBy('createdAt', 'desc'),
+    limit(MAX_FAILED_EMAILS)
+  ));
+
+  return snapshot.docs.map((failedDoc) => ({
+    id: failedDoc.id,
+    subject: failedDoc.data().subject,
+    recipientName: failedDoc.data().recipientName || null,
+    recipientEmail: failedDoc.data().recipientEmail,
+    error: failedDoc.data().error,
+    attempts: failedDoc.data().attempts,
+    createdAt: failedDoc.data().createdAt?.toDate() || null,
+  }));
+};
+
+// Load the project's team members and pending invitations
+const fetchTeam = async (projectId: string) => {
+  const [membersSnapshot, invitationsSnapshot] = await Promise.all([
+    getDocs(collection(db, 'projects', projectId, 'members')),
+    getDocs(collection(db, 'projects', projectId, 'invitations')),
+  ]);
+
+  return {
+    members: membersSnapshot.docs.map((memberDoc) => ({
+      userId: memberDoc.id,
+      role: memberDoc.data().role,
+      displayName: memberDoc.data().displayName || undefined,
+      email: memberDoc.data().email || undefined,
+    })),
+    invitations: invitationsSnapshot.docs.map((invitationDoc) => ({
+      id: invitationDoc.id,
+      email: invitationDoc.data().email,
+      role: invitationDoc.data().role,
+    })),
+  };
+};
 
 const EditProject = () => {
   const { projectId } = useParams<{ projectId: string }>();
@@ -20,15 +94,32 @@ const EditProject = () => {
   const [logoUrl, setLogoUrl] = useState('');
   const [selectedLogoFile, setSelectedLogoFile] = useState<File | null>(null);
   const [originalSlug, setOriginalSlug] = useState('');
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MemberRole>('maintainer');
+  const [teamError, setTeamError] = useState<string | null>(null);
+  const [teamNotice, setTeamNotice] = useState<string | null>(null);
+  const [teamBusy, setTeamBusy] = useState(false);
+  const [failedEmails, setFailedEmails] = useState<FailedEmail[]>([]);
+  const [failedEmailsError, setFailedEmailsError] = useState<string | null>(null);
+  const [tags, setTags] = useState<ProjectTag[]>([]);
+  // Tags as last saved, to tell which ones are being removed
+  const [savedTags, setSavedTags] = useState<ProjectTag[]>([]);
+  const [newTagLabel, setNewTagLabel] = useState('');
+  const [newTagColor, setNewTagColor] = useState<TagColor>('gray');
+  const [replacementTag, setReplacementTag] = useState('');
+  // The tag of the threads on the roadmap, empty for no roadmap
+  const [roadmapTag, setRoadmapTag] = useState('');
+  const [tagsError, setTagsError] = useState<string | null>(null);
+  const [tagsNotice, setTagsNotice] = useState<string | null>(null);
+  const [tagsSaving, setTagsSaving] = useState(false);
   
   const [loading, setLoading] = useState(false);
   const [fetchLoading, setFetchLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
-  // Worker URL for image upload
-  const WORKER_URL = import.meta.env.VITE_WORKER_URL;
-
   // Generate a slug from the project name
   const generateSlug = (projectName: string) => {
     return projectName
@@ -100,6 +191,18 @@ const EditProject = () => {
         setLinkedinUrl(projectData.linkedinUrl || '');
         setGithubUrl(projectData.githubUrl || '');
         setOriginalSlug(projectData.slug);
+        setTags(getProjectTags(projectData));
+        setSavedTags(getProjectTags(projectData));
+        setRoadmapTag(getRoadmapTag(projectData) || '');
+        
+        const team = await fetchTeam(projectId);
+        setMembers(team.members);
+        setInvitations(team.invitations);
+        
+        // The list is extra, so the rest of the page still works if it can't be loaded
+        fetchFailedEmails(projectId)
+          .then(setFailedEmails)
+          .catch((error) => console.error('Error fetching failed emails:', error));
         
       } catch (error) {
         console.error('Error fetching project:', error);
@@ -116,28 +219,6 @@ const EditProject = () => {
     fetchProject();
   }, [currentUser, projectId]);
 
-  // Upload image to R2 via worker
-  const uploadImage = async (file: File): Promise<string> => {
-    // Create a FormData object
-    const formData = new FormData();
-    formData.append('file', file);
-
-    // Upload directly to our worker
-    const response = await fetch(`${WORKER_URL}/api/images/upload`, {
-      method: 'POST',
-      body: formData,
-    });
-
-    const data = await response.json();
-
-    if (!data.success || !data.key) {
-      throw new Error(data.error || 'Failed to upload image');
-    }
-
-    // Construct the final image URL
-    return `${WORKER_URL}/api/images/${data.key}`;
-  };
-
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     
@@ -173,7 +254,7 @@ const EditProject = () => {
       let finalLogoUrl = logoUrl;
       if (selectedLogoFile) {
         try {
-          finalLogoUrl = await uploadImage(selectedLogoFile);
+          finalLogoUrl = await uploadLogo(selectedLogoFile);
         } catch (error) {
           console.error('Error uploading logo:', error);
           setError('Failed to upload logo image. Project update aborted.');
@@ -195,6 +276,11 @@ const EditProject = () => {
         updatedAt: serverTimestamp(),
       });
       
+      // The old logo is no longer used once the new one is saved
+      if (logoUrl && finalLogoUrl !== logoUrl) {
+        deleteUploadedImage(logoUrl);
+      }
+      
       setSuccess('Project updated successfully');
       setTimeout(() => {
         navigate(`/dashboard`);
@@ -211,6 +297,120 @@ const EditProject = () => {
     }
   };
 
+  // Reload the team after a change made through the thread API
+  const refreshTeam = async () => {
+    const team = await fetchTeam(projectId!);
+    setMembers(team.members);
+    setInvitations(team.invitations);
+  };
+
+  // Run a team change, reporting failures in the team section
+  const runTeamAction = async (action: () => Promise<void>) => {
+    try {
+      setTeamBusy(true);
+      setTeamError(null);
+      setTeamNotice(null);
+      await action();
+      await refreshTeam();
+    } catch (error) {
+      console.error('Error updating team:', error);
+      setTeamError(error instanceof Error ? error.message : 'Failed to update the team. Please try again.');
+    } finally {
+      setTeamBusy(false);
+    }
+  };
+
+  const handleInvite = (e: FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim() || !currentUser) return;
+    
+    runTeamAction(async () => {
+      // The thread API emails the invitation link
+      const { id: invitationId, emailSent } = await inviteTeamMember(projectId!, inviteEmail.trim(), inviteRole);
+      const invitationUrl = `${window.location.origin}/invitations/${projectId}/${invitationId}`;
+      
+      // The invitation still works without the email, so share the link instead
+      setTeamNotice(emailSent
+        ? `Invitation sent to ${inviteEmail.trim()}`
+        : `Invitation created, but the email could not be sent. Share this link instead: ${invitationUrl}`);
+      setInviteEmail('');
+    });
+  };
+
+  const handleDismissFailedEmail = async (failedEmailId: string) => {
+    try {
+      setFailedEmailsError(null);
+      await deleteDoc(doc(db, 'projects', projectId!, 'failedEmails', failedEmailId));
+      setFailedEmails(failedEmails.filter((failedEmail) => failedEmail.id !== failedEmailId));
+    } catch (error) {
+      console.error('Error dismissing failed email:', error);
+      setFailedEmailsError('Failed to dismiss the email. Please try again.');
+    }
+  };
+
+  const removedTags = savedTags.filter((savedTag) => !tags.some((tag) => tag.value === savedTag.value));
+  // Removed tags are replaced on threads by the chosen tag, or the first tag if that one was removed too
+  const migrationTag = tags.some((tag) => tag.value === replacementTag) ? replacementTag : tags[0]?.value;
+  // Removing the roadmap's tag turns the roadmap off until another is picked
+  const selectedRoadmapTag = tags.some((tag) => tag.value === roadmapTag) ? roadmapTag : '';
+
+  const updateTag = (value: string, changes: Partial<ProjectTag>) => {
+    setTags(tags.map((tag) => (tag.value === value ? { ...tag, ...changes } : tag)));
+  };
+
+  const handleAddTag = (e: FormEvent) => {
+    e.preventDefault();
+    const value = tagValueFromLabel(newTagLabel);
+    
+    if (!value) {
+      setTagsError('Tag names need at least one letter or number');
+      return;
+    }
+    if (tags.some((tag) => tag.value === value)) {
+      setTagsError(`There is already a "${newTagLabel.trim()}" tag`);
+      return;
+    }
+    
+    setTags([...tags, { value, label: newTagLabel.trim(), color: newTagColor }]);
+    setNewTagLabel('');
+    setNewTagColor('gray');
+    setTagsError(null);
+  };
+
+  const handleSaveTags = async () => {
+    if (tags.some((tag) => !tag.label.trim())) {
+      setTagsError('Every tag needs a name');
+      return;
+    }
+    
+    try {
+      setTagsSaving(true);
+      setTagsError(null);
+      setTagsNotice(null);
+      
+      const trimmedTags = tags.map((tag) => ({ ...tag, label: tag.label.trim() }));
+      const migrated = await updateProjectTags(
+        projectId!,
+        trimmedTags,
+        removedTags.length > 0 ? migrationTag : undefined,
+        selectedRoadmapTag || null
+      );
+      
+      setTags(trimmedTags);
+      setSavedTags(trimmedTags);
+      setReplacementTag('');
+      setRoadmapTag(selectedRoadmapTag);
+      setTagsNotice(migrated > 0
+        ? `Tags saved. ${migrated} ${migrated === 1 ? 'thread was' : 'threads were'} retagged.`
+        : 'Tags saved');
+    } catch (error) {
+      console.error('Error saving tags:', error);
+      setTagsError(error instanceof Error ? error.message : 'Failed to save tags. Please try again.');
+    } finally {
+      setTagsSaving(false);
+    }
+  };
+
   // Handle file selection
   const handleFileSelected = (file: File) => {
     setSelectedLogoFile(file);
@@ -378,6 +578,301 @@ const EditProject = () => {
           </button>
         </div>
       </form>
+      
+      {/* Tags */}
+      <div className="mt-12 pt-8 border-t border-gray-200 space-y-6">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Tags</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Tags visitors and the AI suggester can file questions under. Tag changes are saved separately from the project details.
+          </p>
+        </div>
+        
+        {tagsError && (
+          <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md text-sm">
+            {tagsError}
+          </div>
+        )}
+        
+        {tagsNotice && (
+          <div className="bg-green-50 border border-green-100 text-green-600 px-4 py-3 rounded-md text-sm">
+            {tagsNotice}
+          </div>
+        )}
+        
+        <ul className="border border-gray-200 rounded-md divide-y divide-gray-200">
+          {tags.map((tag) => (
+            <li key={tag.value} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+              <span className={`px-2 py-1 ${getTagBadgeClasses(tag.color)} text-xs rounded-md`}>{tag.label || tag.value}</span>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="text"
+                  aria-label="Tag name"
+                  value={tag.label}
+                  maxLength={30}
+                  onChange={(e) => updateTag(tag.value, { label: e.target.value })}
+                  className="w-40 px-2 py-1 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-gray-900"
+                />
+                <select
+                  aria-label="Tag color"
+                  value={tag.color}
+                  onChange={(e) => updateTag(tag.value, { color: e.target.value as TagColor })}
+                  className="px-2 py-1 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-gray-900"
+                >
+                  {tagColors.map((color) => (
+                    <option key={color.value} value={color.value}>{color.label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={tags.length <= 1}
+                  onClick={() => setTags(tags.filter((t) => t.value !== tag.value))}
+                  className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        
+        {tags.length < MAX_PROJECT_TAGS && (
+          <form onSubmit={handleAddTag} className="space-y-2">
+            <label htmlFor="newTagLabel" className="block text-gray-700 text-sm">
+              Add a tag
+            </label>
+            <div className="flex flex-col md:flex-row gap-2">
+              <input
+                id="newTagLabel"
+                type="text"
+                value={newTagLabel}
+                maxLength={30}
+                onChange={(e) => setNewTagLabel(e.target.value)}
+                className="flex-1 px-4 py-2 border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-900 focus:border-gray-900"
+                placeholder="e.g. Performance"
+              />
+              <select
+                aria-label="New tag color"
+                value={newTagColor}
+                onChange={(e) => setNewTagColor(e.target.value as TagColor)}
+                className="px-3 py-2 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-gray-900"
+              >
+                {tagColors.map((color) => (
+                  <option key={color.value} value={color.value}>{color.label}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={!newTagLabel.trim()}
+                className="px-5 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-1 focus:ring-gray-300 disabled:opacity-50 transition-colors text-sm"
+              >
+                Add Tag
+              </button>
+            </div>
+          </form>
+        )}
+        
+        {removedTags.length > 0 && (
+          <div className="space-y-2">
+            <label htmlFor="replacementTag" className="block text-gray-700 text-sm">
+              Replace {removedTags.map((tag) => `"${tag.label}"`).join(', ')} on existing threads with
+            </label>
+            <select
+              id="replacementTag"
+              value={migrationTag}
+              onChange={(e) => setReplacementTag(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-gray-900"
+            >
+              {tags.map((tag) => (
+                <option key={tag.value} value={tag.value}>{tag.label || tag.value}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        
+        <div className="space-y-2">
+          <label htmlFor="roadmapTag" className="block text-gray-700 text-sm">
+            Show threads tagged with this on the roadmap, and as top feature requests
+          </label>
+          <select
+            id="roadmapTag"
+            value={selectedRoadmapTag}
+            onChange={(e) => setRoadmapTag(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-gray-900"
+          >
+            <option value="">No roadmap</option>
+            {tags.map((tag) => (
+              <option key={tag.value} value={tag.value}>{tag.label || tag.value}</option>
+            ))}
+          </select>
+        </div>
+        
+        <button
+          type="button"
+          onClick={handleSaveTags}
+          disabled={tagsSaving}
+          className="px-5 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-1 focus:ring-gray-900 disabled:opacity-50 transition-colors text-sm"
+        >
+          {tagsSaving ? 'Saving...' : 'Save Tags'}
+        </button>
+      </div>
+      
+      {/* Team */}
+      <div className="mt-12 pt-8 border-t border-gray-200 space-y-6">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Team</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Invite people to help answer questions. Changes to the team are saved immediately.
+          </p>
+        </div>
+        
+        {teamError && (
+          <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md text-sm">
+            {teamError}
+          </div>
+        )}
+        
+        {teamNotice && (
+          <div className="bg-green-50 border border-green-100 text-green-600 px-4 py-3 rounded-md text-sm break-words">
+            {teamNotice}
+          </div>
+        )}
+        
+        <ul className="border border-gray-200 rounded-md divide-y divide-gray-200">
+          <li className="flex items-center justify-between px-4 py-3 text-sm">
+            <div>
+              <span className="text-gray-900">{currentUser?.displayName || currentUser?.email}</span>
+              <span className="text-gray-500 ml-2">(you)</span>
+            </div>
+            <span className="text-gray-700">{getRoleLabel('owner')}</span>
+          </li>
+          {members.map((member) => (
+            <li key={member.userId} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <span className="text-gray-900">{member.displayName || member.email}</span>
+                {member.displayName && member.email && (
+                  <span className="text-gray-500 ml-2">{member.email}</span>
+                )}
+              </div>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={member.role}
+                  disabled={teamBusy}
+                  onChange={(e) => runTeamAction(() => updateMemberRole(projectId!, member.userId, e.target.value as MemberRole))}
+                  className="px-2 py-1 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-gray-900"
+                >
+                  {projectRoles.filter((role) => role.value !== 'owner').map((role) => (
+                    <option key={role.value} value={role.value}>{role.label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={teamBusy}
+                  onClick={() => runTeamAction(() => removeTeamMember(projectId!, member.userId))}
+                  className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+          {invitations.map((invitation) => (
+            <li key={invitation.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <span className="text-gray-900">{invitation.email}</span>
+                <span className="text-gray-500 ml-2">Invited as {getRoleLabel(invitation.role).toLowerCase()}</span>
+              </div>
+              <button
+                type="button"
+                disabled={teamBusy}
+                onClick={() => runTeamAction(() => revokeInvitation(projectId!, invitation.id))}
+                className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+        
+        <form onSubmit={handleInvite} className="space-y-2">
+          <label htmlFor="inviteEmail" className="block text-gray-700 text-sm">
+            Invite by email
+          </label>
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              id="inviteEmail"
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              className="flex-1 px-4 py-2 border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-900 focus:border-gray-900"
+              placeholder="teammate@example.com"
+              required
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+              className="px-3 py-2 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-gray-900"
+            >
+              {projectRoles.filter((role) => role.value !== 'owner').map((role) => (
+                <option key={role.value} value={role.value}>{role.label}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={teamBusy || !inviteEmail.trim()}
+              className="px-5 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-1 focus:ring-gray-900 disabled:opacity-50 transition-colors text-sm"
+            >
+              {teamBusy ? 'Saving...' : 'Send Invite'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {projectRoles.filter((role) => role.value !== 'owner').map((role) => `${role.label}: ${role.description.toLowerCase()}`).join('. ')}.
+          </p>
+        </form>
+      </div>
+      
+      {/* Failed emails */}
+      <div className="mt-12 pt-8 border-t border-gray-200 space-y-6 pb-12">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Failed emails</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Notification emails that could not be delivered after several attempts, e.g. because the address no longer exists.
+          </p>
+        </div>
+        
+        {failedEmailsError && (
+          <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md text-sm">
+            {failedEmailsError}
+          </div>
+        )}
+        
+        {failedEmails.length === 0 ? (
+          <p className="text-sm text-gray-500">All notification emails were delivered.</p>
+        ) : (
+          <ul className="border border-gray-200 rounded-md divide-y divide-gray-200">
+            {failedEmails.map((failedEmail) => (
+              <li key={failedEmail.id} className="flex items-start justify-between gap-4 px-4 py-3 text-sm">
+                <div className="min-w-0">
+                  <p className="text-gray-900 truncate">{failedEmail.subject}</p>
+                  <p className="text-gray-500">
+                    To {failedEmail.recipientName ? `${failedEmail.recipientName} (${failedEmail.recipientEmail})` : failedEmail.recipientEmail}
+                    {failedEmail.createdAt && ` · ${failedEmail.createdAt.toLocaleString()}`}
+                    {` · ${failedEmail.attempts} ${failedEmail.attempts === 1 ? 'attempt' : 'attempts'}`}
+                  </p>
+                  <p className="text-xs text-red-600 mt-1 break-words">{failedEmail.error}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDismissFailedEmail(failedEmail.id)}
+                  className="text-xs text-gray-500 hover:text-gray-900 shrink-0"
+                >
+                  Dismiss
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 };
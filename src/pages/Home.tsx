@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { collection, getDocs } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import ProjectAvatar from '../components/ProjectAvatar';
+import { getImageVariantUrl } from '../lib/images';
 
 interface Project {
   id: string;
@@ -161,7 +162,7 @@ const Home = () => {
                 <div className="flex items-start gap-4">
                   {project.logoUrl ? (
                     <img 
-                      src={project.logoUrl} 
+                      src={getImageVariantUrl(project.logoUrl, 96)} 
                       alt={`${project.name} logo`} 
                       className="w-12 h-12 rounded-md object-cover flex-shrink-0"
                     />
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../lib/AuthContext';
 import { FirebaseError } from 'firebase/app';
 
@@ -7,14 +7,19 @@ const Login = () => {
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
   const { loginWithGoogle } = useAuth();
+  
+  // Get redirect URL from query parameters if it exists
+  const queryParams = new URLSearchParams(location.search);
+  const redirectUrl = queryParams.get('redirect') || '/dashboard';
 
   const handleGoogleLogin = async () => {
     try {
       setError('');
       setLoading(true);
       await loginWithGoogle();
-      navigate('/dashboard');
+      navigate(redirectUrl);
     } catch (error: unknown) {
       if (error instanceof FirebaseError) {
         if (error.code === 'auth/popup-closed-by-user') {
@@ -72,7 +77,7 @@ const Login = () => {
       <div className="mt-6 text-center">
         <p className="text-gray-600">
           Don't have an account?{' '}
-          <Link to="/register" className="text-blue-600 hover:underline">
+          <Link to={`/register${location.search}`} className="text-blue-600 hover:underline">
             Register
           </Link>
         </p>
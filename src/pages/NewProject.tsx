@@ -6,6 +6,7 @@ import { db } from '../lib/firebase';
 import { FirebaseError } from 'firebase/app';
 import ProjectAvatar from '../components/ProjectAvatar';
 import ImageUpload from '../components/ImageUpload';
+import { uploadLogo } from '../lib/images';
 
 const NewProject = () => {
   const [name, setName] = useState('');
@@ -21,9 +22,6 @@ const NewProject = () => {
   const navigate = useNavigate();
   const { currentUser } = useAuth();
 
-  // Worker URL for image upload
-  const WORKER_URL = import.meta.env.VITE_WORKER_URL;
-
   // Generate a slug from the project name
   const generateSlug = (projectName: string) => {
     return projectName
@@ -56,28 +54,6 @@ const NewProject = () => {
     return slug;
   };
 
-  // Upload image to R2 via worker
-  const uploadImage = async (file: File): Promise<string> => {
-    // Create a FormData object
-    const formData = new FormData();
-    formData.append('file', file);
-
-    // Upload directly to our worker
-    const response = await fetch(`${WORKER_URL}/api/images/upload`, {
-      method: 'POST',
-      body: formData,
-    });
-
-    const data = await response.json();
-
-    if (!data.success || !data.key) {
-      throw new Error(data.error || 'Failed to upload image');
-    }
-
-    // Construct the final image URL
-    return `${WORKER_URL}/api/images/${data.key}`;
-  };
-
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     
@@ -107,7 +83,7 @@ const NewProject = () => {
       let finalLogoUrl = logoUrl;
       if (selectedLogoFile) {
         try {
-          finalLogoUrl = await uploadImage(selectedLogoFile);
+          finalLogoUrl = await uploadLogo(selectedLogoFile);
         } catch (error) {
           console.error('Error uploading logo:', error);
           setError('Failed to upload logo image. Project creation aborted.');
@@ -1,19 +1,35 @@
-import { useState, useEffect, FormEvent, useCallback } from 'react';
-import { useParams, Link } from 'react-router-dom';
-import { collection, query, where, getDocs, addDoc, serverTimestamp, doc, updateDoc, increment, getDoc } from 'firebase/firestore';
+import { useState, useEffect, FormEvent, useCallback, useMemo } from 'react';
+import { useParams, Link, useSearchParams } from 'react-router-dom';
+import { collection, query, where, getDocs, doc, getDoc } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { useAuth } from '../lib/AuthContext';
 import ProjectAvatar from '../components/ProjectAvatar';
-import { getAnonymousUserId, getAnonymousUserName } from '../lib/userUtils';
-import { sendNewIssueNotification } from '../lib/emailService';
+import { getImageVariantUrl } from '../lib/images';
+import { getAnonymousUserId } from '../lib/userUtils';
+import { createThread, searchThreads, ThreadSearchResult } from '../lib/threadApi';
+import { getProjectRole, getRoleLabel, MemberRole } from '../lib/projectTeam';
+import { fetchThreadPage, isThreadSort, TagMatch, ThreadSummary, threadSorts } from '../lib/threadListing';
+import { getRoadmapTag } from '../lib/roadmap';
+import { findSimilarThreads, SimilarThread } from '../lib/similarThreads';
+import { getStatusConfig, isThreadStatus, threadStatuses } from '../lib/threadStatus';
+import { Attachment } from '../lib/attachments';
 import FounderPresenceIndicator from '../components/FounderPresenceIndicator';
+import HighlightedText from '../components/HighlightedText';
+import MarkdownEditor from '../components/MarkdownEditor';
+import AttachmentPicker from '../components/AttachmentPicker';
 import { debouncedGenerateIssueTitleAndTag, generateIssueTitleAndTag } from '../lib/geminiService';
+import { defaultProjectTags, findProjectTag, getDefaultTag, getProjectTags, getTagBadgeClasses, MAX_THREAD_TAGS, ProjectTag } from '../lib/projectTags';
+import TagPicker from '../components/TagPicker';
 
 interface Project {
   id: string;
   name: string;
   description: string;
   ownerId: string;
+  memberRoles: Record<string, MemberRole>;
+  tags: ProjectTag[];
+  // Null when the project has no roadmap, see getRoadmapTag
+  roadmapTag: string | null;
   createdAt: Date;
   website?: string;
   logoUrl?: string;
@@ -22,40 +38,21 @@ interface Project {
   twitterUrl?: string;
   linkedinUrl?: string;
   githubUrl?: string;
-  ownerEmail?: string;
   founderName?: string;
   founderTwitterUrl?: string;
   founderLinkedinUrl?: string;
   founderGithubUrl?: string;
 }
 
-interface Thread {
-  id: string;
-  title: string;
-  content: string;
-  status: 'open' | 'closed';
-  createdAt: Date;
-  authorName: string;
-  authorId?: string;
-  tag: string;
-  responseCount?: number;
-  anonymousId?: string;
-}
-
-// Issue tags
-const issueTags = [
-  { value: 'bug', label: 'Bug', color: 'text-red-600 bg-red-50' },
-  { value: 'feature', label: 'Feature', color: 'text-green-600 bg-green-50' },
-  { value: 'question', label: 'Question', color: 'text-blue-600 bg-blue-50' },
-  { value: 'help', label: 'Help', color: 'text-purple-600 bg-purple-50' },
-  { value: 'documentation', label: 'Docs', color: 'text-yellow-600 bg-yellow-50' }
-];
-
 const ProjectPage = () => {
   const { projectSlug } = useParams<{ projectSlug: string }>();
   const [project, setProject] = useState<Project | null>(null);
-  const [threads, setThreads] = useState<Thread[]>([]);
-  const [filteredThreads, setFilteredThreads] = useState<Thread[]>([]);
+  const [threads, setThreads] = useState<ThreadSummary[]>([]);
+  const [newerCursor, setNewerCursor] = useState<string | null>(null);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [threadsLoading, setThreadsLoading] = useState(true);
+  // Bumped to reload the current page, e.g. after posting a thread
+  const [threadsVersion, setThreadsVersion] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const { currentUser } = useAuth();
@@ -64,7 +61,12 @@ const ProjectPage = () => {
   const [showNewThreadForm, setShowNewThreadForm] = useState(false);
   const [threadTitle, setThreadTitle] = useState('');
   const [threadContent, setThreadContent] = useState('');
-  const [selectedTag, setSelectedTag] = useState(issueTags[0].value);
+  // Empty until the AI or the visitor picks some, in which case the project's default tag is used
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  // Once the visitor picks tags themselves, the AI stops changing them
+  const [hasManuallyPickedTags, setHasManuallyPickedTags] = useState(false);
+  const [threadAttachments, setThreadAttachments] = useState<Attachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   const [formError, setFormError] = useState('');
   const [submitting, setSubmitting] = useState(false);
   
@@ -75,17 +77,40 @@ const ProjectPage = () => {
   // AI generation state
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
   
+  // Existing threads that look like the draft
+  const [similarThreads, setSimilarThreads] = useState<SimilarThread[]>([]);
+  
   // Confirmation modal state
   const [showConfirmationModal, setShowConfirmationModal] = useState(false);
   const [isClosingModal, setIsClosingModal] = useState(false);
   
-  // Filtering options
   const [isFirstVisit, setIsFirstVisit] = useState(true);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'open' | 'closed'>('all');
-  const [filterTag, setFilterTag] = useState<string>('all');
-  const [searchQuery, setSearchQuery] = useState('');
-  // Sort newest by default without UI control
-  const sortOrder = 'newest';
+  
+  // Filtering and paging options live in the URL so a filtered page can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const statusParam = searchParams.get('status');
+  // A status, 'active' for any status but closed, or 'all'
+  const filterStatus = isThreadStatus(statusParam) || statusParam === 'active' ? statusParam : 'all';
+  // Tags are a comma-separated list, matched by any tag unless match=all
+  const tagsParam = searchParams.get('tags') || '';
+  const filterTags = useMemo(() => tagsParam.split(',').filter(Boolean), [tagsParam]);
+  const filterTagMatch: TagMatch = searchParams.get('match') === 'all' ? 'all' : 'any';
+  const filterAssignedToMe = searchParams.get('assigned') === 'me';
+  const afterCursor = searchParams.get('after');
+  const beforeCursor = searchParams.get('before');
+  const sortParam = searchParams.get('sort');
+  const sortOrder = isThreadSort(sortParam) ? sortParam : 'newest';
+  const isFiltered = filterStatus !== 'all' || filterTags.length > 0 || filterAssignedToMe || sortOrder !== 'newest';
+  // Feature requests that are still open, most wanted first
+  const roadmapTag = project?.roadmapTag;
+  const showingTopFeatures = !!roadmapTag && filterTags.length === 1 && filterTags[0] === roadmapTag && filterStatus === 'active' && sortOrder === 'most-votes';
+  const searchQuery = searchParams.get('q') || '';
+  
+  // Search state
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [searchResults, setSearchResults] = useState<ThreadSearchResult[]>([]);
+  const [searchLoading, setSearchLoading] = useState(false);
+  const [searchError, setSearchError] = useState('');
 
   useEffect(() => {
     const fetchProject = async () => {
@@ -110,8 +135,7 @@ const ProjectPage = () => {
         const projectDoc = querySnapshot.docs[0];
         const projectData = projectDoc.data();
         
-        // Fetch the owner's email from users collection
-        let ownerEmail;
+        // Fetch the founder's name and links from users collection
         let founderName;
         let founderTwitterUrl = '';
         let founderLinkedinUrl = '';
@@ -121,9 +145,7 @@ const ProjectPage = () => {
           const userDoc = await getDoc(doc(db, 'users', projectData.ownerId));
           if (userDoc.exists()) {
             const userData = userDoc.data();
-            ownerEmail = userData.email;
-            // Get founder's name from display name or email
-            founderName = userData.displayName || userData.email?.split('@')[0] || 'Project Founder';
+            founderName = userData.displayName || 'Project Founder';
             // Get founder's social media links if they exist
             founderTwitterUrl = userData.twitterUrl || '';
             founderLinkedinUrl = userData.linkedinUrl || '';
@@ -138,7 +160,9 @@ const ProjectPage = () => {
           name: projectData.name,
           description: projectData.description,
           ownerId: projectData.ownerId,
-          ownerEmail: ownerEmail,
+          memberRoles: projectData.memberRoles || {},
+          tags: getProjectTags(projectData),
+          roadmapTag: getRoadmapTag(projectData),
           createdAt: projectData.createdAt?.toDate() || new Date(),
           totalIssues: projectData.totalIssues || 0,
           closedIssues: projectData.closedIssues || 0,
@@ -154,9 +178,7 @@ const ProjectPage = () => {
         };
 
         setProject(projectObj);
-        
-        // Fetch threads for this project
-        await fetchThreads(projectDoc.id);
+        setLoading(false);
       } catch (error) {
         console.error('Error fetching project:', error);
         setError('Failed to load project');
@@ -186,45 +208,153 @@ const ProjectPage = () => {
     }
   }, []);
 
-  // Apply filters and search whenever the threads array or filter options change
+  // Load the current page of threads whenever the filters or cursor in the URL change
+  const projectId = project?.id;
+  const assigneeFilter = filterAssignedToMe ? currentUser?.uid : undefined;
   useEffect(() => {
-    if (!threads.length) {
-      setFilteredThreads([]);
-      return;
+    if (!projectId) return;
+
+    let cancelled = false;
+
+    const fetchThreads = async () => {
+      try {
+        setThreadsLoading(true);
+
+        const page = await fetchThreadPage(
+          projectId,
+          {
+            status: filterStatus !== 'all' ? filterStatus : undefined,
+            tags: filterTags,
+            tagMatch: filterTagMatch,
+            assigneeId: assigneeFilter,
+            sort: sortOrder,
+          },
+          afterCursor ? { after: afterCursor } : beforeCursor ? { before: beforeCursor } : undefined
+        );
+
+        if (cancelled) return;
+        setThreads(page.threads);
+        setNewerCursor(page.newerCursor);
+        setOlderCursor(page.olderCursor);
+      } catch (error) {
+        console.error('Error fetching threads:', error);
+      } finally {
+        if (!cancelled) {
+          setThreadsLoading(false);
+        }
+      }
+    };
+
+    fetchThreads();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, filterStatus, filterTags, filterTagMatch, assigneeFilter, sortOrder, afterCursor, beforeCursor, threadsVersion]);
+
+  // Search the project's threads and responses whenever the query in the URL changes
+  useEffect(() => {
+    setSearchInput(searchQuery);
+    if (!projectId || !searchQuery) return;
+
+    let cancelled = false;
+
+    const runSearch = async () => {
+      try {
+        setSearchLoading(true);
+        setSearchError('');
+        const results = await searchThreads(projectId, searchQuery, {
+          status: filterStatus !== 'all' ? filterStatus : undefined,
+          tags: filterTags,
+          tagMatch: filterTagMatch,
+        });
+        if (!cancelled) {
+          setSearchResults(results);
+        }
+      } catch (error) {
+        console.error('Error searching threads:', error);
+        if (!cancelled) {
+          setSearchResults([]);
+          setSearchError('Search is unavailable right now. Please try again.');
+        }
+      } finally {
+        if (!cancelled) {
+          setSearchLoading(false);
+        }
+      }
+    };
+
+    runSearch();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, searchQuery, filterStatus, filterTags, filterTagMatch]);
+
+  const handleSearchSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    updateListParams({ q: searchInput.trim() || null });
+  };
+
+  // Updates list options in the URL. Changing a filter starts again from the first page.
+  const updateListParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    const isPaging = 'after' in changes || 'before' in changes;
+
+    if (!isPaging) {
+      params.delete('after');
+      params.delete('before');
     }
 
-    let results = [...threads];
-    
-    // Apply status filter
-    if (filterStatus !== 'all') {
-      results = results.filter(thread => thread.status === filterStatus);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) {
+        params.delete(key);
+      } else {
+        params.set(key, value);
+      }
+    });
+
+    setSearchParams(params);
+  };
+
+  const goToNewerPage = () => {
+    if (newerCursor) {
+      updateListParams({ before: newerCursor, after: null });
     }
-    
-    // Apply tag filter
-    if (filterTag !== 'all') {
-      results = results.filter(thread => thread.tag === filterTag);
+  };
+
+  const goToOlderPage = () => {
+    if (olderCursor) {
+      updateListParams({ after: olderCursor, before: null });
     }
-    
-    // Apply search
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      results = results.filter(thread => 
-        thread.title.toLowerCase().includes(query) || 
-        thread.content.toLowerCase().includes(query)
-      );
+  };
+
+  // Look for similar existing threads once the visitor pauses typing
+  useEffect(() => {
+    const draft = `${threadTitle}\n${threadContent}`.trim();
+    if (!projectId || !showNewThreadForm || threadContent.trim().length < 20) {
+      setSimilarThreads([]);
+      return;
     }
-    
-    // Apply sort
-    results = results.sort((a, b) => {
-      if (sortOrder === 'newest') {
-        return b.createdAt.getTime() - a.createdAt.getTime();
-      } else {
-        return a.createdAt.getTime() - b.createdAt.getTime();
+
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const matches = await findSimilarThreads(projectId, draft);
+        if (!cancelled) {
+          setSimilarThreads(matches);
+        }
+      } catch (error) {
+        console.error('Error finding similar threads:', error);
       }
-    });
-    
-    setFilteredThreads(results);
-  }, [threads, filterStatus, filterTag, searchQuery, sortOrder]);
+    }, 1000);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [projectId, showNewThreadForm, threadTitle, threadContent]);
 
   const closeModalWithAnimation = () => {
     setIsClosingModal(true);
@@ -234,46 +364,7 @@ const ProjectPage = () => {
     }, 300); // Match animation duration
   };
 
-  const fetchThreads = async (projectId: string) => {
-    try {
-      // Modified query that doesn't use orderBy to avoid requiring the index
-      const q = query(
-        collection(db, 'threads'),
-        where('projectId', '==', projectId)
-      );
-
-      const querySnapshot = await getDocs(q);
-      const threadsList: Thread[] = [];
-
-      // Simply extract the responseCount from the thread document
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        threadsList.push({
-          id: doc.id,
-          title: data.title,
-          content: data.content,
-          status: data.status,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          authorName: data.authorName,
-          authorId: data.authorId,
-          tag: data.tag || 'question',
-          responseCount: data.responseCount || 0, // Use stored count or default to 0
-          anonymousId: data.anonymousId,
-        });
-      });
-
-      // Sort threads manually client-side
-      threadsList.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-
-      setThreads(threadsList);
-    } catch (error) {
-      console.error('Error fetching threads:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Handle content change and generate title and tag
+  // Handle content change and generate title and tags
   const handleContentChange = useCallback(async (content: string) => {
     setThreadContent(content);
     
@@ -281,13 +372,13 @@ const ProjectPage = () => {
     if (content.trim().length >= 10) {
       setIsGeneratingAI(true);
       try {
-        const generated = await debouncedGenerateIssueTitleAndTag(content);
+        const generated = await debouncedGenerateIssueTitleAndTag(content, project?.tags || defaultProjectTags);
         // Only update title if user hasn't manually edited it
         if (generated.title && !hasManuallyEditedTitle) {
           setThreadTitle(generated.title);
         }
-        if (generated.tag) {
-          setSelectedTag(generated.tag);
+        if (generated.tags.length > 0 && !hasManuallyPickedTags) {
+          setSelectedTags(generated.tags);
         }
       } catch (error) {
         console.error('Error generating title and tag:', error);
@@ -295,7 +386,7 @@ const ProjectPage = () => {
         setIsGeneratingAI(false);
       }
     }
-  }, []);
+  }, [project?.tags, hasManuallyPickedTags]);
 
   const handleNewThreadSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -316,7 +407,7 @@ const ProjectPage = () => {
       
       // If title is still generating or empty, generate one last time
       let finalTitle = threadTitle;
-      let finalTag = selectedTag;
+      let finalTags = selectedTags.length > 0 ? selectedTags : [getDefaultTag(project.tags)];
       
       if (isGeneratingAI || !finalTitle.trim()) {
         try {
@@ -324,13 +415,15 @@ const ProjectPage = () => {
           setIsGeneratingAI(true);
           
           // Generate immediately without debounce for submission
-          const generated = await generateIssueTitleAndTag(threadContent);
+          const generated = await generateIssueTitleAndTag(threadContent, project.tags);
           finalTitle = generated.title || 'Untitled Issue';
-          finalTag = generated.tag || 'question';
+          if (generated.tags.length > 0 && !hasManuallyPickedTags) {
+            finalTags = generated.tags;
+          }
           
           // Update state for consistency
           setThreadTitle(finalTitle);
-          setSelectedTag(finalTag);
+          setSelectedTags(finalTags);
         } catch (error) {
           console.error('Error generating title and tag:', error);
           finalTitle = 'Untitled Issue';
@@ -339,69 +432,22 @@ const ProjectPage = () => {
         }
       }
       
-      // Use consistent anonymous user identification
-      const authorName = currentUser 
-        ? (currentUser.displayName || 'Anonymous Founder') 
-        : getAnonymousUserName();
-      
-      const anonymousId = !currentUser ? getAnonymousUserId() : null;
-      
-      // Create thread document
-      const threadRef = await addDoc(collection(db, 'threads'), {
+      // Create the thread through the thread API, which also counts it towards the project's total
+      // and emails the project owner
+      await createThread({
         projectId: project.id,
         title: finalTitle,
         content: threadContent,
-        status: 'open',
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        authorName: authorName,
-        authorId: currentUser?.uid || null,
-        anonymousId: anonymousId, // Store anonymous ID for non-logged in users
-        isPublic: true,
-        tag: finalTag,
-        responseCount: 0, // Initialize response count to 0
+        tags: finalTags,
+        attachments: threadAttachments,
       });
       
-      // Increment the totalIssues counter in the project document
-      const projectRef = doc(db, 'projects', project.id);
-      await updateDoc(projectRef, {
-        totalIssues: increment(1)
-      });
-      
-      // Send email notification to the project owner
-      const baseUrl = window.location.origin;
-      const issueUrl = `${baseUrl}/${projectSlug}/${threadRef.id}`;
-      
-      // Only send notification if we have the owner's email
-      if (project.ownerEmail) {
-        sendNewIssueNotification({
-          type: 'new_issue',
-          projectId: project.id,
-          projectName: project.name,
-          issueId: threadRef.id,
-          issueTitle: finalTitle,
-          issueContent: threadContent,
-          recipients: [
-            {
-              email: project.ownerEmail,
-              name: 'Project Owner'
-            }
-          ],
-          userName: authorName,
-          createdAt: new Date().toISOString(),
-          issueUrl: issueUrl
-        }).catch(error => {
-          // Just log errors here but don't block the UI flow
-          console.error('Failed to send email notification:', error);
-        });
-      } else {
-        console.warn('Owner email not available, skipping email notification');
-      }
-      
       // Reset form
       setThreadTitle('');
       setThreadContent('');
-      setSelectedTag(issueTags[0].value);
+      setThreadAttachments([]);
+      setSelectedTags([]);
+      setHasManuallyPickedTags(false);
       setHasManuallyEditedTitle(false);
       setShowNewThreadForm(false);
       
@@ -409,8 +455,13 @@ const ProjectPage = () => {
       setIsClosingModal(false);
       setShowConfirmationModal(true);
       
-      // Fetch updated threads
-      await fetchThreads(project.id);
+      // Show the first page again so the new thread is visible
+      setProject({ ...project, totalIssues: (project.totalIssues || 0) + 1 });
+      if (afterCursor || beforeCursor) {
+        updateListParams({ after: null, before: null });
+      } else {
+        setThreadsVersion((version) => version + 1);
+      }
     } catch (error) {
       console.error('Error creating thread:', error);
       setFormError('Failed to create thread. Please try again.');
@@ -419,10 +470,18 @@ const ProjectPage = () => {
     }
   };
 
-  // Get tag badge color based on tag value
-  const getTagBadge = (tag: string) => {
-    const issueTag = issueTags.find(t => t.value === tag) || issueTags[0];
-    return <span className={`px-2 py-1 ${issueTag.color} text-xs rounded-md`}>{issueTag.label}</span>;
+  // Get a badge for a thread's status
+  const getStatusBadge = (status: string) => {
+    const config = getStatusConfig(status);
+    return <span className={`px-2 py-1 ${config.badge} text-xs rounded-md`}>{config.label}</span>;
+  };
+
+  // Get tag badges colored by tag value
+  const getTagBadges = (tags: string[]) => {
+    return tags.map((tag) => {
+      const issueTag = findProjectTag(project?.tags || defaultProjectTags, tag);
+      return <span key={tag} className={`px-2 py-1 ${getTagBadgeClasses(issueTag.color)} text-xs rounded-md`}>{issueTag.label}</span>;
+    });
   };
 
   // Format date as relative time (e.g., "2 hours ago")
@@ -448,15 +507,6 @@ const ProjectPage = () => {
     return `${diffInYears} year${diffInYears !== 1 ? 's' : ''} ago`;
   };
 
-  // Get counts for filter stats
-  const getStatusCounts = () => {
-    const all = filteredThreads.length;
-    const open = filteredThreads.filter(thread => thread.status === 'open').length;
-    const closed = filteredThreads.filter(thread => thread.status === 'closed').length;
-    
-    return { all, open, closed };
-  };
-
   const dismissWelcomeBanner = () => {
     setIsFirstVisit(false);
     localStorage.setItem('helpFromFounderBannerClosed', 'true');
@@ -481,8 +531,9 @@ const ProjectPage = () => {
     );
   }
 
-  const isFounder = currentUser && currentUser.uid === project.ownerId;
-  const counts = getStatusCounts();
+  const projectRole = getProjectRole(project, currentUser?.uid);
+  // Only one page of threads is loaded, so the totals come from the project's counters
+  const counts = { all: project.totalIssues || 0, closed: project.closedIssues || 0 };
 
   return (
     <div className="max-w-4xl mx-auto px-4">
@@ -522,7 +573,7 @@ const ProjectPage = () => {
         <div className="flex items-start space-x-4">
           {project.logoUrl ? (
             <img 
-              src={project.logoUrl} 
+              src={getImageVariantUrl(project.logoUrl, 128)} 
               alt={`${project.name} logo`} 
               className="w-16 h-16 rounded-md object-cover"
             />
@@ -532,10 +583,12 @@ const ProjectPage = () => {
           <div className="flex-1">
             <div className="flex flex-wrap justify-between items-start">
               <h1 className="text-2xl font-medium text-gray-900 mb-2">{project.name}</h1>
-              {isFounder && (
+              {projectRole && (
                 <div className="mt-1 md:mt-0">
                   <div className="inline-block bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded-md">
-                    You are the founder of this project
+                    {projectRole === 'owner'
+                      ? 'You are the founder of this project'
+                      : `You are a ${getRoleLabel(projectRole).toLowerCase()} of this project`}
                   </div>
                 </div>
               )}
@@ -616,6 +669,22 @@ const ProjectPage = () => {
                   {counts.closed} closed ({Math.round((counts.closed / Math.max(counts.all, 1)) * 100)}%)
                 </span>
               </div>
+              
+              {project.roadmapTag && (
+                <Link to={`/${projectSlug}/roadmap`} className="text-gray-500 hover:text-gray-700 flex items-center text-sm">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                  </svg>
+                  Roadmap
+                </Link>
+              )}
+
+              <Link to={`/${projectSlug}/changelog`} className="text-gray-500 hover:text-gray-700 flex items-center text-sm">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                Changelog
+              </Link>
             </div>
           </div>
         </div>
@@ -754,10 +823,10 @@ const ProjectPage = () => {
               <label htmlFor="issue-content" className="block text-sm font-medium text-gray-700 mb-1">
                 Describe your question or issue
               </label>
-              <textarea
+              <MarkdownEditor
                 id="issue-content"
                 value={threadContent}
-                onChange={(e) => handleContentChange(e.target.value)}
+                onChange={handleContentChange}
                 required
                 rows={6}
                 placeholder="What would you like help with?"
@@ -765,6 +834,53 @@ const ProjectPage = () => {
               />
             </div>
             
+            <AttachmentPicker
+              attachments={threadAttachments}
+              onChange={setThreadAttachments}
+              onUploadingChange={setIsUploading}
+              disabled={submitting}
+            />
+            
+            {/* Existing threads that may already answer the question */}
+            {similarThreads.length > 0 && (
+              <div className="bg-amber-50 border border-amber-100 rounded-md p-4">
+                <div className="text-sm font-medium text-amber-800 mb-2">Similar existing issues</div>
+                <p className="text-xs text-amber-700 mb-3">
+                  Your question may already have an answer. Check these before posting.
+                </p>
+                <ul className="space-y-2">
+                  {similarThreads.map((similarThread) => (
+                    <li key={similarThread.id} className="flex items-center justify-between gap-3">
+                      <Link
+                        to={`/${projectSlug}/thread/${similarThread.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-gray-900 hover:underline truncate"
+                      >
+                        {similarThread.title}
+                      </Link>
+                      <span className="flex items-center gap-2 flex-shrink-0">
+                        {similarThread.responseCount > 0 && (
+                          <span className="text-xs text-gray-500">
+                            {similarThread.responseCount} response{similarThread.responseCount !== 1 ? 's' : ''}
+                          </span>
+                        )}
+                        {similarThread.status === 'closed' ? (
+                          <span className="px-2 py-0.5 text-green-600 bg-green-50 text-xs rounded-md">
+                            {similarThread.closingReason === 'solved' ? 'Solved' : 'Closed'}
+                          </span>
+                        ) : (
+                          <span className={`px-2 py-0.5 ${getStatusConfig(similarThread.status).badge} text-xs rounded-md`}>
+                            {getStatusConfig(similarThread.status).label}
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
             {/* Smart preview section */}
             {threadContent.trim().length >= 10 && (
               <div className="border-t border-gray-100 pt-4">
@@ -829,12 +945,20 @@ const ProjectPage = () => {
                     </div>
                   </div>
                   
-                  {/* Tag preview */}
+                  {/* Tags, suggested by the AI until the visitor picks their own */}
                   <div>
-                    {isGeneratingAI ? (
+                    {isGeneratingAI && !hasManuallyPickedTags ? (
                       <div className="animate-pulse h-5 w-16 bg-gray-200 rounded-md"></div>
                     ) : (
-                      getTagBadge(selectedTag)
+                      <TagPicker
+                        tags={project.tags}
+                        selected={selectedTags}
+                        max={MAX_THREAD_TAGS}
+                        onChange={(tags) => {
+                          setSelectedTags(tags);
+                          setHasManuallyPickedTags(true);
+                        }}
+                      />
                     )}
                   </div>
                 </div>
@@ -844,7 +968,7 @@ const ProjectPage = () => {
             <div className="pt-2">
               <button
                 type="submit"
-                disabled={submitting || isGeneratingAI || (threadContent.trim().length < 10)}
+                disabled={submitting || isUploading || isGeneratingAI || (threadContent.trim().length < 10)}
                 className="w-full px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-base font-medium disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer shadow-sm"
               >
                 {submitting ? 'Sending...' : (isGeneratingAI ? 'Generating Title...' : 'Send to Founder')}
@@ -870,13 +994,150 @@ const ProjectPage = () => {
       )}
 
       {/* Issues List */}
-      {threads.length > 0 ? (
-        <>
-          {filteredThreads.length > 0 ? (
-            <div>
-              <h2 className="text-lg font-medium text-gray-800 mb-3">Previous Questions</h2>
+      {threads.length > 0 || isFiltered || afterCursor || beforeCursor || threadsLoading || searchQuery ? (
+        <div>
+          <form onSubmit={handleSearchSubmit} className="flex items-center gap-2 mb-4">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder='Search questions and answers, e.g. "reset password" or install*'
+              aria-label="Search questions and answers"
+              className="flex-1 px-3 py-2 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-gray-400"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors text-sm"
+            >
+              Search
+            </button>
+            {searchQuery && (
+              <button
+                type="button"
+                onClick={() => updateListParams({ q: null })}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors text-sm"
+              >
+                Clear
+              </button>
+            )}
+          </form>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h2 className="text-lg font-medium text-gray-800">{searchQuery ? 'Search Results' : 'Previous Questions'}</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                aria-label="Filter by status"
+                value={filterStatus}
+                onChange={(e) => updateListParams({ status: e.target.value === 'all' ? null : e.target.value })}
+                className="px-2 py-1 border border-gray-200 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-1 focus:ring-gray-400"
+              >
+                <option value="all">All statuses</option>
+                <option value="active">Not closed</option>
+                {threadStatuses.map((status) => (
+                  <option key={status.value} value={status.value}>{status.label}</option>
+                ))}
+              </select>
+              {filterTags.length > 1 && (
+                <select
+                  aria-label="Tag matching"
+                  value={filterTagMatch}
+                  onChange={(e) => updateListParams({ match: e.target.value === 'all' ? 'all' : null })}
+                  className="px-2 py-1 border border-gray-200 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-1 focus:ring-gray-400"
+                >
+                  <option value="any">Any of the tags</option>
+                  <option value="all">All of the tags</option>
+                </select>
+              )}
+              {/* Search results are ranked by relevance, so sorting and assignment only apply to the list */}
+              {!searchQuery && (
+                <select
+                  aria-label="Sort threads"
+                  value={sortOrder}
+                  onChange={(e) => updateListParams({ sort: e.target.value === 'newest' ? null : e.target.value })}
+                  className="px-2 py-1 border border-gray-200 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-1 focus:ring-gray-400"
+                >
+                  {threadSorts.map((sort) => (
+                    <option key={sort.value} value={sort.value}>{sort.label}</option>
+                  ))}
+                </select>
+              )}
+              {projectRole && !searchQuery && (
+                <button
+                  onClick={() => updateListParams({ assigned: filterAssignedToMe ? null : 'me' })}
+                  className={`px-3 py-1 rounded-md text-sm transition-colors ${filterAssignedToMe ? 'bg-gray-900 text-white hover:bg-gray-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  Assigned to me
+                </button>
+              )}
+              {!searchQuery && project.roadmapTag && (
+                <button
+                  onClick={() => updateListParams(showingTopFeatures
+                    ? { tags: null, status: null, sort: null, match: null }
+                    : { tags: project.roadmapTag, status: 'active', sort: 'most-votes', match: null })}
+                  className={`px-3 py-1 rounded-md text-sm transition-colors ${showingTopFeatures ? 'bg-gray-900 text-white hover:bg-gray-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  Top feature requests
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="mb-3">
+            <TagPicker
+              tags={project.tags}
+              selected={filterTags}
+              onChange={(tags) => updateListParams({ tags: tags.length > 0 ? tags.join(',') : null, match: tags.length > 1 ? searchParams.get('match') : null })}
+            />
+          </div>
+          {searchQuery ? (
+            searchLoading ? (
+              <div className="flex justify-center py-10">
+                <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-gray-800"></div>
+              </div>
+            ) : searchError ? (
+              <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md text-sm">
+                {searchError}
+              </div>
+            ) : searchResults.length > 0 ? (
               <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
-                {filteredThreads.map((thread) => (
+                {searchResults.map((result) => (
+                  <Link
+                    key={result.threadId}
+                    to={`/${projectSlug}/thread/${result.threadId}`}
+                    className="block p-4 hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <h3 className="text-base font-medium text-gray-900">
+                        <HighlightedText text={result.title} highlights={result.titleHighlights} />
+                      </h3>
+                      {getTagBadges(result.tags)}
+                      {result.status !== 'open' && getStatusBadge(result.status)}
+                    </div>
+                    <p className="text-sm text-gray-600 mb-1 break-words">
+                      <HighlightedText text={result.snippet} highlights={result.snippetHighlights} />
+                    </p>
+                    <div className="flex flex-wrap items-center text-xs text-gray-500">
+                      {result.createdAt && <span>Asked {formatRelativeTime(result.createdAt)}</span>}
+                      {result.voteCount > 0 && (
+                        <span className="ml-4">{result.voteCount} vote{result.voteCount !== 1 ? 's' : ''}</span>
+                      )}
+                      {result.responseCount > 0 && (
+                        <span className="ml-4">{result.responseCount} response{result.responseCount !== 1 ? 's' : ''}</span>
+                      )}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-6 text-center">
+                <h3 className="text-base font-medium text-gray-900 mb-1">No matches for "{searchQuery}"</h3>
+                <p className="text-gray-600 text-sm">
+                  Try fewer words, or end a word with * to match anything starting with it.
+                </p>
+              </div>
+            )
+          ) : threads.length > 0 ? (
+            <div>
+              <div className={`border border-gray-200 rounded-md divide-y divide-gray-200 transition-opacity ${threadsLoading ? 'opacity-60' : ''}`}>
+                {threads.map((thread) => (
                   <Link 
                     key={thread.id} 
                     to={`/${projectSlug}/thread/${thread.id}`}
@@ -884,7 +1145,7 @@ const ProjectPage = () => {
                   >
                     <div className="flex items-start">
                       <div className="mr-3 mt-1">
-                        {thread.status === 'open' && (
+                        {thread.status !== 'closed' && (
                           <span className="inline-flex items-center justify-center w-5 h-5 text-blue-600 bg-blue-100 rounded-full">
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
                               <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
@@ -902,7 +1163,8 @@ const ProjectPage = () => {
                       <div className="flex-1 min-w-0">
                         <div className="flex flex-wrap items-center gap-2 mb-1">
                           <h3 className="text-base font-medium text-gray-900 truncate">{thread.title}</h3>
-                          {getTagBadge(thread.tag)}
+                          {getTagBadges(thread.tags)}
+                          {thread.status !== 'open' && thread.status !== 'closed' && getStatusBadge(thread.status)}
                         </div>
                         
                         <div className="flex flex-wrap items-center text-xs text-gray-500">
@@ -911,6 +1173,17 @@ const ProjectPage = () => {
                             (currentUser && currentUser.uid === thread.authorId)) && (
                             <span className="ml-2 bg-gray-100 text-gray-600 text-xs px-2 py-0.5 rounded-md">You</span>
                           )}
+                          {currentUser && thread.assigneeId === currentUser.uid && (
+                            <span className="ml-2 bg-blue-50 text-blue-600 text-xs px-2 py-0.5 rounded-md">Assigned to you</span>
+                          )}
+                          {(thread.voteCount || 0) > 0 && (
+                            <span className="ml-4 flex items-center" title={`${thread.voteCount} vote${thread.voteCount !== 1 ? 's' : ''}`}>
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M14.707 12.707a1 1 0 01-1.414 0L10 9.414l-3.293 3.293a1 1 0 01-1.414-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 010 1.414z" clipRule="evenodd" />
+                              </svg>
+                              {thread.voteCount}
+                            </span>
+                          )}
                           {(thread.responseCount || 0) > 0 && (
                             <span className="ml-4 flex items-center">
                               <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -925,6 +1198,28 @@ const ProjectPage = () => {
                   </Link>
                 ))}
               </div>
+              {(newerCursor || olderCursor) && (
+                <div className="flex items-center justify-between mt-4">
+                  <button
+                    onClick={goToNewerPage}
+                    disabled={!newerCursor || threadsLoading}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:hover:bg-gray-100 transition-colors text-sm"
+                  >
+                    &larr; Newer
+                  </button>
+                  <button
+                    onClick={goToOlderPage}
+                    disabled={!olderCursor || threadsLoading}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:hover:bg-gray-100 transition-colors text-sm"
+                  >
+                    Older &rarr;
+                  </button>
+                </div>
+              )}
+            </div>
+          ) : threadsLoading ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-gray-800"></div>
             </div>
           ) : (
             <div className="bg-gray-50 border border-gray-200 rounded-md p-6 text-center">
@@ -936,18 +1231,14 @@ const ProjectPage = () => {
                 Looks like there are no matching questions.
               </p>
               <button
-                onClick={() => {
-                  setFilterStatus('all');
-                  setFilterTag('all');
-                  setSearchQuery('');
-                }}
+                onClick={() => setSearchParams(new URLSearchParams())}
                 className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors text-sm mt-1"
               >
                 Reset
               </button>
             </div>
           )}
-        </>
+        </div>
       ) : (
         <div className="border border-gray-200 rounded-md mt-4 p-6 text-center">
           <div className="flex justify-center mb-4">
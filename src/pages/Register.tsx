@@ -111,7 +111,7 @@ const Register = () => {
       <div className="mt-6 text-center">
         <p className="text-gray-600">
           Already have an account?{' '}
-          <Link to="/login" className="text-blue-600 hover:underline">
+          <Link to={`/login${location.search}`} className="text-blue-600 hover:underline">
             Login
           </Link>
         </p>
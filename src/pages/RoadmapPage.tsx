@@ -0,0 +1,267 @@
+import { useState, useEffect, DragEvent } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { useAuth } from '../lib/AuthContext';
+import { moveOnRoadmap } from '../lib/threadApi';
+import { hasProjectPermission, MemberRole } from '../lib/projectTeam';
+import {
+  fetchRoadmap,
+  getRoadmapColumn,
+  getRoadmapTag,
+  moveRoadmapCard,
+  RoadmapCard,
+  RoadmapColumn,
+  roadmapColumns,
+  sortRoadmapCards,
+} from '../lib/roadmap';
+
+interface Project {
+  id: string;
+  name: string;
+  slug: string;
+  ownerId: string;
+  memberRoles: Record<string, MemberRole>;
+  roadmapTag: string;
+}
+
+const RoadmapPage = () => {
+  const { projectSlug } = useParams<{ projectSlug: string }>();
+  const [project, setProject] = useState<Project | null>(null);
+  const [columns, setColumns] = useState<Record<RoadmapColumn, RoadmapCard[]> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const { currentUser } = useAuth();
+
+  // Moving cards between columns
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<RoadmapColumn | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [moveError, setMoveError] = useState('');
+
+  useEffect(() => {
+    const fetchProjectAndRoadmap = async () => {
+      if (!projectSlug) return;
+
+      try {
+        const projectSnapshot = await getDocs(query(
+          collection(db, 'projects'),
+          where('slug', '==', projectSlug)
+        ));
+
+        if (projectSnapshot.empty) {
+          setError('Project not found');
+          return;
+        }
+
+        const projectDoc = projectSnapshot.docs[0];
+        const projectData = projectDoc.data();
+        const roadmapTag = getRoadmapTag(projectData);
+        if (!roadmapTag) {
+          setError('This project has no roadmap');
+          return;
+        }
+
+        setProject({
+          id: projectDoc.id,
+          name: projectData.name,
+          slug: projectData.slug,
+          ownerId: projectData.ownerId,
+          memberRoles: projectData.memberRoles || {},
+          roadmapTag,
+        });
+
+        setColumns(await fetchRoadmap(projectDoc.id, roadmapTag));
+      } catch (error) {
+        console.error('Error fetching roadmap:', error);
+        setError('Failed to load the roadmap');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProjectAndRoadmap();
+  }, [projectSlug]);
+
+  const canMove = !!project && hasProjectPermission(project, currentUser?.uid, 'closeThreads');
+
+  // Requests closed to the feature backlog show without the tag, but only tagged ones can move
+  const isMovable = (card: RoadmapCard) => canMove && !!project && card.tags.includes(project.roadmapTag);
+
+  const handleMove = async (cardId: string, to: RoadmapColumn) => {
+    if (!columns || movingId) return;
+
+    const from = roadmapColumns.find((column) => columns[column.value].some((card) => card.id === cardId))?.value;
+    const card = from && columns[from].find((candidate) => candidate.id === cardId);
+    if (!from || !card || from === to) return;
+
+    // Show the card in its new column straight away and put it back if the move fails
+    const previous = columns;
+    setColumns({
+      ...columns,
+      [from]: columns[from].filter((candidate) => candidate.id !== cardId),
+      [to]: sortRoadmapCards([...columns[to], moveRoadmapCard(card, to)]),
+    });
+
+    try {
+      setMovingId(cardId);
+      setMoveError('');
+      // The thread API emails whoever filed or voted for the request
+      await moveOnRoadmap(cardId, to);
+    } catch (error) {
+      console.error('Error moving roadmap card:', error);
+      setColumns(previous);
+      setMoveError(error instanceof Error ? error.message : 'Failed to move the card');
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const handleDragStart = (e: DragEvent, cardId: string) => {
+    e.dataTransfer.setData('text/plain', cardId);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedId(cardId);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (e: DragEvent, column: RoadmapColumn) => {
+    e.preventDefault();
+    const cardId = e.dataTransfer.getData('text/plain') || draggedId;
+    handleDragEnd();
+    if (cardId) handleMove(cardId, column);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gray-800"></div>
+      </div>
+    );
+  }
+
+  if (error || !project || !columns) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 text-center">
+        <h1 className="text-2xl font-medium text-gray-900 mb-4">{error || 'Roadmap not found'}</h1>
+        <Link to="/" className="text-blue-600 hover:underline">Go home</Link>
+      </div>
+    );
+  }
+
+  const renderCard = (card: RoadmapCard) => (
+    <div
+      key={card.id}
+      draggable={isMovable(card) && !movingId}
+      onDragStart={(e) => handleDragStart(e, card.id)}
+      onDragEnd={handleDragEnd}
+      className={`bg-white border border-gray-200 rounded-md p-3 shadow-sm transition-opacity ${
+        isMovable(card) ? 'cursor-grab active:cursor-grabbing' : ''
+      } ${draggedId === card.id || movingId === card.id ? 'opacity-50' : ''}`}
+    >
+      <Link to={`/${project.slug}/thread/${card.id}`} className="block text-sm font-medium text-gray-900 hover:text-blue-600">
+        {card.title}
+      </Link>
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+        <div className="flex items-center gap-3">
+          <span className="flex items-center" title={`${card.voteCount} vote${card.voteCount !== 1 ? 's' : ''}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M14.707 12.707a1 1 0 01-1.414 0L10 9.414l-3.293 3.293a1 1 0 01-1.414-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            {card.voteCount}
+          </span>
+          {card.responseCount > 0 && (
+            <span className="flex items-center" title={`${card.responseCount} response${card.responseCount !== 1 ? 's' : ''}`}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+              </svg>
+              {card.responseCount}
+            </span>
+          )}
+        </div>
+        {/* Moving with a menu as well as by dragging, for keyboards and touch screens */}
+        {isMovable(card) && (
+          <select
+            aria-label={`Move "${card.title}"`}
+            value={getRoadmapColumn(card) || ''}
+            onChange={(e) => handleMove(card.id, e.target.value as RoadmapColumn)}
+            disabled={!!movingId}
+            className="px-1 py-0.5 border border-gray-200 rounded text-xs text-gray-600 bg-white focus:outline-none focus:ring-1 focus:ring-gray-400"
+          >
+            {roadmapColumns.map((column) => (
+              <option key={column.value} value={column.value}>{column.label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 pb-20">
+      {/* Breadcrumb Navigation */}
+      <div className="py-4 text-sm flex items-center mb-4">
+        <Link to="/" className="text-gray-500 hover:text-gray-700 transition-colors">Home</Link>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mx-2 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <Link to={`/${project.slug}`} className="text-gray-500 hover:text-gray-700 transition-colors font-medium">{project.name}</Link>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mx-2 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="text-gray-900">Roadmap</span>
+      </div>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-medium text-gray-900 mb-1">{project.name} Roadmap</h1>
+        <p className="text-gray-600">
+          Feature requests by status, most voted first. Vote on a request to help decide what gets built next.
+          {canMove && ' Drag cards between columns to update them; whoever filed or voted for a request gets an email.'}
+        </p>
+      </div>
+
+      {moveError && (
+        <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md text-sm mb-4">
+          {moveError}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {roadmapColumns.map((column) => (
+          <section
+            key={column.value}
+            aria-label={column.label}
+            onDragOver={(e) => {
+              if (!canMove || !draggedId) return;
+              e.preventDefault();
+              setDropTarget(column.value);
+            }}
+            onDragLeave={() => setDropTarget((current) => (current === column.value ? null : current))}
+            onDrop={(e) => canMove && handleDrop(e, column.value)}
+            className={`flex flex-col rounded-lg border border-gray-200 border-t-4 ${column.accent} p-3 min-h-[12rem] transition-colors ${
+              dropTarget === column.value ? 'bg-blue-50' : 'bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="text-sm font-medium text-gray-900">{column.label}</h2>
+              <span className="text-xs text-gray-500">{columns[column.value].length}</span>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">{column.description}</p>
+            <div className="flex flex-col gap-2">
+              {columns[column.value].length > 0 ? (
+                columns[column.value].map(renderCard)
+              ) : (
+                <p className="text-xs text-gray-400 text-center py-6">Nothing here yet</p>
+              )}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RoadmapPage;
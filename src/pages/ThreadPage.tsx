@@ -1,11 +1,26 @@
 import { useState, useEffect, FormEvent } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { doc, getDoc, collection, query, where, getDocs, addDoc, serverTimestamp, updateDoc, increment, deleteDoc, FieldValue } from 'firebase/firestore';
+import { doc, getDoc, collection, query, where, orderBy, getDocs } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { useAuth } from '../lib/AuthContext';
 import { getAnonymousUserId, getAnonymousUserName } from '../lib/userUtils';
-import { sendNewIssueNotification, getThreadParticipants } from '../lib/emailService';
+import { createResponse, closeThread, updateThreadStatus, deleteThread, assignThread, updateThreadTags, updateThread, updateResponse, deleteResponse, fetchMyVotes, setThreadVote, setResponseReaction } from '../lib/threadApi';
+import { fetchProjectTeam, getProjectRole, hasProjectPermission, MemberRole, ProjectTeam, TeamMember } from '../lib/projectTeam';
+import { defaultProjectTags, findProjectTag, getProjectTags, getTagBadgeClasses, getThreadTags, MAX_THREAD_TAGS, ProjectTag } from '../lib/projectTags';
+import { ActiveThreadStatus, ClosingReason, getStatusConfig, statusTransitions, ThreadStatus } from '../lib/threadStatus';
+import { AUTHOR_EDIT_WINDOW_HOURS, isOwnPost, isWithinEditWindow } from '../lib/authorship';
+import { Attachment } from '../lib/attachments';
+import { adjustReactionCounts, ReactionType } from '../lib/reactions';
+import { getNotificationPreferences, setThreadMuted } from '../lib/notificationPreferences';
 import UserAvatar from '../components/UserAvatar';
+import RevisionHistory, { Revision } from '../components/RevisionHistory';
+import Markdown from '../components/Markdown';
+import MarkdownEditor from '../components/MarkdownEditor';
+import TagPicker from '../components/TagPicker';
+import AttachmentList from '../components/AttachmentList';
+import AttachmentPicker from '../components/AttachmentPicker';
+import VoteButton from '../components/VoteButton';
+import ReactionBar from '../components/ReactionBar';
 
 // Configuration for closing reasons with respective styling
 const closingReasonConfig = {
@@ -41,6 +56,22 @@ const closingReasonConfig = {
     ),
     message: 'This feature has been added to the backlog.'
   },
+  duplicate: {
+    key: 'duplicate',
+    label: 'Duplicate',
+    color: 'gray',
+    icon: (className: string) => (
+      <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+      </svg>
+    ),
+    smallIcon: (className: string) => (
+      <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+      </svg>
+    ),
+    message: 'This issue is a duplicate of another thread.'
+  },
   other: {
     key: 'other',
     label: 'Other',
@@ -63,18 +94,25 @@ interface Thread {
   id: string;
   title: string;
   content: string;
-  status: 'open' | 'closed';
-  closingReason?: 'solved' | 'feature backlog' | 'other';
+  status: ThreadStatus;
+  closingReason?: ClosingReason;
   closingNote?: string;
+  // The thread this one was closed as a duplicate of
+  duplicateOf?: string;
   closedBy?: string;
   createdAt: Date;
   authorName: string;
   authorId?: string;
   projectId: string;
-  tag: string;
+  tags: string[];
+  attachments: Attachment[];
+  voteCount: number;
   anonymousId?: string;
+  assigneeId?: string;
   closedAt?: Date;
   updatedAt?: Date;
+  // When the author last edited the title or content
+  editedAt?: Date;
 }
 
 interface Response {
@@ -85,28 +123,47 @@ interface Response {
   authorId?: string;
   anonymousId?: string;
   isFounder: boolean;
+  attachments: Attachment[];
+  reactionCounts: Record<string, number>;
+  // Set when the author edited the response
+  updatedAt?: Date;
+}
+
+// One entry of the thread's activity, from its events subcollection. Only the fields of
+// the event's type are set.
+interface ThreadEvent {
+  id: string;
+  type: 'created' | 'edited' | 'status-changed' | 'tags-changed' | 'assigned' | 'response-edited' | 'response-deleted';
+  actorName: string;
+  from?: ThreadStatus;
+  to?: ThreadStatus;
+  closingReason?: ClosingReason;
+  closingNote?: string;
+  duplicateOf?: string;
+  added?: string[];
+  removed?: string[];
+  assigneeId?: string | null;
+  fields?: string[];
+  createdAt: Date;
 }
 
+// Responses and events in the order they happened
+type TimelineItem = { kind: 'response'; response: Response } | { kind: 'event'; event: ThreadEvent };
+
+const itemDate = (item: TimelineItem) => (item.kind === 'response' ? item.response.createdAt : item.event.createdAt);
+
 interface Project {
   id: string;
   name: string;
   slug: string;
   ownerId: string;
+  memberRoles: Record<string, MemberRole>;
+  tags: ProjectTag[];
   twitterUrl?: string;
   linkedinUrl?: string;
   githubUrl?: string;
-  ownerEmail?: string;
 }
 
-// Issue tags
-const issueTags = [
-  { value: 'bug', label: 'Bug', color: 'text-red-600 bg-red-50' },
-  { value: 'feature', label: 'Feature', color: 'text-green-600 bg-green-50' },
-  { value: 'question', label: 'Question', color: 'text-blue-600 bg-blue-50' },
-  { value: 'help', label: 'Help', color: 'text-purple-600 bg-purple-50' },
-  { value: 'documentation', label: 'Docs', color: 'text-yellow-600 bg-yellow-50' }
-];
-
 const ThreadPage = () => {
   const { projectSlug, threadId } = useParams<{ projectSlug: string; threadId: string }>();
   const [thread, setThread] = useState<Thread | null>(null);
@@ -119,6 +176,8 @@ const ThreadPage = () => {
   
   // Response form state
   const [responseContent, setResponseContent] = useState('');
+  const [responseAttachments, setResponseAttachments] = useState<Attachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [formError, setFormError] = useState('');
 
@@ -127,10 +186,49 @@ const ThreadPage = () => {
   const [isDeleting, setIsDeleting] = useState(false);
   // Add states for closing modal
   const [showCloseModal, setShowCloseModal] = useState(false);
-  const [closingReason, setClosingReason] = useState<'solved' | 'feature backlog' | 'other'>('solved');
+  const [closingReason, setClosingReason] = useState<ClosingReason>('solved');
   const [closingNote, setClosingNote] = useState('');
+  const [duplicateInput, setDuplicateInput] = useState('');
+  const [closeError, setCloseError] = useState('');
   const [isClosing, setIsClosing] = useState(false);
 
+  // Editing and deleting your own thread and responses
+  const [isEditingThread, setIsEditingThread] = useState(false);
+  const [editTitle, setEditTitle] = useState('');
+  const [editContent, setEditContent] = useState('');
+  const [isSavingThread, setIsSavingThread] = useState(false);
+  const [threadEditError, setThreadEditError] = useState('');
+  const [editingResponseId, setEditingResponseId] = useState<string | null>(null);
+  const [editResponseContent, setEditResponseContent] = useState('');
+  const [isSavingResponse, setIsSavingResponse] = useState(false);
+  const [responseEditError, setResponseEditError] = useState('');
+  const [responseToDelete, setResponseToDelete] = useState<Response | null>(null);
+  const [isDeletingResponse, setIsDeletingResponse] = useState(false);
+  // Earlier versions of the thread (responseId null) and its responses, only readable by the team
+  const [revisions, setRevisions] = useState<Array<Revision & { responseId: string | null }>>([]);
+
+  // Workflow state
+  const [events, setEvents] = useState<ThreadEvent[]>([]);
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [statusError, setStatusError] = useState('');
+  
+  // Assignment state
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [assignError, setAssignError] = useState('');
+  const [isTagging, setIsTagging] = useState(false);
+  const [tagError, setTagError] = useState('');
+
+  // The current visitor's vote and reactions, and the ones still being saved
+  const [hasVoted, setHasVoted] = useState(false);
+  const [isVoting, setIsVoting] = useState(false);
+  const [myReactions, setMyReactions] = useState<Record<string, ReactionType[]>>({});
+  const [reactingTo, setReactingTo] = useState<string[]>([]);
+  
+  // Whether the signed-in user muted emails about this thread
+  const [isThreadMuted, setIsThreadMuted] = useState(false);
+  const [isMuting, setIsMuting] = useState(false);
+
   useEffect(() => {
     const fetchThreadAndProject = async () => {
       if (!projectSlug || !threadId) {
@@ -157,24 +255,13 @@ const ThreadPage = () => {
         const projectDoc = projectSnapshot.docs[0];
         const projectData = projectDoc.data();
         
-        // Fetch the owner's email from users collection
-        let ownerEmail;
-        try {
-          const userDoc = await getDoc(doc(db, 'users', projectData.ownerId));
-          if (userDoc.exists()) {
-            const userData = userDoc.data();
-            ownerEmail = userData.email;
-          }
-        } catch (userError) {
-          console.error('Error fetching project owner data:', userError);
-        }
-        
         const projectObj = {
           id: projectDoc.id,
           name: projectData.name,
           slug: projectData.slug,
           ownerId: projectData.ownerId,
-          ownerEmail: ownerEmail,
+          memberRoles: projectData.memberRoles || {},
+          tags: getProjectTags(projectData),
           twitterUrl: projectData.twitterUrl,
           linkedinUrl: projectData.linkedinUrl,
           githubUrl: projectData.githubUrl,
@@ -208,21 +295,27 @@ const ThreadPage = () => {
           status: threadData.status,
           closingReason: threadData.closingReason,
           closingNote: threadData.closingNote,
+          duplicateOf: threadData.duplicateOf || undefined,
           closedBy: threadData.closedBy,
           createdAt: threadData.createdAt?.toDate() || new Date(),
           authorName: threadData.authorName,
           authorId: threadData.authorId,
           projectId: threadData.projectId,
-          tag: threadData.tag || 'question',
+          tags: getThreadTags(threadData),
+          attachments: threadData.attachments || [],
+          voteCount: threadData.voteCount || 0,
           anonymousId: threadData.anonymousId,
+          assigneeId: threadData.assigneeId || undefined,
           closedAt: threadData.closedAt?.toDate(),
           updatedAt: threadData.updatedAt?.toDate(),
+          editedAt: threadData.editedAt?.toDate(),
         };
         
         setThread(threadObj);
         
-        // Fetch responses
-        await fetchResponses(threadId);
+        // Fetch responses and the activity timeline
+        await fetchResponses(threadId, projectObj);
+        await fetchEvents(threadId);
         
       } catch (error) {
         console.error('Error fetching thread:', error);
@@ -235,7 +328,76 @@ const ThreadPage = () => {
     fetchThreadAndProject();
   }, [projectSlug, threadId]);
 
-  const fetchResponses = async (threadId: string) => {
+  // Load the visitor's own vote and reactions, which only the thread API can read
+  useEffect(() => {
+    if (!threadId) return;
+
+    fetchMyVotes(threadId)
+      .then(({ voted, reactions }) => {
+        setHasVoted(voted);
+        setMyReactions(reactions);
+      })
+      .catch((error) => console.error('Error fetching votes:', error));
+  }, [threadId, currentUser]);
+
+  // Load whether the signed-in user muted this thread
+  useEffect(() => {
+    if (!threadId || !currentUser) {
+      setIsThreadMuted(false);
+      return;
+    }
+
+    getDoc(doc(db, 'users', currentUser.uid))
+      .then((userDoc) => setIsThreadMuted(getNotificationPreferences(userDoc.data()).mutedThreadIds.includes(threadId)))
+      .catch((error) => console.error('Error fetching notification preferences:', error));
+  }, [threadId, currentUser]);
+
+  // Load the team for the assignee picker. Member documents are only readable by the team
+  useEffect(() => {
+    if (!project || !getProjectRole(project, currentUser?.uid)) {
+      setTeam([]);
+      return;
+    }
+
+    fetchProjectTeam(project.id, project.ownerId)
+      .then(setTeam)
+      .catch((error) => console.error('Error fetching project team:', error));
+  }, [project, currentUser]);
+
+  // Load the earlier versions of edited posts for the team. Revisions are only readable by the team
+  useEffect(() => {
+    if (!project || !threadId || !getProjectRole(project, currentUser?.uid)) {
+      setRevisions([]);
+      return;
+    }
+
+    fetchRevisions(threadId);
+  }, [project, currentUser, threadId]);
+
+  const fetchRevisions = async (threadId: string) => {
+    try {
+      const q = query(
+        collection(db, 'threads', threadId, 'revisions'),
+        orderBy('createdAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      setRevisions(querySnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          responseId: data.responseId || null,
+          title: data.title,
+          content: data.content,
+          createdAt: data.createdAt?.toDate() || new Date(),
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    }
+  };
+
+  const fetchResponses = async (threadId: string, projectTeam: ProjectTeam) => {
     try {
       const q = query(
         collection(db, 'responses'),
@@ -254,7 +416,12 @@ const ThreadPage = () => {
           authorName: data.authorName,
           authorId: data.authorId,
           anonymousId: data.anonymousId,
-          isFounder: data.isFounder || false,
+          attachments: data.attachments || [],
+          reactionCounts: data.reactionCounts || {},
+          updatedAt: data.updatedAt?.toDate(),
+          // Derive the badge from the author instead of trusting the stored flag,
+          // which older clients could set on their own responses
+          isFounder: hasProjectPermission(projectTeam, data.authorId, 'respondAsTeam'),
         });
       });
 
@@ -267,6 +434,37 @@ const ThreadPage = () => {
     }
   };
 
+  const fetchEvents = async (threadId: string) => {
+    try {
+      const q = query(
+        collection(db, 'threads', threadId, 'events'),
+        orderBy('createdAt', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      setEvents(querySnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          type: data.type,
+          actorName: data.actorName,
+          from: data.from,
+          to: data.to,
+          closingReason: data.closingReason || undefined,
+          closingNote: data.closingNote || undefined,
+          duplicateOf: data.duplicateOf || undefined,
+          added: data.added,
+          removed: data.removed,
+          assigneeId: data.assigneeId,
+          fields: data.fields,
+          createdAt: data.createdAt?.toDate() || new Date(),
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching thread activity:', error);
+    }
+  };
+
   const handleSubmitResponse = async (e: FormEvent) => {
     e.preventDefault();
     
@@ -284,105 +482,23 @@ const ThreadPage = () => {
       setSubmitting(true);
       setFormError('');
       
-      const isFounder = currentUser && currentUser.uid === project.ownerId;
-      
-      // Use consistent anonymous user identification
-      const authorName = currentUser 
-        ? (currentUser.displayName || 'Anonymous Founder') 
-        : getAnonymousUserName();
-      
-      const anonymousId = !currentUser ? getAnonymousUserId() : null;
-      
-      console.log('Creating response with:', {
-        threadId: thread.id,
-        authorName,
-        anonymousId,
-        isFounder
-      });
-      
       try {
-        // Create response document
-        await addDoc(collection(db, 'responses'), {
-          threadId: thread.id,
-          content: responseContent,
-          createdAt: serverTimestamp(),
-          authorName: authorName,
-          authorId: currentUser?.uid || null,
-          anonymousId: anonymousId, // Store anonymous ID for non-logged in users
-          isFounder,
-        });
+        // Create the response through the thread API, which stamps the founder badge,
+        // bumps the thread's response count and emails the other participants
+        await createResponse(thread.id, responseContent, responseAttachments);
       } catch (responseError) {
-        console.error('Error creating response document:', responseError);
+        console.error('Error creating response:', responseError);
         setFormError(`Failed to create response: ${responseError instanceof Error ? responseError.message : 'Unknown error'}`);
         setSubmitting(false);
         return;
       }
       
-      try {
-        // Increment response count in thread document
-        const threadRef = doc(db, 'threads', thread.id);
-        await updateDoc(threadRef, {
-          responseCount: increment(1)
-        });
-      } catch (threadError) {
-        console.error('Error updating thread response count:', threadError);
-        // Continue anyway since the response was created
-      }
-      
-      // Create the issue URL
-      const baseUrl = window.location.origin;
-      const issueUrl = `${baseUrl}/${projectSlug}/thread/${threadId}`;
-      
-      // Get all thread participants who should receive a notification
-      const participants = await getThreadParticipants(thread.id, currentUser?.uid || null);
-      
-      // Check if we should send email notifications
-      let shouldSendEmails = true;
-      
-      // Check if the last response was from the same user and less than 1 hour ago
-      if (responses.length > 0) {
-        const lastResponse = responses[responses.length - 1];
-        const now = new Date();
-        const oneHourInMs = 60 * 60 * 1000; // 1 hour in milliseconds
-        const isWithinLastHour = now.getTime() - lastResponse.createdAt.getTime() < oneHourInMs;
-        
-        // Check if last response was from the same user (authenticated or anonymous)
-        const isSameAuthor = 
-          (currentUser?.uid && lastResponse.authorId === currentUser.uid) || 
-          (!currentUser && lastResponse.anonymousId === getAnonymousUserId());
-        
-        // Don't send emails if both conditions are met
-        if (isWithinLastHour && isSameAuthor) {
-          console.log('Skipping email notification: Same user responded less than 1 hour ago');
-          shouldSendEmails = false;
-        }
-      }
-      
-      // Only send notifications if there are recipients and we should send emails
-      if (participants.length > 0 && shouldSendEmails) {
-        // Send notification to all participants
-        sendNewIssueNotification({
-          type: 'new_response',
-          projectId: project.id,
-          projectName: project.name,
-          issueId: thread.id,
-          issueTitle: thread.title,
-          responseContent: responseContent,
-          responseAuthor: authorName,
-          recipients: participants,
-          createdAt: new Date().toISOString(),
-          issueUrl: issueUrl
-        }).catch(error => {
-          // Just log errors here but don't block the UI flow
-          console.error('Failed to send email notification:', error);
-        });
-      }
-      
       // Reset form
       setResponseContent('');
+      setResponseAttachments([]);
       
       // Fetch updated responses
-      await fetchResponses(thread.id);
+      await fetchResponses(thread.id, project);
     } catch (error) {
       console.error('Error creating response:', error);
       setFormError('Failed to add response. Please try again.');
@@ -391,72 +507,72 @@ const ThreadPage = () => {
     }
   };
 
-  const handleUpdateStatus = async (newStatus: 'open' | 'closed') => {
+  const handleUpdateStatus = async (newStatus: ThreadStatus) => {
     if (!thread || !project || !currentUser) return;
     
-    // Only the founder can update the status
-    if (currentUser.uid !== project.ownerId) return;
+    // Only team members whose role allows it can update the status, and reporters can reopen their own thread
+    const isReporterReopening = thread.status === 'closed' && newStatus === 'open' && thread.authorId === currentUser.uid;
+    if (!hasProjectPermission(project, currentUser.uid, 'closeThreads') && !isReporterReopening) return;
     
-    // If opening, just update status
-    if (newStatus === 'open') {
-      try {
-        const threadRef = doc(db, 'threads', thread.id);
-        await updateDoc(threadRef, {
-          status: newStatus,
-          updatedAt: serverTimestamp(),
-          // Clear closing reason, note, and closedBy when reopening
-          closingReason: null,
-          closingNote: null,
-          closedBy: null
-        });
-        
-        // Decrement the closedIssues counter when reopening an issue
-        const projectRef = doc(db, 'projects', thread.projectId);
-        await updateDoc(projectRef, {
-          closedIssues: increment(-1)
-        });
-        
-        // Update local thread state
-        setThread({
-          ...thread,
-          status: newStatus,
+    // For closing, show the modal instead of directly updating
+    if (newStatus === 'closed') {
+      setCloseError('');
+      setShowCloseModal(true);
+      return;
+    }
+    
+    try {
+      setIsUpdatingStatus(true);
+      setStatusError('');
+      
+      // The thread API also updates the project's counters when a thread is reopened
+      await updateThreadStatus(thread.id, newStatus as ActiveThreadStatus);
+      
+      // Update local thread state; reopening clears how the thread was closed
+      setThread({
+        ...thread,
+        status: newStatus,
+        ...(thread.status === 'closed' && {
           closingReason: undefined,
           closingNote: undefined,
-          closedBy: undefined
-        });
-      } catch (error) {
-        console.error('Error updating thread status:', error);
-      }
-    } else {
-      // For closing, show the modal instead of directly updating
-      setShowCloseModal(true);
+          duplicateOf: undefined,
+          closedBy: undefined,
+          closedAt: undefined,
+        }),
+        updatedAt: new Date(),
+      });
+      await fetchEvents(thread.id);
+    } catch (error) {
+      console.error('Error updating thread status:', error);
+      setStatusError(error instanceof Error ? error.message : 'Failed to update the status');
+    } finally {
+      setIsUpdatingStatus(false);
     }
   };
 
   const handleCloseThread = async () => {
     if (!thread || !project || !currentUser) return;
     
+    // Accept either a thread link or a bare thread ID for the original thread
+    const duplicateOf = closingReason === 'duplicate'
+      ? duplicateInput.trim().replace(/\/+$/, '').split('/').pop() || ''
+      : undefined;
+    
+    if (closingReason === 'duplicate' && !duplicateOf) {
+      setCloseError('Enter the link or ID of the original thread');
+      return;
+    }
+    
     try {
       setIsClosing(true);
+      setCloseError('');
       
       // Get the founder's name
       const founderName = currentUser.displayName || 'Founder';
       
-      const threadRef = doc(db, 'threads', thread.id);
-      await updateDoc(threadRef, {
-        status: 'closed',
-        closingReason: closingReason,
-        closingNote: closingNote.trim() || null,
-        closedBy: founderName,
-        updatedAt: serverTimestamp(),
-        closedAt: serverTimestamp(),
-      });
-      
-      // Update the closedIssues counter for all closed issues
-      const projectRef = doc(db, 'projects', thread.projectId);
-      await updateDoc(projectRef, {
-        closedIssues: increment(1)
-      });
+      // The thread API also increments the project's closedIssues counter. Duplicates are
+      // linked to the original of the thread given, which is returned.
+      const canonicalId = await closeThread(thread.id, closingReason, closingNote.trim(), duplicateOf);
       
       // Update local thread state
       const now = new Date();
@@ -465,62 +581,240 @@ const ThreadPage = () => {
         status: 'closed',
         closingReason: closingReason,
         closingNote: closingNote.trim() || undefined,
+        duplicateOf: canonicalId || undefined,
         closedBy: founderName,
         updatedAt: now,
         closedAt: now,
       });
+      await fetchEvents(thread.id);
       
       // Close the modal
       setShowCloseModal(false);
       setClosingNote('');
+      setDuplicateInput('');
     } catch (error) {
       console.error('Error closing thread:', error);
+      setCloseError(error instanceof Error ? error.message : 'Failed to close the thread');
     } finally {
       setIsClosing(false);
     }
   };
 
-  const handleDeleteThread = async () => {
+  const handleAssignThread = async (assigneeId: string) => {
     if (!thread || !project || !currentUser) return;
     
-    // Only the founder can delete the thread
-    if (currentUser.uid !== project.ownerId) return;
+    // Only team members whose role allows it can assign the thread
+    if (!hasProjectPermission(project, currentUser.uid, 'assignThreads')) return;
     
     try {
-      setIsDeleting(true);
+      setIsAssigning(true);
+      setAssignError('');
       
-      // Get all responses to this thread
-      const responsesQuery = query(
-        collection(db, 'responses'),
-        where('threadId', '==', thread.id)
-      );
+      await assignThread(thread.id, assigneeId || null);
+      setThread({ ...thread, assigneeId: assigneeId || undefined });
+      fetchEvents(thread.id);
+    } catch (error) {
+      console.error('Error assigning thread:', error);
+      setAssignError(error instanceof Error ? error.message : 'Failed to assign thread');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleUpdateTags = async (tags: string[]) => {
+    if (!thread || !project || !currentUser) return;
+    
+    // Only team members whose role allows it can change the tags
+    if (!hasProjectPermission(project, currentUser.uid, 'tagThreads')) return;
+    
+    if (tags.length === 0) {
+      setTagError('A thread needs at least one tag');
+      return;
+    }
+    
+    try {
+      setIsTagging(true);
+      setTagError('');
       
-      const responsesSnapshot = await getDocs(responsesQuery);
+      await updateThreadTags(thread.id, tags);
+      setThread({ ...thread, tags });
+      fetchEvents(thread.id);
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      setTagError(error instanceof Error ? error.message : 'Failed to update tags');
+    } finally {
+      setIsTagging(false);
+    }
+  };
+
+  const startEditingThread = () => {
+    if (!thread) return;
+    setEditTitle(thread.title);
+    setEditContent(thread.content);
+    setThreadEditError('');
+    setIsEditingThread(true);
+  };
+
+  const handleSaveThread = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!thread || !project) return;
+    
+    if (!editTitle.trim() || !editContent.trim()) {
+      setThreadEditError('Title and content are required');
+      return;
+    }
+    
+    try {
+      setIsSavingThread(true);
+      setThreadEditError('');
       
-      // Delete all responses
-      const deleteResponsePromises = responsesSnapshot.docs.map(doc => 
-        deleteDoc(doc.ref)
-      );
+      // The thread API keeps the previous title and content as a revision
+      await updateThread(thread.id, { title: editTitle.trim(), content: editContent.trim() });
       
-      await Promise.all(deleteResponsePromises);
+      setThread({ ...thread, title: editTitle.trim(), content: editContent.trim(), editedAt: new Date() });
+      setIsEditingThread(false);
+      fetchEvents(thread.id);
+      if (getProjectRole(project, currentUser?.uid)) fetchRevisions(thread.id);
+    } catch (error) {
+      console.error('Error editing thread:', error);
+      setThreadEditError(error instanceof Error ? error.message : 'Failed to save your changes');
+    } finally {
+      setIsSavingThread(false);
+    }
+  };
+
+  const startEditingResponse = (response: Response) => {
+    setEditingResponseId(response.id);
+    setEditResponseContent(response.content);
+    setResponseEditError('');
+  };
+
+  const handleSaveResponse = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!thread || !project || !editingResponseId) return;
+    
+    if (!editResponseContent.trim()) {
+      setResponseEditError('Response content is required');
+      return;
+    }
+    
+    try {
+      setIsSavingResponse(true);
+      setResponseEditError('');
       
-      // Delete the thread document
-      await deleteDoc(doc(db, 'threads', thread.id));
+      // The thread API keeps the previous content as a revision
+      await updateResponse(editingResponseId, editResponseContent.trim());
       
-      // Update the project counters
-      const projectRef = doc(db, 'projects', thread.projectId);
+      setResponses(responses.map((response) => (
+        response.id === editingResponseId
+          ? { ...response, content: editResponseContent.trim(), updatedAt: new Date() }
+          : response
+      )));
+      setEditingResponseId(null);
+      fetchEvents(thread.id);
+      if (getProjectRole(project, currentUser?.uid)) fetchRevisions(thread.id);
+    } catch (error) {
+      console.error('Error editing response:', error);
+      setResponseEditError(error instanceof Error ? error.message : 'Failed to save your changes');
+    } finally {
+      setIsSavingResponse(false);
+    }
+  };
+
+  const handleDeleteResponse = async () => {
+    if (!thread || !responseToDelete) return;
+    
+    try {
+      setIsDeletingResponse(true);
       
-      // Decrement totalIssues
-      const updateData: { totalIssues: FieldValue; closedIssues?: FieldValue } = {
-        totalIssues: increment(-1)
-      };
+      // The thread API also decrements the thread's response count
+      await deleteResponse(responseToDelete.id);
       
-      // If thread was closed, also decrement closedIssues
-      if (thread.status === 'closed') {
-        updateData.closedIssues = increment(-1);
-      }
+      setResponses(responses.filter((response) => response.id !== responseToDelete.id));
+      setResponseToDelete(null);
+      fetchEvents(thread.id);
+    } catch (error) {
+      console.error('Error deleting response:', error);
+      setResponseToDelete(null);
+    } finally {
+      setIsDeletingResponse(false);
+    }
+  };
+
+  // Votes and reactions show up straight away and are rolled back if the thread API refuses them
+  const handleToggleVote = async () => {
+    if (!thread || isVoting) return;
+    const voted = !hasVoted;
+
+    setIsVoting(true);
+    setHasVoted(voted);
+    setThread((current) => current && { ...current, voteCount: Math.max(0, current.voteCount + (voted ? 1 : -1)) });
+    try {
+      await setThreadVote(thread.id, voted);
+    } catch (error) {
+      console.error('Error saving vote:', error);
+      setHasVoted(!voted);
+      setThread((current) => current && { ...current, voteCount: Math.max(0, current.voteCount + (voted ? -1 : 1)) });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleToggleThreadMute = async () => {
+    if (!thread || !currentUser || isMuting) return;
+    const muted = !isThreadMuted;
+
+    setIsMuting(true);
+    try {
+      await setThreadMuted(currentUser.uid, thread.id, muted);
+      setIsThreadMuted(muted);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+    } finally {
+      setIsMuting(false);
+    }
+  };
+
+  const handleToggleReaction = async (responseId: string, reaction: ReactionType) => {
+    if (reactingTo.includes(responseId)) return;
+    const reacted = !(myReactions[responseId] || []).includes(reaction);
+
+    const apply = (add: boolean) => {
+      setMyReactions((current) => {
+        const others = (current[responseId] || []).filter((value) => value !== reaction);
+        return { ...current, [responseId]: add ? [...others, reaction] : others };
+      });
+      setResponses((current) => current.map((response) => (
+        response.id === responseId
+          ? { ...response, reactionCounts: adjustReactionCounts(response.reactionCounts, reaction, add ? 1 : -1) }
+          : response
+      )));
+    };
+
+    setReactingTo((current) => [...current, responseId]);
+    apply(reacted);
+    try {
+      await setResponseReaction(responseId, reaction, reacted);
+    } catch (error) {
+      console.error('Error saving reaction:', error);
+      apply(!reacted);
+    } finally {
+      setReactingTo((current) => current.filter((id) => id !== responseId));
+    }
+  };
+
+  const handleDeleteThread = async () => {
+    if (!thread || !project) return;
+    
+    // Team members whose role allows it can delete the thread, and so can its author for a while after posting
+    if (!hasProjectPermission(project, currentUser?.uid, 'deleteThreads') &&
+      !(isOwnPost(thread, currentUser?.uid) && isWithinEditWindow(thread.createdAt))) return;
+    
+    try {
+      setIsDeleting(true);
       
-      await updateDoc(projectRef, updateData);
+      // Delete the thread and its responses and update the project counters
+      await deleteThread(thread.id);
       
       // Redirect back to project page
       navigate(`/${projectSlug}`);
@@ -556,9 +850,11 @@ const ThreadPage = () => {
   };
 
   // Get tag badge
-  const getTagBadge = (tag: string) => {
-    const issueTag = issueTags.find(t => t.value === tag) || issueTags[0];
-    return <span className={`px-2 py-1 ${issueTag.color} text-xs rounded-md`}>{issueTag.label}</span>;
+  const getTagBadges = (tags: string[]) => {
+    return tags.map((tag) => {
+      const issueTag = findProjectTag(project?.tags || defaultProjectTags, tag);
+      return <span key={tag} className={`px-2 py-1 ${getTagBadgeClasses(issueTag.color)} text-xs rounded-md`}>{issueTag.label}</span>;
+    });
   };
 
   // Get status badge
@@ -585,8 +881,15 @@ const ThreadPage = () => {
           </span>
         );
       }
-      default:
-        return null;
+      default: {
+        // Intermediate workflow statuses
+        const config = getStatusConfig(status);
+        return (
+          <span className={`px-2 py-1 ${config.badge} text-xs rounded-md flex items-center`} title={config.description}>
+            {config.label}
+          </span>
+        );
+      }
     }
   };
 
@@ -623,7 +926,177 @@ const ThreadPage = () => {
     );
   }
 
-  const isFounder = currentUser && currentUser.uid === project.ownerId;
+  const isFounder = hasProjectPermission(project, currentUser?.uid, 'respondAsTeam');
+  const canCloseThread = hasProjectPermission(project, currentUser?.uid, 'closeThreads');
+  // Reporters can reopen their own thread if the problem comes back
+  const canReopenOwnThread = (thread.status as string) === 'closed' && !!currentUser && thread.authorId === currentUser.uid;
+  const canDeleteThread = hasProjectPermission(project, currentUser?.uid, 'deleteThreads');
+  const canAssignThread = hasProjectPermission(project, currentUser?.uid, 'assignThreads');
+  const canTagThread = hasProjectPermission(project, currentUser?.uid, 'tagThreads');
+  // Authors can edit and delete their own posts for a while after posting
+  const canEditOwnPost = (post: { authorId?: string; anonymousId?: string; createdAt: Date }) => (
+    isOwnPost(post, currentUser?.uid) && isWithinEditWindow(post.createdAt)
+  );
+  const canEditOwnThread = canEditOwnPost(thread);
+
+  // Names of assignees in the timeline. Member documents are only readable by the team,
+  // so everyone else sees "a team member"
+  const getMemberName = (userId: string) => {
+    const member = team.find((teamMember) => teamMember.userId === userId);
+    return member?.displayName || member?.email || 'a team member';
+  };
+
+  const getStatusLabel = (status?: ThreadStatus) => (
+    <span className={`px-2 py-0.5 ${getStatusConfig(status || 'open').badge} text-xs rounded-md`}>{getStatusConfig(status || 'open').label}</span>
+  );
+
+  // Describe what an event changed, after the name of whoever made the change
+  const describeEvent = (event: ThreadEvent) => {
+    switch (event.type) {
+      case 'status-changed':
+        if (event.to === 'closed') {
+          const reason = closingReasonConfig[event.closingReason || 'other'];
+          return event.duplicateOf ? (
+            <>closed this as a duplicate of <Link to={`/${projectSlug}/thread/${event.duplicateOf}`} className="text-blue-600 hover:text-blue-800">another thread</Link></>
+          ) : (
+            <>closed this as {reason.label.toLowerCase()}</>
+          );
+        }
+        if (event.from === 'closed') return <>reopened this</>;
+        return <>moved this from {getStatusLabel(event.from)} to {getStatusLabel(event.to)}</>;
+      case 'tags-changed':
+        return (
+          <>
+            {event.added && event.added.length > 0 && <>added {getTagBadges(event.added)}</>}
+            {event.added && event.added.length > 0 && event.removed && event.removed.length > 0 && ' and '}
+            {event.removed && event.removed.length > 0 && <>removed {getTagBadges(event.removed)}</>}
+          </>
+        );
+      case 'assigned':
+        return event.assigneeId ? <>assigned this to {getMemberName(event.assigneeId)}</> : <>unassigned this</>;
+      case 'edited':
+        return <>edited the {event.fields?.length === 1 ? event.fields[0] : 'thread'}</>;
+      case 'response-edited':
+        return <>edited a response</>;
+      case 'response-deleted':
+        return <>deleted a response</>;
+      default:
+        return null;
+    }
+  };
+
+  const renderEvent = (event: ThreadEvent) => (
+    <div key={event.id} className="flex flex-wrap items-center gap-1.5 px-4 text-sm text-gray-600">
+      <span className="font-medium text-gray-900">{event.actorName}</span>
+      {describeEvent(event)}
+      <span className="text-gray-400">· {formatRelativeTime(event.createdAt)}</span>
+    </div>
+  );
+
+  const renderResponse = (response: Response) => (
+    <div 
+      key={response.id} 
+      className={`border border-gray-200 rounded-lg overflow-hidden ${response.isFounder ? 'border-l-4 border-l-blue-500' : ''}`}
+    >
+      <div className={`flex items-center justify-between px-4 py-3 ${response.isFounder ? 'bg-blue-50' : 'bg-gray-50'}`}>
+        <div className="flex items-center">
+          <UserAvatar 
+            name={response.authorName}
+            size="sm"
+            className={`mr-2 ${response.isFounder ? 'ring-2 ring-blue-500' : ''}`}
+          />
+          <div>
+            <span className="font-medium text-gray-900">{response.authorName}</span>
+            {response.isFounder && (
+              <span className="ml-2 bg-blue-100 text-blue-700 text-xs px-2 py-0.5 rounded-full">
+                Founder
+              </span>
+            )}
+            {isOwnPost(response, currentUser?.uid) && (
+              <span className="ml-2 bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">
+                You
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 text-sm text-gray-500">
+          {editingResponseId !== response.id && canEditOwnPost(response) && (
+            <button onClick={() => startEditingResponse(response)} className="hover:text-gray-700" title={`Authors can edit and delete their posts for ${AUTHOR_EDIT_WINDOW_HOURS} hours`}>Edit</button>
+          )}
+          {editingResponseId !== response.id && (canDeleteThread || canEditOwnPost(response)) && (
+            <button onClick={() => setResponseToDelete(response)} className="hover:text-red-600">Delete</button>
+          )}
+          <span>
+            {formatRelativeTime(response.createdAt)}
+            {response.updatedAt && <span className="ml-1 text-gray-400">(edited)</span>}
+          </span>
+        </div>
+      </div>
+      
+      <div className="px-4 py-4 bg-white">
+        {editingResponseId === response.id ? (
+          <form onSubmit={handleSaveResponse} className="space-y-3">
+            {responseEditError && (
+              <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md text-sm">
+                {responseEditError}
+              </div>
+            )}
+            <MarkdownEditor
+              value={editResponseContent}
+              onChange={setEditResponseContent}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex gap-3 justify-end">
+              <button
+                type="button"
+                onClick={() => setEditingResponseId(null)}
+                disabled={isSavingResponse}
+                className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSavingResponse}
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-70"
+              >
+                {isSavingResponse ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <Markdown content={response.content} className="text-gray-700" />
+        )}
+        <AttachmentList attachments={response.attachments} className="mt-3" />
+        <ReactionBar
+          counts={response.reactionCounts}
+          mine={myReactions[response.id] || []}
+          onToggle={(reaction) => handleToggleReaction(response.id, reaction)}
+          disabled={reactingTo.includes(response.id)}
+          className="mt-3"
+        />
+        <RevisionHistory revisions={revisions.filter((revision) => revision.responseId === response.id)} />
+      </div>
+    </div>
+  );
+
+  // The opening post shows the thread's creation, and the closing details show the latest close
+  const latestClose = (thread.status as string) === 'closed'
+    ? [...events].reverse().find((event) => event.type === 'status-changed' && event.to === 'closed')
+    : undefined;
+  const timeline: TimelineItem[] = [
+    ...responses.map((response): TimelineItem => ({ kind: 'response', response })),
+    ...events
+      .filter((event) => event.type !== 'created' && event !== latestClose)
+      .map((event): TimelineItem => ({ kind: 'event', event })),
+  ].sort((a, b) => itemDate(a).getTime() - itemDate(b).getTime());
+
+  // When the thread is closed, the closing details go between what happened before and after
+  const closedAt = (thread.status as string) === 'closed' ? thread.closedAt : undefined;
+  const timelineBeforeClose = closedAt ? timeline.filter((item) => itemDate(item) < closedAt) : timeline;
+  const timelineAfterClose = closedAt ? timeline.filter((item) => itemDate(item) >= closedAt) : [];
+  const renderTimelineItem = (item: TimelineItem) => item.kind === 'response' ? renderResponse(item.response) : renderEvent(item.event);
 
   return (
     <div className="max-w-3xl mx-auto px-4 pb-20">
@@ -645,124 +1118,107 @@ const ThreadPage = () => {
         <div className="flex justify-between items-start mb-4">
           <div className="flex items-center space-x-2">
             {getStatusBadge(thread.status as string)}
-            {getTagBadge(thread.tag)}
+            {getTagBadges(thread.tags)}
           </div>
+          {canEditOwnThread && !isEditingThread && (
+            <div className="flex items-center gap-3 text-sm" title={`Authors can edit and delete their posts for ${AUTHOR_EDIT_WINDOW_HOURS} hours`}>
+              <button onClick={startEditingThread} className="text-gray-500 hover:text-gray-700">Edit</button>
+              {!canDeleteThread && (
+                <button onClick={() => setShowDeleteConfirm(true)} className="text-gray-500 hover:text-red-600">Delete</button>
+              )}
+            </div>
+          )}
         </div>
         
-        <h1 className="text-2xl font-medium text-gray-900 mb-4">{thread.title}</h1>
+        {isEditingThread ? (
+          <form onSubmit={handleSaveThread} className="mb-6 space-y-3">
+            {threadEditError && (
+              <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md text-sm">
+                {threadEditError}
+              </div>
+            )}
+            <input
+              type="text"
+              value={editTitle}
+              onChange={(e) => setEditTitle(e.target.value)}
+              maxLength={200}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <MarkdownEditor
+              value={editContent}
+              onChange={setEditContent}
+              rows={6}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex gap-3 justify-end">
+              <button
+                type="button"
+                onClick={() => setIsEditingThread(false)}
+                disabled={isSavingThread}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSavingThread}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-70"
+              >
+                {isSavingThread ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <h1 className="text-2xl font-medium text-gray-900 mb-4">{thread.title}</h1>
+        )}
         
-        <div className="flex items-center mb-6">
-          <UserAvatar 
-            name={thread.authorName}
-            size="sm"
-            className="flex-shrink-0"
-          />
-          <div className="ml-2 text-sm text-gray-600">
-            <span className="font-medium text-gray-900">{thread.authorName}</span>
-            <span className="mx-2">·</span>
-            <span>{formatRelativeTime(thread.createdAt)}</span>
-            {((!currentUser && thread.anonymousId === getAnonymousUserId()) || 
-              (currentUser && currentUser.uid === thread.authorId)) && (
-              <span className="ml-2 bg-gray-100 text-gray-600 text-xs px-2 py-0.5 rounded-md">You</span>
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div className="flex items-center">
+            <UserAvatar 
+              name={thread.authorName}
+              size="sm"
+              className="flex-shrink-0"
+            />
+            <div className="ml-2 text-sm text-gray-600">
+              <span className="font-medium text-gray-900">{thread.authorName}</span>
+              <span className="mx-2">·</span>
+              <span>{formatRelativeTime(thread.createdAt)}</span>
+              {thread.editedAt && <span className="ml-1 text-gray-400">(edited)</span>}
+              {isOwnPost(thread, currentUser?.uid) && (
+                <span className="ml-2 bg-gray-100 text-gray-600 text-xs px-2 py-0.5 rounded-md">You</span>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {currentUser && (
+              <button
+                onClick={handleToggleThreadMute}
+                disabled={isMuting}
+                title={isThreadMuted ? 'Get emails about this thread again' : 'Stop getting emails about this thread'}
+                className="px-3 py-1.5 text-sm text-gray-600 border border-gray-200 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {isThreadMuted ? 'Unmute' : 'Mute'}
+              </button>
             )}
+            <VoteButton count={thread.voteCount} voted={hasVoted} onToggle={handleToggleVote} disabled={isVoting} />
           </div>
         </div>
         
-        <div className="prose max-w-none mb-6 p-4 bg-gray-50 rounded-lg whitespace-pre-line border border-gray-100">
-          {thread.content}
-        </div>
+        {!isEditingThread && (
+          <Markdown content={thread.content} className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-100 text-gray-800" />
+        )}
+        
+        <AttachmentList attachments={thread.attachments} className="mb-6" />
+        
+        <RevisionHistory revisions={revisions.filter((revision) => revision.responseId === null)} />
       </div>
       
       {/* Conversation Section */}
       <div className="mb-8">
-        {responses.length > 0 ? (
+        {timeline.length > 0 || (thread.status as string) === 'closed' ? (
           <div className="space-y-4">
-            {/* Before closed responses */}
-            {(thread.status as string) === 'closed' && thread.closedAt ? (
-              // If thread is closed, split responses into before and after closing
-              responses
-                .filter(response => new Date(response.createdAt) < new Date(thread.closedAt as Date))
-                .map((response) => (
-                  <div 
-                    key={response.id} 
-                    className={`border border-gray-200 rounded-lg overflow-hidden ${response.isFounder ? 'border-l-4 border-l-blue-500' : ''}`}
-                  >
-                    <div className={`flex items-center justify-between px-4 py-3 ${response.isFounder ? 'bg-blue-50' : 'bg-gray-50'}`}>
-                      <div className="flex items-center">
-                        <UserAvatar 
-                          name={response.authorName}
-                          size="sm"
-                          className={`mr-2 ${response.isFounder ? 'ring-2 ring-blue-500' : ''}`}
-                        />
-                        <div>
-                          <span className="font-medium text-gray-900">{response.authorName}</span>
-                          {response.isFounder && (
-                            <span className="ml-2 bg-blue-100 text-blue-700 text-xs px-2 py-0.5 rounded-full">
-                              Founder
-                            </span>
-                          )}
-                          {((!currentUser && response.anonymousId === getAnonymousUserId()) || 
-                            (currentUser && currentUser.uid === response.authorId)) && (
-                            <span className="ml-2 bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">
-                              You
-                            </span>
-                          )}
-                        </div>
-                      </div>
-                      <div className="text-sm text-gray-500">
-                        {formatRelativeTime(response.createdAt)}
-                      </div>
-                    </div>
-                    
-                    <div className="px-4 py-4 bg-white">
-                      <div className="prose max-w-none text-gray-700 whitespace-pre-line">
-                        {response.content}
-                      </div>
-                    </div>
-                  </div>
-                ))
-            ) : (
-              // If thread is open, show all responses
-              responses.map((response) => (
-                <div 
-                  key={response.id} 
-                  className={`border border-gray-200 rounded-lg overflow-hidden ${response.isFounder ? 'border-l-4 border-l-blue-500' : ''}`}
-                >
-                  <div className={`flex items-center justify-between px-4 py-3 ${response.isFounder ? 'bg-blue-50' : 'bg-gray-50'}`}>
-                    <div className="flex items-center">
-                      <UserAvatar 
-                        name={response.authorName}
-                        size="sm"
-                        className={`mr-2 ${response.isFounder ? 'ring-2 ring-blue-500' : ''}`}
-                      />
-                      <div>
-                        <span className="font-medium text-gray-900">{response.authorName}</span>
-                        {response.isFounder && (
-                          <span className="ml-2 bg-blue-100 text-blue-700 text-xs px-2 py-0.5 rounded-full">
-                            Founder
-                          </span>
-                        )}
-                        {((!currentUser && response.anonymousId === getAnonymousUserId()) || 
-                          (currentUser && currentUser.uid === response.authorId)) && (
-                          <span className="ml-2 bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">
-                            You
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                    <div className="text-sm text-gray-500">
-                      {formatRelativeTime(response.createdAt)}
-                    </div>
-                  </div>
-                  
-                  <div className="px-4 py-4 bg-white">
-                    <div className="prose max-w-none text-gray-700 whitespace-pre-line">
-                      {response.content}
-                    </div>
-                  </div>
-                </div>
-              ))
-            )}
+            {/* Responses and activity before the thread was closed */}
+            {timelineBeforeClose.map(renderTimelineItem)}
             
             {/* Closing information */}
             {(thread.status as string) === 'closed' && (
@@ -822,6 +1278,13 @@ const ThreadPage = () => {
                             {thread.closingNote && (
                               <p className="mb-2">{thread.closingNote}</p>
                             )}
+                            {thread.duplicateOf && (
+                              <p className="mb-2">
+                                <Link to={`/${projectSlug}/thread/${thread.duplicateOf}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                                  View the original thread
+                                </Link>
+                              </p>
+                            )}
                             <p className="text-sm text-gray-600">
                               This thread is closed but you can still add responses if you have additional information.
                             </p>
@@ -848,50 +1311,8 @@ const ThreadPage = () => {
               </div>
             )}
             
-            {/* After closed responses */}
-            {(thread.status as string) === 'closed' && thread.closedAt && 
-              responses
-                .filter(response => new Date(response.createdAt) >= new Date(thread.closedAt as Date))
-                .map((response) => (
-                  <div 
-                    key={response.id} 
-                    className={`border border-gray-200 rounded-lg overflow-hidden ${response.isFounder ? 'border-l-4 border-l-blue-500' : ''}`}
-                  >
-                    <div className={`flex items-center justify-between px-4 py-3 ${response.isFounder ? 'bg-blue-50' : 'bg-gray-50'}`}>
-                      <div className="flex items-center">
-                        <UserAvatar 
-                          name={response.authorName}
-                          size="sm"
-                          className={`mr-2 ${response.isFounder ? 'ring-2 ring-blue-500' : ''}`}
-                        />
-                        <div>
-                          <span className="font-medium text-gray-900">{response.authorName}</span>
-                          {response.isFounder && (
-                            <span className="ml-2 bg-blue-100 text-blue-700 text-xs px-2 py-0.5 rounded-full">
-                              Founder
-                            </span>
-                          )}
-                          {((!currentUser && response.anonymousId === getAnonymousUserId()) || 
-                            (currentUser && currentUser.uid === response.authorId)) && (
-                            <span className="ml-2 bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">
-                              You
-                            </span>
-                          )}
-                        </div>
-                      </div>
-                      <div className="text-sm text-gray-500">
-                        {formatRelativeTime(response.createdAt)}
-                      </div>
-                    </div>
-                    
-                    <div className="px-4 py-4 bg-white">
-                      <div className="prose max-w-none text-gray-700 whitespace-pre-line">
-                        {response.content}
-                      </div>
-                    </div>
-                  </div>
-                ))
-            }
+            {/* Responses and activity since the thread was closed */}
+            {timelineAfterClose.map(renderTimelineItem)}
           </div>
         ) : (
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center mb-8">
@@ -933,8 +1354,56 @@ const ThreadPage = () => {
         </div>
       )}
       
-      {/* Add Thread Actions Section for Founders */}
-      {isFounder && (
+      {/* Assignee picker for the project team */}
+      {canAssignThread && team.length > 0 && (
+        <div className="mb-3">
+          <div className="flex items-center justify-between border border-gray-200 rounded-lg p-4 bg-gray-50">
+            <label htmlFor="assignee" className="text-gray-700 font-medium">Assignee</label>
+            <select
+              id="assignee"
+              value={thread.assigneeId || ''}
+              disabled={isAssigning}
+              onChange={(e) => handleAssignThread(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+            >
+              <option value="">Unassigned</option>
+              {team.map((member) => (
+                <option key={member.userId} value={member.userId}>
+                  {member.userId === currentUser?.uid ? 'Me' : member.displayName || member.email || 'Team member'}
+                </option>
+              ))}
+            </select>
+          </div>
+          {assignError && (
+            <p className="text-red-600 text-sm mt-2">{assignError}</p>
+          )}
+        </div>
+      )}
+      
+      {/* Tag editor for the project team. Tags the project has since dropped stay listed until removed */}
+      {canTagThread && (
+        <div className="mb-3">
+          <div className="flex items-center justify-between gap-4 border border-gray-200 rounded-lg p-4 bg-gray-50">
+            <span className="text-gray-700 font-medium">Tags</span>
+            <TagPicker
+              tags={[
+                ...project.tags,
+                ...thread.tags.filter((tag) => !project.tags.some((projectTag) => projectTag.value === tag)).map((tag) => findProjectTag(project.tags, tag)),
+              ]}
+              selected={thread.tags}
+              max={MAX_THREAD_TAGS}
+              disabled={isTagging}
+              onChange={handleUpdateTags}
+            />
+          </div>
+          {tagError && (
+            <p className="text-red-600 text-sm mt-2">{tagError}</p>
+          )}
+        </div>
+      )}
+      
+      {/* Add Thread Actions Section for the project team, or reopening for the reporter */}
+      {(canCloseThread || canReopenOwnThread) && (
         <div className="mb-6">
           {(thread.status as string) === 'closed' ? (
             <div className="flex items-center justify-between border border-gray-200 rounded-lg p-4 bg-gray-50">
@@ -946,7 +1415,8 @@ const ThreadPage = () => {
               </div>
               <button
                 onClick={() => handleUpdateStatus('open')}
-                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
+                disabled={isUpdatingStatus}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium disabled:opacity-50"
               >
                 Reopen Thread
               </button>
@@ -957,15 +1427,31 @@ const ThreadPage = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-500 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5.121 17.804A13.937 13.937 0 0112 16c2.5 0 4.847.655 6.879 1.804M15 10a3 3 0 11-6 0 3 3 0 016 0zm6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <span className="text-gray-700 font-medium">Founder Actions</span>
+                <span className="text-gray-700 font-medium">Team Actions</span>
               </div>
               <div className="flex gap-3">
-                <button
-                  onClick={() => setShowDeleteConfirm(true)}
-                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
+                <select
+                  aria-label="Move to"
+                  value=""
+                  disabled={isUpdatingStatus}
+                  onChange={(e) => e.target.value && handleUpdateStatus(e.target.value as ThreadStatus)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
                 >
-                  Delete Thread
-                </button>
+                  <option value="">Move to...</option>
+                  {statusTransitions[thread.status]
+                    .filter((status) => status !== 'closed')
+                    .map((status) => (
+                      <option key={status} value={status}>{getStatusConfig(status).label}</option>
+                    ))}
+                </select>
+                {canDeleteThread && (
+                  <button
+                    onClick={() => setShowDeleteConfirm(true)}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
+                  >
+                    Delete Thread
+                  </button>
+                )}
                 <button
                   onClick={() => handleUpdateStatus('closed')}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
@@ -975,6 +1461,9 @@ const ThreadPage = () => {
               </div>
             </div>
           )}
+          {statusError && (
+            <p className="text-red-600 text-sm mt-2">{statusError}</p>
+          )}
         </div>
       )}
       
@@ -993,9 +1482,9 @@ const ThreadPage = () => {
           
           <form onSubmit={handleSubmitResponse} className="space-y-4">
             <div>
-              <textarea
+              <MarkdownEditor
                 value={responseContent}
-                onChange={(e) => setResponseContent(e.target.value)}
+                onChange={setResponseContent}
                 className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 rows={4}
                 placeholder={isFounder ? "Type your response to help solve this issue..." : "Share your thoughts or additional information..."}
@@ -1013,10 +1502,17 @@ const ThreadPage = () => {
               </p>
             </div>
             
+            <AttachmentPicker
+              attachments={responseAttachments}
+              onChange={setResponseAttachments}
+              onUploadingChange={setIsUploading}
+              disabled={submitting}
+            />
+            
             <div>
               <button
                 type="submit"
-                disabled={submitting}
+                disabled={submitting || isUploading}
                 className={`px-5 py-2.5 ${isFounder ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-800 hover:bg-gray-900'} text-white rounded-md transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed shadow-sm w-full md:w-auto`}
               >
                 {submitting ? 'Sending...' : isFounder ? 'Send Founder Response' : 'Post Response'}
@@ -1048,9 +1544,9 @@ const ThreadPage = () => {
           
           <form onSubmit={handleSubmitResponse} className="space-y-4">
             <div>
-              <textarea
+              <MarkdownEditor
                 value={responseContent}
-                onChange={(e) => setResponseContent(e.target.value)}
+                onChange={setResponseContent}
                 className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 rows={4}
                 placeholder={isFounder ? "Type your response to help solve this issue..." : "Share your thoughts or additional information..."}
@@ -1068,10 +1564,17 @@ const ThreadPage = () => {
               </p>
             </div>
             
+            <AttachmentPicker
+              attachments={responseAttachments}
+              onChange={setResponseAttachments}
+              onUploadingChange={setIsUploading}
+              disabled={submitting}
+            />
+            
             <div>
               <button
                 type="submit"
-                disabled={submitting}
+                disabled={submitting || isUploading}
                 className={`px-5 py-2.5 ${isFounder ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-800 hover:bg-gray-900'} text-white rounded-md transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed shadow-sm w-full md:w-auto`}
               >
                 {submitting ? 'Sending...' : isFounder ? 'Send Founder Response' : 'Post Response'}
@@ -1125,6 +1628,34 @@ const ThreadPage = () => {
         </div>
       )}
 
+      {/* Delete Response Confirmation Modal */}
+      {responseToDelete && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full mx-auto p-6 shadow-xl animate-scale-in">
+            <h3 className="text-xl font-medium text-gray-900 mb-2 text-center">Delete this response?</h3>
+            <p className="text-gray-600 mb-6 text-center">
+              This will permanently delete the response. This cannot be undone.
+            </p>
+            <div className="flex gap-3 justify-center">
+              <button
+                onClick={() => setResponseToDelete(null)}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium shadow-sm"
+                disabled={isDeletingResponse}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDeleteResponse}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors text-sm font-medium shadow-sm disabled:opacity-70"
+                disabled={isDeletingResponse}
+              >
+                {isDeletingResponse ? 'Deleting...' : 'Delete Response'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Add this Close Issue Modal */}
       {showCloseModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1184,6 +1715,40 @@ const ThreadPage = () => {
                   </div>
                 </label>
 
+                {/* Duplicate option */}
+                <label className={`flex items-start p-3 border rounded-md cursor-pointer ${
+                  closingReason === 'duplicate' 
+                    ? `border-${closingReasonConfig.duplicate.color}-500 bg-${closingReasonConfig.duplicate.color}-50` 
+                    : 'border-gray-200 hover:bg-gray-50'
+                }`}>
+                  <input 
+                    type="radio" 
+                    name="closingReason" 
+                    value="duplicate"
+                    checked={closingReason === 'duplicate'} 
+                    onChange={() => setClosingReason('duplicate')}
+                    className="mr-3 mt-0.5"
+                  />
+                  <div className="flex-1">
+                    <div className="flex items-center">
+                      {closingReasonConfig.duplicate.icon(`h-4 w-4 text-${closingReasonConfig.duplicate.color}-500 mr-2`)}
+                      <span className="font-medium text-gray-900">Duplicate</span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      Close this thread and point people to the original thread about the same issue.
+                    </p>
+                    {closingReason === 'duplicate' && (
+                      <input
+                        type="text"
+                        value={duplicateInput}
+                        onChange={(e) => setDuplicateInput(e.target.value)}
+                        placeholder="Link or ID of the original thread"
+                        className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                  </div>
+                </label>
+
                 {/* Other option */}
                 <label className={`flex items-start p-3 border rounded-md cursor-pointer ${
                   closingReason === 'other' 
@@ -1224,6 +1789,12 @@ const ThreadPage = () => {
               />
             </div>
             
+            {closeError && (
+              <div className="bg-red-50 border border-red-100 text-red-600 px-4 py-3 rounded-md mb-4 text-sm">
+                {closeError}
+              </div>
+            )}
+            
             <div className="flex gap-3 justify-end">
               <button
                 onClick={() => setShowCloseModal(false)}
@@ -0,0 +1,277 @@
+import type { Env } from './index';
+import {
+  EmailNotificationRequest,
+  Recipient,
+  ResponseNotificationRequest,
+  createHtmlTemplate,
+  createPlainTextTemplate,
+  createSubject
+} from './email-templates';
+import { getDeliveryLedger, Throttle } from './delivery-ledger';
+import { EmailOptions, SendGridResponse, sendEmail } from './sendgrid-client';
+import { createUnsubscribeLinks } from './unsubscribe';
+
+/**
+ * Notification emails are queued, one per recipient, instead of being sent while the
+ * thread API worker waits. The queue consumer sends them, retrying failures with backoff,
+ * and skips emails already sent. Emails throttled for coming too soon after the last one
+ * are sent together, in one follow-up queued for when the window is over, see
+ * delivery-ledger.ts. Emails that still
+ * fail, or that SendGrid refuses outright, are handed back to the thread API worker, which
+ * keeps them for the project's founder to look at.
+ */
+
+// One email to one recipient, as it travels through the queue
+export interface EmailJob {
+  // Identifies this email to this recipient, so it is sent once
+  idempotencyKey: string;
+  // The notification, with only this recipient
+  notification: EmailNotificationRequest;
+  queuedAt: string;
+}
+
+// Attempts before an email is given up on
+const MAX_ATTEMPTS = 6;
+
+// The wait before each retry doubles from the first, up to the longest
+const FIRST_RETRY_SECONDS = 30;
+const LONGEST_RETRY_SECONDS = 60 * 60;
+
+// Queues take at most 100 messages per batch
+const MAX_MESSAGES_PER_BATCH = 100;
+
+// Queues delay messages by 12 hours at most; a follow-up due later is deferred again
+const MAX_DELAY_SECONDS = 12 * 60 * 60;
+
+// What happened to an attempt to deliver an email
+type DeliveryOutcome =
+  | { status: 'sent' | 'duplicate' | 'held' }
+  | { status: 'deferred'; until: number }
+  | { status: 'retry' | 'failed'; error: string };
+
+/**
+ * Splits a notification into one job per recipient
+ *
+ * @param idempotencyKey Identifies the notification, e.g. `new_response:<responseId>`. Without
+ * one, a notification sent twice is emailed twice.
+ */
+export function createEmailJobs(notification: EmailNotificationRequest, idempotencyKey?: string): EmailJob[] {
+  const key = idempotencyKey || crypto.randomUUID();
+  const queuedAt = new Date().toISOString();
+
+  return notification.recipients.map((recipient) => ({
+    idempotencyKey: `${key}:${recipient.userId || recipient.email.toLowerCase()}`,
+    notification: { ...notification, recipients: [recipient] },
+    queuedAt
+  }));
+}
+
+function retryDelaySeconds(attempt: number): number {
+  return Math.min(FIRST_RETRY_SECONDS * 2 ** (attempt - 1), LONGEST_RETRY_SECONDS);
+}
+
+// A recipient gets at most one email per throttle window about responses to the same thread
+function throttleFor(env: Env, notification: EmailNotificationRequest): Throttle | null {
+  if (notification.type !== 'new_response') return null;
+
+  const minutes = Number(env.EMAIL_THROTTLE_MINUTES) || 60;
+  return { key: `new_response:${notification.issueId}`, ms: minutes * 60 * 1000 };
+}
+
+// A follow-up lists the responses held back for it before its own
+function withHeldResponses(notification: EmailNotificationRequest, held: EmailNotificationRequest[]): EmailNotificationRequest {
+  if (notification.type !== 'new_response') return notification;
+
+  const earlierResponses = held
+    .filter((heldNotification): heldNotification is ResponseNotificationRequest => heldNotification.type === 'new_response')
+    .map(({ responseAuthor, responseContent, createdAt }) => ({ responseAuthor, responseContent, createdAt }));
+  return earlierResponses.length > 0 ? { ...notification, earlierResponses } : notification;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message || 'Unknown error';
+  return (error as SendGridResponse)?.message || String(error);
+}
+
+// SendGrid refused the email itself, e.g. an invalid address, so trying again won't help.
+// A bad API key or rate limit can be fixed in the meantime.
+function isPermanentFailure(error: unknown): boolean {
+  const status = (error as SendGridResponse)?.status;
+  return !!status && status >= 400 && status < 500 && ![401, 403, 429].includes(status);
+}
+
+async function sendJob(env: Env, job: EmailJob, held: EmailNotificationRequest[]): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    throw new Error('SendGrid API key not configured');
+  }
+
+  const notification = withHeldResponses(job.notification, held);
+  const recipient = notification.recipients[0];
+
+  // Signed-in users get their own unsubscribe links
+  const links = env.UNSUBSCRIBE_SECRET
+    ? await createUnsubscribeLinks(env.UNSUBSCRIBE_SECRET, env.UNSUBSCRIBE_URL, recipient, notification)
+    : null;
+
+  const emailOptions: EmailOptions = {
+    html: createHtmlTemplate(notification, links),
+    text: createPlainTextTemplate(notification, links),
+    subject: createSubject(notification),
+    from: {
+      name: "Help From Founder",
+      email: "contact@helpfromfounder.space"
+    },
+    to: [{
+      name: recipient.name || "User",
+      email: recipient.email
+    }],
+    // Lets mail clients show their own unsubscribe button, which mutes the project (RFC 8058)
+    ...(links ? {
+      headers: {
+        'List-Unsubscribe': `<${links.project || links.all}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      }
+    } : {})
+  };
+
+  await sendEmail(env.SENDGRID_API_KEY, emailOptions);
+}
+
+/**
+ * Makes one attempt at delivering an email
+ *
+ * @param attempt Number of this attempt, from 1
+ */
+async function deliverEmail(env: Env, job: EmailJob, attempt: number): Promise<DeliveryOutcome> {
+  const ledger = getDeliveryLedger(env.DELIVERY_LEDGER, job.notification.recipients[0].email);
+  const throttle = throttleFor(env, job.notification);
+
+  const claim = await ledger.claim(job.idempotencyKey, throttle, job.notification);
+  if (claim.status !== 'send') {
+    return claim;
+  }
+
+  try {
+    await sendJob(env, job, claim.held);
+  } catch (error) {
+    await ledger.release(job.idempotencyKey, throttle);
+    const giveUp = isPermanentFailure(error) || attempt >= MAX_ATTEMPTS;
+    return { status: giveUp ? 'failed' : 'retry', error: errorMessage(error) };
+  }
+
+  await ledger.markSent(job.idempotencyKey);
+  return { status: 'sent' };
+}
+
+/**
+ * Hands an email that could not be delivered to the thread API worker, which keeps it for
+ * the project's founder
+ */
+async function reportFailure(env: Env, job: EmailJob, error: string, attempts: number): Promise<void> {
+  if (!env.INTERNAL_API_SECRET) {
+    console.error(`Internal API secret not configured, can't report undelivered email ${job.idempotencyKey}`);
+    return;
+  }
+
+  const recipient: Recipient = job.notification.recipients[0];
+
+  const response = await env.THREAD_API.fetch('https://thread-api-worker/internal/failed-emails', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${env.INTERNAL_API_SECRET}`
+    },
+    body: JSON.stringify({
+      projectId: job.notification.projectId,
+      type: job.notification.type,
+      subject: createSubject(job.notification),
+      recipient,
+      error,
+      attempts,
+      idempotencyKey: job.idempotencyKey,
+      queuedAt: job.queuedAt
+    })
+  });
+
+  // A 404 means the project was deleted, so there's no one to report to
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to report undelivered email: ${response.status}`);
+  }
+}
+
+// How long a deferred email waits in the queue for its throttle window to be over
+function deferralSeconds(until: number): number {
+  return Math.min(Math.max(Math.ceil((until - Date.now()) / 1000), 1), MAX_DELAY_SECONDS);
+}
+
+/**
+ * Queue consumer: delivers each email, retrying failures with backoff and reporting those
+ * that are given up on
+ */
+export async function handleEmailBatch(batch: MessageBatch<EmailJob>, env: Env): Promise<void> {
+  // One at a time keeps the SendGrid calls of a batch in order
+  for (const message of batch.messages) {
+    const job = message.body;
+
+    try {
+      const outcome = await deliverEmail(env, job, message.attempts);
+
+      if (outcome.status === 'retry') {
+        console.warn(`Retrying email ${job.idempotencyKey} after attempt ${message.attempts}: ${outcome.error}`);
+        message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+        continue;
+      }
+
+      // Queued again as a new message rather than retried, so that waiting doesn't use up
+      // its attempts. The consumer's queue is always bound.
+      if (outcome.status === 'deferred') {
+        await env.EMAIL_QUEUE!.send(job, { delaySeconds: deferralSeconds(outcome.until) });
+      }
+
+      if (outcome.status === 'failed') {
+        console.error(`Giving up on email ${job.idempotencyKey} after attempt ${message.attempts}: ${outcome.error}`);
+        await reportFailure(env, job, outcome.error, message.attempts);
+      }
+
+      message.ack();
+    } catch (error) {
+      console.error(`Error delivering email ${job.idempotencyKey}:`, error);
+      message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+    }
+  }
+}
+
+// Stands in for the queue where it isn't bound, e.g. in local development. Retries come
+// straight away, as nothing outlives the request to wait for a backoff, and there is no
+// follow-up for throttled emails.
+async function deliverInline(env: Env, job: EmailJob): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    const outcome = await deliverEmail(env, job, attempt);
+    if (outcome.status === 'retry') continue;
+
+    if (outcome.status === 'deferred') {
+      console.warn(`No queue to send the follow-up of email ${job.idempotencyKey}, dropping it`);
+    }
+
+    if (outcome.status === 'failed') {
+      await reportFailure(env, job, outcome.error, attempt);
+    }
+    return;
+  }
+}
+
+/**
+ * Queues emails for delivery, or delivers them after the response where there is no queue
+ */
+export async function enqueueEmails(env: Env, ctx: Pick<ExecutionContext, 'waitUntil'>, jobs: EmailJob[]): Promise<void> {
+  if (!env.EMAIL_QUEUE) {
+    ctx.waitUntil(Promise.all(jobs.map((job) =>
+      deliverInline(env, job).catch((error) => console.error(`Error delivering email ${job.idempotencyKey}:`, error))
+    )));
+    return;
+  }
+
+  for (let i = 0; i < jobs.length; i += MAX_MESSAGES_PER_BATCH) {
+    await env.EMAIL_QUEUE.sendBatch(jobs.slice(i, i + MAX_MESSAGES_PER_BATCH).map((job) => ({ body: job })));
+  }
+}
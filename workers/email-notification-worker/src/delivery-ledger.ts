@@ -0,0 +1,265 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { EmailNotificationRequest } from './email-templates';
+
+/**
+ * Remembers which emails a recipient got, so a queued email is sent once even when it is
+ * delivered or retried twice, and a recipient isn't flooded with emails about the same
+ * thread. Emails that come too soon after the last one are held back and sent together in
+ * one follow-up once the throttle window is over. There is one ledger per recipient, which
+ * keeps its checks consistent without any locking across recipients.
+ */
+
+// What to do with an email: send it, along with any held back for it; drop it as sent
+// already; hold it back for a follow-up after the throttle window, carried by this email
+// (`deferred`) or by an earlier one (`held`)
+export type ClaimResult =
+  | { status: 'send'; held: EmailNotificationRequest[] }
+  | { status: 'duplicate' | 'held' }
+  | { status: 'deferred'; until: number };
+
+// Emails sharing the key are sent at most once per `ms`
+export interface Throttle {
+  key: string;
+  ms: number;
+}
+
+export interface DeliveryLedger {
+  /**
+   * Reserves an email for sending, starting its throttle window. An email being sent by
+   * another attempt counts as a duplicate. Within the window, the first email is deferred
+   * to send a follow-up once it is over, and the rest are held back for that follow-up.
+   *
+   * @param idempotencyKey Identifies the email
+   */
+  claim(idempotencyKey: string, throttle: Throttle | null, notification: EmailNotificationRequest): Promise<ClaimResult>;
+  // Records a claimed email as sent
+  markSent(idempotencyKey: string): Promise<void>;
+  // Gives up a claim after a failed attempt, so the retry can claim it again
+  release(idempotencyKey: string, throttle: Throttle | null): Promise<void>;
+}
+
+// How long sent emails are remembered for deduplication
+const SENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How long a claim holds before another attempt may take over, in case its worker died
+const CLAIM_TTL_MS = 5 * 60 * 1000;
+
+// When stored entries are cleaned up, at most
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Emails held back for one follow-up, at most; older ones are dropped, as the thread has them
+const MAX_HELD = 10;
+
+// Emails held back for the follow-up that the deferred email will send
+interface FollowUp {
+  idempotencyKey: string;
+  held: EmailNotificationRequest[];
+  expiresAt: number;
+}
+
+// Emails held back that a claimed email sends, kept until it is sent in case it is retried
+interface HeldEmails {
+  held: EmailNotificationRequest[];
+  expiresAt: number;
+}
+
+// Each entry maps to when it expires, or to a value holding that
+type LedgerEntry = number | FollowUp | HeldEmails;
+
+const claimEntry = (idempotencyKey: string) => `claim:${idempotencyKey}`;
+const sentEntry = (idempotencyKey: string) => `sent:${idempotencyKey}`;
+const throttleEntry = (throttleKey: string) => `throttle:${throttleKey}`;
+const followUpEntry = (throttleKey: string) => `followUp:${throttleKey}`;
+const heldEntry = (idempotencyKey: string) => `held:${idempotencyKey}`;
+
+const expiryOf = (entry: LedgerEntry) => (typeof entry === 'number' ? entry : entry.expiresAt);
+
+// Where a ledger keeps its entries: Durable Object storage, or a map in memory
+interface LedgerStorage {
+  get<T extends LedgerEntry>(key: string): Promise<T | undefined>;
+  put(entries: Record<string, LedgerEntry>): Promise<void>;
+  delete(keys: string[]): Promise<unknown>;
+}
+
+async function isLive(storage: LedgerStorage, key: string, now: number): Promise<boolean> {
+  const entry = await storage.get(key);
+  return entry !== undefined && expiryOf(entry) > now;
+}
+
+// Holds an email back within its throttle window, see `DeliveryLedger.claim`
+async function hold(
+  storage: LedgerStorage,
+  idempotencyKey: string,
+  throttle: Throttle,
+  notification: EmailNotificationRequest,
+  windowEnd: number,
+  now: number
+): Promise<ClaimResult> {
+  const followUp = await storage.get<FollowUp>(followUpEntry(throttle.key));
+
+  if (!followUp || followUp.expiresAt <= now) {
+    // Forgotten if the deferred email never comes back, a window after it was due
+    await storage.put({
+      [followUpEntry(throttle.key)]: { idempotencyKey, held: [], expiresAt: windowEnd + throttle.ms }
+    });
+    return { status: 'deferred', until: windowEnd };
+  }
+
+  if (followUp.idempotencyKey === idempotencyKey) {
+    return { status: 'deferred', until: windowEnd };
+  }
+
+  // Counts as sent, as the follow-up sends it
+  await storage.put({
+    [followUpEntry(throttle.key)]: { ...followUp, held: [...followUp.held, notification].slice(-MAX_HELD) },
+    [sentEntry(idempotencyKey)]: now + SENT_TTL_MS
+  });
+  return { status: 'held' };
+}
+
+async function claimEmail(
+  storage: LedgerStorage,
+  idempotencyKey: string,
+  throttle: Throttle | null,
+  notification: EmailNotificationRequest
+): Promise<ClaimResult> {
+  const now = Date.now();
+
+  if (await isLive(storage, sentEntry(idempotencyKey), now) || await isLive(storage, claimEntry(idempotencyKey), now)) {
+    return { status: 'duplicate' };
+  }
+
+  if (!throttle) {
+    await storage.put({ [claimEntry(idempotencyKey)]: now + CLAIM_TTL_MS });
+    return { status: 'send', held: [] };
+  }
+
+  const windowEnd = await storage.get<number>(throttleEntry(throttle.key));
+  if (windowEnd !== undefined && windowEnd > now) {
+    return hold(storage, idempotencyKey, throttle, notification, windowEnd, now);
+  }
+
+  // A deferred email takes the emails held back for it, which stay with it until it is sent
+  const followUp = await storage.get<FollowUp>(followUpEntry(throttle.key));
+  const carried = followUp?.idempotencyKey === idempotencyKey ? followUp.held : null;
+  const kept = (await storage.get<HeldEmails>(heldEntry(idempotencyKey)))?.held || [];
+  const held = [...kept, ...(carried || [])].slice(-MAX_HELD);
+
+  await storage.put({
+    [claimEntry(idempotencyKey)]: now + CLAIM_TTL_MS,
+    [throttleEntry(throttle.key)]: now + throttle.ms,
+    ...(held.length > 0 ? { [heldEntry(idempotencyKey)]: { held, expiresAt: now + SENT_TTL_MS } } : {})
+  });
+  if (carried) {
+    await storage.delete([followUpEntry(throttle.key)]);
+  }
+  return { status: 'send', held };
+}
+
+async function markEmailSent(storage: LedgerStorage, idempotencyKey: string): Promise<void> {
+  await storage.delete([claimEntry(idempotencyKey), heldEntry(idempotencyKey)]);
+  await storage.put({ [sentEntry(idempotencyKey)]: Date.now() + SENT_TTL_MS });
+}
+
+// The throttle window was free when the email was claimed, so it can be freed again. The
+// emails it holds stay for the retry.
+async function releaseEmail(storage: LedgerStorage, idempotencyKey: string, throttle: Throttle | null): Promise<void> {
+  await storage.delete([claimEntry(idempotencyKey), ...(throttle ? [throttleEntry(throttle.key)] : [])]);
+}
+
+/**
+ * The ledger of one recipient, addressed by their email address, see `getDeliveryLedger`
+ */
+export class DeliveryLedgerObject extends DurableObject implements DeliveryLedger {
+  async claim(idempotencyKey: string, throttle: Throttle | null, notification: EmailNotificationRequest): Promise<ClaimResult> {
+    const result = await claimEmail(this.ctx.storage, idempotencyKey, throttle, notification);
+    await this.scheduleCleanup();
+    return result;
+  }
+
+  async markSent(idempotencyKey: string): Promise<void> {
+    await markEmailSent(this.ctx.storage, idempotencyKey);
+  }
+
+  async release(idempotencyKey: string, throttle: Throttle | null): Promise<void> {
+    await releaseEmail(this.ctx.storage, idempotencyKey, throttle);
+  }
+
+  private async scheduleCleanup(): Promise<void> {
+    if (await this.ctx.storage.getAlarm() === null) {
+      await this.ctx.storage.setAlarm(Date.now() + CLEANUP_INTERVAL_MS);
+    }
+  }
+
+  // Drops expired entries, and the whole ledger once it is empty
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const entries = await this.ctx.storage.list<LedgerEntry>();
+    const expired = [...entries].filter(([, entry]) => expiryOf(entry) <= now).map(([key]) => key);
+
+    if (expired.length === entries.size) {
+      await this.ctx.storage.deleteAll();
+      return;
+    }
+
+    // delete() takes at most 128 keys at a time
+    for (let i = 0; i < expired.length; i += 128) {
+      await this.ctx.storage.delete(expired.slice(i, i + 128));
+    }
+    await this.ctx.storage.setAlarm(now + CLEANUP_INTERVAL_MS);
+  }
+}
+
+/**
+ * A ledger kept in memory, standing in for the Durable Object where it isn't bound, e.g.
+ * in local development. It only lasts as long as the isolate.
+ */
+class MemoryDeliveryLedger implements DeliveryLedger {
+  private entries = new Map<string, LedgerEntry>();
+
+  private storage: LedgerStorage = {
+    get: async <T extends LedgerEntry>(key: string) => this.entries.get(key) as T | undefined,
+    put: async (entries) => {
+      for (const [key, entry] of Object.entries(entries)) this.entries.set(key, entry);
+    },
+    delete: async (keys) => keys.forEach((key) => this.entries.delete(key))
+  };
+
+  claim(idempotencyKey: string, throttle: Throttle | null, notification: EmailNotificationRequest): Promise<ClaimResult> {
+    return claimEmail(this.storage, idempotencyKey, throttle, notification);
+  }
+
+  markSent(idempotencyKey: string): Promise<void> {
+    return markEmailSent(this.storage, idempotencyKey);
+  }
+
+  release(idempotencyKey: string, throttle: Throttle | null): Promise<void> {
+    return releaseEmail(this.storage, idempotencyKey, throttle);
+  }
+}
+
+const memoryLedgers = new Map<string, MemoryDeliveryLedger>();
+
+/**
+ * Gets the ledger of a recipient
+ *
+ * @param namespace The Durable Object binding, if any
+ * @param email The recipient's email address
+ */
+export function getDeliveryLedger(
+  namespace: DurableObjectNamespace<DeliveryLedgerObject> | undefined,
+  email: string
+): DeliveryLedger {
+  const name = email.trim().toLowerCase();
+
+  if (namespace) {
+    return namespace.get(namespace.idFromName(name));
+  }
+
+  let ledger = memoryLedgers.get(name);
+  if (!ledger) {
+    ledger = new MemoryDeliveryLedger();
+    memoryLedgers.set(name, ledger);
+  }
+  return ledger;
+}
@@ -0,0 +1,104 @@
+import type { Env } from './index';
+import {
+  DigestEmail,
+  DigestFrequency,
+  ProjectDigest,
+  Recipient,
+  createDigestHtmlTemplate,
+  createDigestSubject,
+  createDigestTextTemplate
+} from './email-templates';
+import { sendEmail } from './sendgrid-client';
+import { createUnsubscribeLinks } from './unsubscribe';
+
+/**
+ * Founders who chose the digest get one email a day or a week, sent from this worker's
+ * cron, instead of an email per new issue. The thread API worker, which can read every
+ * project, compiles what each digest lists; this worker renders and sends them.
+ */
+
+// A founder's digest as the thread API worker returns it
+interface FounderDigest {
+  recipient: Recipient;
+  projects: ProjectDigest[];
+}
+
+/**
+ * Asks the thread API worker for the digests due at a frequency
+ *
+ * @param env Worker environment
+ * @param frequency Which digests to fetch
+ * @param unansweredHours How old threads without a response must be to be listed
+ * @returns The digests, one per founder with anything to report
+ */
+async function fetchDigests(env: Env, frequency: DigestFrequency, unansweredHours: number): Promise<FounderDigest[]> {
+  const response = await env.THREAD_API.fetch(
+    `https://thread-api-worker/internal/digests?frequency=${frequency}&unansweredHours=${unansweredHours}`,
+    { headers: { Authorization: `Bearer ${env.INTERNAL_API_SECRET}` } }
+  );
+
+  const result = await response.json<{ success: boolean; error?: string; digests?: FounderDigest[] }>();
+  if (!response.ok || !result.success) {
+    throw new Error(`Failed to fetch ${frequency} digests: ${result.error || response.status}`);
+  }
+
+  return result.digests || [];
+}
+
+/**
+ * Sends the digests due at a frequency. A failed email is logged and doesn't stop the others.
+ *
+ * @param env Worker environment
+ * @param frequency Which digests to send
+ */
+export async function sendDigests(env: Env, frequency: DigestFrequency): Promise<void> {
+  if (!env.SENDGRID_API_KEY || !env.INTERNAL_API_SECRET) {
+    console.error('SendGrid API key or internal API secret not configured, skipping digests');
+    return;
+  }
+
+  const unansweredHours = Number(env.DIGEST_UNANSWERED_HOURS) || 48;
+  const digests = await fetchDigests(env, frequency, unansweredHours);
+
+  const results = await Promise.all(digests.map(async ({ recipient, projects }) => {
+    const digest: DigestEmail = {
+      frequency,
+      recipient,
+      projects,
+      unansweredHours,
+      preferencesUrl: `${env.APP_URL}/dashboard`
+    };
+
+    try {
+      const links = env.UNSUBSCRIBE_SECRET
+        ? await createUnsubscribeLinks(env.UNSUBSCRIBE_SECRET, env.UNSUBSCRIBE_URL, recipient, {})
+        : null;
+
+      await sendEmail(env.SENDGRID_API_KEY as string, {
+        html: createDigestHtmlTemplate(digest, links),
+        text: createDigestTextTemplate(digest, links),
+        subject: createDigestSubject(digest),
+        from: {
+          name: "Help From Founder",
+          email: "contact@helpfromfounder.space"
+        },
+        to: [{
+          name: recipient.name || "User",
+          email: recipient.email
+        }],
+        ...(links ? {
+          headers: {
+            'List-Unsubscribe': `<${links.all}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+          }
+        } : {})
+      });
+      return true;
+    } catch (error) {
+      console.error(`Error sending ${frequency} digest to ${recipient.email}:`, error);
+      return false;
+    }
+  }));
+
+  console.log(`Sent ${results.filter(Boolean).length} of ${digests.length} ${frequency} digests`);
+}
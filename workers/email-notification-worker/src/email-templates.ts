@@ -1,10 +1,23 @@
+import { escapeHtml, renderMarkdown } from './markdown';
+
 // Define notification types
-export type NotificationType = 'new_issue' | 'new_response';
+export type NotificationType = 'new_issue' | 'new_response' | 'project_invitation' | 'thread_assigned' | 'roadmap_update' | 'changelog_entry';
 
 // Recipient interface
 export interface Recipient {
   email: string;
   name?: string;
+  // Signed-in users get links to unsubscribe in the footer
+  userId?: string;
+}
+
+// One-click links in the footer of an email to a signed-in user, see unsubscribe.ts
+export interface UnsubscribeLinks {
+  // Only in emails about a thread
+  thread?: string;
+  // Not in digests, which cover several projects
+  project?: string;
+  all: string;
 }
 
 // Base notification request interface
@@ -12,42 +25,188 @@ export interface BaseNotificationRequest {
   type: NotificationType;
   projectId: string;
   projectName: string;
+  recipients: Recipient[];
+  createdAt?: string; // Optional timestamp
+}
+
+// Fields shared by notifications about an issue
+export interface IssueBaseNotificationRequest extends BaseNotificationRequest {
   issueId: string;
   issueTitle: string;
-  recipients: Recipient[];
   userName?: string; // Optional submitter name
-  createdAt?: string; // Optional timestamp
   issueUrl?: string; // Optional URL to the issue
 }
 
 // Email notification request interface for new issues
-export interface IssueNotificationRequest extends BaseNotificationRequest {
+export interface IssueNotificationRequest extends IssueBaseNotificationRequest {
   type: 'new_issue';
   issueContent: string;
 }
 
 // Email notification request interface for responses
-export interface ResponseNotificationRequest extends BaseNotificationRequest {
+export interface ResponseNotificationRequest extends IssueBaseNotificationRequest {
   type: 'new_response';
   responseContent: string;
   responseAuthor: string;
+  // Responses held back by the throttle, sent in this email before its own, oldest first
+  earlierResponses?: Array<Pick<ResponseNotificationRequest, 'responseAuthor' | 'responseContent' | 'createdAt'>>;
+}
+
+// Email notification request interface for thread assignments
+export interface AssignmentNotificationRequest extends IssueBaseNotificationRequest {
+  type: 'thread_assigned';
+  assignerName: string;
+}
+
+// Email notification request interface for feature requests moved on the roadmap
+export interface RoadmapNotificationRequest extends IssueBaseNotificationRequest {
+  type: 'roadmap_update';
+  // Name of the column the request moved to, e.g. "Planned"
+  roadmapColumn: string;
+  roadmapUrl?: string;
+}
+
+// Email notification request interface for changelog entries that went live
+export interface ChangelogNotificationRequest extends BaseNotificationRequest {
+  type: 'changelog_entry';
+  entryTitle: string;
+  // Markdown written by the founder
+  entryContent: string;
+  version?: string;
+  // Titles of the resolved threads the entry links to
+  threadTitles?: string[];
+  changelogUrl: string;
+}
+
+// Email notification request interface for project team invitations
+export interface InvitationNotificationRequest extends BaseNotificationRequest {
+  type: 'project_invitation';
+  role: string;
+  inviterName: string;
+  invitationUrl: string;
 }
 
 // Union type for all notification types
-export type EmailNotificationRequest = IssueNotificationRequest | ResponseNotificationRequest;
+export type EmailNotificationRequest =
+  | IssueNotificationRequest
+  | ResponseNotificationRequest
+  | AssignmentNotificationRequest
+  | RoadmapNotificationRequest
+  | ChangelogNotificationRequest
+  | InvitationNotificationRequest;
+
+// How often founders who chose the digest get it
+export type DigestFrequency = 'daily' | 'weekly';
+
+// A thread listed in a digest
+export interface DigestThread {
+  id: string;
+  title: string;
+  authorName: string;
+  createdAt: string;
+  url: string;
+}
+
+// What a digest reports about one of the founder's projects
+export interface ProjectDigest {
+  projectId: string;
+  projectName: string;
+  projectUrl: string;
+  newThreads: DigestThread[];
+  // Open threads without a response, oldest first
+  unansweredThreads: DigestThread[];
+  reopenedThreads: DigestThread[];
+}
+
+// A founder's digest, compiled by the thread API worker, see digests.ts
+export interface DigestEmail {
+  frequency: DigestFrequency;
+  recipient: Recipient;
+  projects: ProjectDigest[];
+  // How old threads without a response are before they're listed as unanswered
+  unansweredHours: number;
+  // Where the founder can change how often they get the digest
+  preferencesUrl: string;
+}
+
+// Required fields for each notification type, checked before sending
+export const requiredFields: Record<NotificationType, string[]> = {
+  new_issue: ['projectId', 'projectName', 'issueId', 'issueTitle', 'recipients', 'issueContent'],
+  new_response: ['projectId', 'projectName', 'issueId', 'issueTitle', 'recipients', 'responseContent', 'responseAuthor'],
+  thread_assigned: ['projectId', 'projectName', 'issueId', 'issueTitle', 'recipients', 'assignerName'],
+  roadmap_update: ['projectId', 'projectName', 'issueId', 'issueTitle', 'recipients', 'roadmapColumn'],
+  changelog_entry: ['projectId', 'projectName', 'recipients', 'entryTitle', 'entryContent', 'changelogUrl'],
+  project_invitation: ['projectId', 'projectName', 'recipients', 'role', 'inviterName', 'invitationUrl'],
+};
+
+/**
+ * Creates the email subject based on notification type
+ * 
+ * @param notification The notification data
+ * @returns Subject line for the email
+ */
+export function createSubject(notification: EmailNotificationRequest): string {
+  switch (notification.type) {
+    case 'new_issue':
+      return `New Issue: ${notification.issueTitle} - ${notification.projectName}`;
+    case 'new_response':
+      return notification.earlierResponses?.length
+        ? `${notification.earlierResponses.length + 1} New Responses on Issue: ${notification.issueTitle} - ${notification.projectName}`
+        : `New Response on Issue: ${notification.issueTitle} - ${notification.projectName}`;
+    case 'thread_assigned':
+      return `Assigned to you: ${notification.issueTitle} - ${notification.projectName}`;
+    case 'roadmap_update':
+      return `${notification.roadmapColumn}: ${notification.issueTitle} - ${notification.projectName}`;
+    case 'changelog_entry':
+      return `${notification.version ? `${notification.version}: ` : ''}${notification.entryTitle} - ${notification.projectName}`;
+    case 'project_invitation':
+      return `${notification.inviterName} invited you to join ${notification.projectName}`;
+  }
+}
+
+/**
+ * Creates the subject of a founder's digest, e.g. "Your daily digest: 3 new issues, 1 unanswered"
+ * 
+ * @param digest The digest data
+ * @returns Subject line for the email
+ */
+export function createDigestSubject(digest: DigestEmail): string {
+  const count = (key: 'newThreads' | 'unansweredThreads' | 'reopenedThreads') =>
+    digest.projects.reduce((total, project) => total + project[key].length, 0);
+
+  const newCount = count('newThreads');
+  const unansweredCount = count('unansweredThreads');
+  const reopenedCount = count('reopenedThreads');
+  const parts = [
+    newCount ? `${newCount} new issue${newCount === 1 ? '' : 's'}` : '',
+    unansweredCount ? `${unansweredCount} unanswered` : '',
+    reopenedCount ? `${reopenedCount} reopened` : '',
+  ].filter(Boolean);
+
+  return `Your ${digest.frequency} digest: ${parts.join(', ')}`;
+}
 
 /**
  * Creates an HTML email template based on notification type
  * 
  * @param notification The notification data
+ * @param links Unsubscribe links for the recipient, if they are a signed-in user
  * @returns HTML string for the email
  */
-export function createHtmlTemplate(notification: EmailNotificationRequest): string {
+export function createHtmlTemplate(notification: EmailNotificationRequest, links?: UnsubscribeLinks | null): string {
   switch (notification.type) {
     case 'new_issue':
-      return createIssueNotificationTemplate(notification);
+      return createIssueNotificationTemplate(notification, links);
     case 'new_response':
-      return createResponseNotificationTemplate(notification);
+      return createResponseNotificationTemplate(notification, links);
+    case 'thread_assigned':
+      return createAssignmentNotificationTemplate(notification, links);
+    case 'roadmap_update':
+      return createRoadmapNotificationTemplate(notification, links);
+    case 'changelog_entry':
+      return createChangelogNotificationTemplate(notification, links);
+    case 'project_invitation':
+      return createInvitationNotificationTemplate(notification);
     default: {
       // This should never happen due to TypeScript's exhaustive checking
       // Using type assertion with unknown instead of any
@@ -61,14 +220,23 @@ export function createHtmlTemplate(notification: EmailNotificationRequest): stri
  * Creates a plain text email template based on notification type
  * 
  * @param notification The notification data
+ * @param links Unsubscribe links for the recipient, if they are a signed-in user
  * @returns Plain text string for the email
  */
-export function createPlainTextTemplate(notification: EmailNotificationRequest): string {
+export function createPlainTextTemplate(notification: EmailNotificationRequest, links?: UnsubscribeLinks | null): string {
   switch (notification.type) {
     case 'new_issue':
-      return createIssueTextTemplate(notification);
+      return createIssueTextTemplate(notification, links);
     case 'new_response':
-      return createResponseTextTemplate(notification);
+      return createResponseTextTemplate(notification, links);
+    case 'thread_assigned':
+      return createAssignmentTextTemplate(notification, links);
+    case 'roadmap_update':
+      return createRoadmapTextTemplate(notification, links);
+    case 'changelog_entry':
+      return createChangelogTextTemplate(notification, links);
+    case 'project_invitation':
+      return createInvitationTextTemplate(notification);
     default: {
       // This should never happen due to TypeScript's exhaustive checking
       // Using type assertion with unknown instead of any
@@ -78,18 +246,52 @@ export function createPlainTextTemplate(notification: EmailNotificationRequest):
   }
 }
 
+/**
+ * Renders the unsubscribe links for the footer of an HTML email
+ * 
+ * @param links Unsubscribe links for the recipient, if any
+ * @returns HTML string, empty when there are no links
+ */
+function unsubscribeFooterHtml(links?: UnsubscribeLinks | null): string {
+  if (!links) return '';
+
+  const linkStyle = 'color: #666; text-decoration: underline;';
+  const parts = [
+    links.thread ? `<a href="${links.thread}" style="${linkStyle}">Mute this thread</a>` : '',
+    links.project ? `<a href="${links.project}" style="${linkStyle}">Mute this project</a>` : '',
+    `<a href="${links.all}" style="${linkStyle}">Unsubscribe from all emails</a>`,
+  ];
+  return `<p>${parts.filter(Boolean).join(' &middot; ')}</p>`;
+}
+
+/**
+ * Renders the unsubscribe links for the end of a plain text email
+ * 
+ * @param links Unsubscribe links for the recipient, if any
+ * @returns Plain text, empty when there are no links
+ */
+function unsubscribeFooterText(links?: UnsubscribeLinks | null): string {
+  if (!links) return '';
+
+  return [
+    links.thread ? `Mute this thread: ${links.thread}` : '',
+    links.project ? `Mute this project: ${links.project}` : '',
+    `Unsubscribe from all emails: ${links.all}`,
+  ].filter(Boolean).join('\n');
+}
+
 /**
  * Creates an HTML email template for issue notifications
  * 
  * @param notification The notification data
  * @returns HTML string for the email
  */
-function createIssueNotificationTemplate(notification: IssueNotificationRequest): string {
+function createIssueNotificationTemplate(notification: IssueNotificationRequest, links?: UnsubscribeLinks | null): string {
   const date = notification.createdAt 
     ? new Date(notification.createdAt).toLocaleString() 
     : new Date().toLocaleString();
   
-  const userName = notification.userName || 'Anonymous user';
+  const userName = escapeHtml(notification.userName || 'Anonymous user');
   const issueLink = notification.issueUrl 
     ? `<p><a href="${notification.issueUrl}" style="color: #3b82f6; text-decoration: underline;">View Issue</a></p>`
     : '';
@@ -99,29 +301,35 @@ function createIssueNotificationTemplate(notification: IssueNotificationRequest)
     <html>
     <head>
       <meta charset="utf-8">
-      <title>New Issue on ${notification.projectName}</title>
+      <title>New Issue on ${escapeHtml(notification.projectName)}</title>
       <style>
         body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
         .container { max-width: 600px; margin: 0 auto; padding: 20px; }
         .header { background-color: #3b82f6; color: white; padding: 10px 20px; border-radius: 4px 4px 0 0; }
         .content { border: 1px solid #ddd; border-top: none; padding: 20px; border-radius: 0 0 4px 4px; }
         .footer { margin-top: 20px; font-size: 12px; color: #666; text-align: center; }
-        pre { background: #f7f7f7; padding: 10px; border-radius: 4px; overflow: auto; }
+        .markdown pre { background: #f7f7f7; padding: 10px; border-radius: 4px; overflow: auto; }
+        .markdown code { font-family: Menlo, Consolas, monospace; font-size: 13px; background: #f3f4f6; padding: 1px 4px; border-radius: 3px; }
+        .markdown pre code { background: none; padding: 0; }
+        .markdown blockquote { border-left: 3px solid #ddd; margin: 0; padding-left: 12px; color: #666; }
+        .markdown table { border-collapse: collapse; }
+        .markdown th, .markdown td { border: 1px solid #ddd; padding: 4px 8px; }
+        .markdown a { color: #3b82f6; }
       </style>
     </head>
     <body>
       <div class="container">
         <div class="header">
-          <h2>New Issue: ${notification.issueTitle}</h2>
+          <h2>New Issue: ${escapeHtml(notification.issueTitle)}</h2>
         </div>
         <div class="content">
           <p>Hello,</p>
-          <p>A new issue has been submitted to your project <strong>${notification.projectName}</strong> by ${userName} on ${date}.</p>
+          <p>A new issue has been submitted to your project <strong>${escapeHtml(notification.projectName)}</strong> by ${userName} on ${date}.</p>
           
           <h3>Issue Details:</h3>
-          <p><strong>Title:</strong> ${notification.issueTitle}</p>
+          <p><strong>Title:</strong> ${escapeHtml(notification.issueTitle)}</p>
           <p><strong>Content:</strong></p>
-          <pre>${notification.issueContent}</pre>
+          <div class="markdown">${renderMarkdown(notification.issueContent)}</div>
           
           ${issueLink}
           
@@ -129,6 +337,79 @@ function createIssueNotificationTemplate(notification: IssueNotificationRequest)
         </div>
         <div class="footer">
           <p>This is an automated message. Please do not reply to this email.</p>
+          ${unsubscribeFooterHtml(links)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Titles of the sections of a project's digest, in the order they are shown
+function digestSections(digest: DigestEmail): Array<{ key: 'newThreads' | 'unansweredThreads' | 'reopenedThreads'; title: string }> {
+  return [
+    { key: 'newThreads', title: 'New issues' },
+    { key: 'unansweredThreads', title: `Unanswered for over ${digest.unansweredHours} hours` },
+    { key: 'reopenedThreads', title: 'Reopened by their reporters' },
+  ];
+}
+
+/**
+ * Creates an HTML email template for a founder's daily or weekly digest
+ * 
+ * @param digest The digest data
+ * @param links Unsubscribe links for the founder
+ * @returns HTML string for the email
+ */
+export function createDigestHtmlTemplate(digest: DigestEmail, links?: UnsubscribeLinks | null): string {
+  const projects = digest.projects.map((project) => {
+    const sections = digestSections(digest)
+      .filter(({ key }) => project[key].length > 0)
+      .map(({ key, title }) => `
+          <h4>${escapeHtml(title)} (${project[key].length})</h4>
+          <ul>
+            ${project[key].map((thread) => `
+            <li><a href="${thread.url}" style="color: #3b82f6; text-decoration: underline;">${escapeHtml(thread.title)}</a> <span style="color: #666;">by ${escapeHtml(thread.authorName)}, ${new Date(thread.createdAt).toLocaleDateString()}</span></li>`).join('')}
+          </ul>`)
+      .join('');
+
+    return `
+          <h3><a href="${project.projectUrl}" style="color: #333;">${escapeHtml(project.projectName)}</a></h3>
+          ${sections}`;
+  }).join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Your ${digest.frequency} digest</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #3b82f6; color: white; padding: 10px 20px; border-radius: 4px 4px 0 0; }
+        .content { border: 1px solid #ddd; border-top: none; padding: 20px; border-radius: 0 0 4px 4px; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; text-align: center; }
+        h4 { margin-bottom: 4px; }
+        ul { margin-top: 0; padding-left: 20px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>Your ${digest.frequency} digest</h2>
+        </div>
+        <div class="content">
+          <p>Hello${digest.recipient.name ? ` ${escapeHtml(digest.recipient.name)}` : ''},</p>
+          <p>Here's what needs your attention in your projects${digest.frequency === 'daily' ? ' since yesterday' : ' this week'}.</p>
+          ${projects}
+          
+          <p>Thank you for using Help From Founder!</p>
+        </div>
+        <div class="footer">
+          <p>This is an automated message. Please do not reply to this email.</p>
+          <p><a href="${digest.preferencesUrl}" style="color: #666; text-decoration: underline;">Change how often you get this digest</a></p>
+          ${unsubscribeFooterHtml(links)}
         </div>
       </div>
     </body>
@@ -142,7 +423,11 @@ function createIssueNotificationTemplate(notification: IssueNotificationRequest)
  * @param notification The notification data
  * @returns HTML string for the email
  */
-function createResponseNotificationTemplate(notification: ResponseNotificationRequest): string {
+function createResponseNotificationTemplate(notification: ResponseNotificationRequest, links?: UnsubscribeLinks | null): string {
+  if (notification.earlierResponses?.length) {
+    return createResponseFollowUpTemplate(notification, links);
+  }
+
   const date = notification.createdAt 
     ? new Date(notification.createdAt).toLocaleString() 
     : new Date().toLocaleString();
@@ -156,34 +441,319 @@ function createResponseNotificationTemplate(notification: ResponseNotificationRe
     <html>
     <head>
       <meta charset="utf-8">
-      <title>New Response on ${notification.issueTitle}</title>
+      <title>New Response on ${escapeHtml(notification.issueTitle)}</title>
       <style>
         body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
         .container { max-width: 600px; margin: 0 auto; padding: 20px; }
         .header { background-color: #3b82f6; color: white; padding: 10px 20px; border-radius: 4px 4px 0 0; }
         .content { border: 1px solid #ddd; border-top: none; padding: 20px; border-radius: 0 0 4px 4px; }
         .footer { margin-top: 20px; font-size: 12px; color: #666; text-align: center; }
-        pre { background: #f7f7f7; padding: 10px; border-radius: 4px; overflow: auto; }
+        .markdown pre { background: #f7f7f7; padding: 10px; border-radius: 4px; overflow: auto; }
+        .markdown code { font-family: Menlo, Consolas, monospace; font-size: 13px; background: #f3f4f6; padding: 1px 4px; border-radius: 3px; }
+        .markdown pre code { background: none; padding: 0; }
+        .markdown blockquote { border-left: 3px solid #ddd; margin: 0; padding-left: 12px; color: #666; }
+        .markdown table { border-collapse: collapse; }
+        .markdown th, .markdown td { border: 1px solid #ddd; padding: 4px 8px; }
+        .markdown a { color: #3b82f6; }
       </style>
     </head>
     <body>
       <div class="container">
         <div class="header">
-          <h2>New Response on Issue: ${notification.issueTitle}</h2>
+          <h2>New Response on Issue: ${escapeHtml(notification.issueTitle)}</h2>
         </div>
         <div class="content">
           <p>Hello,</p>
-          <p>A new response has been posted to an issue in the project <strong>${notification.projectName}</strong> by ${notification.responseAuthor} on ${date}.</p>
+          <p>A new response has been posted to an issue in the project <strong>${escapeHtml(notification.projectName)}</strong> by ${escapeHtml(notification.responseAuthor)} on ${date}.</p>
           
           <h3>Response Details:</h3>
-          <p><strong>Issue:</strong> ${notification.issueTitle}</p>
+          <p><strong>Issue:</strong> ${escapeHtml(notification.issueTitle)}</p>
           <p><strong>Response:</strong></p>
-          <pre>${notification.responseContent}</pre>
+          <div class="markdown">${renderMarkdown(notification.responseContent)}</div>
           
           ${issueLink}
           
           <p>Thank you for using Help From Founder!</p>
         </div>
+        <div class="footer">
+          <p>This is an automated message. Please do not reply to this email.</p>
+          ${unsubscribeFooterHtml(links)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Creates an HTML email template for a follow-up with the responses posted while the
+ * recipient's emails about the issue were throttled
+ * 
+ * @param notification The notification data, with the responses held back
+ * @returns HTML string for the email
+ */
+function createResponseFollowUpTemplate(notification: ResponseNotificationRequest, links?: UnsubscribeLinks | null): string {
+  const responses = [...(notification.earlierResponses || []), notification];
+
+  const responsesHtml = responses.map((response) => {
+    const date = response.createdAt 
+      ? new Date(response.createdAt).toLocaleString() 
+      : new Date().toLocaleString();
+    return `
+          <p><strong>${escapeHtml(response.responseAuthor)}</strong> on ${date}:</p>
+          <div class="markdown">${renderMarkdown(response.responseContent)}</div>`;
+  }).join('');
+
+  const issueLink = notification.issueUrl 
+    ? `<p><a href="${notification.issueUrl}" style="color: #3b82f6; text-decoration: underline;">View Responses</a></p>`
+    : '';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>New Responses on ${escapeHtml(notification.issueTitle)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #3b82f6; color: white; padding: 10px 20px; border-radius: 4px 4px 0 0; }
+        .content { border: 1px solid #ddd; border-top: none; padding: 20px; border-radius: 0 0 4px 4px; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; text-align: center; }
+        .markdown pre { background: #f7f7f7; padding: 10px; border-radius: 4px; overflow: auto; }
+        .markdown code { font-family: Menlo, Consolas, monospace; font-size: 13px; background: #f3f4f6; padding: 1px 4px; border-radius: 3px; }
+        .markdown pre code { background: none; padding: 0; }
+        .markdown blockquote { border-left: 3px solid #ddd; margin: 0; padding-left: 12px; color: #666; }
+        .markdown table { border-collapse: collapse; }
+        .markdown th, .markdown td { border: 1px solid #ddd; padding: 4px 8px; }
+        .markdown a { color: #3b82f6; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>New Responses on Issue: ${escapeHtml(notification.issueTitle)}</h2>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p>${responses.length} new responses have been posted to an issue in the project <strong>${escapeHtml(notification.projectName)}</strong> since your last email about it.</p>
+          
+          <h3>Responses:</h3>
+          <p><strong>Issue:</strong> ${escapeHtml(notification.issueTitle)}</p>
+          ${responsesHtml}
+          
+          ${issueLink}
+          
+          <p>Thank you for using Help From Founder!</p>
+        </div>
+        <div class="footer">
+          <p>This is an automated message. Please do not reply to this email.</p>
+          ${unsubscribeFooterHtml(links)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Creates an HTML email template for thread assignment notifications
+ * 
+ * @param notification The notification data
+ * @returns HTML string for the email
+ */
+function createAssignmentNotificationTemplate(notification: AssignmentNotificationRequest, links?: UnsubscribeLinks | null): string {
+  const issueLink = notification.issueUrl 
+    ? `<p><a href="${notification.issueUrl}" style="color: #3b82f6; text-decoration: underline;">View Issue</a></p>`
+    : '';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Assigned to you: ${escapeHtml(notification.issueTitle)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #3b82f6; color: white; padding: 10px 20px; border-radius: 4px 4px 0 0; }
+        .content { border: 1px solid #ddd; border-top: none; padding: 20px; border-radius: 0 0 4px 4px; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; text-align: center; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>Assigned to you: ${escapeHtml(notification.issueTitle)}</h2>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p>${escapeHtml(notification.assignerName)} assigned you an issue in the project <strong>${escapeHtml(notification.projectName)}</strong>.</p>
+          
+          <p><strong>Issue:</strong> ${escapeHtml(notification.issueTitle)}</p>
+          
+          ${issueLink}
+          
+          <p>Thank you for using Help From Founder!</p>
+        </div>
+        <div class="footer">
+          <p>This is an automated message. Please do not reply to this email.</p>
+          ${unsubscribeFooterHtml(links)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Creates an HTML email template for feature requests moved on the roadmap
+ * 
+ * @param notification The notification data
+ * @returns HTML string for the email
+ */
+function createRoadmapNotificationTemplate(notification: RoadmapNotificationRequest, links?: UnsubscribeLinks | null): string {
+  const issueLink = notification.issueUrl 
+    ? `<a href="${notification.issueUrl}" style="color: #3b82f6; text-decoration: underline;">View Request</a>`
+    : '';
+  const roadmapLink = notification.roadmapUrl 
+    ? `<a href="${notification.roadmapUrl}" style="color: #3b82f6; text-decoration: underline;">See the Roadmap</a>`
+    : '';
+  const actionLinks = [issueLink, roadmapLink].filter(Boolean).join(' &middot; ');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${escapeHtml(notification.roadmapColumn)}: ${escapeHtml(notification.issueTitle)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #3b82f6; color: white; padding: 10px 20px; border-radius: 4px 4px 0 0; }
+        .content { border: 1px solid #ddd; border-top: none; padding: 20px; border-radius: 0 0 4px 4px; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; text-align: center; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>${escapeHtml(notification.roadmapColumn)}: ${escapeHtml(notification.issueTitle)}</h2>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p>A feature request you filed or voted for in the project <strong>${escapeHtml(notification.projectName)}</strong> moved to <strong>${escapeHtml(notification.roadmapColumn)}</strong> on the roadmap.</p>
+          
+          <p><strong>Request:</strong> ${escapeHtml(notification.issueTitle)}</p>
+          
+          ${actionLinks ? `<p>${actionLinks}</p>` : ''}
+          
+          <p>Thank you for using Help From Founder!</p>
+        </div>
+        <div class="footer">
+          <p>This is an automated message. Please do not reply to this email.</p>
+          ${unsubscribeFooterHtml(links)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Creates an HTML email template for changelog entries that went live
+ * 
+ * @param notification The notification data
+ * @returns HTML string for the email
+ */
+function createChangelogNotificationTemplate(notification: ChangelogNotificationRequest, links?: UnsubscribeLinks | null): string {
+  const heading = notification.version 
+    ? `${escapeHtml(notification.version)}: ${escapeHtml(notification.entryTitle)}`
+    : escapeHtml(notification.entryTitle);
+  const threads = notification.threadTitles && notification.threadTitles.length > 0
+    ? `<p><strong>Includes:</strong></p><ul>${notification.threadTitles.map((title) => `<li>${escapeHtml(title)}</li>`).join('')}</ul>`
+    : '';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${heading}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #3b82f6; color: white; padding: 10px 20px; border-radius: 4px 4px 0 0; }
+        .content { border: 1px solid #ddd; border-top: none; padding: 20px; border-radius: 0 0 4px 4px; }
+        .entry-content { background-color: #f9fafb; padding: 15px; border-radius: 4px; margin: 15px 0; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; text-align: center; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>${heading}</h2>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p><strong>${escapeHtml(notification.projectName)}</strong> shipped an update that resolves a thread you took part in.</p>
+          
+          ${threads}
+          
+          <div class="entry-content">
+            ${renderMarkdown(notification.entryContent)}
+          </div>
+          
+          <p><a href="${notification.changelogUrl}" style="color: #3b82f6; text-decoration: underline;">Read the Changelog</a></p>
+          
+          <p>Thank you for using Help From Founder!</p>
+        </div>
+        <div class="footer">
+          <p>This is an automated message. Please do not reply to this email.</p>
+          ${unsubscribeFooterHtml(links)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Creates an HTML email template for project team invitations
+ * 
+ * @param notification The notification data
+ * @returns HTML string for the email
+ */
+function createInvitationNotificationTemplate(notification: InvitationNotificationRequest): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Join ${escapeHtml(notification.projectName)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #3b82f6; color: white; padding: 10px 20px; border-radius: 4px 4px 0 0; }
+        .content { border: 1px solid #ddd; border-top: none; padding: 20px; border-radius: 0 0 4px 4px; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; text-align: center; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>You're invited to join ${escapeHtml(notification.projectName)}</h2>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p>${escapeHtml(notification.inviterName)} invited you to help answer questions on <strong>${escapeHtml(notification.projectName)}</strong> as a <strong>${escapeHtml(notification.role)}</strong>.</p>
+          
+          <p><a href="${notification.invitationUrl}" style="color: #3b82f6; text-decoration: underline;">Accept Invitation</a></p>
+          
+          <p>Sign in with this email address to accept. If you weren't expecting this invitation, you can ignore this email.</p>
+          
+          <p>Thank you for using Help From Founder!</p>
+        </div>
         <div class="footer">
           <p>This is an automated message. Please do not reply to this email.</p>
         </div>
@@ -199,7 +769,7 @@ function createResponseNotificationTemplate(notification: ResponseNotificationRe
  * @param notification The notification data
  * @returns Plain text string for the email
  */
-function createIssueTextTemplate(notification: IssueNotificationRequest): string {
+function createIssueTextTemplate(notification: IssueNotificationRequest, links?: UnsubscribeLinks | null): string {
   const date = notification.createdAt 
     ? new Date(notification.createdAt).toLocaleString() 
     : new Date().toLocaleString();
@@ -224,6 +794,45 @@ Thank you for using Help From Founder!
 
 ---
 This is an automated message. Please do not reply to this email.
+${unsubscribeFooterText(links)}
+  `;
+}
+
+/**
+ * Creates a plain text version of a founder's digest for clients that don't support HTML
+ * 
+ * @param digest The digest data
+ * @param links Unsubscribe links for the founder
+ * @returns Plain text string for the email
+ */
+export function createDigestTextTemplate(digest: DigestEmail, links?: UnsubscribeLinks | null): string {
+  const projects = digest.projects.map((project) => {
+    const sections = digestSections(digest)
+      .filter(({ key }) => project[key].length > 0)
+      .map(({ key, title }) => `${title} (${project[key].length}):
+${project[key].map((thread) => `- ${thread.title} by ${thread.authorName}: ${thread.url}`).join('\n')}`)
+      .join('\n\n');
+
+    return `${project.projectName} (${project.projectUrl})
+
+${sections}`;
+  }).join('\n\n');
+
+  return `
+Your ${digest.frequency} digest
+
+Hello${digest.recipient.name ? ` ${digest.recipient.name}` : ''},
+
+Here's what needs your attention in your projects${digest.frequency === 'daily' ? ' since yesterday' : ' this week'}.
+
+${projects}
+
+Thank you for using Help From Founder!
+
+---
+This is an automated message. Please do not reply to this email.
+Change how often you get this digest: ${digest.preferencesUrl}
+${unsubscribeFooterText(links)}
   `;
 }
 
@@ -233,7 +842,11 @@ This is an automated message. Please do not reply to this email.
  * @param notification The notification data
  * @returns Plain text string for the email
  */
-function createResponseTextTemplate(notification: ResponseNotificationRequest): string {
+function createResponseTextTemplate(notification: ResponseNotificationRequest, links?: UnsubscribeLinks | null): string {
+  if (notification.earlierResponses?.length) {
+    return createResponseFollowUpTextTemplate(notification, links);
+  }
+
   const date = notification.createdAt 
     ? new Date(notification.createdAt).toLocaleString() 
     : new Date().toLocaleString();
@@ -254,6 +867,156 @@ ${notification.issueUrl ? `View Response: ${notification.issueUrl}` : ''}
 
 Thank you for using Help From Founder!
 
+---
+This is an automated message. Please do not reply to this email.
+${unsubscribeFooterText(links)}
+  `;
+}
+
+/**
+ * Creates a plain text version of the response follow-up email for clients that don't
+ * support HTML
+ * 
+ * @param notification The notification data, with the responses held back
+ * @returns Plain text string for the email
+ */
+function createResponseFollowUpTextTemplate(notification: ResponseNotificationRequest, links?: UnsubscribeLinks | null): string {
+  const responses = [...(notification.earlierResponses || []), notification];
+
+  const responsesText = responses.map((response) => {
+    const date = response.createdAt 
+      ? new Date(response.createdAt).toLocaleString() 
+      : new Date().toLocaleString();
+    return `${response.responseAuthor} on ${date}:
+${response.responseContent}
+`;
+  }).join('\n');
+
+  return `
+New Responses on Issue: ${notification.issueTitle}
+
+Hello,
+
+${responses.length} new responses have been posted to an issue in your project "${notification.projectName}" since your last email about it.
+
+Issue: ${notification.issueTitle}
+
+${responsesText}
+${notification.issueUrl ? `View Responses: ${notification.issueUrl}` : ''}
+
+Thank you for using Help From Founder!
+
+---
+This is an automated message. Please do not reply to this email.
+${unsubscribeFooterText(links)}
+  `;
+}
+
+/**
+ * Creates a plain text version of the assignment email for clients that don't support HTML
+ * 
+ * @param notification The notification data
+ * @returns Plain text string for the email
+ */
+function createAssignmentTextTemplate(notification: AssignmentNotificationRequest, links?: UnsubscribeLinks | null): string {
+  return `
+Assigned to you: ${notification.issueTitle}
+
+Hello,
+
+${notification.assignerName} assigned you an issue in the project "${notification.projectName}".
+
+Issue: ${notification.issueTitle}
+
+${notification.issueUrl ? `View Issue: ${notification.issueUrl}` : ''}
+
+Thank you for using Help From Founder!
+
+---
+This is an automated message. Please do not reply to this email.
+${unsubscribeFooterText(links)}
+  `;
+}
+
+/**
+ * Creates a plain text version of the roadmap email for clients that don't support HTML
+ * 
+ * @param notification The notification data
+ * @returns Plain text string for the email
+ */
+function createRoadmapTextTemplate(notification: RoadmapNotificationRequest, links?: UnsubscribeLinks | null): string {
+  return `
+${notification.roadmapColumn}: ${notification.issueTitle}
+
+Hello,
+
+A feature request you filed or voted for in the project "${notification.projectName}" moved to ${notification.roadmapColumn} on the roadmap.
+
+Request: ${notification.issueTitle}
+
+${notification.issueUrl ? `View Request: ${notification.issueUrl}` : ''}
+${notification.roadmapUrl ? `See the Roadmap: ${notification.roadmapUrl}` : ''}
+
+Thank you for using Help From Founder!
+
+---
+This is an automated message. Please do not reply to this email.
+${unsubscribeFooterText(links)}
+  `;
+}
+
+/**
+ * Creates a plain text version of the changelog email for clients that don't support HTML
+ * 
+ * @param notification The notification data
+ * @returns Plain text string for the email
+ */
+function createChangelogTextTemplate(notification: ChangelogNotificationRequest, links?: UnsubscribeLinks | null): string {
+  const heading = notification.version ? `${notification.version}: ${notification.entryTitle}` : notification.entryTitle;
+  const threads = notification.threadTitles && notification.threadTitles.length > 0
+    ? `Includes:\n${notification.threadTitles.map((title) => `- ${title}`).join('\n')}\n`
+    : '';
+
+  return `
+${heading}
+
+Hello,
+
+"${notification.projectName}" shipped an update that resolves a thread you took part in.
+
+${threads}
+${notification.entryContent}
+
+Read the Changelog: ${notification.changelogUrl}
+
+Thank you for using Help From Founder!
+
+---
+This is an automated message. Please do not reply to this email.
+${unsubscribeFooterText(links)}
+  `;
+}
+
+/**
+ * Creates a plain text version of the invitation email for clients that don't support HTML
+ * 
+ * @param notification The notification data
+ * @returns Plain text string for the email
+ */
+function createInvitationTextTemplate(notification: InvitationNotificationRequest): string {
+  return `
+You're invited to join ${notification.projectName}
+
+Hello,
+
+${notification.inviterName} invited you to help answer questions on "${notification.projectName}" as a ${notification.role}.
+
+Accept Invitation: ${notification.invitationUrl}
+
+Sign in with this email address to accept. If you weren't expecting this invitation, you can ignore this email.
+
+Thank you for using Help From Founder!
+
 ---
 This is an automated message. Please do not reply to this email.
   `;
@@ -16,21 +16,42 @@ import { cors } from 'hono/cors';
 // Import email templates
 import { 
 	EmailNotificationRequest,
-	createHtmlTemplate, 
-	createPlainTextTemplate 
+	NotificationType,
+	requiredFields
 } from './email-templates';
-// Import SendGrid client instead of SendPulse
-import { 
-	EmailOptions, 
-	sendEmail 
-} from './sendgrid-client';
+import { sendDigests } from './digests';
+import { EmailJob, createEmailJobs, enqueueEmails, handleEmailBatch } from './deliveries';
+import { DeliveryLedgerObject } from './delivery-ledger';
+
+// Durable Objects are exported from the worker's entry point
+export { DeliveryLedgerObject };
 
 // Define environment interface
 export interface Env {
 	// Environment variables
 	SEND_EMAIL_PATH: string;
+	// The thread API worker's route that handles unsubscribe links
+	UNSUBSCRIBE_URL: string;
+	// Where the app is served, for links to the dashboard in digests
+	APP_URL: string;
+	// How old threads without a response must be to be listed as unanswered in digests
+	DIGEST_UNANSWERED_HOURS: string;
+	// The thread API worker, which compiles the digests and sends the notifications
+	THREAD_API: Fetcher;
 	// SendGrid API key (set using wrangler)
 	SENDGRID_API_KEY?: string;
+	// Signs unsubscribe links; the thread API worker has the same secret (set using wrangler)
+	UNSUBSCRIBE_SECRET?: string;
+	// Authenticates calls between this worker and the thread API worker: ours to its /internal
+	// routes and its calls to the send route (set using wrangler)
+	INTERNAL_API_SECRET?: string;
+	// Queue of emails to send; without it they are sent after the response, see deliveries.ts
+	EMAIL_QUEUE?: Queue<EmailJob>;
+	// Remembers the emails sent to each recipient, for dedupe and throttling; without it they
+	// are remembered in memory, see delivery-ledger.ts
+	DELIVERY_LEDGER?: DurableObjectNamespace<DeliveryLedgerObject>;
+	// How long a recipient waits between emails about responses to the same thread
+	EMAIL_THROTTLE_MINUTES: string;
 }
 
 // Create Hono app
@@ -66,14 +87,21 @@ app.get('/debug/routes', (c) => {
 	});
 });
 
-// Email sending endpoint - Fixed with a static route
+// Only the thread API worker sends notifications, so the send route can't be used to email
+// anyone from the browser
+app.use('/api/send-email', async (c, next) => {
+	if (!c.env.INTERNAL_API_SECRET || c.req.header('Authorization') !== `Bearer ${c.env.INTERNAL_API_SECRET}`) {
+		return c.json({
+			success: false,
+			message: 'Authentication required'
+		}, 401);
+	}
+	return next();
+});
+
+// Email sending endpoint - Fixed with a static route. Emails are queued, so it answers 202
 app.post('/api/send-email', async (c) => {
 	try {
-		// Validate API credentials
-		if (!c.env.SENDGRID_API_KEY) {
-			throw new Error('SendGrid API key not configured');
-		}
-
 		// Parse request body
 		const data = await c.req.json();
 		
@@ -86,7 +114,7 @@ app.post('/api/send-email', async (c) => {
 		}
 		
 		// Validate type is valid
-		if (data.type !== 'new_issue' && data.type !== 'new_response') {
+		if (!Object.keys(requiredFields).includes(data.type)) {
 			return c.json({
 				success: false,
 				message: `Invalid notification type: ${data.type}`
@@ -96,11 +124,8 @@ app.post('/api/send-email', async (c) => {
 		// Cast to the correct type
 		const notification = data as EmailNotificationRequest;
 		
-		// Validate required fields based on notification type
-		const baseRequiredFields = ['projectId', 'projectName', 'issueId', 'issueTitle', 'recipients'];
-		
-		// Check base required fields
-		for (const field of baseRequiredFields) {
+		// Check the required fields for this notification type
+		for (const field of requiredFields[data.type as NotificationType]) {
 			if (!notification[field as keyof typeof notification]) {
 				return c.json({
 					success: false,
@@ -127,97 +152,25 @@ app.post('/api/send-email', async (c) => {
 			}
 		}
 		
-		// Check type-specific required fields
-		if (notification.type === 'new_issue') {
-			if (!notification.issueContent) {
-				return c.json({
-					success: false,
-					message: 'Missing required field: issueContent'
-				}, 400);
-			}
-		} else if (notification.type === 'new_response') {
-			if (!notification.responseContent || !notification.responseAuthor) {
-				return c.json({
-					success: false,
-					message: 'Missing required fields for response notification'
-				}, 400);
-			}
-		}
-
-		// Create email subject based on notification type
-		let subject = '';
-		if (notification.type === 'new_issue') {
-			subject = `New Issue: ${notification.issueTitle} - ${notification.projectName}`;
-		} else if (notification.type === 'new_response') {
-			subject = `New Response on Issue: ${notification.issueTitle} - ${notification.projectName}`;
+		if (!c.env.UNSUBSCRIBE_SECRET) {
+			console.warn('Unsubscribe secret not configured, sending emails without unsubscribe links');
 		}
 		
-		// Create HTML and text content once
-		const htmlContent = createHtmlTemplate(notification);
-		const textContent = createPlainTextTemplate(notification);
-		
-		// Track any errors
-		const errors: Array<{recipient: string; error: string}> = [];
-		
-		// Send individual emails to each recipient to preserve privacy
-		const emailPromises = notification.recipients.map(async (recipient) => {
-			try {
-				// Create individual email options for this recipient
-				const emailOptions: EmailOptions = {
-					html: htmlContent,
-					text: textContent,
-					subject: subject,
-					from: {
-						name: "Help From Founder",
-						email: "contact@helpfromfounder.space"
-					},
-					to: [{
-						name: recipient.name || "User",
-						email: recipient.email
-					}]
-				};
-				
-				// Send the email using SendGrid
-				await sendEmail(
-					c.env.SENDGRID_API_KEY as string,
-					emailOptions
-				);
-				
-				return { success: true, recipient: recipient.email };
-			} catch (error) {
-				// Record error but don't throw
-				const errorMessage = error instanceof Error 
-					? error.message || 'Unknown error' 
-					: String(error);
-				errors.push({ recipient: recipient.email, error: errorMessage });
-				return { success: false, recipient: recipient.email, error: errorMessage };
-			}
-		});
-		
-		// Wait for all emails to be sent
-		const results = await Promise.all(emailPromises);
-		const successCount = results.filter(r => r.success).length;
+		// Each recipient gets their own email, which is queued and sent with retries
+		const idempotencyKey = typeof data.idempotencyKey === 'string' ? data.idempotencyKey : undefined;
+		const jobs = createEmailJobs(notification, idempotencyKey);
+		await enqueueEmails(c.env, c.executionCtx, jobs);
 		
-		// If all emails were sent successfully
-		if (successCount === notification.recipients.length) {
-			return c.json({
-				success: true,
-				message: `Email notifications sent successfully to ${successCount} recipients`
-			});
-		}
-		
-		// If some emails failed
 		return c.json({
-			success: successCount > 0,
-			message: `Sent ${successCount} of ${notification.recipients.length} notifications`,
-			errors: errors
-		}, errors.length === notification.recipients.length ? 500 : 207);
+			success: true,
+			message: `Email notifications queued for ${jobs.length} recipients`
+		}, 202);
 		
 	} catch (error) {
-		console.error('Error sending email:', error);
+		console.error('Error queueing email:', error);
 		return c.json({
 			success: false,
-			message: 'Failed to send email notification',
+			message: 'Failed to queue email notification',
 			error: error instanceof Error ? error.message : String(error)
 		}, 500);
 	}
@@ -231,4 +184,18 @@ app.post(({ env }) => env.SEND_EMAIL_PATH, async (c) => {
 });
 
 // Export the Cloudflare Worker
-export default app;
+export default {
+	fetch: app.fetch,
+
+	// Delivers the queued emails
+	queue: handleEmailBatch,
+
+	// Founder digests: daily ones every morning, weekly ones on Mondays
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+		ctx.waitUntil(sendDigests(env, 'daily').catch((error) => console.error('Error sending daily digests:', error)));
+
+		if (new Date(controller.scheduledTime).getUTCDay() === 1) {
+			ctx.waitUntil(sendDigests(env, 'weekly').catch((error) => console.error('Error sending weekly digests:', error)));
+		}
+	},
+} satisfies ExportedHandler<Env, EmailJob>;
@@ -0,0 +1,33 @@
+import MarkdownIt from 'markdown-it';
+
+/**
+ * Renders thread and response content for emails the way the app shows it: Markdown with
+ * GitHub-style tables, strikethrough, autolinks and line breaks. Raw HTML in the source is
+ * escaped, and markdown-it refuses javascript: and similar links, so the output is safe to
+ * put in an email.
+ */
+const markdown = new MarkdownIt({
+  html: false,
+  linkify: true,
+  breaks: true,
+});
+
+/**
+ * Renders Markdown to HTML for an email body
+ * 
+ * @param source Markdown written by a user
+ * @returns HTML string
+ */
+export function renderMarkdown(source: string): string {
+  return markdown.render(source);
+}
+
+/**
+ * Escapes text for use inside HTML, e.g. titles and names written by users
+ * 
+ * @param text Plain text
+ * @returns Text with HTML special characters escaped
+ */
+export function escapeHtml(text: string): string {
+  return markdown.utils.escapeHtml(text);
+}
@@ -17,12 +17,16 @@ export interface EmailOptions {
     name: string;
     email: string;
   }>;
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
 }
 
 // Response type
 export interface SendGridResponse {
   is_error?: boolean;
   message?: string;
+  // HTTP status SendGrid answered a failed send with, if it answered
+  status?: number;
 }
 
 /**
@@ -59,7 +63,8 @@ export function sendEmail(
             email: recipient.email,
             name: recipient.name
           }))
-        } : {})
+        } : {}),
+        ...(email.headers ? { headers: email.headers } : {})
       };
       
       // Send the email
@@ -75,7 +80,8 @@ export function sendEmail(
           console.error('Error sending email via SendGrid:', error);
           reject({
             is_error: true,
-            message: error.message || 'Failed to send email via SendGrid'
+            message: error.message || 'Failed to send email via SendGrid',
+            status: typeof error.code === 'number' ? error.code : undefined
           });
         });
     } catch (error) {
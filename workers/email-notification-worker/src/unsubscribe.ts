@@ -0,0 +1,54 @@
+import { sign } from 'hono/jwt';
+import { Recipient, UnsubscribeLinks } from './email-templates';
+
+/**
+ * Emails to signed-in users carry one-click links to stop them. Each link holds a token
+ * signed with UNSUBSCRIBE_SECRET naming the user and what to stop; the thread API worker,
+ * which shares the secret, checks the token and updates the user's notification
+ * preferences at /api/unsubscribe.
+ */
+
+// What a link stops: every email, emails about one project, or emails about one thread
+export type UnsubscribeScope = 'all' | 'project' | 'thread';
+
+/**
+ * Signs the token of one unsubscribe link
+ *
+ * @param secret The secret shared with the thread API worker
+ * @param userId ID of the user the email is sent to
+ * @param scope What to stop
+ * @param id ID of the project or thread, for those scopes
+ * @returns Signed token
+ */
+function signUnsubscribeToken(secret: string, userId: string, scope: UnsubscribeScope, id?: string): Promise<string> {
+  return sign({ sub: userId, aud: 'unsubscribe', scope, ...(id ? { id } : {}) }, secret);
+}
+
+/**
+ * Creates the unsubscribe links of an email to one recipient
+ *
+ * @param secret The secret shared with the thread API worker
+ * @param unsubscribeUrl URL of the thread API worker's unsubscribe route
+ * @param recipient The recipient
+ * @param about The project and thread the email is about; digests are about neither
+ * @returns The links, or null for recipients who aren't signed-in users
+ */
+export async function createUnsubscribeLinks(
+  secret: string,
+  unsubscribeUrl: string,
+  recipient: Recipient,
+  about: { projectId?: string; issueId?: string }
+): Promise<UnsubscribeLinks | null> {
+  if (!recipient.userId) return null;
+
+  const link = async (scope: UnsubscribeScope, id?: string) => {
+    const token = await signUnsubscribeToken(secret, recipient.userId!, scope, id);
+    return `${unsubscribeUrl}?token=${encodeURIComponent(token)}`;
+  };
+
+  return {
+    thread: about.issueId ? await link('thread', about.issueId) : undefined,
+    project: about.projectId ? await link('project', about.projectId) : undefined,
+    all: await link('all'),
+  };
+}
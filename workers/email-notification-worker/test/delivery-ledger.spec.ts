@@ -0,0 +1,134 @@
+// test/delivery-ledger.spec.ts
+import { env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { DeliveryLedger, getDeliveryLedger } from '../src/delivery-ledger';
+import type { ResponseNotificationRequest } from '../src/email-templates';
+import type { Env } from '../src/index';
+
+// The Durable Object binding from wrangler.jsonc
+const { DELIVERY_LEDGER } = env as Env;
+
+const MINUTE = 60 * 1000;
+const throttle = { key: 'thread:thread1', ms: 10 * MINUTE };
+
+let recipients = 0;
+
+function response(responseContent: string): ResponseNotificationRequest {
+  return {
+    type: 'new_response',
+    projectId: 'project1',
+    projectName: 'Acme',
+    recipients: [{ email: 'ada@example.com' }],
+    issueId: 'thread1',
+    issueTitle: 'Export fails',
+    responseAuthor: 'Grace',
+    responseContent
+  };
+}
+
+// The same checks run against the Durable Object and the ledger kept in memory without it
+describe.each([
+  ['Durable Object', () => DELIVERY_LEDGER],
+  ['in memory', () => undefined]
+])('delivery ledger (%s)', (_kind, namespace) => {
+  let ledger: DeliveryLedger;
+
+  beforeEach(() => {
+    // Starts at the real time, so the ledger's cleanup alarm isn't due during the test
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // A recipient of its own, so tests don't share entries
+    ledger = getDeliveryLedger(namespace(), `recipient${++recipients}@example.com`);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends an email once, however often it is claimed', async () => {
+    expect(await ledger.claim('email1', null, response('First'))).toEqual({ status: 'send', held: [] });
+    expect(await ledger.claim('email1', null, response('First'))).toEqual({ status: 'duplicate' });
+
+    await ledger.markSent('email1');
+    expect(await ledger.claim('email1', null, response('First'))).toEqual({ status: 'duplicate' });
+  });
+
+  it('lets a retry claim an email again once the failed attempt released it', async () => {
+    await ledger.claim('email1', null, response('First'));
+    await ledger.release('email1', null);
+    expect(await ledger.claim('email1', null, response('First'))).toEqual({ status: 'send', held: [] });
+  });
+
+  it('lets another attempt take over a claim its worker never finished', async () => {
+    await ledger.claim('email1', null, response('First'));
+    vi.advanceTimersByTime(6 * MINUTE);
+    expect(await ledger.claim('email1', null, response('First'))).toEqual({ status: 'send', held: [] });
+  });
+
+  it('defers the first email within the throttle window and holds the rest back for it', async () => {
+    await ledger.claim('email1', throttle, response('First'));
+    await ledger.markSent('email1');
+
+    vi.advanceTimersByTime(2 * MINUTE);
+    const windowEnd = Date.now() + 8 * MINUTE;
+    expect(await ledger.claim('email2', throttle, response('Second'))).toEqual({ status: 'deferred', until: windowEnd });
+    expect(await ledger.claim('email3', throttle, response('Third'))).toEqual({ status: 'held' });
+    expect(await ledger.claim('email4', throttle, response('Fourth'))).toEqual({ status: 'held' });
+    // The deferred email delivered again before the window is over
+    expect(await ledger.claim('email2', throttle, response('Second'))).toEqual({ status: 'deferred', until: windowEnd });
+
+    vi.setSystemTime(windowEnd);
+    expect(await ledger.claim('email2', throttle, response('Second'))).toEqual({
+      status: 'send',
+      held: [response('Third'), response('Fourth')]
+    });
+    await ledger.markSent('email2');
+
+    // The held emails count as sent
+    expect(await ledger.claim('email3', throttle, response('Third'))).toEqual({ status: 'duplicate' });
+  });
+
+  it('throttles each key on its own', async () => {
+    await ledger.claim('email1', throttle, response('First'));
+    expect(await ledger.claim('email2', { ...throttle, key: 'thread:thread2' }, response('Other thread'))).toEqual({
+      status: 'send',
+      held: []
+    });
+  });
+
+  it('frees the throttle window of a released email, keeping what it holds for the retry', async () => {
+    await ledger.claim('email1', throttle, response('First'));
+    await ledger.release('email1', throttle);
+    expect(await ledger.claim('email2', throttle, response('Second'))).toEqual({ status: 'send', held: [] });
+    await ledger.markSent('email2');
+
+    await ledger.claim('email3', throttle, response('Third'));
+    await ledger.claim('email4', throttle, response('Fourth'));
+    vi.advanceTimersByTime(throttle.ms);
+    expect(await ledger.claim('email3', throttle, response('Third'))).toEqual({ status: 'send', held: [response('Fourth')] });
+
+    await ledger.release('email3', throttle);
+    expect(await ledger.claim('email3', throttle, response('Third'))).toEqual({ status: 'send', held: [response('Fourth')] });
+  });
+
+  it('holds back the ten latest emails at most', async () => {
+    await ledger.claim('email0', throttle, response('First'));
+    await ledger.claim('deferred', throttle, response('Deferred'));
+    for (let i = 1; i <= 12; i++) {
+      await ledger.claim(`held${i}`, throttle, response(`Held ${i}`));
+    }
+
+    vi.advanceTimersByTime(throttle.ms);
+    const result = await ledger.claim('deferred', throttle, response('Deferred'));
+    expect(result.status === 'send' && result.held.map((held) => (held as ResponseNotificationRequest).responseContent)).toEqual(
+      Array.from({ length: 10 }, (_, i) => `Held ${i + 3}`)
+    );
+  });
+});
+
+describe('getDeliveryLedger', () => {
+  it('keeps one ledger per email address, whatever its case', async () => {
+    await getDeliveryLedger(DELIVERY_LEDGER, 'Ada.Lovelace@example.com').claim('email1', null, response('First'));
+    const ledger = getDeliveryLedger(DELIVERY_LEDGER, ' ada.lovelace@EXAMPLE.com');
+    expect(await ledger.claim('email1', null, response('First'))).toEqual({ status: 'duplicate' });
+  });
+});
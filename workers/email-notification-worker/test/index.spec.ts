@@ -7,19 +7,28 @@ import worker from '../src/index';
 // `Request` to pass to `worker.fetch()`.
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
+describe('Email notification worker', () => {
+	it('responds to the health check (unit style)', async () => {
 		const request = new IncomingRequest('http://example.com');
 		// Create an empty context to pass to `worker.fetch()`.
 		const ctx = createExecutionContext();
 		const response = await worker.fetch(request, env, ctx);
 		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
 		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+		expect(await response.json()).toEqual({ status: 'ok', message: 'Email notification worker is running' });
 	});
 
-	it('responds with Hello World! (integration style)', async () => {
+	it('responds to the health check (integration style)', async () => {
 		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+		expect(await response.json()).toEqual({ status: 'ok', message: 'Email notification worker is running' });
+	});
+
+	it('refuses to send emails without the internal API secret', async () => {
+		const response = await SELF.fetch('https://example.com/api/send-email', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ type: 'new_issue' }),
+		});
+		expect(response.status).toBe(401);
 	});
 });
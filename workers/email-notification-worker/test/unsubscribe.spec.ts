@@ -0,0 +1,42 @@
+// test/unsubscribe.spec.ts
+import { describe, it, expect } from 'vitest';
+import { verify } from 'hono/jwt';
+import { createUnsubscribeLinks } from '../src/unsubscribe';
+
+const secret = 'unsubscribe-secret';
+const unsubscribeUrl = 'https://api.example.com/api/unsubscribe';
+const user = { email: 'ada@example.com', userId: 'user1' };
+
+// Reads the token a link carries, checking its signature
+async function tokenOf(link: string | undefined) {
+  const url = new URL(link!);
+  expect(`${url.origin}${url.pathname}`).toBe(unsubscribeUrl);
+  return verify(url.searchParams.get('token')!, secret);
+}
+
+describe('createUnsubscribeLinks', () => {
+  it('links to stop emails about the thread, the project or everything', async () => {
+    const links = await createUnsubscribeLinks(secret, unsubscribeUrl, user, { projectId: 'project1', issueId: 'thread1' });
+
+    expect(await tokenOf(links?.thread)).toEqual({ sub: 'user1', aud: 'unsubscribe', scope: 'thread', id: 'thread1' });
+    expect(await tokenOf(links?.project)).toEqual({ sub: 'user1', aud: 'unsubscribe', scope: 'project', id: 'project1' });
+    expect(await tokenOf(links?.all)).toEqual({ sub: 'user1', aud: 'unsubscribe', scope: 'all' });
+  });
+
+  it('only links to stop everything in digests', async () => {
+    const links = await createUnsubscribeLinks(secret, unsubscribeUrl, user, {});
+    expect(links?.thread).toBeUndefined();
+    expect(links?.project).toBeUndefined();
+    expect(await tokenOf(links?.all)).toMatchObject({ scope: 'all' });
+  });
+
+  it('signs tokens that another secret does not verify', async () => {
+    const links = await createUnsubscribeLinks(secret, unsubscribeUrl, user, {});
+    const token = new URL(links!.all).searchParams.get('token')!;
+    await expect(verify(token, 'another-secret')).rejects.toThrow();
+  });
+
+  it('has no links for recipients who are not signed-in users', async () => {
+    expect(await createUnsubscribeLinks(secret, unsubscribeUrl, { email: 'guest@example.com' }, { projectId: 'project1' })).toBeNull();
+  });
+});
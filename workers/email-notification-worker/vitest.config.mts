@@ -2,9 +2,22 @@ import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
 export default defineWorkersConfig({
 	test: {
+		// The SendGrid client reads its package.json at runtime, which the Workers runtime
+		// can only do once it is bundled
+		deps: {
+			optimizer: {
+				ssr: { enabled: true, include: ['@sendgrid/mail'] },
+			},
+		},
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				// Tests don't reach the thread API worker, so it is stubbed
+				miniflare: {
+					serviceBindings: {
+						THREAD_API: () => new Response('Not found', { status: 404 }),
+					},
+				},
 			},
 		},
 	},
@@ -0,0 +1,26 @@
+// Files reporters can attach to threads and responses, with the largest size allowed for each.
+// The web app mirrors this table in src/lib/attachments.ts to check files before uploading.
+export const attachmentTypes: Record<string, { extension: string; maxSize: number }> = {
+  'image/png': { extension: 'png', maxSize: 10 * 1024 * 1024 },
+  'image/jpeg': { extension: 'jpg', maxSize: 10 * 1024 * 1024 },
+  'image/gif': { extension: 'gif', maxSize: 10 * 1024 * 1024 },
+  'image/webp': { extension: 'webp', maxSize: 10 * 1024 * 1024 },
+  'text/plain': { extension: 'txt', maxSize: 5 * 1024 * 1024 },
+  'application/json': { extension: 'json', maxSize: 5 * 1024 * 1024 },
+  'application/zip': { extension: 'zip', maxSize: 20 * 1024 * 1024 },
+};
+
+// Attachments are kept next to the logos in the bucket, under their own prefix
+export const ATTACHMENT_PREFIX = 'attachments/';
+
+// Extensions of the attachment types that are images
+const imageExtensions = Object.entries(attachmentTypes)
+  .filter(([contentType]) => contentType.startsWith('image/'))
+  .map(([, type]) => type.extension);
+
+/**
+ * Only images are shown in the browser, going by the extension the key was given when the
+ * upload was signed; everything else is downloaded so an uploaded file can never run as a
+ * page on the worker's origin
+ */
+export const isInlineAttachment = (id: string) => imageExtensions.includes(id.split('.').pop() || '');
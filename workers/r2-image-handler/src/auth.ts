@@ -0,0 +1,56 @@
+import { createMiddleware } from "hono/factory";
+import { createRemoteJWKSet, jwtVerify } from "jose";
+import { AppEnv, AuthUser } from "./types";
+
+// Public keys used to sign Firebase ID tokens
+const firebaseKeys = createRemoteJWKSet(
+  new URL('https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com')
+);
+
+// Verify a Firebase ID token issued for the app's Firebase project
+const verifyIdToken = async (token: string, projectId: string): Promise<AuthUser> => {
+  const { payload } = await jwtVerify(token, firebaseKeys, {
+    issuer: `https://securetoken.google.com/${projectId}`,
+    audience: projectId,
+  });
+
+  if (!payload.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return { uid: payload.sub };
+};
+
+// Identify the caller from the `Authorization: Bearer <idToken>` header. Requests without
+// the header continue as anonymous; invalid tokens are rejected.
+export const identifyUser = createMiddleware<AppEnv>(async (c, next) => {
+  const header = c.req.header('Authorization');
+
+  if (!header?.startsWith('Bearer ')) {
+    c.set('user', null);
+    return next();
+  }
+
+  try {
+    c.set('user', await verifyIdToken(header.slice('Bearer '.length), c.env.FIREBASE_PROJECT_ID));
+  } catch (error) {
+    console.error('Invalid ID token:', error);
+    return c.json({
+      success: false,
+      error: 'Invalid or expired authentication token'
+    }, 401);
+  }
+
+  return next();
+});
+
+// Reject requests that are not made by a signed-in user
+export const requireUser = createMiddleware<AppEnv>(async (c, next) => {
+  if (!c.get('user')) {
+    return c.json({
+      success: false,
+      error: 'Authentication required'
+    }, 401);
+  }
+  return next();
+});
@@ -0,0 +1,60 @@
+import { Env } from "./types";
+import { ATTACHMENT_PREFIX } from "./attachments";
+import { collectFieldStrings } from "./firestore";
+
+// Objects younger than this are left alone, as files are uploaded before the project,
+// thread or response that uses them is saved
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+// Gets the object key from a logo URL, e.g. https://.../api/images/abc.png?w=64 -> abc.png
+const logoKey = (url: string) => {
+  const match = url.match(/\/api\/images\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Find the keys still referenced by a project's logoUrl or a thread or response attachment
+const findReferencedKeys = async (env: Env): Promise<Set<string>> => {
+  const [logoUrls, threadStrings, responseStrings] = await Promise.all([
+    collectFieldStrings(env, 'projects', ['logoUrl']),
+    collectFieldStrings(env, 'threads', ['attachments']),
+    collectFieldStrings(env, 'responses', ['attachments']),
+  ]);
+
+  const keys = new Set<string>();
+  logoUrls.map(logoKey).forEach((key) => key && keys.add(key));
+  [...threadStrings, ...responseStrings]
+    .filter((value) => value.startsWith(ATTACHMENT_PREFIX))
+    .forEach((key) => keys.add(key));
+  return keys;
+};
+
+/**
+ * Deletes the objects in the bucket that nothing points to any more: logos that were
+ * replaced or belonged to deleted projects, and attachments that were removed before
+ * posting or whose thread or response was deleted
+ *
+ * @returns The number of objects deleted
+ */
+export const removeOrphanedObjects = async (env: Env): Promise<number> => {
+  // Read the references first: if that fails, nothing is deleted
+  const referenced = await findReferencedKeys(env);
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  do {
+    const listing = await env.PROJECT_LOGOS.list({ cursor, limit: 1000 });
+    const orphans = listing.objects
+      .filter((object) => object.uploaded.getTime() < cutoff && !referenced.has(object.key))
+      .map((object) => object.key);
+
+    if (orphans.length > 0) {
+      await env.PROJECT_LOGOS.delete(orphans);
+      deleted += orphans.length;
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  console.log(`Removed ${deleted} orphaned objects`);
+  return deleted;
+};
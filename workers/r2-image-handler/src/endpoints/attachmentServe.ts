@@ -0,0 +1,52 @@
+import { Hono } from "hono";
+import { Env } from "../types";
+import { ATTACHMENT_PREFIX, isInlineAttachment } from "../attachments";
+import { serveImage } from "../imageResponse";
+
+// Define the endpoint
+export const AttachmentServe = new Hono<{ Bindings: Env }>()
+  .get("/:id", async (c) => {
+    // The ID is the attachment's key without the prefix
+    const { id } = c.req.param();
+
+    try {
+      // Downloads are named after the original file when the link passes its name along
+      const fileName = (c.req.query('name') || id).replace(/[^\w.\- ]/g, '_');
+
+      // Images go through the image pipeline, so screenshots get thumbnails and lose their Exif
+      if (isInlineAttachment(id)) {
+        const response = await serveImage(c, `${ATTACHMENT_PREFIX}${id}`, {
+          'Content-Disposition': `inline; filename="${fileName}"`
+        });
+        return response || c.json({
+          success: false,
+          error: 'Attachment not found'
+        }, 404);
+      }
+
+      const object = await c.env.PROJECT_LOGOS.get(`${ATTACHMENT_PREFIX}${id}`);
+
+      if (!object) {
+        return c.json({
+          success: false,
+          error: 'Attachment not found'
+        }, 404);
+      }
+
+      const headers = new Headers();
+      headers.set('Content-Type', object.httpMetadata?.contentType || 'application/octet-stream');
+      headers.set('Content-Disposition', `attachment; filename="${fileName}"`);
+      headers.set('X-Content-Type-Options', 'nosniff');
+      headers.set('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
+
+      return new Response(object.body, {
+        headers
+      });
+    } catch (error) {
+      console.error('Error retrieving attachment:', error);
+      return c.json({
+        success: false,
+        error: 'Failed to retrieve attachment'
+      }, 500);
+    }
+  });
@@ -0,0 +1,59 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { AppEnv } from "../types";
+import { v4 as uuidv4 } from 'uuid';
+import { requireUser } from "../auth";
+import { ATTACHMENT_PREFIX, attachmentTypes } from "../attachments";
+import { createUploadUrl, uploadMetadata } from "../r2";
+
+// Define the schema for the request
+const AttachmentUploadSchema = z.object({
+  fileType: z.string().refine(val => Object.hasOwn(attachmentTypes, val), {
+    message: "This file type can't be attached"
+  }),
+  fileSize: z.number().int().positive()
+}).refine(({ fileType, fileSize }) => !Object.hasOwn(attachmentTypes, fileType) || fileSize <= attachmentTypes[fileType].maxSize, {
+  message: "The file is too large to attach"
+});
+
+// Define the endpoint
+export const AttachmentUploadUrl = new Hono<AppEnv>()
+  .post("", requireUser, async (c) => {
+    // Parse the request body
+    const result = AttachmentUploadSchema.safeParse(await c.req.json().catch(() => null));
+
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: result.error.issues[0]?.message || 'Invalid request body'
+      }, 400);
+    }
+
+    const { fileType, fileSize } = result.data;
+
+    try {
+      const key = `${ATTACHMENT_PREFIX}${uuidv4()}.${attachmentTypes[fileType].extension}`;
+
+      // Sign the content type and length too, so the upload has to be the file that was checked above
+      const { uploadUrl, headers } = await createUploadUrl(c.env, {
+        key,
+        contentType: fileType,
+        contentLength: fileSize,
+        metadata: uploadMetadata(c.get('user')!.uid, 'attachment')
+      });
+
+      // Return the upload URL, the headers to send with it and the key
+      return c.json({
+        success: true,
+        uploadUrl,
+        headers,
+        key
+      });
+    } catch (error) {
+      console.error('Error generating attachment upload URL:', error);
+      return c.json({
+        success: false,
+        error: 'Failed to generate upload URL'
+      }, 500);
+    }
+  });
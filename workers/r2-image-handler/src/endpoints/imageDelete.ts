@@ -0,0 +1,42 @@
+import { Hono } from "hono";
+import { AppEnv } from "../types";
+import { requireUser } from "../auth";
+
+// Define the endpoint
+export const ImageDelete = new Hono<AppEnv>()
+  .delete("/:key", requireUser, async (c) => {
+    // Get the image key from the request parameters
+    const { key } = c.req.param();
+    
+    try {
+      const object = await c.env.PROJECT_LOGOS.head(key);
+      
+      if (!object) {
+        return c.json({
+          success: false,
+          error: 'Image not found'
+        }, 404);
+      }
+      
+      // Only the uploader may delete an image. Images from before uploads were owned are
+      // left to the cleanup job, which removes them once nothing points to them.
+      if (object.customMetadata?.owner !== c.get('user')!.uid) {
+        return c.json({
+          success: false,
+          error: 'You can only delete images you uploaded'
+        }, 403);
+      }
+      
+      await c.env.PROJECT_LOGOS.delete(key);
+      
+      return c.json({
+        success: true
+      });
+    } catch (error) {
+      console.error('Error deleting image:', error);
+      return c.json({
+        success: false,
+        error: 'Failed to delete image'
+      }, 500);
+    }
+  });
@@ -1,5 +1,6 @@
 import { Hono } from "hono";
 import { Env } from "../types";
+import { serveImage } from "../imageResponse";
 
 // Define the endpoint
 export const ImageServe = new Hono<{ Bindings: Env }>()
@@ -8,25 +9,17 @@ export const ImageServe = new Hono<{ Bindings: Env }>()
     const { key } = c.req.param();
     
     try {
-      // Get the object from R2
-      const object = await c.env.PROJECT_LOGOS.get(key);
+      // Serve the image, resized with ?w= and in the best format the browser accepts
+      const response = await serveImage(c, key);
       
-      if (!object) {
+      if (!response) {
         return c.json({
           success: false,
           error: 'Image not found'
         }, 404);
       }
       
-      // Set the appropriate headers
-      const headers = new Headers();
-      headers.set('Content-Type', object.httpMetadata?.contentType || 'image/png');
-      headers.set('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
-      
-      // Serve the image
-      return new Response(object.body, {
-        headers
-      });
+      return response;
     } catch (error) {
       console.error('Error retrieving image:', error);
       return c.json({
@@ -34,4 +27,4 @@ export const ImageServe = new Hono<{ Bindings: Env }>()
         error: 'Failed to retrieve image'
       }, 500);
     }
-  }); 
\ No newline at end of file
+  }); 
@@ -1,10 +1,13 @@
 import { Hono } from "hono";
-import { Env } from "../types";
+import { AppEnv } from "../types";
 import { v4 as uuidv4 } from 'uuid';
+import { requireUser } from "../auth";
+import { uploadMetadata } from "../r2";
+import { imageExtensions, MAX_IMAGE_SIZE, METADATA_STRIPPED, sniffImageType, stripImageMetadata } from "../images";
 
 // Define the endpoint
-export const ImageUpload = new Hono<{ Bindings: Env }>()
-  .post("", async (c) => {
+export const ImageUpload = new Hono<AppEnv>()
+  .post("", requireUser, async (c) => {
     try {
       // Get the file from the request
       const formData = await c.req.formData();
@@ -17,23 +20,36 @@ export const ImageUpload = new Hono<{ Bindings: Env }>()
         }, 400);
       }
       
-      // Validate file type
-      if (!file.type.startsWith('image/')) {
+      // Validate file size
+      if (file.size > MAX_IMAGE_SIZE) {
         return c.json({
           success: false,
-          error: 'Only image files are allowed'
+          error: 'Image size should be less than 2MB'
+        }, 400);
+      }
+      
+      // Validate file type by its contents rather than the type the browser claims
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const imageType = sniffImageType(bytes);
+      
+      if (!imageType) {
+        return c.json({
+          success: false,
+          error: 'Only PNG, JPG, GIF and WebP images are allowed'
         }, 400);
       }
       
       // Generate a unique file name
-      const fileExtension = file.type.split('/')[1] || 'png';
-      const key = `${uuidv4()}.${fileExtension}`;
+      const key = `${uuidv4()}.${imageExtensions[imageType]}`;
       
-      // Upload to R2
-      const arrayBuffer = await file.arrayBuffer();
-      await c.env.PROJECT_LOGOS.put(key, arrayBuffer, {
+      // Upload to R2 without the Exif data (location, device) the image may carry
+      await c.env.PROJECT_LOGOS.put(key, stripImageMetadata(bytes, imageType), {
         httpMetadata: {
-          contentType: file.type
+          contentType: imageType
+        },
+        customMetadata: {
+          ...uploadMetadata(c.get('user')!.uid, 'logo'),
+          [METADATA_STRIPPED]: 'true'
         }
       });
       
@@ -1,65 +1,54 @@
 import { Hono } from "hono";
 import { z } from "zod";
-import { Env } from "../types";
+import { AppEnv } from "../types";
 import { v4 as uuidv4 } from 'uuid';
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { requireUser } from "../auth";
+import { createUploadUrl, uploadMetadata } from "../r2";
+import { ImageType, imageExtensions, MAX_IMAGE_SIZE } from "../images";
 
 // Define the schema for the request
 const ImageUploadSchema = z.object({
-  fileType: z.string().refine(val => val.startsWith('image/'), {
-    message: "Only image files are allowed"
+  fileType: z.string().refine(val => Object.hasOwn(imageExtensions, val), {
+    message: "Only PNG, JPG, GIF and WebP images are allowed"
+  }),
+  fileSize: z.number().int().positive().max(MAX_IMAGE_SIZE, {
+    message: "Image size should be less than 2MB"
   })
 });
 
 // Define the endpoint
-export const ImageUploadUrl = new Hono<{ Bindings: Env }>()
-  .post("", async (c) => {
+export const ImageUploadUrl = new Hono<AppEnv>()
+  .post("", requireUser, async (c) => {
     // Parse the request body
-    const result = ImageUploadSchema.safeParse(await c.req.json());
+    const result = ImageUploadSchema.safeParse(await c.req.json().catch(() => null));
     
     if (!result.success) {
       return c.json({
         success: false,
-        error: result.error.message
+        error: result.error.issues[0]?.message || 'Invalid request body'
       }, 400);
     }
     
-    const { fileType } = result.data;
+    const { fileType, fileSize } = result.data;
     
     try {
       // Generate a unique file name using UUID
-      const fileExtension = fileType.split('/')[1] || 'png';
-      const key = `${uuidv4()}.${fileExtension}`;
+      const key = `${uuidv4()}.${imageExtensions[fileType as ImageType]}`;
       
-      console.log('Creating S3 client with account ID:', c.env.ACCOUNT_ID);
-      console.log('Access key ID length:', c.env.ACCESS_KEY_ID?.length || 'undefined');
-      
-      // Create an S3 client for R2
-      const s3Client = new S3Client({
-        region: "auto",
-        endpoint: `https://${c.env.ACCOUNT_ID}.r2.cloudflarestorage.com`,
-        credentials: {
-          accessKeyId: c.env.ACCESS_KEY_ID,
-          secretAccessKey: c.env.SECRET_ACCESS_KEY,
-        },
+      // Create a presigned URL for uploading, signed for the checked type and size. The
+      // bytes skip the worker, so they are checked and stripped when served instead.
+      const { uploadUrl, headers } = await createUploadUrl(c.env, {
+        key,
+        contentType: fileType,
+        contentLength: fileSize,
+        metadata: uploadMetadata(c.get('user')!.uid, 'logo')
       });
       
-      // Create a presigned URL for uploading
-      const uploadUrl = await getSignedUrl(
-        s3Client,
-        new PutObjectCommand({ 
-          Bucket: "helpfromfounder-bucket",
-          Key: key,
-          ContentType: fileType
-        }),
-        { expiresIn: 60 * 10 } // 10 minutes
-      );
-      
-      // Return the upload URL and key
+      // Return the upload URL, the headers to send with it and the key
       return c.json({
         success: true,
         uploadUrl,
+        headers,
         key
       });
     } catch (error) {
@@ -69,4 +58,4 @@ export const ImageUploadUrl = new Hono<{ Bindings: Env }>()
         error: 'Failed to generate upload URL'
       }, 500);
     }
-  }); 
\ No newline at end of file
+  });
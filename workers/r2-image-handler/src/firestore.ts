@@ -0,0 +1,92 @@
+import { importPKCS8, SignJWT } from "jose";
+import { Env } from "./types";
+
+/**
+ * Read-only Firestore access for the cleanup job, which needs to know which objects are
+ * still in use. Like the thread API worker, this signs its own service account JWT and
+ * calls the REST API, as firebase-admin does not run on Workers.
+ */
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DATASTORE_SCOPE = 'https://www.googleapis.com/auth/datastore';
+
+// Documents read per page when listing a collection
+const PAGE_SIZE = 300;
+
+type FirestoreValue = {
+  stringValue?: string;
+  arrayValue?: { values?: FirestoreValue[] };
+  mapValue?: { fields?: Record<string, FirestoreValue> };
+};
+
+// Get an OAuth access token for the service account
+const getAccessToken = async (env: Env): Promise<string> => {
+  // Secrets set through the dashboard often carry escaped newlines
+  const privateKey = await importPKCS8(env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n'), 'RS256');
+
+  const assertion = await new SignJWT({ scope: DATASTORE_SCOPE })
+    .setProtectedHeader({ alg: 'RS256', typ: 'JWT' })
+    .setIssuer(env.FIREBASE_CLIENT_EMAIL)
+    .setSubject(env.FIREBASE_CLIENT_EMAIL)
+    .setAudience(TOKEN_URL)
+    .setIssuedAt()
+    .setExpirationTime('1h')
+    .sign(privateKey);
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to obtain access token: ${await response.text()}`);
+  }
+
+  const token = await response.json() as { access_token: string };
+  return token.access_token;
+};
+
+/**
+ * Collects every string found under the given fields of every document in a collection,
+ * looking inside arrays and maps, e.g. `attachments` yields each attachment's key and name.
+ * Only those fields are read.
+ */
+export const collectFieldStrings = async (env: Env, collection: string, fields: string[]): Promise<string[]> => {
+  const token = await getAccessToken(env);
+  const strings: string[] = [];
+
+  const collect = (value: FirestoreValue) => {
+    if (value.stringValue !== undefined) strings.push(value.stringValue);
+    value.arrayValue?.values?.forEach(collect);
+    Object.values(value.mapValue?.fields || {}).forEach(collect);
+  };
+
+  let pageToken: string | undefined;
+  do {
+    const params = new URLSearchParams({ pageSize: String(PAGE_SIZE) });
+    fields.forEach((field) => params.append('mask.fieldPaths', field));
+    if (pageToken) params.set('pageToken', pageToken);
+
+    const response = await fetch(
+      `https://firestore.googleapis.com/v1/projects/${env.FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}?${params}`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to list ${collection}: ${response.status} ${await response.text()}`);
+    }
+
+    const page = await response.json() as {
+      documents?: Array<{ fields?: Record<string, FirestoreValue> }>;
+      nextPageToken?: string;
+    };
+    page.documents?.forEach((document) => Object.values(document.fields || {}).forEach(collect));
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return strings;
+};
@@ -0,0 +1,89 @@
+import { Context } from "hono";
+import { Env } from "./types";
+import { METADATA_STRIPPED, negotiateImageFormat, sniffImageType, stripImageMetadata, variantWidth } from "./images";
+
+/**
+ * Serves an image from the bucket: checked by its magic bytes, stripped of Exif if that
+ * didn't happen on upload, resized when `?w=` asks for it and converted to AVIF or WebP
+ * when the browser accepts them. Variants are kept in the edge cache.
+ *
+ * @param key Object key in the bucket
+ * @param extraHeaders Headers to add, e.g. Content-Disposition. They are set after the
+ *   cache lookup, so they don't add cache entries
+ * @returns The image response, or null when there is no such object
+ */
+export const serveImage = async (
+  c: Context<{ Bindings: Env }>,
+  key: string,
+  extraHeaders: Record<string, string> = {}
+): Promise<Response | null> => {
+  const width = variantWidth(c.req.query('w'));
+  const format = negotiateImageFormat(c.req.header('Accept'));
+
+  // One cache entry per variant, whatever else the URL carries, such as an attachment's ?name=
+  const cacheUrl = new URL(c.req.url);
+  cacheUrl.search = '';
+  cacheUrl.searchParams.set('w', String(width || 'full'));
+  cacheUrl.searchParams.set('format', format || 'original');
+  const cacheKey = new Request(cacheUrl.toString());
+
+  const cached = await caches.default.match(cacheKey);
+  if (cached) return withHeaders(cached, extraHeaders);
+
+  const object = await c.env.PROJECT_LOGOS.get(key);
+  if (!object) return null;
+
+  let bytes: Uint8Array = new Uint8Array(await object.arrayBuffer());
+  const type = sniffImageType(bytes);
+
+  if (!type) {
+    return c.json({
+      success: false,
+      error: 'File is not a supported image'
+    }, 415);
+  }
+
+  // Uploads through presigned URLs reach the bucket without passing through the worker
+  if (object.customMetadata?.[METADATA_STRIPPED] !== 'true') {
+    bytes = stripImageMetadata(bytes, type);
+  }
+
+  let body: BodyInit = bytes;
+  let contentType: string = type;
+
+  // GIFs are served as they are so animations keep working
+  if (type !== 'image/gif' && (width || format)) {
+    try {
+      const result = await c.env.IMAGES
+        .input(new Blob([bytes]).stream())
+        .transform(width ? { width, fit: 'scale-down' } : {})
+        .output({ format: format || type });
+      body = result.image();
+      contentType = result.contentType();
+    } catch (error) {
+      // Fall back to the original rather than failing the request
+      console.error('Error transforming image:', error);
+    }
+  }
+
+  const headers = new Headers();
+  headers.set('Content-Type', contentType);
+  headers.set('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
+  headers.set('Vary', 'Accept');
+  headers.set('X-Content-Type-Options', 'nosniff');
+
+  const response = new Response(body, { headers });
+  c.executionCtx.waitUntil(caches.default.put(cacheKey, response.clone()));
+  return withHeaders(response, extraHeaders);
+};
+
+/**
+ * Copies a response with headers added, since cached responses can't be changed.
+ */
+const withHeaders = (response: Response, extraHeaders: Record<string, string>): Response => {
+  const copy = new Response(response.body, response);
+  for (const [name, value] of Object.entries(extraHeaders)) {
+    copy.headers.set(name, value);
+  }
+  return copy;
+};
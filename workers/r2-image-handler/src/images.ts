@@ -0,0 +1,208 @@
+// Image types the worker stores and serves, recognized by their first bytes rather than the
+// type the uploader claims
+export type ImageType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export const imageExtensions: Record<ImageType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// Largest logo accepted by /api/images/upload and /api/images/upload-url
+export const MAX_IMAGE_SIZE = 2 * 1024 * 1024;
+
+// Widths served by ?w=, from avatars to full-width screenshots. Other widths are rounded up
+// to the next one so each image has only a handful of cached variants.
+export const imageWidths = [32, 64, 128, 256, 512, 1024, 2048];
+
+// Set on objects whose metadata was stripped when they were stored, see stripImageMetadata
+export const METADATA_STRIPPED = 'metadataStripped';
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) => {
+  return bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+};
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+/**
+ * Works out an image's type from its magic bytes
+ *
+ * @returns The image type, or null when the bytes are not an image the worker serves
+ */
+export const sniffImageType = (bytes: Uint8Array): ImageType | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  return null;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * Reads the orientation tag from a JPEG's Exif segment, so photos taken sideways still show
+ * upright once the rest of the Exif data is gone
+ */
+const readJpegOrientation = (segment: Uint8Array): number => {
+  // Exif\0\0, then a TIFF header in either byte order
+  const tiff = 10;
+  if (!startsWith(segment, ascii('Exif\0\0'), 4) || segment.length < tiff + 8) return 1;
+
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const little = segment[tiff] === 0x49;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > segment.length) return 1;
+
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > segment.length) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const orientation = view.getUint16(entry + 8, little);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+};
+
+// An APP1 segment holding nothing but the orientation tag
+const orientationSegment = (orientation: number) => {
+  return new Uint8Array([
+    0xff, 0xe1, 0x00, 0x22,
+    ...ascii('Exif\0\0'),
+    // Big-endian TIFF header with the first directory right after it
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+    // One entry: orientation, a single SHORT
+    0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+    // No further directories
+    0x00, 0x00, 0x00, 0x00,
+  ]);
+};
+
+/**
+ * Drops the APP1 (Exif, XMP) and APP13 (IPTC) segments of a JPEG, keeping only its orientation.
+ * Everything from the start of the scan on is copied unchanged.
+ */
+const stripJpeg = (bytes: Uint8Array): Uint8Array => {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation = 1;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the compressed image data follows
+    if (marker === 0xda) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = bytes.subarray(offset, offset + 2 + length);
+
+    if (marker === 0xe1) {
+      // XMP is stored in APP1 too and reads as the default orientation
+      const found = readJpegOrientation(segment);
+      if (found !== 1) orientation = found;
+    } else if (marker !== 0xed) {
+      parts.push(segment);
+    }
+    offset += 2 + length;
+  }
+
+  if (orientation !== 1) {
+    // Right after the APP0 (JFIF) segment when there is one
+    parts.splice(parts.length > 1 && bytes[3] === 0xe0 ? 2 : 1, 0, orientationSegment(orientation));
+  }
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+};
+
+// PNG chunks that carry text, timestamps or Exif rather than pixels
+const pngMetadataChunks = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+const stripPng = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    // Length, type, data and CRC
+    const chunk = bytes.subarray(offset, offset + 12 + length);
+    if (!pngMetadataChunks.has(type)) parts.push(chunk);
+    offset += 12 + length;
+  }
+  return concat(parts);
+};
+
+/**
+ * Drops the EXIF and XMP chunks of a WebP and clears their flags in the VP8X header
+ */
+const stripWebp = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even length
+    const chunk = bytes.slice(offset, offset + 8 + length + (length % 2));
+    if (type === 'VP8X') {
+      chunk[8] &= ~0x0c;
+    }
+    if (type !== 'EXIF' && type !== 'XMP ') parts.push(chunk);
+    offset += 8 + length + (length % 2);
+  }
+
+  const body = concat(parts);
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat([header, body]);
+};
+
+/**
+ * Removes the metadata cameras and phones embed in images, such as GPS location, device
+ * and timestamps. GIFs carry no Exif and are returned as they are.
+ */
+export const stripImageMetadata = (bytes: Uint8Array, type: ImageType): Uint8Array => {
+  switch (type) {
+    case 'image/jpeg':
+      return stripJpeg(bytes);
+    case 'image/png':
+      return stripPng(bytes);
+    case 'image/webp':
+      return stripWebp(bytes);
+    default:
+      return bytes;
+  }
+};
+
+/**
+ * Picks the smallest format the browser accepts, going by its Accept header
+ *
+ * @returns The format to convert to, or null to keep the image's own format
+ */
+export const negotiateImageFormat = (accept: string | undefined): 'image/avif' | 'image/webp' | null => {
+  if (accept?.includes('image/avif')) return 'image/avif';
+  if (accept?.includes('image/webp')) return 'image/webp';
+  return null;
+};
+
+/**
+ * Rounds a requested width up to one of the widths served
+ *
+ * @returns The width to resize to, or null for the full-size image
+ */
+export const variantWidth = (requested: string | undefined): number | null => {
+  const width = Number(requested);
+  if (!requested || !Number.isInteger(width) || width <= 0) return null;
+  return imageWidths.find((allowed) => allowed >= width) || imageWidths[imageWidths.length - 1];
+};
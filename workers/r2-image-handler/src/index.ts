@@ -3,10 +3,15 @@ import { cors } from 'hono/cors';
 import { ImageUploadUrl } from "./endpoints/imageUploadUrl";
 import { ImageUpload } from "./endpoints/imageUpload";
 import { ImageServe } from "./endpoints/imageServe";
-import { Env } from "./types";
+import { ImageDelete } from "./endpoints/imageDelete";
+import { AttachmentUploadUrl } from "./endpoints/attachmentUploadUrl";
+import { AttachmentServe } from "./endpoints/attachmentServe";
+import { identifyUser } from "./auth";
+import { removeOrphanedObjects } from "./cleanup";
+import { AppEnv, Env } from "./types";
 
 // Start a Hono app
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<AppEnv>();
 
 // CORS middleware
 app.use('*', async (c, next) => {
@@ -26,10 +31,24 @@ app.use('*', async (c, next) => {
 	return next();
 });
 
+// Identify the caller from their Firebase ID token, if any
+app.use('/api/*', identifyUser);
+
 // Register image endpoints
 app.route("/api/images/upload-url", ImageUploadUrl);
 app.route("/api/images/upload", ImageUpload);
 app.route("/api/images", ImageServe);
+app.route("/api/images", ImageDelete);
+
+// Register attachment endpoints
+app.route("/api/attachments/upload-url", AttachmentUploadUrl);
+app.route("/api/attachments", AttachmentServe);
+
+// Export the Hono app, with a nightly job that removes objects nothing uses any more
+export default {
+	fetch: app.fetch,
 
-// Export the Hono app
-export default app;
+	async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+		ctx.waitUntil(removeOrphanedObjects(env));
+	},
+} satisfies ExportedHandler<Env>;
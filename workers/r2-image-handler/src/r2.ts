@@ -0,0 +1,56 @@
+import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Env, UploadPurpose } from "./types";
+
+// The bucket behind the PROJECT_LOGOS binding, addressed by name for presigned URLs
+export const BUCKET_NAME = "helpfromfounder-bucket";
+
+// Create an S3 client for R2, used to sign upload URLs
+export const createR2Client = (env: Env) => {
+  return new S3Client({
+    region: "auto",
+    endpoint: `https://${env.ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    credentials: {
+      accessKeyId: env.ACCESS_KEY_ID,
+      secretAccessKey: env.SECRET_ACCESS_KEY,
+    },
+  });
+};
+
+// Custom metadata stored with every upload: who uploaded it and what for
+export const uploadMetadata = (owner: string, purpose: UploadPurpose): Record<string, string> => ({ owner, purpose });
+
+/**
+ * Create a presigned URL for uploading one object. The type, size and metadata are part of
+ * the signature, so the upload has to send exactly the headers returned along with the URL.
+ */
+export const createUploadUrl = async (
+  env: Env,
+  upload: { key: string; contentType: string; contentLength: number; metadata: Record<string, string> }
+) => {
+  const metadataHeaders = Object.fromEntries(
+    Object.entries(upload.metadata).map(([name, value]) => [`x-amz-meta-${name}`, value])
+  );
+
+  const uploadUrl = await getSignedUrl(
+    createR2Client(env),
+    new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: upload.key,
+      ContentType: upload.contentType,
+      ContentLength: upload.contentLength,
+      Metadata: upload.metadata
+    }),
+    {
+      expiresIn: 60 * 10, // 10 minutes
+      signableHeaders: new Set(['content-type', 'content-length']),
+      // Keep the metadata as headers rather than query parameters so R2 stores it
+      unhoistableHeaders: new Set(Object.keys(metadataHeaders))
+    }
+  );
+
+  return {
+    uploadUrl,
+    headers: { 'Content-Type': upload.contentType, ...metadataHeaders }
+  };
+};
@@ -2,19 +2,45 @@ export interface Env {
 	// Bindings for R2 storage
 	PROJECT_LOGOS: R2Bucket;
 	
+	// Cloudflare Images, for resized and converted variants
+	IMAGES: ImagesBinding;
+	
 	// Environment variables
 	ALLOWED_ORIGINS: string;
+	FIREBASE_PROJECT_ID: string;
 	
 	// R2 credentials for presigned URLs
 	ACCOUNT_ID: string;
 	ACCESS_KEY_ID: string;
 	SECRET_ACCESS_KEY: string;
+	
+	// Service account credentials for reading Firestore in the cleanup job
+	FIREBASE_CLIENT_EMAIL: string;
+	FIREBASE_PRIVATE_KEY: string;
+}
+
+// The caller identified by a verified Firebase ID token
+export interface AuthUser {
+	uid: string;
 }
 
+// Hono typing for endpoints that need to know the caller
+export type AppEnv = {
+	Bindings: Env;
+	Variables: {
+		user: AuthUser | null;
+	};
+};
+
+// What an object in the bucket is for, stored with it as custom metadata
+export type UploadPurpose = 'logo' | 'attachment';
+
 export interface UploadResponse {
 	success: boolean;
 	uploadUrl?: string;
 	key?: string;
+	// Headers the upload has to be sent with, as they are part of the signature
+	headers?: Record<string, string>;
 	error?: string;
 }
 
@@ -0,0 +1,156 @@
+// test/images.spec.ts
+import { describe, it, expect } from "vitest";
+import { negotiateImageFormat, sniffImageType, stripImageMetadata, variantWidth } from "../src/images";
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+const bytes = (...parts: number[][]) => new Uint8Array(parts.flat());
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+const u32le = (value: number) => u32(value).reverse();
+const contains = (haystack: Uint8Array, needle: number[]) =>
+  haystack.some((_, i) => needle.every((byte, j) => haystack[i + j] === byte));
+
+// A JPEG segment: marker, then a length counting itself
+const segment = (marker: number, body: number[]) => [0xff, marker, ...u16(body.length + 2), ...body];
+
+// An Exif APP1 segment in little-endian byte order, with a GPS tag and an orientation
+const exifSegment = (orientation: number) =>
+  segment(0xe1, [
+    ...ascii("Exif\0\0"),
+    // TIFF header with the first directory right after it
+    0x49, 0x49, 0x2a, 0x00, ...u32le(8),
+    // Two entries: the GPS directory pointer and the orientation
+    0x02, 0x00,
+    0x25, 0x88, 0x04, 0x00, ...u32le(1), ...u32le(0x1234),
+    0x12, 0x01, 0x03, 0x00, ...u32le(1), orientation, 0x00, 0x00, 0x00,
+    ...u32le(0),
+  ]);
+
+const jfif = segment(0xe0, [...ascii("JFIF\0"), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const iptc = segment(0xed, ascii("Photoshop 3.0\0GPS: 51.5N"));
+const quantization = segment(0xdb, [0x00, ...new Array(64).fill(1)]);
+const scan = [...segment(0xda, [0x01, 0x01, 0x00, 0x00, 0x3f, 0x00]), 0x12, 0x34, 0xff, 0xd9];
+
+// A PNG chunk: length, type, data and a CRC, which the stripping doesn't check
+const chunk = (type: string, data: number[]) => [...u32(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// A WebP chunk: type, little-endian length, data and padding to an even length
+const webpChunk = (type: string, data: number[]) => [
+  ...ascii(type),
+  ...u32le(data.length),
+  ...data,
+  ...(data.length % 2 ? [0] : []),
+];
+const riff = (...chunks: number[][]) => {
+  const body = chunks.flat();
+  return bytes(ascii("RIFF"), u32le(body.length + 4), ascii("WEBP"), body);
+};
+
+describe("sniffImageType", () => {
+  it("recognizes images by their magic bytes", () => {
+    expect(sniffImageType(bytes(pngSignature, [0, 0]))).toBe("image/png");
+    expect(sniffImageType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+    expect(sniffImageType(bytes(ascii("GIF87a")))).toBe("image/gif");
+    expect(sniffImageType(bytes(ascii("GIF89a"), [1, 0]))).toBe("image/gif");
+    expect(sniffImageType(riff(webpChunk("VP8 ", [1, 2])))).toBe("image/webp");
+  });
+
+  it("refuses anything else, whatever it claims to be", () => {
+    expect(sniffImageType(bytes(ascii("<svg xmlns=")))).toBeNull();
+    expect(sniffImageType(bytes(ascii("RIFF"), u32le(4), ascii("WAVE")))).toBeNull();
+    expect(sniffImageType(bytes(ascii("%PDF-1.7")))).toBeNull();
+    expect(sniffImageType(new Uint8Array())).toBeNull();
+  });
+
+  it("refuses truncated signatures", () => {
+    expect(sniffImageType(bytes(pngSignature.slice(0, 4)))).toBeNull();
+    expect(sniffImageType(bytes([0xff, 0xd8]))).toBeNull();
+    expect(sniffImageType(bytes(ascii("RIFF"), u32le(4)))).toBeNull();
+  });
+});
+
+describe("stripImageMetadata", () => {
+  it("drops the Exif and IPTC segments of a JPEG, keeping the image data", () => {
+    const jpeg = bytes([0xff, 0xd8], jfif, exifSegment(1), iptc, quantization, scan);
+    const stripped = stripImageMetadata(jpeg, "image/jpeg");
+
+    expect(stripped).toEqual(bytes([0xff, 0xd8], jfif, quantization, scan));
+    expect(contains(stripped, ascii("Exif"))).toBe(false);
+    expect(contains(stripped, ascii("GPS"))).toBe(false);
+  });
+
+  it("keeps the orientation of a JPEG taken sideways, after the JFIF segment", () => {
+    const jpeg = bytes([0xff, 0xd8], jfif, exifSegment(6), quantization, scan);
+    const stripped = stripImageMetadata(jpeg, "image/jpeg");
+
+    const start = 2 + jfif.length;
+    expect(stripped.subarray(0, start)).toEqual(bytes([0xff, 0xd8], jfif));
+    expect(Array.from(stripped.subarray(start, start + 2))).toEqual([0xff, 0xe1]);
+    expect(contains(stripped, [0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 6])).toBe(true);
+    // The GPS directory pointer is gone
+    expect(contains(stripped, [0x25, 0x88])).toBe(false);
+    expect(stripped.subarray(stripped.length - scan.length)).toEqual(bytes(scan));
+  });
+
+  it("drops the text, time and Exif chunks of a PNG", () => {
+    const header = chunk("IHDR", [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]);
+    const data = chunk("IDAT", [0x78, 0x9c, 0x01]);
+    const end = chunk("IEND", []);
+    const png = bytes(
+      pngSignature,
+      header,
+      chunk("tEXt", ascii("Author\0Ada")),
+      chunk("eXIf", [0x4d, 0x4d]),
+      chunk("tIME", [0x07, 0xe9, 1, 1, 0, 0, 0]),
+      data,
+      chunk("iTXt", ascii("XML:com.adobe.xmp\0")),
+      end,
+    );
+
+    expect(stripImageMetadata(png, "image/png")).toEqual(bytes(pngSignature, header, data, end));
+  });
+
+  it("drops the EXIF and XMP chunks of a WebP and clears their flags", () => {
+    // VP8X flags: Exif (0x08) and XMP (0x04) on top of alpha (0x10)
+    const webp = riff(
+      webpChunk("VP8X", [0x1c, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+      webpChunk("VP8L", [1, 2, 3]),
+      webpChunk("EXIF", ascii("MM\0*")),
+      webpChunk("XMP ", ascii("<x:xmpmeta/>")),
+    );
+
+    expect(stripImageMetadata(webp, "image/webp")).toEqual(
+      riff(webpChunk("VP8X", [0x10, 0, 0, 0, 0, 0, 0, 0, 0, 0]), webpChunk("VP8L", [1, 2, 3])),
+    );
+  });
+
+  it("returns GIFs as they are", () => {
+    const gif = bytes(ascii("GIF89a"), [1, 0, 1, 0]);
+    expect(stripImageMetadata(gif, "image/gif")).toBe(gif);
+  });
+});
+
+describe("negotiateImageFormat", () => {
+  it("prefers AVIF, then WebP", () => {
+    expect(negotiateImageFormat("image/avif,image/webp,*/*")).toBe("image/avif");
+    expect(negotiateImageFormat("image/webp,*/*")).toBe("image/webp");
+    expect(negotiateImageFormat("*/*")).toBeNull();
+    expect(negotiateImageFormat(undefined)).toBeNull();
+  });
+});
+
+describe("variantWidth", () => {
+  it("rounds widths up to the ones served", () => {
+    expect(variantWidth("32")).toBe(32);
+    expect(variantWidth("100")).toBe(128);
+    expect(variantWidth("5000")).toBe(2048);
+  });
+
+  it("serves the full-size image for missing or invalid widths", () => {
+    expect(variantWidth(undefined)).toBeNull();
+    expect(variantWidth("0")).toBeNull();
+    expect(variantWidth("wide")).toBeNull();
+    expect(variantWidth("12.5")).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+// The runtime used in tests can't run the Cloudflare Images binding from wrangler.jsonc,
+// so the tests get a worker of their own, with the same compatibility date
+export default defineWorkersConfig({
+  test: {
+    poolOptions: {
+      workers: {
+        main: "./src/index.ts",
+        miniflare: {
+          compatibilityDate: "2025-03-10",
+          r2Buckets: ["PROJECT_LOGOS"],
+        },
+      },
+    },
+  },
+});
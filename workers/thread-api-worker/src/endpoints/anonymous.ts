@@ -0,0 +1,46 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { AppEnv } from '../types';
+import { hashAnonymousToken } from '../lib/anonymous';
+import { requireUser } from '../lib/auth';
+import { commit, DocumentWrite, runQuery } from '../lib/firestore';
+import { AnonymousAuthorSchema, parseBody } from '../lib/validation';
+
+// The token proves the caller posted from this browser; the anonymous ID on the posts is public
+const TransferSchema = z.object({
+	anonymousToken: AnonymousAuthorSchema.shape.anonymousToken.unwrap(),
+});
+
+// Define the endpoint
+export const AnonymousTransfer = new Hono<AppEnv>()
+	// Move threads and responses written anonymously in this browser to the signed-in user
+	.post('', requireUser, async (c) => {
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, TransferSchema);
+		if ('response' in parsed) return parsed.response;
+		const anonymousTokenHash = await hashAnonymousToken(parsed.data.anonymousToken);
+
+		const [threads, responses] = await Promise.all([
+			runQuery(c.env, 'threads', { where: [['anonymousTokenHash', '==', anonymousTokenHash]] }),
+			runQuery(c.env, 'responses', { where: [['anonymousTokenHash', '==', anonymousTokenHash]] }),
+		]);
+
+		const writes: DocumentWrite[] = [...threads, ...responses].map((doc) => ({
+			path: doc.path,
+			merge: true,
+			exists: true,
+			data: {
+				authorId: user.uid,
+				// Remove the anonymous identity
+				anonymousId: null,
+				anonymousTokenHash: null,
+			},
+		}));
+
+		for (let i = 0; i < writes.length; i += 500) {
+			await commit(c.env, writes.slice(i, i + 500));
+		}
+
+		return c.json({ success: true, transferred: writes.length });
+	});
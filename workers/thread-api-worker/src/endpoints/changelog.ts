@@ -0,0 +1,183 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { AppEnv, ChangelogEntryData, ProjectData } from '../types';
+import { requireUser } from '../lib/auth';
+import { findUnresolvedThread, getPublishedEntries, renderAtomFeed, renderRssFeed } from '../lib/changelog';
+import { autoId, commit, FirestoreDocument, getDocument, runTransaction } from '../lib/firestore';
+import { notifyChangelogPublished } from '../lib/notifications';
+import { getProject, getProjectBySlug } from '../lib/projects';
+import { parseBody } from '../lib/validation';
+
+const ChangelogEntrySchema = z.object({
+	title: z.string().trim().min(1).max(200),
+	content: z.string().trim().min(1).max(20000),
+	// An empty version is stored as null
+	version: z
+		.string()
+		.trim()
+		.max(50)
+		.optional()
+		.transform((version) => version || null),
+	threadIds: z
+		.array(z.string().min(1))
+		.max(20)
+		.default([])
+		.transform((threadIds) => [...new Set(threadIds)]),
+	// Publishes a draft. Published entries stay published until they are deleted
+	publish: z.boolean().default(false),
+});
+
+const CreateChangelogEntrySchema = ChangelogEntrySchema.extend({
+	projectId: z.string().min(1),
+});
+
+// Define the endpoints
+export const Changelog = new Hono<AppEnv>()
+	// Write a changelog entry (owner only), as a draft or straight away live
+	.post('', requireUser, async (c) => {
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, CreateChangelogEntrySchema);
+		if ('response' in parsed) return parsed.response;
+		const { publish, ...body } = parsed.data;
+
+		const project = await getProject(c.env, body.projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		if (project.data.ownerId !== user.uid) {
+			return c.json({ success: false, error: 'Only the project owner can write its changelog' }, 403);
+		}
+
+		const unresolved = await findUnresolvedThread(c.env, project.id, body.threadIds);
+		if (unresolved) {
+			return c.json({ success: false, error: `threadIds: ${unresolved} is not a solved thread of this project` }, 400);
+		}
+
+		const entryId = autoId();
+		const entry: ChangelogEntryData = {
+			...body,
+			status: publish ? 'published' : 'draft',
+			authorId: user.uid,
+			authorName: user.name || 'The founder',
+		};
+
+		await commit(c.env, [
+			{
+				path: `changelog/${entryId}`,
+				data: publish ? { ...entry } : { ...entry, publishedAt: null },
+				exists: false,
+				serverTimestamps: publish ? ['createdAt', 'updatedAt', 'publishedAt'] : ['createdAt', 'updatedAt'],
+			},
+		]);
+
+		if (publish) {
+			c.executionCtx.waitUntil(notifyChangelogPublished(c.env, project, entryId, entry));
+		}
+
+		return c.json({ success: true, id: entryId, published: publish }, 201);
+	})
+
+	// Edit an entry or publish a draft (owner only)
+	.patch('/:entryId', requireUser, async (c) => {
+		const { entryId } = c.req.param();
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, ChangelogEntrySchema);
+		if ('response' in parsed) return parsed.response;
+		const { publish, ...body } = parsed.data;
+
+		// Set when this edit takes the entry live, so the participants can be told
+		let published: { project: FirestoreDocument<ProjectData>; entry: ChangelogEntryData } | null = null;
+
+		await runTransaction(c.env, async (transaction) => {
+			const entry = await getDocument<ChangelogEntryData>(c.env, `changelog/${entryId}`, transaction);
+			if (!entry) {
+				throw new HTTPException(404, { message: 'Changelog entry not found' });
+			}
+
+			const project = await getProject(c.env, entry.data.projectId, transaction);
+			if (!project || project.data.ownerId !== user.uid) {
+				throw new HTTPException(403, { message: 'Only the project owner can edit its changelog' });
+			}
+
+			const unresolved = await findUnresolvedThread(c.env, project.id, body.threadIds, transaction);
+			if (unresolved) {
+				throw new HTTPException(400, { message: `threadIds: ${unresolved} is not a solved thread of this project` });
+			}
+
+			const goesLive = publish && entry.data.status === 'draft';
+			published = goesLive ? { project, entry: { ...entry.data, ...body, status: 'published' } } : null;
+
+			return [
+				{
+					path: entry.path,
+					merge: true,
+					exists: true,
+					data: goesLive ? { ...body, status: 'published' } : { ...body },
+					serverTimestamps: goesLive ? ['updatedAt', 'publishedAt'] : ['updatedAt'],
+				},
+			];
+		});
+
+		if (published) {
+			const { project, entry } = published;
+			c.executionCtx.waitUntil(notifyChangelogPublished(c.env, project, entryId, entry));
+		}
+
+		return c.json({ success: true, published: !!published });
+	})
+
+	// Delete an entry (owner only)
+	.delete('/:entryId', requireUser, async (c) => {
+		const { entryId } = c.req.param();
+		const user = c.get('user')!;
+
+		await runTransaction(c.env, async (transaction) => {
+			const entry = await getDocument<ChangelogEntryData>(c.env, `changelog/${entryId}`, transaction);
+			if (!entry) {
+				throw new HTTPException(404, { message: 'Changelog entry not found' });
+			}
+
+			const project = await getProject(c.env, entry.data.projectId, transaction);
+			if (!project || project.data.ownerId !== user.uid) {
+				throw new HTTPException(403, { message: 'Only the project owner can edit its changelog' });
+			}
+
+			return [{ path: entry.path, delete: true }];
+		});
+
+		return c.json({ success: true });
+	})
+
+	// Published entries of a project as an Atom feed
+	.get('/:projectSlug/atom', async (c) => {
+		const project = await getProjectBySlug(c.env, c.req.param('projectSlug'));
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		const entries = await getPublishedEntries(c.env, project.id);
+
+		return c.body(renderAtomFeed(c.env, project.data, entries, c.req.url), 200, {
+			'Content-Type': 'application/atom+xml; charset=utf-8',
+			'Cache-Control': 'public, max-age=300',
+		});
+	})
+
+	// Published entries of a project as an RSS feed
+	.get('/:projectSlug/rss', async (c) => {
+		const project = await getProjectBySlug(c.env, c.req.param('projectSlug'));
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		const entries = await getPublishedEntries(c.env, project.id);
+
+		return c.body(renderRssFeed(c.env, project.data, entries, c.req.url), 200, {
+			'Content-Type': 'application/rss+xml; charset=utf-8',
+			'Cache-Control': 'public, max-age=300',
+		});
+	});
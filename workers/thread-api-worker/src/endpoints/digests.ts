@@ -0,0 +1,24 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { AppEnv } from '../types';
+import { requireInternalSecret } from '../lib/auth';
+import { compileDigests } from '../lib/digests';
+
+const DigestsQuerySchema = z.object({
+	frequency: z.enum(['daily', 'weekly']),
+	unansweredHours: z.coerce.number().int().min(1).max(720).default(48),
+});
+
+// Define the endpoints. Only the email worker calls these, with the shared secret
+export const Digests = new Hono<AppEnv>()
+	// The founder digests due at a frequency, for the email worker to send
+	.get('', requireInternalSecret, async (c) => {
+		const parsed = DigestsQuerySchema.safeParse(c.req.query());
+		if (!parsed.success) {
+			return c.json({ success: false, error: 'Digests need a frequency of daily or weekly and at most 720 unansweredHours' }, 400);
+		}
+
+		const digests = await compileDigests(c.env, parsed.data.frequency, parsed.data.unansweredHours);
+
+		return c.json({ success: true, digests });
+	});
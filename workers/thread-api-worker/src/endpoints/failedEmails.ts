@@ -0,0 +1,53 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { AppEnv, FailedEmailData } from '../types';
+import { requireInternalSecret } from '../lib/auth';
+import { autoId, commit } from '../lib/firestore';
+import { getProject } from '../lib/projects';
+import { parseBody } from '../lib/validation';
+
+const FailedEmailSchema = z.object({
+	projectId: z.string().min(1),
+	type: z.string().min(1).max(50),
+	subject: z.string().max(500),
+	recipient: z.object({
+		email: z.string().min(1),
+		name: z.string().optional(),
+	}),
+	error: z.string().max(2000),
+	attempts: z.number().int().min(1),
+	idempotencyKey: z.string().min(1).max(500),
+	queuedAt: z.string().datetime(),
+});
+
+// Keeps the first letter of the address and its domain, e.g. j***@example.com
+function maskEmail(email: string): string {
+	const [local, domain] = email.split('@');
+	return domain ? `${local.slice(0, 1)}***@${domain}` : '***';
+}
+
+// Define the endpoints. Only the email worker calls these, with the shared secret
+export const FailedEmails = new Hono<AppEnv>()
+	// Record an email the email worker gave up on, for the project owner to look at
+	.post('', requireInternalSecret, async (c) => {
+		const parsed = await parseBody(c, FailedEmailSchema);
+		if ('response' in parsed) return parsed.response;
+		const { projectId, recipient, ...failure } = parsed.data;
+
+		// The project may have been deleted since the email was queued
+		const project = await getProject(c.env, projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		const data: FailedEmailData = {
+			...failure,
+			recipientName: recipient.name || null,
+			recipientEmail: maskEmail(recipient.email),
+			queuedAt: new Date(failure.queuedAt),
+		};
+
+		await commit(c.env, [{ path: `${project.path}/failedEmails/${autoId()}`, data: { ...data }, serverTimestamps: ['createdAt'] }]);
+
+		return c.json({ success: true });
+	});
@@ -0,0 +1,441 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { AppEnv, InvitationData, MemberData, ProjectData, ThreadData } from '../types';
+import { requireUser } from '../lib/auth';
+import { recountProject } from '../lib/counters';
+import { eventWrite } from '../lib/events';
+import { autoId, commit, DocumentWrite, FirestoreDocument, getDocument, runQuery, runTransaction } from '../lib/firestore';
+import { sendInvitation } from '../lib/notifications';
+import { getProject, getProjectRole, getProjectTags, hasProjectPermission } from '../lib/projects';
+import { reindexProject, reindexThreads, searchProject } from '../lib/search';
+import { threadTags } from '../lib/threadTags';
+import { threadStatuses } from '../lib/workflow';
+import { parseBody, tagColors, TagValueSchema } from '../lib/validation';
+
+const memberRoles = ['maintainer', 'triager'] as const;
+
+// Firestore accepts at most 500 writes per commit and 30 values in an `in` filter
+const MAX_WRITES_PER_COMMIT = 500;
+const MAX_IN_VALUES = 30;
+
+const CreateInvitationSchema = z.object({
+	email: z.string().trim().toLowerCase().email('Invalid email address'),
+	role: z.enum(memberRoles),
+});
+
+const UpdateMemberSchema = z.object({
+	role: z.enum(memberRoles),
+});
+
+const SearchQuerySchema = z.object({
+	q: z.string().trim().min(1).max(200),
+	limit: z.coerce.number().int().min(1).max(50).default(20),
+	status: z.enum([...threadStatuses, 'active']).optional(),
+	// Comma-separated tag values
+	tags: z
+		.string()
+		.transform((tags) => tags.split(',').filter(Boolean))
+		.pipe(z.array(TagValueSchema).max(20))
+		.optional(),
+	tagMatch: z.enum(['all', 'any']).default('any'),
+});
+
+const UpdateTagsSchema = z.object({
+	tags: z
+		.array(
+			z.object({
+				value: TagValueSchema,
+				label: z.string().trim().min(1).max(30),
+				color: z.enum(tagColors),
+			}),
+		)
+		.min(1)
+		.max(20)
+		.refine((tags) => new Set(tags.map((tag) => tag.value)).size === tags.length, 'Tags must be unique'),
+	// Tag that threads with a removed tag move to, defaulting to the first tag
+	replacementTag: TagValueSchema.optional(),
+	// Tag of the threads on the roadmap, or null for no roadmap; unchanged when not given
+	roadmapTag: TagValueSchema.nullable().optional(),
+});
+
+/**
+ * Copy of the project's memberRoles with one member changed or removed
+ */
+function withMemberRole(project: ProjectData, userId: string, role: MemberData['role'] | null): Record<string, MemberData['role']> {
+	const roles = { ...(project.memberRoles || {}) };
+	if (role) {
+		roles[userId] = role;
+	} else {
+		delete roles[userId];
+	}
+	return roles;
+}
+
+// Define the endpoints
+export const Projects = new Hono<AppEnv>()
+	// Rebuild a project's counters from its threads (team members only)
+	.post('/:projectId/recount', requireUser, async (c) => {
+		const { projectId } = c.req.param();
+		const user = c.get('user')!;
+
+		const project = await getProject(c.env, projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		if (!getProjectRole(project.data, user.uid)) {
+			return c.json({ success: false, error: 'Only the project team can recount this project' }, 403);
+		}
+
+		const counters = await recountProject(c.env, project.id);
+
+		return c.json({ success: true, counters });
+	})
+
+	// Search the project's threads and responses
+	.get('/:projectId/search', async (c) => {
+		const { projectId } = c.req.param();
+
+		const parsed = SearchQuerySchema.safeParse(c.req.query());
+		if (!parsed.success) {
+			return c.json({ success: false, error: 'Search needs a query of at most 200 characters and a valid status and tags' }, 400);
+		}
+
+		const project = await getProject(c.env, projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		const { q, limit, status, tags, tagMatch } = parsed.data;
+		const results = await searchProject(c.env, project.id, q, limit, { status, tags, tagMatch });
+
+		return c.json({ success: true, results });
+	})
+
+	// Rebuild the search index of every thread in the project (team members only)
+	.post('/:projectId/reindex', requireUser, async (c) => {
+		const { projectId } = c.req.param();
+		const user = c.get('user')!;
+
+		const project = await getProject(c.env, projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		if (!getProjectRole(project.data, user.uid)) {
+			return c.json({ success: false, error: 'Only the project team can reindex this project' }, 403);
+		}
+
+		const indexed = await reindexProject(c.env, project.id);
+
+		return c.json({ success: true, indexed });
+	})
+
+	// Replace the project's tags (owner only), moving threads off any tag that was removed, and
+	// pick the tag of the roadmap
+	.put('/:projectId/tags', requireUser, async (c) => {
+		const { projectId } = c.req.param();
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, UpdateTagsSchema);
+		if ('response' in parsed) return parsed.response;
+		const { tags, replacementTag = tags[0].value, roadmapTag } = parsed.data;
+
+		if (!tags.some((tag) => tag.value === replacementTag)) {
+			return c.json({ success: false, error: 'replacementTag: must be one of the new tags' }, 400);
+		}
+
+		if (roadmapTag && !tags.some((tag) => tag.value === roadmapTag)) {
+			return c.json({ success: false, error: 'roadmapTag: must be one of the new tags' }, 400);
+		}
+
+		const project = await getProject(c.env, projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		if (project.data.ownerId !== user.uid) {
+			return c.json({ success: false, error: 'Only the project owner can change its tags' }, 403);
+		}
+
+		// Threads can carry tags that were never in the list, e.g. from before tags were
+		// customizable, so the counters are checked too
+		const keptValues = new Set(tags.map((tag) => tag.value));
+		const previousValues = new Set([
+			...getProjectTags(project.data).map((tag) => tag.value),
+			...Object.keys(project.data.tagCounts || {}).filter((value) => project.data.tagCounts![value] > 0),
+		]);
+		const removedValues = [...previousValues].filter((value) => !keptValues.has(value));
+
+		// Save the tags first so no new threads are filed under a removed tag during the migration
+		await commit(c.env, [
+			{ path: project.path, merge: true, exists: true, data: { tags, ...(roadmapTag !== undefined ? { roadmapTag } : {}) } },
+		]);
+
+		// Older threads only have the single `tag` field, so both fields are looked up. A thread
+		// can turn up in several lookups, so threads are keyed by path
+		const retagged = new Map<string, { thread: FirestoreDocument<ThreadData>; newTags: string[] }>();
+		for (let i = 0; i < removedValues.length; i += MAX_IN_VALUES) {
+			const chunk = removedValues.slice(i, i + MAX_IN_VALUES);
+			const lookups = await Promise.all([
+				runQuery<ThreadData>(c.env, 'threads', {
+					where: [
+						['projectId', '==', project.id],
+						['tags', 'array-contains-any', chunk],
+					],
+				}),
+				runQuery<ThreadData>(c.env, 'threads', {
+					where: [
+						['projectId', '==', project.id],
+						['tag', 'in', chunk],
+					],
+				}),
+			]);
+
+			for (const thread of lookups.flat()) {
+				const replaced = threadTags(thread.data).map((tag) => (removedValues.includes(tag) ? replacementTag : tag));
+				retagged.set(thread.path, { thread, newTags: [...new Set(replaced)] });
+			}
+		}
+
+		// Each thread is retagged along with the event recording it, as when tagged by hand.
+		// Both writes are pushed together and the commit size is even, so they share a commit.
+		const writes = [...retagged.values()].flatMap(({ thread, newTags }): DocumentWrite[] => {
+			const previousTags = threadTags(thread.data);
+			return [
+				{ path: thread.path, merge: true, exists: true, data: { tags: newTags } },
+				eventWrite(thread.path, {
+					type: 'tags-changed',
+					actorId: user.uid,
+					actorName: user.name || 'Founder',
+					added: newTags.filter((tag) => !previousTags.includes(tag)),
+					removed: previousTags.filter((tag) => !newTags.includes(tag)),
+				}),
+			];
+		});
+		for (let i = 0; i < writes.length; i += MAX_WRITES_PER_COMMIT) {
+			await commit(c.env, writes.slice(i, i + MAX_WRITES_PER_COMMIT));
+		}
+
+		// The tag counters are rebuilt rather than adjusted thread by thread
+		if (retagged.size > 0 || removedValues.length > 0) {
+			await recountProject(c.env, project.id);
+		}
+
+		c.executionCtx.waitUntil(
+			reindexThreads(
+				c.env,
+				project.id,
+				[...retagged.values()].map(({ thread }) => thread.id),
+			),
+		);
+
+		return c.json({ success: true, migrated: retagged.size });
+	})
+
+	// Invite someone to the team by email, and email them a link to accept
+	.post('/:projectId/invitations', requireUser, async (c) => {
+		const { projectId } = c.req.param();
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, CreateInvitationSchema);
+		if ('response' in parsed) return parsed.response;
+		const body = parsed.data;
+
+		const project = await getProject(c.env, projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		if (!hasProjectPermission(project.data, user.uid, 'manageMembers')) {
+			return c.json({ success: false, error: 'You do not have permission to manage this team' }, 403);
+		}
+
+		const [members, invitations] = await Promise.all([
+			runQuery<MemberData>(c.env, 'members', { parent: project.path, where: [['email', '==', body.email]], limit: 1 }),
+			runQuery<InvitationData>(c.env, 'invitations', { parent: project.path, where: [['email', '==', body.email]], limit: 1 }),
+		]);
+
+		if (members.length > 0 || body.email === user.email?.toLowerCase()) {
+			return c.json({ success: false, error: 'This person is already on the team' }, 409);
+		}
+
+		if (invitations.length > 0) {
+			return c.json({ success: false, error: 'This person has already been invited' }, 409);
+		}
+
+		const invitationId = autoId();
+		const invitation: InvitationData = {
+			email: body.email,
+			role: body.role,
+			invitedBy: user.uid,
+			invitedByName: user.name || 'The founder',
+		};
+
+		await commit(c.env, [
+			{
+				path: `${project.path}/invitations/${invitationId}`,
+				data: { ...invitation },
+				exists: false,
+				serverTimestamps: ['createdAt'],
+			},
+		]);
+
+		// The invitation works without the email, as the owner can share its link instead
+		const emailSent = await sendInvitation(c.env, project, invitationId, invitation);
+
+		return c.json({ success: true, id: invitationId, emailSent }, 201);
+	})
+
+	// Withdraw a pending invitation
+	.delete('/:projectId/invitations/:invitationId', requireUser, async (c) => {
+		const { projectId, invitationId } = c.req.param();
+		const user = c.get('user')!;
+
+		const project = await getProject(c.env, projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		if (!hasProjectPermission(project.data, user.uid, 'manageMembers')) {
+			return c.json({ success: false, error: 'You do not have permission to manage this team' }, 403);
+		}
+
+		await commit(c.env, [{ path: `${project.path}/invitations/${invitationId}`, delete: true }]);
+
+		return c.json({ success: true });
+	})
+
+	// Join the team with an invitation sent to the caller's email address
+	.post('/:projectId/invitations/:invitationId/accept', requireUser, async (c) => {
+		const { projectId, invitationId } = c.req.param();
+		const user = c.get('user')!;
+
+		// Anyone can sign up with someone else's address, so only a verified one proves the
+		// caller received the invitation
+		if (!user.email || !user.emailVerified) {
+			return c.json({ success: false, error: 'Verify your email address to accept this invitation' }, 403);
+		}
+
+		await runTransaction(c.env, async (transaction) => {
+			const [project, invitation] = await Promise.all([
+				getProject(c.env, projectId, transaction),
+				getDocument<InvitationData>(c.env, `projects/${projectId}/invitations/${invitationId}`, transaction),
+			]);
+
+			if (!project || !invitation) {
+				throw new HTTPException(404, { message: 'Invitation not found or already used' });
+			}
+
+			// The invitation ID is only known to whoever received the email, and the
+			// signed-in account must use the address it was sent to
+			if (invitation.data.email !== user.email!.toLowerCase()) {
+				throw new HTTPException(403, { message: `This invitation was sent to ${invitation.data.email}` });
+			}
+
+			if (project.data.ownerId === user.uid) {
+				throw new HTTPException(409, { message: 'You already own this project' });
+			}
+
+			const member: MemberData = {
+				userId: user.uid,
+				role: invitation.data.role,
+				displayName: user.name || null,
+				email: invitation.data.email,
+				invitedBy: invitation.data.invitedBy,
+			};
+
+			return [
+				{
+					path: `${project.path}/members/${user.uid}`,
+					data: { ...member },
+					serverTimestamps: ['joinedAt'],
+				},
+				{
+					path: project.path,
+					merge: true,
+					exists: true,
+					data: { memberRoles: withMemberRole(project.data, user.uid, member.role) },
+				},
+				{ path: invitation.path, delete: true },
+			];
+		});
+
+		return c.json({ success: true });
+	})
+
+	// Change a member's role
+	.patch('/:projectId/members/:userId', requireUser, async (c) => {
+		const { projectId, userId } = c.req.param();
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, UpdateMemberSchema);
+		if ('response' in parsed) return parsed.response;
+		const body = parsed.data;
+
+		await runTransaction(c.env, async (transaction) => {
+			const project = await getProject(c.env, projectId, transaction);
+			if (!project) {
+				throw new HTTPException(404, { message: 'Project not found' });
+			}
+
+			if (!hasProjectPermission(project.data, user.uid, 'manageMembers')) {
+				throw new HTTPException(403, { message: 'You do not have permission to manage this team' });
+			}
+
+			if (!project.data.memberRoles?.[userId]) {
+				throw new HTTPException(404, { message: 'Member not found' });
+			}
+
+			return [
+				{
+					path: `${project.path}/members/${userId}`,
+					merge: true,
+					exists: true,
+					data: { role: body.role },
+				},
+				{
+					path: project.path,
+					merge: true,
+					exists: true,
+					data: { memberRoles: withMemberRole(project.data, userId, body.role) },
+				},
+			];
+		});
+
+		return c.json({ success: true });
+	})
+
+	// Remove a member from the team, or leave it yourself
+	.delete('/:projectId/members/:userId', requireUser, async (c) => {
+		const { projectId, userId } = c.req.param();
+		const user = c.get('user')!;
+
+		await runTransaction(c.env, async (transaction) => {
+			const project = await getProject(c.env, projectId, transaction);
+			if (!project) {
+				throw new HTTPException(404, { message: 'Project not found' });
+			}
+
+			if (userId !== user.uid && !hasProjectPermission(project.data, user.uid, 'manageMembers')) {
+				throw new HTTPException(403, { message: 'You do not have permission to manage this team' });
+			}
+
+			if (!project.data.memberRoles?.[userId]) {
+				throw new HTTPException(404, { message: 'Member not found' });
+			}
+
+			return [
+				{ path: `${project.path}/members/${userId}`, delete: true },
+				{
+					path: project.path,
+					merge: true,
+					exists: true,
+					data: { memberRoles: withMemberRole(project.data, userId, null) },
+				},
+			];
+		});
+
+		return c.json({ success: true });
+	});
@@ -0,0 +1,209 @@
+import { Context, Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { AppEnv, ReactionData, ResponseData, RevisionData, ThreadData } from '../types';
+import { eventWrite } from '../lib/events';
+import { commit, fieldPath, getDocument, runQuery, runTransaction } from '../lib/firestore';
+import { getProject, hasProjectPermission } from '../lib/projects';
+import { isAuthor, revisionWrite, withinEditWindow } from '../lib/revisions';
+import { indexThreadSafely } from '../lib/search';
+import { AnonymousAuthorSchema, parseBody } from '../lib/validation';
+import { reactionPath, reactionTypes, resolveVoter } from '../lib/votes';
+
+const UpdateResponseSchema = AnonymousAuthorSchema.pick({ anonymousToken: true }).extend({
+	content: z.string().trim().min(1).max(20000),
+});
+
+// Signed-in callers may send no body at all
+const DeleteResponseSchema = AnonymousAuthorSchema.pick({ anonymousToken: true }).nullable();
+const ReactionSchema = AnonymousAuthorSchema.pick({ anonymousToken: true }).nullable();
+
+const ReactionTypeSchema = z.enum(reactionTypes);
+
+// Define the endpoints
+export const Responses = new Hono<AppEnv>()
+	// Edit the content of your own response while it is still in the edit window, keeping
+	// the previous content as a revision
+	.patch('/:responseId', async (c) => {
+		const { responseId } = c.req.param();
+		const user = c.get('user');
+
+		const parsed = await parseBody(c, UpdateResponseSchema);
+		if ('response' in parsed) return parsed.response;
+		const body = parsed.data;
+
+		const response = await getDocument<ResponseData>(c.env, `responses/${responseId}`);
+		if (!response) {
+			return c.json({ success: false, error: 'Response not found' }, 404);
+		}
+
+		if (!(await isAuthor(user, response.data, body.anonymousToken))) {
+			return c.json({ success: false, error: 'You can only edit your own responses' }, 403);
+		}
+
+		if (!withinEditWindow(response.data.createdAt)) {
+			return c.json({ success: false, error: 'Responses can only be edited within 24 hours of posting' }, 403);
+		}
+
+		if (response.data.content === body.content) {
+			return c.json({ success: true });
+		}
+
+		const thread = await getDocument<ThreadData>(c.env, `threads/${response.data.threadId}`);
+		if (!thread) {
+			return c.json({ success: false, error: 'Thread not found' }, 404);
+		}
+
+		await commit(c.env, [
+			{
+				path: response.path,
+				merge: true,
+				exists: true,
+				data: { content: body.content },
+				serverTimestamps: ['updatedAt'],
+			},
+			revisionWrite(thread.path, { responseId: response.id, content: response.data.content }),
+			eventWrite(thread.path, {
+				type: 'response-edited',
+				actorId: response.data.authorId,
+				actorName: response.data.authorName,
+				responseId: response.id,
+			}),
+		]);
+
+		// Keep the search index in step with the edited text
+		c.executionCtx.waitUntil(indexThreadSafely(c.env, thread.data.projectId, thread.id));
+
+		return c.json({ success: true });
+	})
+
+	// Delete a response: your own while it is still in the edit window, or any response for
+	// team members with the deleteThreads permission
+	.delete('/:responseId', async (c) => {
+		const { responseId } = c.req.param();
+		const user = c.get('user');
+
+		const parsed = await parseBody(c, DeleteResponseSchema);
+		if ('response' in parsed) return parsed.response;
+		const anonymousToken = parsed.data?.anonymousToken;
+
+		const response = await getDocument<ResponseData>(c.env, `responses/${responseId}`);
+		if (!response) {
+			return c.json({ success: false, error: 'Response not found' }, 404);
+		}
+
+		const thread = await getDocument<ThreadData>(c.env, `threads/${response.data.threadId}`);
+		if (!thread) {
+			return c.json({ success: false, error: 'Thread not found' }, 404);
+		}
+
+		const project = await getProject(c.env, thread.data.projectId);
+		const canModerate = !!user && !!project && hasProjectPermission(project.data, user.uid, 'deleteThreads');
+		const ownResponse = await isAuthor(user, response.data, anonymousToken);
+
+		if (!canModerate && !ownResponse) {
+			return c.json({ success: false, error: 'You do not have permission to delete this response' }, 403);
+		}
+
+		if (!canModerate && !withinEditWindow(response.data.createdAt)) {
+			return c.json({ success: false, error: 'Responses can only be deleted within 24 hours of posting' }, 403);
+		}
+
+		// The earlier versions and the reactions go with the response
+		const [revisions, reactions] = await Promise.all([
+			runQuery<RevisionData>(c.env, 'revisions', {
+				parent: thread.path,
+				where: [['responseId', '==', response.id]],
+			}),
+			runQuery<ReactionData>(c.env, 'reactions', {
+				parent: thread.path,
+				where: [['responseId', '==', response.id]],
+			}),
+		]);
+
+		await commit(c.env, [
+			{ path: response.path, delete: true },
+			...[...revisions, ...reactions].map((doc) => ({ path: doc.path, delete: true })),
+			{
+				path: thread.path,
+				exists: true,
+				increments: { responseCount: -1 },
+			},
+			eventWrite(thread.path, {
+				type: 'response-deleted',
+				actorId: user ? user.uid : null,
+				actorName: ownResponse ? response.data.authorName : user?.name || 'Founder',
+				responseId: response.id,
+			}),
+		]);
+
+		c.executionCtx.waitUntil(indexThreadSafely(c.env, thread.data.projectId, thread.id));
+
+		return c.json({ success: true });
+	})
+
+	// React to a response with an emoji. Each user or anonymous visitor can add each reaction once
+	.put('/:responseId/reactions/:reaction', async (c) => {
+		return setReaction(c, true);
+	})
+
+	// Take back one of your reactions to a response
+	.delete('/:responseId/reactions/:reaction', async (c) => {
+		return setReaction(c, false);
+	});
+
+/**
+ * Adds or removes the caller's reaction to a response, keeping the response's
+ * reactionCounts in step
+ */
+async function setReaction(c: Context<AppEnv>, add: boolean): Promise<Response> {
+	const { responseId, reaction: reactionParam } = c.req.param();
+
+	const reaction = ReactionTypeSchema.safeParse(reactionParam);
+	if (!reaction.success) {
+		return c.json({ success: false, error: 'Unknown reaction' }, 400);
+	}
+
+	const parsed = await parseBody(c, ReactionSchema);
+	if ('response' in parsed) return parsed.response;
+
+	const voter = await resolveVoter(c.get('user'), parsed.data?.anonymousToken);
+	if (!voter) {
+		return c.json({ success: false, error: 'Anonymous reactions require an anonymousToken' }, 400);
+	}
+
+	await runTransaction(c.env, async (transaction) => {
+		const response = await getDocument<ResponseData>(c.env, `responses/${responseId}`, transaction);
+		if (!response) {
+			throw new HTTPException(404, { message: 'Response not found' });
+		}
+
+		const path = reactionPath(`threads/${response.data.threadId}`, response.id, reaction.data, voter);
+		const existing = await getDocument(c.env, path, transaction);
+		if (!!existing === add) {
+			return [];
+		}
+
+		const count = { [fieldPath('reactionCounts', reaction.data)]: add ? 1 : -1 };
+		if (!add) {
+			return [
+				{ path, delete: true },
+				{ path: response.path, exists: true, increments: count },
+			];
+		}
+
+		const data: ReactionData = {
+			responseId: response.id,
+			reaction: reaction.data,
+			voterKey: voter.key,
+			userId: voter.userId,
+			anonymousTokenHash: voter.anonymousTokenHash,
+		};
+		return [
+			{ path, data: { ...data }, exists: false, serverTimestamps: ['createdAt'] },
+			{ path: response.path, exists: true, increments: count },
+		];
+	});
+
+	return c.json({ success: true });
+}
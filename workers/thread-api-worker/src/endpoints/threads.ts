@@ -0,0 +1,617 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import {
+	AppEnv,
+	ProjectData,
+	ReactionData,
+	ReactionType,
+	ResponseData,
+	RevisionData,
+	ThreadData,
+	ThreadEventData,
+	VoteData,
+} from '../types';
+import { findForeignAttachment } from '../lib/attachments';
+import { requireUser } from '../lib/auth';
+import { counterWrites } from '../lib/counters';
+import { eventWrite } from '../lib/events';
+import { autoId, commit, DocumentWrite, FirestoreDocument, getDocument, runQuery, runTransaction } from '../lib/firestore';
+import { findUnknownTag, getProject, getProjectRole, hasProjectPermission } from '../lib/projects';
+import { isAuthor, revisionWrite, withinEditWindow } from '../lib/revisions';
+import { notifyAssignment, notifyNewResponse, notifyNewThread, notifyRoadmapMove } from '../lib/notifications';
+import { indexThreadSafely } from '../lib/search';
+import { threadTags } from '../lib/threadTags';
+import { columnStatusChanges, getRoadmapTag, roadmapColumn, roadmapColumns } from '../lib/roadmap';
+import { resolveVoter, votePath } from '../lib/votes';
+import { activeThreadStatuses, canTransition, closingReasons, statusChangeWrites } from '../lib/workflow';
+import { AnonymousAuthorSchema, AttachmentsSchema, parseBody, resolveAuthor, ThreadTagsSchema } from '../lib/validation';
+
+// Firestore accepts at most 500 writes per commit
+const MAX_WRITES_PER_COMMIT = 500;
+
+const CreateThreadSchema = AnonymousAuthorSchema.extend({
+	projectId: z.string().min(1),
+	title: z.string().trim().min(1).max(200),
+	content: z.string().trim().min(1).max(20000),
+	tags: ThreadTagsSchema,
+	attachments: AttachmentsSchema,
+});
+
+const EditThreadSchema = AnonymousAuthorSchema.pick({ anonymousToken: true }).extend({
+	title: z.string().trim().min(1).max(200),
+	content: z.string().trim().min(1).max(20000),
+});
+
+// Signed-in callers may send no body at all
+const DeleteThreadSchema = AnonymousAuthorSchema.pick({ anonymousToken: true }).nullable();
+
+const UpdateThreadSchema = z.discriminatedUnion('status', [
+	z.object({
+		status: z.enum(activeThreadStatuses),
+	}),
+	z.object({
+		status: z.literal('closed'),
+		closingReason: z.enum(closingReasons),
+		closingNote: z.string().trim().max(2000).optional(),
+		// Required when closing as a duplicate
+		duplicateOf: z.string().min(1).optional(),
+	}),
+]);
+
+const UpdateTagsSchema = z.object({
+	tags: ThreadTagsSchema,
+});
+
+const AssignThreadSchema = z.object({
+	// null unassigns the thread
+	assigneeId: z.string().min(1).nullable(),
+});
+
+const CreateResponseSchema = AnonymousAuthorSchema.extend({
+	content: z.string().trim().min(1).max(20000),
+	attachments: AttachmentsSchema,
+});
+
+const MoveOnRoadmapSchema = z.object({
+	column: z.enum(roadmapColumns),
+});
+
+// Signed-in callers may send no body at all
+const VoteSchema = AnonymousAuthorSchema.pick({ anonymousToken: true }).nullable();
+
+// Define the endpoints
+export const Threads = new Hono<AppEnv>()
+	// Create a thread and count it towards the project's counters
+	.post('', async (c) => {
+		const parsed = await parseBody(c, CreateThreadSchema);
+		if ('response' in parsed) return parsed.response;
+		const body = parsed.data;
+
+		const author = await resolveAuthor(c.get('user'), body);
+		if (!author) {
+			return c.json({ success: false, error: 'Anonymous threads require an authorName, anonymousId and anonymousToken' }, 400);
+		}
+
+		const foreignAttachment = await findForeignAttachment(c.env, c.get('user'), body.attachments);
+		if (foreignAttachment) {
+			return c.json({ success: false, error: `attachments: ${foreignAttachment.name} is not a file you uploaded` }, 403);
+		}
+
+		const project = await getProject(c.env, body.projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		const unknownTag = findUnknownTag(project.data, body.tags);
+		if (unknownTag) {
+			return c.json({ success: false, error: `tags: "${unknownTag}" is not one of this project's tags` }, 400);
+		}
+
+		const threadId = autoId();
+		const thread: ThreadData = {
+			projectId: project.id,
+			title: body.title,
+			content: body.content,
+			status: 'open',
+			...author,
+			isPublic: true,
+			tags: body.tags,
+			attachments: body.attachments,
+			responseCount: 0,
+			voteCount: 0,
+		};
+
+		await commit(c.env, [
+			{
+				path: `threads/${threadId}`,
+				data: { ...thread },
+				exists: false,
+				serverTimestamps: ['createdAt', 'updatedAt'],
+			},
+			...counterWrites(project.id, null, thread),
+			eventWrite(`threads/${threadId}`, { type: 'created', actorId: author.authorId, actorName: author.authorName }),
+		]);
+
+		// Make the thread searchable and tell the owner without holding up the response
+		c.executionCtx.waitUntil(indexThreadSafely(c.env, project.id, threadId));
+		c.executionCtx.waitUntil(notifyNewThread(c.env, project, threadId, thread));
+
+		return c.json({ success: true, id: threadId }, 201);
+	})
+
+	// Move a thread through the workflow, including closing and reopening it (team members
+	// with the closeThreads permission, and the reporter reopening their own thread). Every
+	// move is recorded in the thread's events
+	.patch('/:threadId', requireUser, async (c) => {
+		const { threadId } = c.req.param();
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, UpdateThreadSchema);
+		if ('response' in parsed) return parsed.response;
+		const body = parsed.data;
+
+		if (body.status === 'closed' && (body.closingReason === 'duplicate') !== !!body.duplicateOf) {
+			return c.json({ success: false, error: 'duplicateOf: required when closing as a duplicate, and only then' }, 400);
+		}
+
+		// The thread a duplicate ends up linked to, returned so clients can link to it
+		let duplicateOf: string | null = null;
+
+		// Read and write in one transaction so the counters always match the status being stored
+		await runTransaction(c.env, async (transaction) => {
+			const thread = await getDocument<ThreadData>(c.env, `threads/${threadId}`, transaction);
+			if (!thread) {
+				throw new HTTPException(404, { message: 'Thread not found' });
+			}
+
+			const project = await getProject(c.env, thread.data.projectId, transaction);
+			const isReporterReopening = thread.data.status === 'closed' && body.status === 'open' && thread.data.authorId === user.uid;
+			if (!project || !(hasProjectPermission(project.data, user.uid, 'closeThreads') || isReporterReopening)) {
+				throw new HTTPException(403, { message: 'You do not have permission to change the status of this thread' });
+			}
+
+			if (thread.data.status === body.status) {
+				throw new HTTPException(409, { message: `Thread is already ${body.status}` });
+			}
+
+			if (!canTransition(thread.data.status, body.status)) {
+				throw new HTTPException(409, { message: `Threads can't move from ${thread.data.status} to ${body.status}` });
+			}
+
+			duplicateOf = null;
+			if (body.status === 'closed' && body.duplicateOf) {
+				const original = await getDocument<ThreadData>(c.env, `threads/${body.duplicateOf}`, transaction);
+				if (!original || original.data.projectId !== thread.data.projectId || original.id === thread.id) {
+					throw new HTTPException(400, { message: 'duplicateOf: must be another thread in the same project' });
+				}
+				// Point at the thread everything else duplicates, rather than at another duplicate
+				duplicateOf = original.data.duplicateOf || original.id;
+				if (duplicateOf === thread.id) {
+					throw new HTTPException(400, { message: 'duplicateOf: that thread is a duplicate of this one' });
+				}
+			}
+
+			return statusChangeWrites(thread, user, body.status === 'closed' ? { ...body, duplicateOf } : body);
+		});
+
+		return c.json({ success: true, duplicateOf });
+	})
+
+	// Move a thread to another column of the roadmap (team members with the closeThreads
+	// permission). Unlike other status changes, a card can be moved from any column to any other
+	.put('/:threadId/roadmap', requireUser, async (c) => {
+		const { threadId } = c.req.param();
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, MoveOnRoadmapSchema);
+		if ('response' in parsed) return parsed.response;
+		const { column } = parsed.data;
+
+		// Set when the card actually changes column, so its followers can be told
+		let moved: { thread: FirestoreDocument<ThreadData>; project: FirestoreDocument<ProjectData> } | null = null;
+
+		await runTransaction(c.env, async (transaction) => {
+			const thread = await getDocument<ThreadData>(c.env, `threads/${threadId}`, transaction);
+			if (!thread) {
+				throw new HTTPException(404, { message: 'Thread not found' });
+			}
+
+			const project = await getProject(c.env, thread.data.projectId, transaction);
+			if (!project || !hasProjectPermission(project.data, user.uid, 'closeThreads')) {
+				throw new HTTPException(403, { message: 'You do not have permission to change the status of this thread' });
+			}
+
+			const roadmapTag = getRoadmapTag(project.data);
+			if (!roadmapTag) {
+				throw new HTTPException(400, { message: 'This project has no roadmap' });
+			}
+
+			if (!threadTags(thread.data).includes(roadmapTag)) {
+				throw new HTTPException(400, { message: `Only threads tagged ${roadmapTag} can be moved on the roadmap` });
+			}
+
+			if (roadmapColumn(thread.data) === column) {
+				moved = null;
+				return [];
+			}
+
+			moved = { thread, project };
+			return statusChangeWrites(thread, user, columnStatusChanges[column]);
+		});
+
+		if (moved) {
+			const { thread, project } = moved;
+			c.executionCtx.waitUntil(notifyRoadmapMove(c.env, project, thread, column, user));
+		}
+
+		return c.json({ success: true });
+	})
+
+	// Edit the title and content of your own thread while it is still in the edit window,
+	// keeping the previous text as a revision
+	.put('/:threadId/content', async (c) => {
+		const { threadId } = c.req.param();
+		const user = c.get('user');
+
+		const parsed = await parseBody(c, EditThreadSchema);
+		if ('response' in parsed) return parsed.response;
+		const body = parsed.data;
+
+		const thread = await getDocument<ThreadData>(c.env, `threads/${threadId}`);
+		if (!thread) {
+			return c.json({ success: false, error: 'Thread not found' }, 404);
+		}
+
+		if (!(await isAuthor(user, thread.data, body.anonymousToken))) {
+			return c.json({ success: false, error: 'You can only edit your own threads' }, 403);
+		}
+
+		if (!withinEditWindow(thread.data.createdAt)) {
+			return c.json({ success: false, error: 'Threads can only be edited within 24 hours of posting' }, 403);
+		}
+
+		const fields = (['title', 'content'] as const).filter((field) => thread.data[field] !== body[field]);
+		if (fields.length === 0) {
+			return c.json({ success: true });
+		}
+
+		await commit(c.env, [
+			{
+				path: thread.path,
+				merge: true,
+				exists: true,
+				data: { title: body.title, content: body.content },
+				serverTimestamps: ['updatedAt', 'editedAt'],
+			},
+			revisionWrite(thread.path, { responseId: null, title: thread.data.title, content: thread.data.content }),
+			eventWrite(thread.path, { type: 'edited', actorId: thread.data.authorId, actorName: thread.data.authorName, fields: [...fields] }),
+		]);
+
+		c.executionCtx.waitUntil(indexThreadSafely(c.env, thread.data.projectId, threadId));
+
+		return c.json({ success: true });
+	})
+
+	// Change the tags of a thread (team members with the tagThreads permission)
+	.put('/:threadId/tags', requireUser, async (c) => {
+		const { threadId } = c.req.param();
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, UpdateTagsSchema);
+		if ('response' in parsed) return parsed.response;
+		const { tags } = parsed.data;
+
+		await runTransaction(c.env, async (transaction) => {
+			const thread = await getDocument<ThreadData>(c.env, `threads/${threadId}`, transaction);
+			if (!thread) {
+				throw new HTTPException(404, { message: 'Thread not found' });
+			}
+
+			const project = await getProject(c.env, thread.data.projectId, transaction);
+			if (!project || !hasProjectPermission(project.data, user.uid, 'tagThreads')) {
+				throw new HTTPException(403, { message: 'You do not have permission to tag this thread' });
+			}
+
+			// Tags the thread already had may stay even if the project has since dropped them
+			const unknownTag = findUnknownTag(
+				project.data,
+				tags.filter((tag) => !threadTags(thread.data).includes(tag)),
+			);
+			if (unknownTag) {
+				throw new HTTPException(400, { message: `tags: "${unknownTag}" is not one of this project's tags` });
+			}
+
+			const previousTags = threadTags(thread.data);
+			const added = tags.filter((tag) => !previousTags.includes(tag));
+			const removed = previousTags.filter((tag) => !tags.includes(tag));
+
+			return [
+				{
+					path: thread.path,
+					merge: true,
+					exists: true,
+					data: { tags },
+					serverTimestamps: ['updatedAt'],
+				},
+				...counterWrites(project.id, thread.data, { ...thread.data, tags }),
+				// Reordering tags changes nothing worth recording
+				...(added.length > 0 || removed.length > 0
+					? [eventWrite(thread.path, { type: 'tags-changed', actorId: user.uid, actorName: user.name || 'Founder', added, removed })]
+					: []),
+			];
+		});
+
+		return c.json({ success: true });
+	})
+
+	// Assign a thread to a team member, or unassign it (team members with the assignThreads permission)
+	.put('/:threadId/assignee', requireUser, async (c) => {
+		const { threadId } = c.req.param();
+		const user = c.get('user')!;
+
+		const parsed = await parseBody(c, AssignThreadSchema);
+		if ('response' in parsed) return parsed.response;
+		const { assigneeId } = parsed.data;
+
+		// Set when the thread gets a new assignee, so they can be told
+		let assigned: { thread: FirestoreDocument<ThreadData>; project: FirestoreDocument<ProjectData> } | null = null;
+
+		await runTransaction(c.env, async (transaction) => {
+			const thread = await getDocument<ThreadData>(c.env, `threads/${threadId}`, transaction);
+			if (!thread) {
+				throw new HTTPException(404, { message: 'Thread not found' });
+			}
+
+			const project = await getProject(c.env, thread.data.projectId, transaction);
+			if (!project || !hasProjectPermission(project.data, user.uid, 'assignThreads')) {
+				throw new HTTPException(403, { message: 'You do not have permission to assign this thread' });
+			}
+
+			if (assigneeId && !getProjectRole(project.data, assigneeId)) {
+				throw new HTTPException(400, { message: 'Threads can only be assigned to members of the project team' });
+			}
+
+			assigned = assigneeId && thread.data.assigneeId !== assigneeId ? { thread, project } : null;
+
+			return [
+				{
+					path: thread.path,
+					merge: true,
+					exists: true,
+					data: {
+						assigneeId,
+						assignedBy: assigneeId ? user.uid : null,
+						...(assigneeId ? {} : { assignedAt: null }),
+					},
+					serverTimestamps: assigneeId ? ['updatedAt', 'assignedAt'] : ['updatedAt'],
+				},
+				...((thread.data.assigneeId || null) !== assigneeId
+					? [eventWrite(thread.path, { type: 'assigned', actorId: user.uid, actorName: user.name || 'Founder', assigneeId })]
+					: []),
+			];
+		});
+
+		if (assigned && assigneeId) {
+			const { thread, project } = assigned;
+			c.executionCtx.waitUntil(notifyAssignment(c.env, project, thread, assigneeId, user));
+		}
+
+		return c.json({ success: true });
+	})
+
+	// Delete a thread together with its responses and history (team members with the deleteThreads
+	// permission, or the thread author while it is still in the edit window)
+	.delete('/:threadId', async (c) => {
+		const { threadId } = c.req.param();
+		const user = c.get('user');
+
+		const parsed = await parseBody(c, DeleteThreadSchema);
+		if ('response' in parsed) return parsed.response;
+		const anonymousToken = parsed.data?.anonymousToken;
+
+		const thread = await getDocument<ThreadData>(c.env, `threads/${threadId}`);
+		if (!thread) {
+			return c.json({ success: false, error: 'Thread not found' }, 404);
+		}
+
+		const project = await getProject(c.env, thread.data.projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		const canModerate = !!user && hasProjectPermission(project.data, user.uid, 'deleteThreads');
+		if (!canModerate && !(await isAuthor(user, thread.data, anonymousToken))) {
+			return c.json({ success: false, error: 'You do not have permission to delete this thread' }, 403);
+		}
+
+		if (!canModerate && !withinEditWindow(thread.data.createdAt)) {
+			return c.json({ success: false, error: 'Threads can only be deleted within 24 hours of posting' }, 403);
+		}
+
+		// The thread goes first, in a transaction that re-reads it so the counters are adjusted
+		// for the status it has when it is actually deleted. If it fails, nothing was deleted.
+		await runTransaction(c.env, async (transaction) => {
+			const current = await getDocument<ThreadData>(c.env, thread.path, transaction);
+			if (!current) {
+				throw new HTTPException(404, { message: 'Thread not found' });
+			}
+
+			return [{ path: current.path, delete: true }, ...counterWrites(project.id, current.data, null)];
+		});
+
+		// Then its responses, events, revisions, votes and reactions, which can no longer be
+		// added to as the thread is gone. Whatever is left after a failure is unreachable.
+		const [responses, events, revisions, votes, reactions] = await Promise.all([
+			runQuery<ResponseData>(c.env, 'responses', {
+				where: [['threadId', '==', threadId]],
+			}),
+			runQuery<ThreadEventData>(c.env, 'events', { parent: thread.path }),
+			runQuery<RevisionData>(c.env, 'revisions', { parent: thread.path }),
+			runQuery<VoteData>(c.env, 'votes', { parent: thread.path }),
+			runQuery<ReactionData>(c.env, 'reactions', { parent: thread.path }),
+		]);
+
+		const childDeletes: DocumentWrite[] = [...responses, ...events, ...revisions, ...votes, ...reactions].map((doc) => ({
+			path: doc.path,
+			delete: true,
+		}));
+		for (let i = 0; i < childDeletes.length; i += MAX_WRITES_PER_COMMIT) {
+			await commit(c.env, childDeletes.slice(i, i + MAX_WRITES_PER_COMMIT));
+		}
+
+		// Drop the thread's postings from the search index
+		c.executionCtx.waitUntil(indexThreadSafely(c.env, project.id, threadId));
+
+		return c.json({ success: true });
+	})
+
+	// Add a response and bump the thread's response count
+	.post('/:threadId/responses', async (c) => {
+		const { threadId } = c.req.param();
+
+		const parsed = await parseBody(c, CreateResponseSchema);
+		if ('response' in parsed) return parsed.response;
+		const body = parsed.data;
+
+		const author = await resolveAuthor(c.get('user'), body);
+		if (!author) {
+			return c.json({ success: false, error: 'Anonymous responses require an authorName, anonymousId and anonymousToken' }, 400);
+		}
+
+		const foreignAttachment = await findForeignAttachment(c.env, c.get('user'), body.attachments);
+		if (foreignAttachment) {
+			return c.json({ success: false, error: `attachments: ${foreignAttachment.name} is not a file you uploaded` }, 403);
+		}
+
+		const thread = await getDocument<ThreadData>(c.env, `threads/${threadId}`);
+		if (!thread) {
+			return c.json({ success: false, error: 'Thread not found' }, 404);
+		}
+
+		const project = await getProject(c.env, thread.data.projectId);
+		if (!project) {
+			return c.json({ success: false, error: 'Project not found' }, 404);
+		}
+
+		const responseId = autoId();
+		const response: ResponseData = {
+			threadId,
+			content: body.content,
+			...author,
+			// Stamped here so clients cannot claim the founder badge
+			isFounder: hasProjectPermission(project.data, author.authorId, 'respondAsTeam'),
+			attachments: body.attachments,
+		};
+
+		await commit(c.env, [
+			{
+				path: `responses/${responseId}`,
+				data: { ...response },
+				exists: false,
+				serverTimestamps: ['createdAt'],
+			},
+			{
+				path: thread.path,
+				exists: true,
+				increments: { responseCount: 1 },
+				// A new response counts as activity for the "recently updated" sort
+				serverTimestamps: ['updatedAt'],
+			},
+		]);
+
+		c.executionCtx.waitUntil(indexThreadSafely(c.env, project.id, threadId));
+		c.executionCtx.waitUntil(notifyNewResponse(c.env, project, thread, responseId, response));
+
+		return c.json({ success: true, id: responseId, isFounder: response.isFounder }, 201);
+	})
+
+	// Whether the caller voted for the thread and how they reacted to its responses. Votes
+	// and reactions are not readable by clients, so visitors can't look up each other's.
+	// Anonymous visitors send their token in a header, keeping it out of URLs and logs.
+	.get('/:threadId/my-votes', async (c) => {
+		const { threadId } = c.req.param();
+
+		const anonymousToken = AnonymousAuthorSchema.shape.anonymousToken.safeParse(c.req.header('X-Anonymous-Token'));
+		const voter = await resolveVoter(c.get('user'), anonymousToken.success ? anonymousToken.data : undefined);
+		if (!voter) {
+			return c.json({ success: true, voted: false, reactions: {} });
+		}
+
+		const threadPath = `threads/${threadId}`;
+		const [vote, reactions] = await Promise.all([
+			getDocument<VoteData>(c.env, votePath(threadPath, voter)),
+			runQuery<ReactionData>(c.env, 'reactions', {
+				parent: threadPath,
+				where: [['voterKey', '==', voter.key]],
+			}),
+		]);
+
+		const byResponse: Record<string, ReactionType[]> = {};
+		for (const { data } of reactions) {
+			(byResponse[data.responseId] ||= []).push(data.reaction);
+		}
+
+		return c.json({ success: true, voted: !!vote, reactions: byResponse });
+	})
+
+	// Vote for a thread. Each user or anonymous visitor has one vote, so voting again changes nothing
+	.put('/:threadId/vote', async (c) => {
+		const { threadId } = c.req.param();
+
+		const parsed = await parseBody(c, VoteSchema);
+		if ('response' in parsed) return parsed.response;
+
+		const voter = await resolveVoter(c.get('user'), parsed.data?.anonymousToken);
+		if (!voter) {
+			return c.json({ success: false, error: 'Anonymous votes require an anonymousToken' }, 400);
+		}
+
+		await runTransaction(c.env, async (transaction) => {
+			const thread = await getDocument<ThreadData>(c.env, `threads/${threadId}`, transaction);
+			if (!thread) {
+				throw new HTTPException(404, { message: 'Thread not found' });
+			}
+
+			const path = votePath(thread.path, voter);
+			if (await getDocument(c.env, path, transaction)) {
+				return [];
+			}
+
+			const vote: VoteData = { userId: voter.userId, anonymousTokenHash: voter.anonymousTokenHash };
+			return [
+				{ path, data: { ...vote }, exists: false, serverTimestamps: ['createdAt'] },
+				{ path: thread.path, exists: true, increments: { voteCount: 1 } },
+			];
+		});
+
+		return c.json({ success: true });
+	})
+
+	// Take back your vote for a thread
+	.delete('/:threadId/vote', async (c) => {
+		const { threadId } = c.req.param();
+
+		const parsed = await parseBody(c, VoteSchema);
+		if ('response' in parsed) return parsed.response;
+
+		const voter = await resolveVoter(c.get('user'), parsed.data?.anonymousToken);
+		if (!voter) {
+			return c.json({ success: false, error: 'Anonymous votes require an anonymousToken' }, 400);
+		}
+
+		await runTransaction(c.env, async (transaction) => {
+			const threadPath = `threads/${threadId}`;
+			const vote = await getDocument(c.env, votePath(threadPath, voter), transaction);
+			if (!vote) {
+				return [];
+			}
+
+			return [
+				{ path: vote.path, delete: true },
+				{ path: threadPath, exists: true, increments: { voteCount: -1 } },
+			];
+		});
+
+		return c.json({ success: true });
+	});
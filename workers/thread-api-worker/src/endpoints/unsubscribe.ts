@@ -0,0 +1,86 @@
+import { Context, Hono } from 'hono';
+import { AppEnv, Env, ProjectData, ThreadData } from '../types';
+import { getDocument } from '../lib/firestore';
+import { applyUnsubscribe, UnsubscribeRequest, verifyUnsubscribeToken } from '../lib/unsubscribe';
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+// Names the emails a link stops, e.g. `emails about "Dark mode"`
+async function describeRequest(env: Env, request: UnsubscribeRequest): Promise<string> {
+	if (request.scope === 'all') return 'all emails';
+
+	if (request.scope === 'project') {
+		const project = await getDocument<ProjectData>(env, `projects/${request.id}`);
+		return project ? `emails about ${escapeHtml(project.data.name)}` : 'emails about this project';
+	}
+
+	const thread = await getDocument<ThreadData>(env, `threads/${request.id}`);
+	return thread ? `emails about the thread "${escapeHtml(thread.data.title)}"` : 'emails about this thread';
+}
+
+// A minimal standalone page, as these are opened from email clients rather than the app
+function renderPage(env: Env, title: string, body: string): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="utf-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1">
+	<title>${title}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; max-width: 480px; margin: 80px auto; padding: 0 20px; line-height: 1.5;">
+	<h1 style="font-size: 20px; font-weight: 500;">${title}</h1>
+	${body}
+	<p style="margin-top: 32px; font-size: 14px;"><a href="${escapeHtml(env.APP_URL)}/dashboard" style="color: #2563eb;">Manage your email preferences</a></p>
+</body>
+</html>
+`;
+}
+
+function invalidLink(c: Context<AppEnv>) {
+	return c.html(
+		renderPage(
+			c.env,
+			'Invalid link',
+			'<p>This unsubscribe link is not valid. You can change which emails you get from your dashboard.</p>',
+		),
+		400,
+	);
+}
+
+// Define the endpoints. Links in emails point here with the signed token in `token`.
+export const Unsubscribe = new Hono<AppEnv>()
+	// Ask before unsubscribing, as mail scanners open links on their own
+	.get('', async (c) => {
+		const token = c.req.query('token') || '';
+		const request = await verifyUnsubscribeToken(c.env, token);
+		if (!request) return invalidLink(c);
+
+		const description = await describeRequest(c.env, request);
+
+		return c.html(
+			renderPage(
+				c.env,
+				'Unsubscribe',
+				`<p>Stop getting ${description}?</p>
+	<form method="post" action="?token=${encodeURIComponent(token)}">
+		<button type="submit" style="padding: 8px 16px; background: #111827; color: #fff; border: none; border-radius: 6px; font-size: 14px; cursor: pointer;">Unsubscribe</button>
+	</form>`,
+			),
+		);
+	})
+
+	// Unsubscribe, from the confirmation page or a mail client's List-Unsubscribe-Post button
+	.post('', async (c) => {
+		const request = await verifyUnsubscribeToken(c.env, c.req.query('token') || '');
+		if (!request) return invalidLink(c);
+
+		if (!(await applyUnsubscribe(c.env, request))) {
+			return c.html(renderPage(c.env, 'Account not found', '<p>The account this email was sent to no longer exists.</p>'), 404);
+		}
+
+		const description = await describeRequest(c.env, request);
+
+		return c.html(renderPage(c.env, 'Unsubscribed', `<p>You won't get ${description} anymore.</p>`));
+	});
@@ -0,0 +1,25 @@
+import { Hono } from 'hono';
+import { AppEnv, UserContactData } from '../types';
+import { requireUser } from '../lib/auth';
+import { commit, getDocument } from '../lib/firestore';
+import { contactPath } from '../lib/users';
+
+// Define the endpoint
+export const Users = new Hono<AppEnv>()
+	// Save the email address notifications go to, taken from the caller's ID token so that
+	// it is always one Firebase Auth has verified
+	.put('/me/contact', requireUser, async (c) => {
+		const user = c.get('user')!;
+
+		if (!user.email || !user.emailVerified) {
+			return c.json({ success: false, error: 'Your email address has not been verified' }, 400);
+		}
+
+		const contact = await getDocument<UserContactData>(c.env, contactPath(user.uid));
+		if (contact?.data.email !== user.email) {
+			const data: UserContactData = { email: user.email };
+			await commit(c.env, [{ path: contactPath(user.uid), data: { ...data } }]);
+		}
+
+		return c.json({ success: true });
+	});
@@ -0,0 +1,125 @@
+/**
+ * Thread API worker
+ *
+ * All writes to the `threads` and `responses` collections go through this worker so that
+ * author identity, the founder badge and the denormalized counters are decided on the
+ * server. Firestore rules only allow clients to read these collections. The worker also
+ * writes project changelogs and serves their Atom and RSS feeds, sends the notification
+ * emails that follow its writes through the email worker, handles the unsubscribe links in
+ * them, compiles the founder digests the email worker sends, keeps the emails it gave up
+ * on for project owners and saves the verified addresses notifications go to.
+ *
+ * A scheduled job also rebuilds every project's counters from its threads, after giving
+ * older single-tag threads their `tags` list and older threads a `voteCount`, and moves
+ * email addresses off public user documents.
+ */
+
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { HTTPException } from 'hono/http-exception';
+import { Threads } from './endpoints/threads';
+import { Responses } from './endpoints/responses';
+import { AnonymousTransfer } from './endpoints/anonymous';
+import { Projects } from './endpoints/projects';
+import { Changelog } from './endpoints/changelog';
+import { Unsubscribe } from './endpoints/unsubscribe';
+import { Digests } from './endpoints/digests';
+import { FailedEmails } from './endpoints/failedEmails';
+import { Users } from './endpoints/users';
+import { identifyUser } from './lib/auth';
+import { recountAllProjects } from './lib/counters';
+import { backfillSearchIndex } from './lib/search';
+import { backfillThreadTags } from './lib/threadTags';
+import { backfillPrivateContacts } from './lib/users';
+import { backfillVoteCounts } from './lib/votes';
+import { AppEnv, Env } from './types';
+
+// The nightly steps, in order. Each runs whether or not the ones before it failed, as a
+// broken migration shouldn't stop the recount.
+const scheduledSteps: Array<[string, (env: Env) => Promise<unknown>]> = [
+	['backfilling thread tags', backfillThreadTags],
+	['backfilling vote counts', backfillVoteCounts],
+	['moving contact emails', backfillPrivateContacts],
+	['backfilling the search index', backfillSearchIndex],
+	['recounting projects', recountAllProjects],
+];
+
+async function runScheduledSteps(env: Env): Promise<void> {
+	for (const [step, run] of scheduledSteps) {
+		try {
+			await run(env);
+		} catch (error) {
+			console.error(`Error ${step}:`, error);
+		}
+	}
+}
+
+// Start a Hono app
+const app = new Hono<AppEnv>();
+
+// CORS middleware
+app.use('*', async (c, next) => {
+	const allowedOrigins = c.env.ALLOWED_ORIGINS.split(',');
+	const origin = c.req.header('Origin');
+
+	if (origin && allowedOrigins.includes(origin)) {
+		return cors({
+			origin,
+			allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+			allowHeaders: ['Content-Type', 'Authorization', 'X-Anonymous-Token'],
+			maxAge: 86400,
+		})(c, next);
+	}
+
+	return next();
+});
+
+// Health check endpoint
+app.get('/', (c) => {
+	return c.json({
+		status: 'ok',
+		message: 'Thread API worker is running',
+	});
+});
+
+// Identify the caller from their Firebase ID token, if any
+app.use('/api/*', identifyUser);
+
+// Register endpoints
+app.route('/api/threads', Threads);
+app.route('/api/responses', Responses);
+app.route('/api/anonymous-transfer', AnonymousTransfer);
+app.route('/api/projects', Projects);
+app.route('/api/changelog', Changelog);
+app.route('/api/unsubscribe', Unsubscribe);
+app.route('/api/users', Users);
+
+// Routes for the other workers, outside /api as they authenticate with a shared secret
+// rather than a Firebase ID token
+app.route('/internal/digests', Digests);
+app.route('/internal/failed-emails', FailedEmails);
+
+app.onError((error, c) => {
+	// Expected failures raised inside transactions, e.g. a 404 or 403
+	if (error instanceof HTTPException) {
+		return c.json({ success: false, error: error.message }, error.status);
+	}
+
+	console.error('Unhandled error:', error);
+	return c.json(
+		{
+			success: false,
+			error: 'Internal server error',
+		},
+		500,
+	);
+});
+
+export default {
+	fetch: app.fetch,
+
+	// Nightly recount that repairs any drift in the project counters
+	async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+		ctx.waitUntil(runScheduledSteps(env));
+	},
+} satisfies ExportedHandler<Env>;
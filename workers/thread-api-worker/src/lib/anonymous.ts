@@ -0,0 +1,17 @@
+/**
+ * Visitors who are not signed in are known by two values kept in their browser. The
+ * anonymous ID is stored on their threads and responses, which anyone can read, so it only
+ * tells posts apart. The anonymous token is a random secret that proves a request comes
+ * from the browser that posted: documents only ever hold its SHA-256 hash, and the worker
+ * compares the hash of the token a request carries with it.
+ */
+
+/**
+ * Hashes an anonymous token for storing on documents or comparing with them
+ *
+ * @returns The SHA-256 hash, hex encoded
+ */
+export async function hashAnonymousToken(token: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
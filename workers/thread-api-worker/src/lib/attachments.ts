@@ -0,0 +1,27 @@
+import { AttachmentData, AuthUser, Env } from '../types';
+
+/**
+ * Attachments are uploaded to R2 through the image worker, which records the uploader's
+ * uid as the object's `owner` metadata. Keys are only checked for their format when a
+ * thread or response comes in, so the objects themselves are looked up to make sure
+ * nobody attaches a file someone else uploaded.
+ */
+
+/**
+ * Finds the first attachment that doesn't exist or wasn't uploaded by the caller. Only
+ * signed-in users can upload, so visitors can't attach anything.
+ *
+ * @returns The attachment, or null if the caller uploaded all of them
+ */
+export async function findForeignAttachment(
+	env: Env,
+	user: AuthUser | null,
+	attachments: AttachmentData[],
+): Promise<AttachmentData | null> {
+	const owners = await Promise.all(
+		attachments.map(async (attachment) => (await env.ATTACHMENTS.head(attachment.key))?.customMetadata?.owner),
+	);
+
+	const index = owners.findIndex((owner) => !user || owner !== user.uid);
+	return index === -1 ? null : attachments[index];
+}
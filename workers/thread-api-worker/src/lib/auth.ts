@@ -0,0 +1,77 @@
+import { createMiddleware } from 'hono/factory';
+import { createRemoteJWKSet, jwtVerify } from 'jose';
+import { AppEnv, AuthUser } from '../types';
+
+// Public keys used to sign Firebase ID tokens
+const firebaseKeys = createRemoteJWKSet(
+	new URL('https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com'),
+);
+
+/**
+ * Verifies a Firebase ID token and returns the user it belongs to
+ *
+ * @param token The ID token sent by the client
+ * @param projectId The Firebase project the token must have been issued for
+ */
+export async function verifyIdToken(token: string, projectId: string): Promise<AuthUser> {
+	const { payload } = await jwtVerify(token, firebaseKeys, {
+		issuer: `https://securetoken.google.com/${projectId}`,
+		audience: projectId,
+	});
+
+	if (!payload.sub) {
+		throw new Error('ID token has no subject');
+	}
+
+	return {
+		uid: payload.sub,
+		name: typeof payload.name === 'string' ? payload.name : undefined,
+		email: typeof payload.email === 'string' ? payload.email : undefined,
+		emailVerified: payload.email_verified === true,
+	};
+}
+
+/**
+ * Identifies the caller from the `Authorization: Bearer <idToken>` header.
+ * Requests without the header continue as anonymous; invalid tokens are rejected.
+ */
+export const identifyUser = createMiddleware<AppEnv>(async (c, next) => {
+	const header = c.req.header('Authorization');
+
+	if (!header?.startsWith('Bearer ')) {
+		c.set('user', null);
+		return next();
+	}
+
+	try {
+		c.set('user', await verifyIdToken(header.slice('Bearer '.length), c.env.FIREBASE_PROJECT_ID));
+	} catch (error) {
+		console.error('Invalid ID token:', error);
+		return c.json({ success: false, error: 'Invalid or expired authentication token' }, 401);
+	}
+
+	return next();
+});
+
+/**
+ * Rejects requests that are not made by a signed-in user
+ */
+export const requireUser = createMiddleware<AppEnv>(async (c, next) => {
+	if (!c.get('user')) {
+		return c.json({ success: false, error: 'Authentication required' }, 401);
+	}
+	return next();
+});
+
+/**
+ * Rejects requests that don't carry the secret shared with the email worker as
+ * `Authorization: Bearer <secret>`
+ */
+export const requireInternalSecret = createMiddleware<AppEnv>(async (c, next) => {
+	const header = c.req.header('Authorization');
+
+	if (!c.env.INTERNAL_API_SECRET || header !== `Bearer ${c.env.INTERNAL_API_SECRET}`) {
+		return c.json({ success: false, error: 'Authentication required' }, 401);
+	}
+	return next();
+});
@@ -0,0 +1,122 @@
+import { ChangelogEntryData, Env, ProjectData, ThreadData } from '../types';
+import { FirestoreDocument, getDocument, runQuery } from './firestore';
+
+/**
+ * A project's changelog is a list of release notes written by its owner, each linking to
+ * the threads the release resolved. Published entries are shown on the project's changelog
+ * page and in its Atom and RSS feeds, which this worker serves.
+ */
+
+// Most entries a feed lists
+const FEED_ENTRY_LIMIT = 50;
+
+/**
+ * The first of the given threads that isn't a thread of the project closed as solved, if any
+ */
+export async function findUnresolvedThread(
+	env: Env,
+	projectId: string,
+	threadIds: string[],
+	transaction?: string,
+): Promise<string | undefined> {
+	const threads = await Promise.all(threadIds.map((threadId) => getDocument<ThreadData>(env, `threads/${threadId}`, transaction)));
+
+	const index = threads.findIndex(
+		(thread) => !thread || thread.data.projectId !== projectId || thread.data.status !== 'closed' || thread.data.closingReason !== 'solved',
+	);
+	return index === -1 ? undefined : threadIds[index];
+}
+
+/**
+ * The project's published entries for its feeds, newest first
+ */
+export function getPublishedEntries(env: Env, projectId: string): Promise<FirestoreDocument<ChangelogEntryData>[]> {
+	return runQuery<ChangelogEntryData>(env, 'changelog', {
+		where: [
+			['projectId', '==', projectId],
+			['status', '==', 'published'],
+		],
+		orderBy: [['publishedAt', 'desc']],
+		limit: FEED_ENTRY_LIMIT,
+	});
+}
+
+// The URL of the project's changelog page
+export function changelogUrl(env: Env, project: ProjectData): string {
+	return `${env.APP_URL}/${project.slug}/changelog`;
+}
+
+function entryTitle(entry: ChangelogEntryData): string {
+	return entry.version ? `${entry.version}: ${entry.title}` : entry.title;
+}
+
+function escapeXml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+/**
+ * Renders published entries, newest first, as an Atom feed. Entry content is the Markdown
+ * the owner wrote, sent as text.
+ *
+ * @param feedUrl URL the feed was requested at
+ */
+export function renderAtomFeed(env: Env, project: ProjectData, entries: FirestoreDocument<ChangelogEntryData>[], feedUrl: string): string {
+	const pageUrl = changelogUrl(env, project);
+	const updated = entries[0]?.data.publishedAt || new Date();
+
+	const items = entries.map(
+		({ id, data }) => `	<entry>
+		<title>${escapeXml(entryTitle(data))}</title>
+		<id>${escapeXml(`${pageUrl}#${id}`)}</id>
+		<link rel="alternate" href="${escapeXml(`${pageUrl}#${id}`)}"/>
+		<published>${(data.publishedAt || new Date()).toISOString()}</published>
+		<updated>${(data.updatedAt || data.publishedAt || new Date()).toISOString()}</updated>
+		<author><name>${escapeXml(data.authorName)}</name></author>
+		<content type="text">${escapeXml(data.content)}</content>
+	</entry>`,
+	);
+
+	return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+	<title>${escapeXml(`${project.name} Changelog`)}</title>
+	<id>${escapeXml(pageUrl)}</id>
+	<link rel="alternate" href="${escapeXml(pageUrl)}"/>
+	<link rel="self" href="${escapeXml(feedUrl)}"/>
+	<updated>${updated.toISOString()}</updated>
+${items.join('\n')}
+</feed>
+`;
+}
+
+/**
+ * Renders published entries, newest first, as an RSS 2.0 feed
+ *
+ * @param feedUrl URL the feed was requested at
+ */
+export function renderRssFeed(env: Env, project: ProjectData, entries: FirestoreDocument<ChangelogEntryData>[], feedUrl: string): string {
+	const pageUrl = changelogUrl(env, project);
+	const updated = entries[0]?.data.publishedAt || new Date();
+
+	const items = entries.map(
+		({ id, data }) => `		<item>
+			<title>${escapeXml(entryTitle(data))}</title>
+			<link>${escapeXml(`${pageUrl}#${id}`)}</link>
+			<guid isPermaLink="true">${escapeXml(`${pageUrl}#${id}`)}</guid>
+			<pubDate>${(data.publishedAt || new Date()).toUTCString()}</pubDate>
+			<description>${escapeXml(data.content)}</description>
+		</item>`,
+	);
+
+	return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+	<channel>
+		<title>${escapeXml(`${project.name} Changelog`)}</title>
+		<link>${escapeXml(pageUrl)}</link>
+		<description>${escapeXml(`Release notes of ${project.name}`)}</description>
+		<atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>
+		<lastBuildDate>${updated.toUTCString()}</lastBuildDate>
+${items.join('\n')}
+	</channel>
+</rss>
+`;
+}
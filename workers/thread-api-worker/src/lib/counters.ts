@@ -0,0 +1,130 @@
+import { Env, ProjectCounters, ThreadData } from '../types';
+import { DocumentWrite, fieldPath, runQuery, runTransaction } from './firestore';
+import { threadTags } from './threadTags';
+
+/**
+ * Project counters are derived from the project's threads:
+ *
+ * - `totalIssues`: number of threads
+ * - `closedIssues`: number of closed threads
+ * - `statusCounts`: number of threads per status
+ * - `tagCounts`: number of threads per tag, counting a thread once for each of its tags
+ *
+ * Every thread write goes through `counterWrites` so the counters change in the same
+ * commit as the thread itself, and `recountProject` can rebuild them from scratch.
+ */
+
+type CountedThread = Pick<ThreadData, 'status' | 'tags' | 'tag'>;
+
+/**
+ * Works out how a project's counters change when a thread goes from `before` to `after`.
+ * Pass null for `before` when a thread is created and for `after` when it is deleted.
+ *
+ * @returns The project write to include in the thread's commit, or nothing if no counter changes
+ */
+export function counterWrites(projectId: string, before: CountedThread | null, after: CountedThread | null): DocumentWrite[] {
+	const increments: Record<string, number> = {};
+	const add = (path: string, amount: number) => {
+		increments[path] = (increments[path] || 0) + amount;
+	};
+
+	for (const [thread, sign] of [
+		[before, -1],
+		[after, 1],
+	] as const) {
+		if (!thread) continue;
+		add('totalIssues', sign);
+		if (thread.status === 'closed') {
+			add('closedIssues', sign);
+		}
+		add(fieldPath('statusCounts', thread.status), sign);
+		for (const tag of threadTags(thread)) {
+			add(fieldPath('tagCounts', tag), sign);
+		}
+	}
+
+	// Drop counters whose changes cancel out, e.g. totalIssues on a status change
+	const changed = Object.fromEntries(Object.entries(increments).filter(([, amount]) => amount !== 0));
+
+	if (Object.keys(changed).length === 0) {
+		return [];
+	}
+
+	return [
+		{
+			path: `projects/${projectId}`,
+			exists: true,
+			increments: changed,
+		},
+	];
+}
+
+/**
+ * Computes a project's counters from its threads
+ */
+export function countThreads(threads: CountedThread[]): ProjectCounters {
+	const counters: ProjectCounters = {
+		totalIssues: 0,
+		closedIssues: 0,
+		statusCounts: {},
+		tagCounts: {},
+	};
+
+	for (const thread of threads) {
+		counters.totalIssues++;
+		if (thread.status === 'closed') {
+			counters.closedIssues++;
+		}
+		counters.statusCounts[thread.status] = (counters.statusCounts[thread.status] || 0) + 1;
+		for (const tag of threadTags(thread)) {
+			counters.tagCounts[tag] = (counters.tagCounts[tag] || 0) + 1;
+		}
+	}
+
+	return counters;
+}
+
+/**
+ * Rebuilds a project's counters from the threads collection, repairing any drift
+ *
+ * @returns The recomputed counters
+ */
+export async function recountProject(env: Env, projectId: string): Promise<ProjectCounters> {
+	let counters = countThreads([]);
+
+	await runTransaction(env, async (transaction) => {
+		const threads = await runQuery<ThreadData>(env, 'threads', {
+			where: [['projectId', '==', projectId]],
+			transaction,
+		});
+
+		counters = countThreads(threads.map((thread) => thread.data));
+
+		return [
+			{
+				path: `projects/${projectId}`,
+				merge: true,
+				exists: true,
+				data: { ...counters },
+			},
+		];
+	});
+
+	return counters;
+}
+
+/**
+ * Rebuilds the counters of every project. Run on a schedule as a safety net.
+ */
+export async function recountAllProjects(env: Env): Promise<void> {
+	const projects = await runQuery(env, 'projects');
+
+	for (const project of projects) {
+		try {
+			await recountProject(env, project.id);
+		} catch (error) {
+			// Keep going so one broken project doesn't block the rest
+			console.error(`Error recounting project ${project.id}:`, error);
+		}
+	}
+}
@@ -0,0 +1,165 @@
+import { DigestFrequency, Env, ProjectData, ThreadData, UserData } from '../types';
+import { FirestoreDocument, runQuery } from './firestore';
+import { getUserEmail } from './users';
+import { activeThreadStatuses } from './workflow';
+
+/**
+ * Founders who chose the digest in their notification preferences get one email a day or
+ * a week instead of an email per update. The email worker's cron asks this worker for the
+ * digests that are due, as only this worker can read every project, and sends them.
+ */
+
+// Most threads listed in each section of a project's digest
+const DIGEST_SECTION_LIMIT = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+const PERIOD_MS: Record<DigestFrequency, number> = {
+	daily: 24 * HOUR_MS,
+	weekly: 7 * 24 * HOUR_MS,
+};
+
+export interface DigestThread {
+	id: string;
+	title: string;
+	authorName: string;
+	createdAt: string;
+	url: string;
+}
+
+export interface ProjectDigest {
+	projectId: string;
+	projectName: string;
+	projectUrl: string;
+	// Threads opened during the period
+	newThreads: DigestThread[];
+	// Open threads without any response that are older than the cutoff, oldest first
+	unansweredThreads: DigestThread[];
+	// Threads their reporter reopened during the period
+	reopenedThreads: DigestThread[];
+}
+
+export interface FounderDigest {
+	recipient: { userId: string; email: string; name?: string };
+	projects: ProjectDigest[];
+}
+
+function toDigestThread(env: Env, project: FirestoreDocument<ProjectData>, thread: FirestoreDocument<ThreadData>): DigestThread {
+	return {
+		id: thread.id,
+		title: thread.data.title,
+		authorName: thread.data.authorName,
+		createdAt: (thread.data.createdAt || new Date()).toISOString(),
+		url: `${env.APP_URL}/${project.data.slug}/thread/${thread.id}`,
+	};
+}
+
+/**
+ * Compiles one project's digest
+ *
+ * @param since Start of the period the digest covers
+ * @param unansweredBefore Threads created before this without a response count as unanswered
+ * @param mutedThreadIds Threads the founder muted, which are left out
+ */
+async function compileProjectDigest(
+	env: Env,
+	project: FirestoreDocument<ProjectData>,
+	since: Date,
+	unansweredBefore: Date,
+	mutedThreadIds: string[],
+): Promise<ProjectDigest> {
+	const [newThreads, unansweredThreads, reopenedThreads] = await Promise.all([
+		runQuery<ThreadData>(env, 'threads', {
+			where: [
+				['projectId', '==', project.id],
+				['createdAt', '>=', since],
+			],
+			orderBy: [['createdAt', 'desc']],
+			limit: DIGEST_SECTION_LIMIT,
+		}),
+		runQuery<ThreadData>(env, 'threads', {
+			where: [
+				['projectId', '==', project.id],
+				['status', 'in', [...activeThreadStatuses]],
+				['responseCount', '==', 0],
+				['createdAt', '<', unansweredBefore],
+			],
+			orderBy: [['createdAt', 'asc']],
+			limit: DIGEST_SECTION_LIMIT,
+		}),
+		runQuery<ThreadData>(env, 'threads', {
+			where: [
+				['projectId', '==', project.id],
+				['reopenedAt', '>=', since],
+			],
+			orderBy: [['reopenedAt', 'desc']],
+			limit: DIGEST_SECTION_LIMIT,
+		}),
+	]);
+
+	const listed = (threads: FirestoreDocument<ThreadData>[]) =>
+		threads.filter((thread) => !mutedThreadIds.includes(thread.id)).map((thread) => toDigestThread(env, project, thread));
+
+	return {
+		projectId: project.id,
+		projectName: project.data.name,
+		projectUrl: `${env.APP_URL}/${project.data.slug}`,
+		newThreads: listed(newThreads),
+		unansweredThreads: listed(unansweredThreads),
+		// Reopened by the team, or closed again since, doesn't need the founder's attention
+		reopenedThreads: listed(
+			reopenedThreads.filter(
+				(thread) => thread.data.status !== 'closed' && !!thread.data.authorId && thread.data.reopenedBy === thread.data.authorId,
+			),
+		),
+	};
+}
+
+/**
+ * Compiles the digests due for founders who get them at the given frequency, leaving out
+ * muted projects and threads, projects with nothing to report and founders with no such
+ * projects
+ *
+ * @param unansweredHours How old a thread without a response must be to count as unanswered
+ */
+export async function compileDigests(env: Env, frequency: DigestFrequency, unansweredHours: number): Promise<FounderDigest[]> {
+	const now = Date.now();
+	const since = new Date(now - PERIOD_MS[frequency]);
+	const unansweredBefore = new Date(now - unansweredHours * HOUR_MS);
+
+	const users = await runQuery<UserData>(env, 'users', {
+		where: [['notificationPreferences.emails', '==', 'digest']],
+	});
+
+	const digests: FounderDigest[] = [];
+
+	// One founder at a time keeps the number of concurrent Firestore requests down
+	for (const user of users) {
+		const preferences = user.data.notificationPreferences || {};
+		if ((preferences.digestFrequency || 'daily') !== frequency) continue;
+
+		const email = await getUserEmail(env, user);
+		if (!email) continue;
+
+		const projects = await runQuery<ProjectData>(env, 'projects', {
+			where: [['ownerId', '==', user.id]],
+		});
+
+		const projectDigests = await Promise.all(
+			projects
+				.filter((project) => !(preferences.mutedProjectIds || []).includes(project.id))
+				.map((project) => compileProjectDigest(env, project, since, unansweredBefore, preferences.mutedThreadIds || [])),
+		);
+
+		const nonEmpty = projectDigests.filter(
+			(digest) => digest.newThreads.length + digest.unansweredThreads.length + digest.reopenedThreads.length > 0,
+		);
+		if (nonEmpty.length === 0) continue;
+
+		digests.push({
+			recipient: { userId: user.id, email, name: user.data.displayName || undefined },
+			projects: nonEmpty,
+		});
+	}
+
+	return digests;
+}
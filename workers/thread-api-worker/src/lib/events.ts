@@ -0,0 +1,21 @@
+import { ThreadEventData } from '../types';
+import { autoId, DocumentWrite } from './firestore';
+
+/**
+ * Every change to a thread is recorded as an event in `threads/{threadId}/events`: its
+ * creation, edits, status changes, tag changes, assignments and changes to its responses.
+ * Thread fields only hold the current state, so the events are the thread's history and
+ * the client shows them as a timeline between the responses.
+ */
+
+/**
+ * Builds the write that records an event, to include in the commit of the change itself
+ */
+export function eventWrite(threadPath: string, event: ThreadEventData): DocumentWrite {
+	return {
+		path: `${threadPath}/events/${autoId()}`,
+		data: { ...event },
+		exists: false,
+		serverTimestamps: ['createdAt'],
+	};
+}
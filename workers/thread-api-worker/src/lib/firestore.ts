@@ -0,0 +1,409 @@
+import { importPKCS8, SignJWT } from 'jose';
+import { Env } from '../types';
+
+/**
+ * Minimal Firestore REST client for Cloudflare Workers.
+ *
+ * firebase-admin does not run on the Workers runtime, so the worker signs its own
+ * service account JWT, exchanges it for an OAuth access token and talks to the
+ * Firestore REST API directly. Requests made this way bypass security rules.
+ */
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DATASTORE_SCOPE = 'https://www.googleapis.com/auth/datastore';
+
+// Firestore wire format for a single field value
+export type FirestoreValue =
+	| { nullValue: null }
+	| { booleanValue: boolean }
+	| { integerValue: string }
+	| { doubleValue: number }
+	| { timestampValue: string }
+	| { stringValue: string }
+	| { arrayValue: { values?: FirestoreValue[] } }
+	| { mapValue: { fields?: Record<string, FirestoreValue> } };
+
+export type DocumentData = Record<string, unknown>;
+
+export interface FirestoreDocument<T = DocumentData> {
+	id: string;
+	path: string;
+	data: T;
+}
+
+/**
+ * A single write in a commit. `path` is relative to the database root,
+ * e.g. `threads/abc123`.
+ */
+export interface DocumentWrite {
+	path: string;
+	// Fields to write. With `merge` only these top-level fields are touched
+	data?: DocumentData;
+	merge?: boolean;
+	// Precondition: true = must exist, false = must not exist
+	exists?: boolean;
+	// Numeric fields to increment atomically on the server
+	increments?: Record<string, number>;
+	// Fields to set to the commit time
+	serverTimestamps?: string[];
+	// Top-level fields to remove, with `merge`
+	deleteFields?: string[];
+	delete?: boolean;
+}
+
+export type FilterOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'array-contains' | 'in' | 'array-contains-any';
+
+export interface QueryOptions {
+	// Parent document path for subcollection queries, e.g. `projects/abc123`
+	parent?: string;
+	where?: Array<[string, FilterOperator, unknown]>;
+	orderBy?: Array<[string, 'asc' | 'desc']>;
+	limit?: number;
+	// Path of the last document of the previous page. Pages are taken in document order, so
+	// this can't be combined with `orderBy`
+	startAfter?: string;
+	transaction?: string;
+}
+
+const operatorMap: Record<FilterOperator, string> = {
+	'==': 'EQUAL',
+	'!=': 'NOT_EQUAL',
+	'<': 'LESS_THAN',
+	'<=': 'LESS_THAN_OR_EQUAL',
+	'>': 'GREATER_THAN',
+	'>=': 'GREATER_THAN_OR_EQUAL',
+	'array-contains': 'ARRAY_CONTAINS',
+	in: 'IN',
+	'array-contains-any': 'ARRAY_CONTAINS_ANY',
+};
+
+// Cached OAuth token shared across requests served by the same isolate
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+export class FirestoreError extends Error {
+	constructor(
+		message: string,
+		public status: number,
+	) {
+		super(message);
+		this.name = 'FirestoreError';
+	}
+}
+
+/**
+ * Gets an OAuth access token for the service account, reusing the cached one
+ * until a minute before it expires
+ */
+async function getAccessToken(env: Env): Promise<string> {
+	if (cachedToken && cachedToken.expiresAt > Date.now() + 60 * 1000) {
+		return cachedToken.value;
+	}
+
+	// Secrets set through the dashboard often carry escaped newlines
+	const privateKey = await importPKCS8(env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n'), 'RS256');
+
+	const assertion = await new SignJWT({ scope: DATASTORE_SCOPE })
+		.setProtectedHeader({ alg: 'RS256', typ: 'JWT' })
+		.setIssuer(env.FIREBASE_CLIENT_EMAIL)
+		.setSubject(env.FIREBASE_CLIENT_EMAIL)
+		.setAudience(TOKEN_URL)
+		.setIssuedAt()
+		.setExpirationTime('1h')
+		.sign(privateKey);
+
+	const response = await fetch(TOKEN_URL, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		body: new URLSearchParams({
+			grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+			assertion,
+		}),
+	});
+
+	if (!response.ok) {
+		throw new FirestoreError(`Failed to obtain access token: ${await response.text()}`, response.status);
+	}
+
+	const token = (await response.json()) as { access_token: string; expires_in: number };
+	cachedToken = {
+		value: token.access_token,
+		expiresAt: Date.now() + token.expires_in * 1000,
+	};
+
+	return cachedToken.value;
+}
+
+function databasePath(env: Env): string {
+	return `projects/${env.FIREBASE_PROJECT_ID}/databases/(default)`;
+}
+
+function documentName(env: Env, path: string): string {
+	return `${databasePath(env)}/documents/${path}`;
+}
+
+async function request<T>(env: Env, url: string, body?: unknown, method = 'POST'): Promise<T> {
+	const token = await getAccessToken(env);
+	const response = await fetch(`https://firestore.googleapis.com/v1/${url}`, {
+		method,
+		headers: {
+			Authorization: `Bearer ${token}`,
+			'Content-Type': 'application/json',
+		},
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+
+	if (!response.ok) {
+		const error = (await response.json().catch(() => null)) as { error?: { message?: string } } | null;
+		throw new FirestoreError(error?.error?.message || `Firestore request failed with ${response.status}`, response.status);
+	}
+
+	return (await response.json()) as T;
+}
+
+/**
+ * Quotes a field path segment when it is not a simple identifier,
+ * e.g. a tag name containing a hyphen used as a map key
+ */
+export function fieldPath(...segments: string[]): string {
+	return segments
+		.map((segment) => (/^[a-zA-Z_][a-zA-Z_0-9]*$/.test(segment) ? segment : `\`${segment.replace(/[`\\]/g, '\\$&')}\``))
+		.join('.');
+}
+
+/**
+ * Converts a JavaScript value into the Firestore wire format
+ */
+export function toFirestoreValue(value: unknown): FirestoreValue {
+	if (value === null || value === undefined) {
+		return { nullValue: null };
+	}
+	if (typeof value === 'boolean') {
+		return { booleanValue: value };
+	}
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+	}
+	if (typeof value === 'string') {
+		return { stringValue: value };
+	}
+	if (value instanceof Date) {
+		return { timestampValue: value.toISOString() };
+	}
+	if (Array.isArray(value)) {
+		return { arrayValue: { values: value.map(toFirestoreValue) } };
+	}
+	if (typeof value === 'object') {
+		return { mapValue: { fields: toFirestoreFields(value as DocumentData) } };
+	}
+	throw new Error(`Unsupported Firestore value: ${String(value)}`);
+}
+
+export function toFirestoreFields(data: DocumentData): Record<string, FirestoreValue> {
+	const fields: Record<string, FirestoreValue> = {};
+	for (const [key, value] of Object.entries(data)) {
+		if (value !== undefined) {
+			fields[key] = toFirestoreValue(value);
+		}
+	}
+	return fields;
+}
+
+/**
+ * Converts a Firestore wire format value back into a JavaScript value.
+ * Timestamps become Date objects.
+ */
+export function fromFirestoreValue(value: FirestoreValue): unknown {
+	if ('nullValue' in value) return null;
+	if ('booleanValue' in value) return value.booleanValue;
+	if ('integerValue' in value) return Number(value.integerValue);
+	if ('doubleValue' in value) return value.doubleValue;
+	if ('timestampValue' in value) return new Date(value.timestampValue);
+	if ('stringValue' in value) return value.stringValue;
+	if ('arrayValue' in value) return (value.arrayValue.values || []).map(fromFirestoreValue);
+	if ('mapValue' in value) return fromFirestoreFields(value.mapValue.fields || {});
+	return null;
+}
+
+export function fromFirestoreFields(fields: Record<string, FirestoreValue>): DocumentData {
+	const data: DocumentData = {};
+	for (const [key, value] of Object.entries(fields)) {
+		data[key] = fromFirestoreValue(value);
+	}
+	return data;
+}
+
+function toDocument<T>(env: Env, raw: { name: string; fields?: Record<string, FirestoreValue> }): FirestoreDocument<T> {
+	const path = raw.name.slice(`${databasePath(env)}/documents/`.length);
+	return {
+		id: path.split('/').pop() as string,
+		path,
+		data: fromFirestoreFields(raw.fields || {}) as T,
+	};
+}
+
+/**
+ * Generates a random 20 character document ID, matching the IDs created by the client SDKs
+ */
+export function autoId(): string {
+	const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+	const bytes = crypto.getRandomValues(new Uint8Array(20));
+	return Array.from(bytes, (byte) => chars[byte % chars.length]).join('');
+}
+
+/**
+ * Fetches a single document, or null if it does not exist
+ */
+export async function getDocument<T = DocumentData>(env: Env, path: string, transaction?: string): Promise<FirestoreDocument<T> | null> {
+	const query = transaction ? `?transaction=${encodeURIComponent(transaction)}` : '';
+	try {
+		const raw = await request<{ name: string; fields?: Record<string, FirestoreValue> }>(
+			env,
+			`${documentName(env, path)}${query}`,
+			undefined,
+			'GET',
+		);
+		return toDocument<T>(env, raw);
+	} catch (error) {
+		if (error instanceof FirestoreError && error.status === 404) {
+			return null;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Runs a structured query against a collection
+ */
+export async function runQuery<T = DocumentData>(
+	env: Env,
+	collectionId: string,
+	options: QueryOptions = {},
+): Promise<FirestoreDocument<T>[]> {
+	const filters = (options.where || []).map(([field, op, value]) => ({
+		fieldFilter: {
+			field: { fieldPath: field },
+			op: operatorMap[op],
+			value: toFirestoreValue(value),
+		},
+	}));
+
+	const structuredQuery: Record<string, unknown> = {
+		from: [{ collectionId }],
+	};
+
+	if (filters.length === 1) {
+		structuredQuery.where = filters[0];
+	} else if (filters.length > 1) {
+		structuredQuery.where = { compositeFilter: { op: 'AND', filters } };
+	}
+
+	if (options.orderBy) {
+		structuredQuery.orderBy = options.orderBy.map(([field, direction]) => ({
+			field: { fieldPath: field },
+			direction: direction === 'desc' ? 'DESCENDING' : 'ASCENDING',
+		}));
+	}
+
+	if (options.startAfter) {
+		structuredQuery.orderBy = [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }];
+		structuredQuery.startAt = { values: [{ referenceValue: documentName(env, options.startAfter) }], before: false };
+	}
+
+	if (options.limit) {
+		structuredQuery.limit = options.limit;
+	}
+
+	const parent = options.parent ? documentName(env, options.parent) : `${databasePath(env)}/documents`;
+	const results = await request<Array<{ document?: { name: string; fields?: Record<string, FirestoreValue> } }>>(
+		env,
+		`${parent}:runQuery`,
+		{
+			structuredQuery,
+			...(options.transaction ? { transaction: options.transaction } : {}),
+		},
+	);
+
+	return results.filter((result) => result.document).map((result) => toDocument<T>(env, result.document!));
+}
+
+function toWrite(env: Env, write: DocumentWrite): Record<string, unknown> {
+	const name = documentName(env, write.path);
+
+	if (write.delete) {
+		return { delete: name };
+	}
+
+	const fieldTransforms = [
+		...Object.entries(write.increments || {}).map(([path, amount]) => ({
+			fieldPath: path,
+			increment: toFirestoreValue(amount),
+		})),
+		...(write.serverTimestamps || []).map((path) => ({
+			fieldPath: path,
+			setToServerValue: 'REQUEST_TIME',
+		})),
+	];
+
+	const currentDocument = write.exists === undefined ? undefined : { exists: write.exists };
+
+	if (!write.data) {
+		return {
+			transform: { document: name, fieldTransforms },
+			...(currentDocument ? { currentDocument } : {}),
+		};
+	}
+
+	return {
+		update: { name, fields: toFirestoreFields(write.data) },
+		...(write.merge
+			? { updateMask: { fieldPaths: [...Object.keys(write.data), ...(write.deleteFields || [])].map((key) => fieldPath(key)) } }
+			: {}),
+		...(fieldTransforms.length > 0 ? { updateTransforms: fieldTransforms } : {}),
+		...(currentDocument ? { currentDocument } : {}),
+	};
+}
+
+/**
+ * Applies a set of writes atomically. Either all writes succeed or none are applied.
+ */
+export async function commit(env: Env, writes: DocumentWrite[], transaction?: string): Promise<void> {
+	await request(env, `${databasePath(env)}/documents:commit`, {
+		writes: writes.map((write) => toWrite(env, write)),
+		...(transaction ? { transaction } : {}),
+	});
+}
+
+// Number of times a transaction is retried when Firestore aborts it because of contention
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+/**
+ * Runs a read-write transaction. `fn` performs its reads with the given transaction ID
+ * and returns the writes to commit; they are applied only if none of the documents read
+ * changed in the meantime. Aborted transactions are retried with the reads repeated.
+ * Errors thrown by `fn` roll the transaction back and are rethrown.
+ */
+export async function runTransaction(env: Env, fn: (transaction: string) => Promise<DocumentWrite[]>): Promise<void> {
+	for (let attempt = 1; ; attempt++) {
+		const { transaction } = await request<{ transaction: string }>(env, `${databasePath(env)}/documents:beginTransaction`, {});
+
+		let writes: DocumentWrite[];
+		try {
+			writes = await fn(transaction);
+		} catch (error) {
+			await request(env, `${databasePath(env)}/documents:rollback`, { transaction }).catch(() => undefined);
+			throw error;
+		}
+
+		try {
+			await commit(env, writes, transaction);
+			return;
+		} catch (error) {
+			const aborted = error instanceof FirestoreError && error.status === 409;
+			if (!aborted || attempt >= MAX_TRANSACTION_ATTEMPTS) {
+				throw error;
+			}
+			// Back off a little before retrying with fresh reads
+			await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+		}
+	}
+}
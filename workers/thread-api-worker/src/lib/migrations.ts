@@ -0,0 +1,68 @@
+import { Env } from '../types';
+import { commit, DocumentData, DocumentWrite, FirestoreDocument, getDocument, runQuery } from './firestore';
+
+/**
+ * One-off changes to existing documents, e.g. giving threads created before a feature the
+ * field it needs. Documents created since already have it, so once a migration has been
+ * through its collection it is done for good. The scheduled job runs each a few pages at a
+ * time, and migrations/{name} records how far it got, so a run that is cut short resumes
+ * where it stopped and a finished migration costs one read.
+ */
+
+// Each page takes at most one write per document, plus one for the progress, which keeps
+// it within Firestore's 500 writes per commit
+const PAGE_SIZE = 400;
+
+// Keeps each scheduled run short; a large collection is finished over several nights
+const MAX_PAGES_PER_RUN = 25;
+
+// How a migration pages through its collection, for migrations that do more per document
+interface MigrationOptions {
+	pageSize?: number;
+	maxPages?: number;
+}
+
+interface MigrationData {
+	// Path of the last document migrated
+	cursor: string | null;
+	done: boolean;
+}
+
+/**
+ * Runs a migration over a collection, a page at a time, until it is done or the run's
+ * pages are used up
+ *
+ * @param migrate Returns the writes for a page of documents, at most one per document. It
+ * may also write on its own, as long as doing it twice is harmless: those writes can't be
+ * committed with the progress, so a page cut short is migrated again.
+ * @returns Number of writes made with the progress
+ */
+export async function runMigration<T = DocumentData>(
+	env: Env,
+	name: string,
+	collectionId: string,
+	migrate: (documents: FirestoreDocument<T>[]) => DocumentWrite[] | Promise<DocumentWrite[]>,
+	{ pageSize = PAGE_SIZE, maxPages = MAX_PAGES_PER_RUN }: MigrationOptions = {},
+): Promise<number> {
+	const progress = await getDocument<MigrationData>(env, `migrations/${name}`);
+	if (progress?.data.done) return 0;
+
+	let cursor = progress?.data.cursor || undefined;
+	let written = 0;
+
+	for (let page = 0; page < maxPages; page++) {
+		const documents = await runQuery<T>(env, collectionId, { startAfter: cursor, limit: pageSize });
+		const writes = await migrate(documents);
+		const done = documents.length < pageSize;
+		cursor = documents[documents.length - 1]?.path || cursor;
+
+		// The progress is written with the page, so a page is never skipped or migrated twice
+		const migration: MigrationData = { cursor: cursor || null, done };
+		await commit(env, [...writes, { path: `migrations/${name}`, data: { ...migration }, serverTimestamps: ['updatedAt'] }]);
+		written += writes.length;
+
+		if (done) break;
+	}
+
+	return written;
+}
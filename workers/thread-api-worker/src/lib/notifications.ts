@@ -0,0 +1,389 @@
+import {
+	AuthUser,
+	ChangelogEntryData,
+	Env,
+	InvitationData,
+	NotificationPreferencesData,
+	ProjectData,
+	ResponseData,
+	ThreadData,
+	UserData,
+	VoteData,
+} from '../types';
+import { FirestoreDocument, getDocument, runQuery } from './firestore';
+import { RoadmapColumn, roadmapColumnLabels } from './roadmap';
+import { getUserEmail } from './users';
+
+/**
+ * Notification emails are sent from here rather than from the browser, after the write
+ * that triggers them, so they don't depend on the page staying open and email addresses
+ * never reach other visitors. This worker picks the recipients and checks their
+ * preferences; the email worker queues the emails and renders and sends them, adding
+ * unsubscribe links. It retries failed emails, sends each at most once per idempotency key
+ * and throttles emails about responses to the same thread, see its deliveries.ts.
+ */
+
+// Kinds of notifications the email worker renders, see its email-templates.ts
+type NotificationType = 'new_issue' | 'new_response' | 'project_invitation' | 'thread_assigned' | 'roadmap_update' | 'changelog_entry';
+
+// Someone an email goes to. Signed-in users are sent with their userId so the email carries
+// unsubscribe links.
+interface Recipient {
+	email: string;
+	name?: string;
+	userId?: string;
+}
+
+// What the email worker's send route takes: the common fields and those of the notification type
+interface NotificationRequest {
+	type: NotificationType;
+	// Identifies the event, so the email worker sends it once however often it is retried
+	idempotencyKey: string;
+	projectId: string;
+	projectName: string;
+	recipients: Recipient[];
+	createdAt: string;
+	[field: string]: unknown;
+}
+
+// Most participants emailed about a new response, the most recently active first
+const MAX_RESPONSE_RECIPIENTS = 5;
+
+/**
+ * Whether a user's notification preferences allow an immediate email about a thread or project
+ *
+ * @param about The project, the thread if the email is about one, and whether the user started it
+ */
+export function wantsEmailAbout(
+	preferences: NotificationPreferencesData | undefined,
+	about: { projectId: string; threadId?: string; startedThread: boolean },
+): boolean {
+	const emails = preferences?.emails || 'all';
+	if (emails === 'none' || emails === 'digest') return false;
+	if (emails === 'own-threads' && !about.startedThread) return false;
+	if ((preferences?.mutedProjectIds || []).includes(about.projectId)) return false;
+	return !about.threadId || !(preferences?.mutedThreadIds || []).includes(about.threadId);
+}
+
+function threadUrl(env: Env, project: ProjectData, threadId: string): string {
+	return `${env.APP_URL}/${project.slug}/thread/${threadId}`;
+}
+
+/**
+ * Looks up a signed-in user as a recipient
+ *
+ * @param fallbackName Name used when the user has no display name
+ * @param wants Whether the user's preferences allow the email
+ * @returns The recipient, or null if the user is gone, has no email address or doesn't want the email
+ */
+async function resolveRecipient(
+	env: Env,
+	userId: string,
+	fallbackName: string,
+	wants: (preferences: NotificationPreferencesData | undefined) => boolean,
+): Promise<Recipient | null> {
+	const user = await getDocument<UserData>(env, `users/${userId}`);
+	if (!user || !wants(user.data.notificationPreferences)) return null;
+
+	const email = await getUserEmail(env, user);
+	return email ? { email, name: user.data.displayName || fallbackName, userId } : null;
+}
+
+async function resolveRecipients(
+	env: Env,
+	candidates: Array<{ userId: string; fallbackName: string }>,
+	wants: (userId: string, preferences: NotificationPreferencesData | undefined) => boolean,
+): Promise<Recipient[]> {
+	const recipients = await Promise.all(
+		candidates.map(({ userId, fallbackName }) => resolveRecipient(env, userId, fallbackName, (preferences) => wants(userId, preferences))),
+	);
+	return recipients.filter((recipient): recipient is Recipient => !!recipient);
+}
+
+/**
+ * Hands a notification to the email worker, which queues its emails
+ *
+ * @throws Error if the email worker could not queue the emails
+ */
+async function sendNotification(env: Env, notification: NotificationRequest): Promise<void> {
+	const response = await env.EMAIL_WORKER.fetch('https://email-notification-worker/api/send-email', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			Authorization: `Bearer ${env.INTERNAL_API_SECRET}`,
+		},
+		body: JSON.stringify(notification),
+	});
+
+	if (!response.ok) {
+		const result = await response.json<{ message?: string; error?: string }>().catch(() => null);
+		throw new Error(`Email worker returned ${response.status}: ${result?.error || result?.message || 'no details'}`);
+	}
+}
+
+// Runs a notification in the background of a request. Failures are logged rather than
+// failing the write that triggered them.
+async function notifySafely(description: string, notify: () => Promise<void>): Promise<void> {
+	try {
+		await notify();
+	} catch (error) {
+		console.error(`Error sending ${description} notification:`, error);
+	}
+}
+
+/**
+ * Emails the project owner about a new thread, unless they opened it themselves
+ */
+export function notifyNewThread(env: Env, project: FirestoreDocument<ProjectData>, threadId: string, thread: ThreadData): Promise<void> {
+	return notifySafely('new thread', async () => {
+		if (thread.authorId === project.data.ownerId) return;
+
+		const recipients = await resolveRecipients(
+			env,
+			[{ userId: project.data.ownerId, fallbackName: 'Project Owner' }],
+			(_userId, preferences) => wantsEmailAbout(preferences, { projectId: project.id, startedThread: false }),
+		);
+		if (recipients.length === 0) return;
+
+		await sendNotification(env, {
+			type: 'new_issue',
+			idempotencyKey: `new_issue:${threadId}`,
+			projectId: project.id,
+			projectName: project.data.name,
+			recipients,
+			createdAt: new Date().toISOString(),
+			issueId: threadId,
+			issueTitle: thread.title,
+			issueContent: thread.content,
+			userName: thread.authorName,
+			issueUrl: threadUrl(env, project.data, threadId),
+		});
+	});
+}
+
+/**
+ * Emails the people taking part in a thread about a new response: its author, the project
+ * owner and the most recent responders. The email worker throttles these per recipient,
+ * so a burst of replies makes one email each.
+ */
+export function notifyNewResponse(
+	env: Env,
+	project: FirestoreDocument<ProjectData>,
+	thread: FirestoreDocument<ThreadData>,
+	responseId: string,
+	response: ResponseData,
+): Promise<void> {
+	return notifySafely('new response', async () => {
+		const responses = await runQuery<ResponseData>(env, 'responses', {
+			where: [['threadId', '==', thread.id]],
+		});
+
+		// Newest first, without the new response
+		const earlier = responses
+			.filter((candidate) => candidate.id !== responseId)
+			.sort((a, b) => (b.data.createdAt?.getTime() || 0) - (a.data.createdAt?.getTime() || 0));
+
+		// Each participant once, with when they last took part
+		const participants = new Map<string, { fallbackName: string; activeAt: number }>();
+		const addParticipant = (userId: string | null, fallbackName: string, activeAt: number) => {
+			if (userId && userId !== response.authorId && !participants.has(userId)) {
+				participants.set(userId, { fallbackName, activeAt });
+			}
+		};
+
+		const threadCreatedAt = thread.data.createdAt?.getTime() || 0;
+		addParticipant(thread.data.authorId, 'Thread Author', threadCreatedAt);
+		addParticipant(project.data.ownerId, 'Project Owner', threadCreatedAt);
+		for (const { data } of earlier.slice(0, MAX_RESPONSE_RECIPIENTS)) {
+			addParticipant(data.authorId, 'Thread Participant', data.createdAt?.getTime() || 0);
+		}
+
+		const candidates = [...participants].map(([userId, participant]) => ({ userId, ...participant }));
+		const recipients = await resolveRecipients(env, candidates, (userId, preferences) =>
+			wantsEmailAbout(preferences, { projectId: project.id, threadId: thread.id, startedThread: userId === thread.data.authorId }),
+		);
+		if (recipients.length === 0) return;
+
+		const activeAt = (recipient: Recipient) => participants.get(recipient.userId!)!.activeAt;
+		recipients.sort((a, b) => activeAt(b) - activeAt(a));
+
+		await sendNotification(env, {
+			type: 'new_response',
+			idempotencyKey: `new_response:${responseId}`,
+			projectId: project.id,
+			projectName: project.data.name,
+			recipients: recipients.slice(0, MAX_RESPONSE_RECIPIENTS),
+			createdAt: new Date().toISOString(),
+			issueId: thread.id,
+			issueTitle: thread.data.title,
+			responseContent: response.content,
+			responseAuthor: response.authorName,
+			issueUrl: threadUrl(env, project.data, thread.id),
+		});
+	});
+}
+
+/**
+ * Emails a team member when a thread is assigned to them, unless they assigned it to themselves
+ */
+export function notifyAssignment(
+	env: Env,
+	project: FirestoreDocument<ProjectData>,
+	thread: FirestoreDocument<ThreadData>,
+	assigneeId: string,
+	assigner: AuthUser,
+): Promise<void> {
+	return notifySafely('assignment', async () => {
+		if (assigneeId === assigner.uid) return;
+
+		const recipients = await resolveRecipients(env, [{ userId: assigneeId, fallbackName: 'Team member' }], (_userId, preferences) =>
+			wantsEmailAbout(preferences, { projectId: project.id, threadId: thread.id, startedThread: thread.data.authorId === assigneeId }),
+		);
+		if (recipients.length === 0) return;
+
+		await sendNotification(env, {
+			type: 'thread_assigned',
+			// The thread as it was before, so assigning it again later is a new email
+			idempotencyKey: `thread_assigned:${thread.id}:${assigneeId}:${thread.data.updatedAt?.getTime() || 0}`,
+			projectId: project.id,
+			projectName: project.data.name,
+			recipients,
+			createdAt: new Date().toISOString(),
+			issueId: thread.id,
+			issueTitle: thread.data.title,
+			assignerName: assigner.name || 'A teammate',
+			issueUrl: threadUrl(env, project.data, thread.id),
+		});
+	});
+}
+
+/**
+ * Emails whoever filed or voted for a feature request when it moves to another roadmap
+ * column. Anonymous voters can't be reached.
+ */
+export function notifyRoadmapMove(
+	env: Env,
+	project: FirestoreDocument<ProjectData>,
+	thread: FirestoreDocument<ThreadData>,
+	column: RoadmapColumn,
+	mover: AuthUser,
+): Promise<void> {
+	return notifySafely('roadmap', async () => {
+		const votes = await runQuery<VoteData>(env, 'votes', { parent: thread.path });
+
+		const userIds = [...new Set([thread.data.authorId, ...votes.map((vote) => vote.data.userId)])].filter(
+			(userId): userId is string => !!userId && userId !== mover.uid,
+		);
+		const candidates = userIds.map((userId) => ({
+			userId,
+			fallbackName: userId === thread.data.authorId ? 'Thread Author' : 'Voter',
+		}));
+
+		const recipients = await resolveRecipients(env, candidates, (userId, preferences) =>
+			wantsEmailAbout(preferences, { projectId: project.id, threadId: thread.id, startedThread: userId === thread.data.authorId }),
+		);
+		if (recipients.length === 0) return;
+
+		await sendNotification(env, {
+			type: 'roadmap_update',
+			// The thread as it was before, so moving it back later is a new email
+			idempotencyKey: `roadmap_update:${thread.id}:${column}:${thread.data.updatedAt?.getTime() || 0}`,
+			projectId: project.id,
+			projectName: project.data.name,
+			recipients,
+			createdAt: new Date().toISOString(),
+			issueId: thread.id,
+			issueTitle: thread.data.title,
+			roadmapColumn: roadmapColumnLabels[column],
+			issueUrl: threadUrl(env, project.data, thread.id),
+			roadmapUrl: `${env.APP_URL}/${project.data.slug}/roadmap`,
+		});
+	});
+}
+
+/**
+ * Emails whoever took part in the threads a changelog entry resolves when it goes live:
+ * their authors and everyone who responded, if they want emails about at least one of the
+ * threads they took part in
+ */
+export function notifyChangelogPublished(
+	env: Env,
+	project: FirestoreDocument<ProjectData>,
+	entryId: string,
+	entry: ChangelogEntryData,
+): Promise<void> {
+	return notifySafely('changelog', async () => {
+		if (entry.threadIds.length === 0) return;
+
+		const threads = await Promise.all(
+			entry.threadIds.map(async (threadId) => {
+				const [thread, responses] = await Promise.all([
+					getDocument<ThreadData>(env, `threads/${threadId}`),
+					runQuery<ResponseData>(env, 'responses', { where: [['threadId', '==', threadId]] }),
+				]);
+				return { threadId, thread, responderIds: responses.map((response) => response.data.authorId) };
+			}),
+		);
+
+		const userIds = [...new Set(threads.flatMap(({ thread, responderIds }) => [thread?.data.authorId || null, ...responderIds]))].filter(
+			(userId): userId is string => !!userId && userId !== entry.authorId,
+		);
+
+		const recipients = await resolveRecipients(
+			env,
+			userIds.map((userId) => ({ userId, fallbackName: 'Thread Participant' })),
+			(userId, preferences) =>
+				threads.some(
+					({ threadId, thread, responderIds }) =>
+						(thread?.data.authorId === userId || responderIds.includes(userId)) &&
+						wantsEmailAbout(preferences, { projectId: project.id, threadId, startedThread: thread?.data.authorId === userId }),
+				),
+		);
+		if (recipients.length === 0) return;
+
+		await sendNotification(env, {
+			type: 'changelog_entry',
+			idempotencyKey: `changelog_entry:${entryId}`,
+			projectId: project.id,
+			projectName: project.data.name,
+			recipients,
+			createdAt: new Date().toISOString(),
+			entryTitle: entry.title,
+			entryContent: entry.content,
+			version: entry.version || undefined,
+			threadTitles: threads.map(({ thread }) => thread?.data.title).filter((title): title is string => !!title),
+			changelogUrl: `${env.APP_URL}/${project.data.slug}/changelog#${entryId}`,
+		});
+	});
+}
+
+/**
+ * Emails a team invitation with the link to accept it. Unlike the other notifications this
+ * is awaited, so the owner can be told to share the link if it fails.
+ *
+ * @returns Whether the email was queued
+ */
+export async function sendInvitation(
+	env: Env,
+	project: FirestoreDocument<ProjectData>,
+	invitationId: string,
+	invitation: InvitationData,
+): Promise<boolean> {
+	try {
+		await sendNotification(env, {
+			type: 'project_invitation',
+			idempotencyKey: `project_invitation:${invitationId}`,
+			projectId: project.id,
+			projectName: project.data.name,
+			recipients: [{ email: invitation.email }],
+			createdAt: new Date().toISOString(),
+			role: invitation.role,
+			inviterName: invitation.invitedByName,
+			invitationUrl: `${env.APP_URL}/invitations/${project.id}/${invitationId}`,
+		});
+		return true;
+	} catch (error) {
+		console.error('Error sending invitation email:', error);
+		return false;
+	}
+}
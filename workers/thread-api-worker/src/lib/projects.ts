@@ -0,0 +1,67 @@
+import { Env, ProjectData, ProjectRole, ProjectTag } from '../types';
+import { FirestoreDocument, getDocument, runQuery } from './firestore';
+
+// Things a project member may do, granted by role
+export type ProjectPermission = 'closeThreads' | 'assignThreads' | 'tagThreads' | 'deleteThreads' | 'respondAsTeam' | 'manageMembers';
+
+const rolePermissions: Record<ProjectRole, ProjectPermission[]> = {
+	owner: ['closeThreads', 'assignThreads', 'tagThreads', 'deleteThreads', 'respondAsTeam', 'manageMembers'],
+	maintainer: ['closeThreads', 'assignThreads', 'tagThreads', 'deleteThreads', 'respondAsTeam'],
+	triager: ['closeThreads', 'assignThreads', 'tagThreads'],
+};
+
+// Tags of projects that haven't defined their own
+export const defaultProjectTags: ProjectTag[] = [
+	{ value: 'bug', label: 'Bug', color: 'red' },
+	{ value: 'feature', label: 'Feature', color: 'green' },
+	{ value: 'question', label: 'Question', color: 'blue' },
+	{ value: 'help', label: 'Help', color: 'purple' },
+	{ value: 'documentation', label: 'Docs', color: 'yellow' },
+];
+
+/**
+ * The tags threads in a project can be filed under
+ */
+export function getProjectTags(project: ProjectData): ProjectTag[] {
+	return project.tags && project.tags.length > 0 ? project.tags : defaultProjectTags;
+}
+
+/**
+ * The first of the given tag values the project doesn't have, if any
+ */
+export function findUnknownTag(project: ProjectData, values: string[]): string | undefined {
+	const known = getProjectTags(project).map((tag) => tag.value);
+	return values.find((value) => !known.includes(value));
+}
+
+/**
+ * Loads a project document by ID
+ */
+export function getProject(env: Env, projectId: string, transaction?: string): Promise<FirestoreDocument<ProjectData> | null> {
+	return getDocument<ProjectData>(env, `projects/${projectId}`, transaction);
+}
+
+/**
+ * Loads a project document by the slug in its public URL
+ */
+export async function getProjectBySlug(env: Env, slug: string): Promise<FirestoreDocument<ProjectData> | null> {
+	const [project] = await runQuery<ProjectData>(env, 'projects', { where: [['slug', '==', slug]], limit: 1 });
+	return project || null;
+}
+
+/**
+ * The role a user has on a project, or null if they are not on the team
+ */
+export function getProjectRole(project: ProjectData, uid: string | null | undefined): ProjectRole | null {
+	if (!uid) return null;
+	if (project.ownerId === uid) return 'owner';
+	return project.memberRoles?.[uid] || null;
+}
+
+/**
+ * Whether a user's role on the project grants the given permission
+ */
+export function hasProjectPermission(project: ProjectData, uid: string | null | undefined, permission: ProjectPermission): boolean {
+	const role = getProjectRole(project, uid);
+	return !!role && rolePermissions[role].includes(permission);
+}
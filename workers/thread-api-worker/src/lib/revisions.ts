@@ -0,0 +1,48 @@
+import { AuthUser, RevisionData } from '../types';
+import { hashAnonymousToken } from './anonymous';
+import { autoId, DocumentWrite } from './firestore';
+
+/**
+ * Authors can edit and delete their own threads and responses for a while after posting.
+ * Every edit keeps the text it replaced as a revision in `threads/{threadId}/revisions`,
+ * which only the project team can read.
+ */
+
+// How long after posting authors can still edit or delete what they wrote
+export const AUTHOR_EDIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the caller wrote a thread or response: signed-in users by their verified
+ * uid, visitors by the anonymous token stored in their browser. Posts from before the
+ * token was introduced have no hash, so only a signed-in author can change them.
+ */
+export async function isAuthor(
+	user: AuthUser | null,
+	post: { authorId: string | null; anonymousTokenHash?: string | null },
+	anonymousToken?: string,
+): Promise<boolean> {
+	if (user) {
+		return post.authorId === user.uid;
+	}
+	return !!anonymousToken && !!post.anonymousTokenHash && post.anonymousTokenHash === (await hashAnonymousToken(anonymousToken));
+}
+
+/**
+ * Whether something posted at `createdAt` can still be changed by its author
+ */
+export function withinEditWindow(createdAt: Date | undefined): boolean {
+	return !!createdAt && Date.now() - createdAt.getTime() < AUTHOR_EDIT_WINDOW_MS;
+}
+
+/**
+ * Builds the write that keeps the replaced text of a thread or response, to include in
+ * the commit of the edit itself
+ */
+export function revisionWrite(threadPath: string, revision: RevisionData): DocumentWrite {
+	return {
+		path: `${threadPath}/revisions/${autoId()}`,
+		data: { ...revision },
+		exists: false,
+		serverTimestamps: ['createdAt'],
+	};
+}
@@ -0,0 +1,60 @@
+import { ProjectData, ThreadData } from '../types';
+import { getProjectTags } from './projects';
+import { StatusChange } from './workflow';
+
+/**
+ * The public roadmap groups a project's feature requests into columns by their status,
+ * mirrored by the client in src/lib/roadmap.ts. Moving a card between columns is a status
+ * change, so it is recorded and counted like any other.
+ */
+
+export const roadmapColumns = ['under-consideration', 'planned', 'in-progress', 'shipped'] as const;
+
+// The tag of the feature requests on the roadmap of projects that haven't picked one
+const DEFAULT_ROADMAP_TAG = 'feature';
+
+export type RoadmapColumn = (typeof roadmapColumns)[number];
+
+// As the roadmap page shows them, for the emails sent when a card moves
+export const roadmapColumnLabels: Record<RoadmapColumn, string> = {
+	'under-consideration': 'Under consideration',
+	planned: 'Planned',
+	'in-progress': 'In progress',
+	shipped: 'Shipped',
+};
+
+/**
+ * The tag of the feature requests on a project's roadmap, the only threads that can be
+ * moved on it. Null when the project has no roadmap: the owner turned it off, or the tag
+ * is no longer one of the project's tags.
+ */
+export function getRoadmapTag(project: ProjectData): string | null {
+	const tag = project.roadmapTag === undefined ? DEFAULT_ROADMAP_TAG : project.roadmapTag;
+	return tag && getProjectTags(project).some((projectTag) => projectTag.value === tag) ? tag : null;
+}
+
+/**
+ * The column a thread shows in. Threads closed for any reason but solved or moved to
+ * the feature backlog are not on the roadmap.
+ */
+export function roadmapColumn(thread: Pick<ThreadData, 'status' | 'closingReason'>): RoadmapColumn | null {
+	switch (thread.status) {
+		case 'planned':
+			return 'planned';
+		case 'in-progress':
+			return 'in-progress';
+		case 'closed':
+			if (thread.closingReason === 'solved') return 'shipped';
+			return thread.closingReason === 'feature backlog' ? 'under-consideration' : null;
+		default:
+			return 'under-consideration';
+	}
+}
+
+// The status a thread gets when it is dropped in a column
+export const columnStatusChanges: Record<RoadmapColumn, StatusChange> = {
+	'under-consideration': { status: 'triaged' },
+	planned: { status: 'planned' },
+	'in-progress': { status: 'in-progress' },
+	shipped: { status: 'closed', closingReason: 'solved' },
+};
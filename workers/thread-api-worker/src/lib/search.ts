@@ -0,0 +1,570 @@
+import { Env, ResponseData, SearchField, SearchPostingData, ThreadData } from '../types';
+import { commit, DocumentWrite, FirestoreDocument, getDocument, runQuery } from './firestore';
+import { runMigration } from './migrations';
+import { getProject } from './projects';
+import { threadTags } from './threadTags';
+
+/**
+ * Full-text search over a project's threads.
+ *
+ * Each project keeps an inverted index in `projects/{projectId}/searchPostings`: one
+ * document per (thread, term) listing where the term occurs in the thread's title, body
+ * and responses. Terms are lowercased with accents stripped; positions count every word
+ * so phrases can be matched by looking for consecutive positions.
+ *
+ * `indexThread` rebuilds a thread's postings after every write to its text, and
+ * `searchProject` answers queries made of plain terms (all must match), `prefix*` terms
+ * and "quoted phrases", ranked by where and how often they occur.
+ */
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Words too common to be worth indexing. They still take up a position, so phrases
+// containing them match on the remaining words
+const STOP_WORDS = new Set([
+	'a',
+	'an',
+	'and',
+	'are',
+	'as',
+	'at',
+	'be',
+	'but',
+	'by',
+	'for',
+	'if',
+	'in',
+	'into',
+	'is',
+	'it',
+	'no',
+	'not',
+	'of',
+	'on',
+	'or',
+	'such',
+	'that',
+	'the',
+	'their',
+	'then',
+	'there',
+	'these',
+	'they',
+	'this',
+	'to',
+	'was',
+	'will',
+	'with',
+]);
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+
+// Keeps posting documents small for words repeated many times in one thread
+const MAX_POSITIONS_PER_FIELD = 50;
+
+// Gap left between responses so a phrase cannot span two of them
+const RESPONSE_POSITION_GAP = 10;
+
+// Matches in the title count for more than matches in the body, which count for more than responses
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+	title: 3,
+	content: 1.5,
+	responses: 1,
+};
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'content', 'responses'];
+
+// Upper bounds that keep a single query's reads in check
+const MAX_QUERY_CLAUSES = 8;
+const MAX_POSTINGS_PER_TERM = 1000;
+// Threads looked at while filling a page of filtered results
+const MAX_FILTERED_CANDIDATES = 100;
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 200;
+
+// Firestore accepts at most 500 writes per commit
+const MAX_WRITES_PER_COMMIT = 500;
+
+interface Token {
+	term: string;
+	position: number;
+	start: number;
+	end: number;
+}
+
+/**
+ * Splits text into normalized words, keeping each word's position and its offsets in the original text
+ */
+export function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+
+	for (const match of text.matchAll(TOKEN_PATTERN)) {
+		const start = match.index ?? 0;
+		tokens.push({
+			term: match[0].toLowerCase().normalize('NFKD').replace(/\p{M}/gu, ''),
+			position: position++,
+			start,
+			end: start + match[0].length,
+		});
+	}
+
+	return tokens;
+}
+
+function isIndexedTerm(term: string): boolean {
+	return term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH && !STOP_WORDS.has(term);
+}
+
+type FieldPositions = Record<SearchField, number[]>;
+
+/**
+ * Works out every indexed term of a thread and where it occurs
+ */
+export function buildPostings(thread: ThreadData, responses: ResponseData[]): Map<string, FieldPositions> {
+	const postings = new Map<string, FieldPositions>();
+
+	const add = (field: SearchField, text: string, offset = 0) => {
+		const tokens = tokenize(text);
+		for (const token of tokens) {
+			if (!isIndexedTerm(token.term)) continue;
+
+			let positions = postings.get(token.term);
+			if (!positions) {
+				positions = { title: [], content: [], responses: [] };
+				postings.set(token.term, positions);
+			}
+			if (positions[field].length < MAX_POSITIONS_PER_FIELD) {
+				positions[field].push(offset + token.position);
+			}
+		}
+		return offset + tokens.length;
+	};
+
+	add('title', thread.title);
+	add('content', thread.content);
+
+	let offset = 0;
+	for (const response of responses) {
+		offset = add('responses', response.content, offset) + RESPONSE_POSITION_GAP;
+	}
+
+	return postings;
+}
+
+function samePositions(a: FieldPositions, b: SearchPostingData): boolean {
+	return SEARCH_FIELDS.every(
+		(field) => a[field].length === (b[field] || []).length && a[field].every((position, i) => position === b[field][i]),
+	);
+}
+
+function postingPath(projectId: string, threadId: string, term: string): string {
+	return `projects/${projectId}/searchPostings/${threadId}_${term}`;
+}
+
+async function commitInChunks(env: Env, writes: DocumentWrite[]): Promise<void> {
+	for (let i = 0; i < writes.length; i += MAX_WRITES_PER_COMMIT) {
+		await commit(env, writes.slice(i, i + MAX_WRITES_PER_COMMIT));
+	}
+}
+
+/**
+ * Brings a thread's postings up to date with its title, body and responses. Postings of
+ * a thread that no longer exists are removed. Only postings that changed are written.
+ *
+ * @param projectId Project the thread belongs (or belonged) to
+ * @param threadId Thread to index
+ */
+export async function indexThread(env: Env, projectId: string, threadId: string): Promise<void> {
+	const [thread, existing] = await Promise.all([
+		getDocument<ThreadData>(env, `threads/${threadId}`),
+		runQuery<SearchPostingData>(env, 'searchPostings', {
+			parent: `projects/${projectId}`,
+			where: [['threadId', '==', threadId]],
+		}),
+	]);
+
+	let postings = new Map<string, FieldPositions>();
+
+	if (thread) {
+		const responses = await runQuery<ResponseData>(env, 'responses', {
+			where: [['threadId', '==', threadId]],
+		});
+		responses.sort((a, b) => (a.data.createdAt?.getTime() || 0) - (b.data.createdAt?.getTime() || 0));
+
+		postings = buildPostings(
+			thread.data,
+			responses.map((response) => response.data),
+		);
+	}
+
+	const existingByTerm = new Map(existing.map((posting) => [posting.data.term, posting.data]));
+	const writes: DocumentWrite[] = [];
+
+	for (const posting of existing) {
+		if (!postings.has(posting.data.term)) {
+			writes.push({ path: posting.path, delete: true });
+		}
+	}
+
+	for (const [term, positions] of postings) {
+		const current = existingByTerm.get(term);
+		if (current && samePositions(positions, current)) continue;
+
+		const data: SearchPostingData = { projectId, threadId, term, ...positions };
+		writes.push({ path: postingPath(projectId, threadId, term), data: { ...data } });
+	}
+
+	await commitInChunks(env, writes);
+}
+
+/**
+ * Reindexes a thread in the background of a request. Failures are logged rather than
+ * failing the write that triggered them; `reindexProject` repairs a stale index.
+ */
+export async function indexThreadSafely(env: Env, projectId: string, threadId: string): Promise<void> {
+	try {
+		await indexThread(env, projectId, threadId);
+	} catch (error) {
+		console.error(`Error indexing thread ${threadId}:`, error);
+	}
+}
+
+/**
+ * Reindexes threads one after the other in the background of a request, e.g. after a
+ * change to many of them
+ */
+export async function reindexThreads(env: Env, projectId: string, threadIds: string[]): Promise<void> {
+	for (const threadId of threadIds) {
+		await indexThreadSafely(env, projectId, threadId);
+	}
+}
+
+/**
+ * Rebuilds the search index of every thread in a project
+ *
+ * @returns The number of threads indexed
+ */
+export async function reindexProject(env: Env, projectId: string): Promise<number> {
+	const threads = await runQuery<ThreadData>(env, 'threads', {
+		where: [['projectId', '==', projectId]],
+	});
+
+	for (const thread of threads) {
+		await indexThread(env, projectId, thread.id);
+	}
+
+	return threads.length;
+}
+
+// Indexing a thread takes a few reads and a commit of its own, so the backfill goes through
+// fewer threads per run than other migrations
+const BACKFILL_PAGE_SIZE = 25;
+const BACKFILL_PAGES_PER_RUN = 4;
+
+/**
+ * Indexes the threads created before search, a few pages each night. Threads created
+ * since were indexed when they were written, and indexing them again changes nothing.
+ *
+ * @returns Number of migration writes made, as the index writes are made thread by thread
+ */
+export async function backfillSearchIndex(env: Env): Promise<number> {
+	return runMigration<ThreadData>(
+		env,
+		'searchIndex',
+		'threads',
+		async (threads) => {
+			for (const thread of threads) {
+				await indexThread(env, thread.data.projectId, thread.id);
+			}
+			return [];
+		},
+		{ pageSize: BACKFILL_PAGE_SIZE, maxPages: BACKFILL_PAGES_PER_RUN },
+	);
+}
+
+export type SearchClause = { type: 'term' | 'prefix'; term: string } | { type: 'phrase'; terms: Array<{ term: string; offset: number }> };
+
+/**
+ * Parses a query into clauses: "quoted phrases", `prefix*` terms and plain terms.
+ * Stop words and very short words are dropped, except as gaps inside phrases.
+ */
+export function parseQuery(text: string): SearchClause[] {
+	const clauses: SearchClause[] = [];
+	const pattern = /"([^"]*)"|(\S+)/g;
+
+	for (const match of text.matchAll(pattern)) {
+		if (match[1] !== undefined) {
+			const tokens = tokenize(match[1]);
+			const terms = tokens.filter((token) => isIndexedTerm(token.term)).map((token) => ({ term: token.term, offset: token.position }));
+			if (terms.length === 1) {
+				clauses.push({ type: 'term', term: terms[0].term });
+			} else if (terms.length > 1) {
+				clauses.push({ type: 'phrase', terms });
+			}
+			continue;
+		}
+
+		const isPrefix = match[2].endsWith('*');
+		for (const token of tokenize(match[2])) {
+			if (isPrefix && token.term.length >= MIN_TERM_LENGTH && token.term.length <= MAX_TERM_LENGTH) {
+				clauses.push({ type: 'prefix', term: token.term });
+			} else if (isIndexedTerm(token.term)) {
+				clauses.push({ type: 'term', term: token.term });
+			}
+		}
+	}
+
+	return clauses.slice(0, MAX_QUERY_CLAUSES);
+}
+
+// How one clause matched one thread
+interface ClauseMatch {
+	hits: Record<SearchField, number>;
+	terms: Set<string>;
+}
+
+function emptyHits(): Record<SearchField, number> {
+	return { title: 0, content: 0, responses: 0 };
+}
+
+async function fetchPostings(env: Env, projectId: string, clause: { type: 'term' | 'prefix'; term: string }): Promise<SearchPostingData[]> {
+	const where: Array<[string, '==' | '>=' | '<', unknown]> =
+		clause.type === 'term'
+			? [['term', '==', clause.term]]
+			: [
+					['term', '>=', clause.term],
+					// \uf8ff sorts after every character used in terms
+					['term', '<', `${clause.term}\uf8ff`],
+				];
+
+	const postings = await runQuery<SearchPostingData>(env, 'searchPostings', {
+		parent: `projects/${projectId}`,
+		where,
+		limit: MAX_POSTINGS_PER_TERM,
+	});
+
+	return postings.map((posting) => posting.data);
+}
+
+/**
+ * Finds the threads a clause matches, with the number of hits per field
+ */
+async function matchClause(env: Env, projectId: string, clause: SearchClause): Promise<Map<string, ClauseMatch>> {
+	const matches = new Map<string, ClauseMatch>();
+
+	if (clause.type !== 'phrase') {
+		for (const posting of await fetchPostings(env, projectId, clause)) {
+			const match = matches.get(posting.threadId) || { hits: emptyHits(), terms: new Set<string>() };
+			for (const field of SEARCH_FIELDS) {
+				match.hits[field] += (posting[field] || []).length;
+			}
+			match.terms.add(posting.term);
+			matches.set(posting.threadId, match);
+		}
+		return matches;
+	}
+
+	const termPostings = await Promise.all(clause.terms.map(({ term }) => fetchPostings(env, projectId, { type: 'term', term })));
+	return matchPhrase(clause, termPostings);
+}
+
+/**
+ * Finds the threads a phrase matches, from the postings of each of its words. A phrase
+ * matches where every word occurs at its offset from the first one, in the same field.
+ *
+ * @param termPostings The postings of each word of the phrase, in order
+ */
+export function matchPhrase(
+	clause: Extract<SearchClause, { type: 'phrase' }>,
+	termPostings: SearchPostingData[][],
+): Map<string, ClauseMatch> {
+	const matches = new Map<string, ClauseMatch>();
+	const byThread = termPostings.map((postings) => new Map(postings.map((posting) => [posting.threadId, posting])));
+	const [first, ...rest] = byThread;
+	const firstOffset = clause.terms[0].offset;
+
+	for (const [threadId, firstPosting] of first) {
+		if (!rest.every((postings) => postings.has(threadId))) continue;
+
+		const hits = emptyHits();
+		for (const field of SEARCH_FIELDS) {
+			for (const start of firstPosting[field] || []) {
+				const matched = clause.terms.every(({ offset }, i) =>
+					(byThread[i].get(threadId)![field] || []).includes(start + offset - firstOffset),
+				);
+				if (matched) hits[field]++;
+			}
+		}
+
+		if (SEARCH_FIELDS.some((field) => hits[field] > 0)) {
+			matches.set(threadId, { hits, terms: new Set(clause.terms.map(({ term }) => term)) });
+		}
+	}
+
+	return matches;
+}
+
+export interface SearchResult {
+	threadId: string;
+	title: string;
+	status: ThreadData['status'];
+	tags: string[];
+	responseCount: number;
+	voteCount: number;
+	createdAt: Date | null;
+	score: number;
+	// [start, end) character ranges of matched words
+	titleHighlights: Array<[number, number]>;
+	snippet: string;
+	snippetHighlights: Array<[number, number]>;
+}
+
+function highlightRanges(tokens: Token[], terms: Set<string>, from = 0, to = Infinity): Array<[number, number]> {
+	return tokens
+		.filter((token) => terms.has(token.term) && token.start >= from && token.end <= to)
+		.map((token) => [token.start - from, token.end - from]);
+}
+
+/**
+ * Cuts a snippet of text around its first matched word
+ */
+function makeSnippet(text: string, terms: Set<string>): Pick<SearchResult, 'snippet' | 'snippetHighlights'> {
+	const tokens = tokenize(text);
+	const firstHit = tokens.find((token) => terms.has(token.term));
+
+	let from = firstHit ? Math.max(0, firstHit.start - SNIPPET_BEFORE) : 0;
+	let to = Math.min(text.length, from + SNIPPET_LENGTH);
+
+	// Avoid cutting words in half
+	if (from > 0) {
+		const space = text.indexOf(' ', from);
+		from = space !== -1 && (!firstHit || space < firstHit.start) ? space + 1 : from;
+	}
+	if (to < text.length) {
+		const space = text.lastIndexOf(' ', to);
+		to = space > from ? space : to;
+	}
+
+	const prefix = from > 0 ? '…' : '';
+	const suffix = to < text.length ? '…' : '';
+
+	return {
+		snippet: `${prefix}${text.slice(from, to)}${suffix}`,
+		snippetHighlights: highlightRanges(tokens, terms, from, to).map(([start, end]) => [start + prefix.length, end + prefix.length]),
+	};
+}
+
+export interface SearchFilters {
+	// A status, or 'active' for any status but closed
+	status?: ThreadData['status'] | 'active';
+	tags?: string[];
+	// Whether a thread needs all of the tags or any one of them
+	tagMatch?: 'all' | 'any';
+}
+
+/**
+ * Searches a project's threads. Every clause of the query must match somewhere in the
+ * thread's title, body or responses.
+ *
+ * @param projectId Project to search
+ * @param text The query as typed
+ * @param limit Maximum number of results
+ * @param filters Status and tags the matching threads must have
+ * @returns Matching threads, best match first, with highlight ranges for the title and a snippet
+ */
+export async function searchProject(
+	env: Env,
+	projectId: string,
+	text: string,
+	limit: number,
+	filters: SearchFilters = {},
+): Promise<SearchResult[]> {
+	const clauses = parseQuery(text);
+	if (clauses.length === 0) {
+		return [];
+	}
+
+	const [project, clauseMatches] = await Promise.all([
+		getProject(env, projectId),
+		Promise.all(clauses.map((clause) => matchClause(env, projectId, clause))),
+	]);
+
+	const totalThreads = Math.max(project?.data.totalIssues || 0, 1);
+
+	// Score the threads every clause matched; rarer clauses weigh more
+	const scored: Array<{ threadId: string; score: number; terms: Set<string>; hits: Record<SearchField, number> }> = [];
+	for (const threadId of clauseMatches[0].keys()) {
+		if (!clauseMatches.every((matches) => matches.has(threadId))) continue;
+
+		let score = 0;
+		const terms = new Set<string>();
+		const hits = emptyHits();
+
+		for (const matches of clauseMatches) {
+			const match = matches.get(threadId)!;
+			const idf = Math.log(1 + totalThreads / matches.size);
+			for (const field of SEARCH_FIELDS) {
+				if (match.hits[field] > 0) {
+					score += FIELD_WEIGHTS[field] * (1 + Math.log(match.hits[field])) * idf;
+				}
+				hits[field] += match.hits[field];
+			}
+			match.terms.forEach((term) => terms.add(term));
+		}
+
+		scored.push({ threadId, score, terms, hits });
+	}
+
+	scored.sort((a, b) => b.score - a.score);
+
+	// Load the best matches a page at a time until enough of them pass the filters
+	const matches: Array<(typeof scored)[number] & { thread: FirestoreDocument<ThreadData> }> = [];
+	const filterTags = filters.tags || [];
+	const candidates = scored.slice(0, filters.status || filterTags.length > 0 ? MAX_FILTERED_CANDIDATES : limit);
+	for (let i = 0; i < candidates.length && matches.length < limit; i += limit) {
+		const batch = candidates.slice(i, i + limit);
+		const threads = await Promise.all(batch.map(({ threadId }) => getDocument<ThreadData>(env, `threads/${threadId}`)));
+
+		batch.forEach((match, j) => {
+			const thread = threads[j];
+			if (!thread) return;
+			if (filters.status === 'active' ? thread.data.status === 'closed' : filters.status && thread.data.status !== filters.status) return;
+			if (filterTags.length > 0) {
+				const tags = threadTags(thread.data);
+				const tagged =
+					filters.tagMatch === 'all' ? filterTags.every((tag) => tags.includes(tag)) : filterTags.some((tag) => tags.includes(tag));
+				if (!tagged) return;
+			}
+			matches.push({ ...match, thread });
+		});
+	}
+
+	return Promise.all(
+		matches.slice(0, limit).map(async ({ threadId, score, terms, hits, thread }): Promise<SearchResult> => {
+			// Show the part of the thread that matched: the body, or a response if only responses did
+			let snippetSource: FirestoreDocument<ThreadData | ResponseData> = thread;
+			if (hits.content === 0 && hits.responses > 0) {
+				const responses = await runQuery<ResponseData>(env, 'responses', {
+					where: [['threadId', '==', threadId]],
+				});
+				snippetSource = responses.find((response) => tokenize(response.data.content).some((token) => terms.has(token.term))) || thread;
+			}
+
+			return {
+				threadId,
+				title: thread.data.title,
+				status: thread.data.status,
+				tags: threadTags(thread.data),
+				responseCount: thread.data.responseCount || 0,
+				voteCount: thread.data.voteCount || 0,
+				createdAt: thread.data.createdAt || null,
+				score: Math.round(score * 100) / 100,
+				titleHighlights: highlightRanges(tokenize(thread.data.title), terms),
+				...makeSnippet(snippetSource.data.content, terms),
+			};
+		}),
+	);
+}
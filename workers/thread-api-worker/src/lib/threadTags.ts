@@ -0,0 +1,25 @@
+import { Env, ThreadData } from '../types';
+import { runMigration } from './migrations';
+
+/**
+ * The tags a thread is filed under. Threads created before threads could have several
+ * tags only have the single `tag` field, which reads as a one-tag list.
+ */
+export function threadTags(thread: Pick<ThreadData, 'tags' | 'tag'>): string[] {
+	if (thread.tags && thread.tags.length > 0) return thread.tags;
+	return thread.tag ? [thread.tag] : [];
+}
+
+/**
+ * Copies the single `tag` of older threads into `tags`, which the tag filters query.
+ * Threads are created with `tags`, so this runs once, as a migration, see migrations.ts.
+ *
+ * @returns Number of threads updated
+ */
+export async function backfillThreadTags(env: Env): Promise<number> {
+	return runMigration<ThreadData>(env, 'threadTags', 'threads', (threads) =>
+		threads
+			.filter((thread) => !thread.data.tags && thread.data.tag)
+			.map((thread) => ({ path: thread.path, merge: true, exists: true, data: { tags: [thread.data.tag] } })),
+	);
+}
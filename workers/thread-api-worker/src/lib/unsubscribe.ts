@@ -0,0 +1,69 @@
+import { jwtVerify } from 'jose';
+import { Env, NotificationPreferencesData, UserData } from '../types';
+import { getDocument, runTransaction } from './firestore';
+
+/**
+ * Emails to signed-in users end with one-click links to stop them. The email worker signs
+ * each link's token with UNSUBSCRIBE_SECRET; this worker checks it and updates the user's
+ * notification preferences, so the links work without signing in.
+ */
+
+// What a link stops: every email, emails about one project, or emails about one thread
+export type UnsubscribeScope = 'all' | 'project' | 'thread';
+
+export interface UnsubscribeRequest {
+	userId: string;
+	scope: UnsubscribeScope;
+	// ID of the project or thread, for those scopes
+	id?: string;
+}
+
+/**
+ * Checks an unsubscribe token and reads what it stops
+ *
+ * @returns The request, or null if the token is invalid
+ */
+export async function verifyUnsubscribeToken(env: Env, token: string): Promise<UnsubscribeRequest | null> {
+	try {
+		const { payload } = await jwtVerify(token, new TextEncoder().encode(env.UNSUBSCRIBE_SECRET), {
+			audience: 'unsubscribe',
+			algorithms: ['HS256'],
+		});
+
+		const { sub, scope, id } = payload;
+		if (!sub || (scope !== 'all' && scope !== 'project' && scope !== 'thread')) return null;
+		if (scope !== 'all' && typeof id !== 'string') return null;
+
+		return { userId: sub, scope, id: typeof id === 'string' ? id : undefined };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Stops the emails an unsubscribe link names: all of them, or those about one project or thread
+ *
+ * @returns false if the user no longer exists
+ */
+export async function applyUnsubscribe(env: Env, request: UnsubscribeRequest): Promise<boolean> {
+	let found = false;
+
+	await runTransaction(env, async (transaction) => {
+		const user = await getDocument<UserData>(env, `users/${request.userId}`, transaction);
+		found = !!user;
+		if (!user) return [];
+
+		const preferences: NotificationPreferencesData = { ...user.data.notificationPreferences };
+		if (request.scope === 'all') {
+			preferences.emails = 'none';
+		} else {
+			const key = request.scope === 'project' ? 'mutedProjectIds' : 'mutedThreadIds';
+			const muted = preferences[key] || [];
+			preferences[key] = muted.includes(request.id!) ? muted : [...muted, request.id!];
+		}
+
+		return [{ path: user.path, merge: true, exists: true, data: { notificationPreferences: preferences } }];
+	});
+
+	return found;
+}
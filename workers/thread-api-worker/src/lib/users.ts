@@ -0,0 +1,55 @@
+import { Env, UserContactData, UserData } from '../types';
+import { commit, FirestoreDocument, getDocument, runQuery } from './firestore';
+
+/**
+ * User documents are public, as project pages show founders' names and links, so email
+ * addresses are kept in users/{userId}/private/contact, which only the user and this
+ * worker can read. Only this worker writes it, with the verified address from the user's
+ * ID token, see endpoints/users.ts.
+ */
+
+// Firestore accepts at most 500 writes per commit, and each user takes two
+const USERS_PER_COMMIT = 250;
+
+export function contactPath(userId: string): string {
+	return `users/${userId}/private/contact`;
+}
+
+/**
+ * Reads the email address of a user, falling back to the public document for accounts
+ * the backfill hasn't reached yet
+ */
+export async function getUserEmail(env: Env, user: FirestoreDocument<UserData>): Promise<string | null> {
+	const contact = await getDocument<UserContactData>(env, contactPath(user.id));
+	return contact?.data.email || user.data.email || null;
+}
+
+/**
+ * Moves the email addresses still kept on public user documents to their private contact
+ * document. Run on a schedule alongside the recount. Only users that still have an `email`
+ * are read, a page at a time, so once they have all been moved a run costs one query.
+ *
+ * @returns Number of users updated
+ */
+export async function backfillPrivateContacts(env: Env): Promise<number> {
+	let moved = 0;
+
+	for (;;) {
+		// Each page drops the field it is queried by, so the next query starts after it
+		const users = await runQuery<UserData>(env, 'users', { where: [['email', '>', '']], limit: USERS_PER_COMMIT });
+		if (users.length === 0) break;
+
+		await commit(
+			env,
+			users.flatMap((user) => [
+				{ path: contactPath(user.id), merge: true, data: { email: user.data.email } },
+				{ path: user.path, merge: true, exists: true, data: {}, deleteFields: ['email'] },
+			]),
+		);
+		moved += users.length;
+
+		if (users.length < USERS_PER_COMMIT) break;
+	}
+
+	return moved;
+}
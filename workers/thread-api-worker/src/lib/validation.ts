@@ -0,0 +1,109 @@
+import { Context } from 'hono';
+import { z } from 'zod';
+import { AppEnv, AuthUser } from '../types';
+import { hashAnonymousToken } from './anonymous';
+
+// Colors a project tag can have
+export const tagColors = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'] as const;
+
+// Tag values are lowercase slugs such as "good-first-issue"
+export const TagValueSchema = z
+	.string()
+	.max(30)
+	.regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Invalid tag');
+
+// The tags of one thread, without duplicates
+export const ThreadTagsSchema = z
+	.array(TagValueSchema)
+	.min(1)
+	.max(5)
+	.transform((tags) => [...new Set(tags)]);
+
+// Files uploaded through the image worker's /api/attachments/upload-url, which checks
+// each type's size limit before signing the upload. Who uploaded them is checked against
+// the bucket, see lib/attachments.ts.
+export const AttachmentSchema = z.object({
+	key: z.string().regex(/^attachments\/[0-9a-f-]{36}\.(png|jpg|gif|webp|txt|json|zip)$/, 'Invalid attachment key'),
+	name: z.string().trim().min(1).max(200),
+	contentType: z.enum(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'text/plain', 'application/json', 'application/zip']),
+	size: z
+		.number()
+		.int()
+		.positive()
+		.max(20 * 1024 * 1024),
+});
+
+// The attachments of one thread or response
+export const AttachmentsSchema = z.array(AttachmentSchema).max(5).default([]);
+
+// Identity fields sent by visitors who are not signed in, see lib/anonymous.ts
+export const AnonymousAuthorSchema = z.object({
+	authorName: z.string().trim().min(1).max(100).optional(),
+	anonymousId: z
+		.string()
+		.regex(/^\d{8}$/, 'Invalid anonymous ID')
+		.optional(),
+	anonymousToken: z
+		.string()
+		.regex(/^[0-9a-f]{64}$/, 'Invalid anonymous token')
+		.optional(),
+});
+
+/**
+ * Parses the JSON body of a request against a schema. Returns the parsed data,
+ * or a 400 response describing the first problem found.
+ */
+export async function parseBody<T extends z.ZodTypeAny>(
+	c: Context<AppEnv>,
+	schema: T,
+): Promise<{ data: z.infer<T> } | { response: Response }> {
+	const body = await c.req.json().catch(() => null);
+	const result = schema.safeParse(body);
+
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		const field = issue?.path.join('.');
+		return {
+			response: c.json(
+				{
+					success: false,
+					error: field ? `${field}: ${issue.message}` : issue?.message || 'Invalid request body',
+				},
+				400,
+			),
+		};
+	}
+
+	return { data: result.data };
+}
+
+/**
+ * Works out who is writing: signed-in users are identified by their verified
+ * token, everyone else by the anonymous ID, token and generated name stored in their browser
+ *
+ * @returns The author fields to store, or null if an anonymous request lacks its identity
+ */
+export async function resolveAuthor(
+	user: AuthUser | null,
+	body: z.infer<typeof AnonymousAuthorSchema>,
+): Promise<{ authorId: string | null; anonymousId: string | null; anonymousTokenHash: string | null; authorName: string } | null> {
+	if (user) {
+		return {
+			authorId: user.uid,
+			anonymousId: null,
+			anonymousTokenHash: null,
+			authorName: user.name || 'Anonymous Founder',
+		};
+	}
+
+	if (!body.anonymousId || !body.anonymousToken || !body.authorName) {
+		return null;
+	}
+
+	return {
+		authorId: null,
+		anonymousId: body.anonymousId,
+		anonymousTokenHash: await hashAnonymousToken(body.anonymousToken),
+		authorName: body.authorName,
+	};
+}
@@ -0,0 +1,65 @@
+import { AuthUser, Env, ReactionType, ThreadData } from '../types';
+import { hashAnonymousToken } from './anonymous';
+import { runMigration } from './migrations';
+
+export const reactionTypes = [
+	'thumbs-up',
+	'thumbs-down',
+	'laugh',
+	'hooray',
+	'confused',
+	'heart',
+	'rocket',
+	'eyes',
+] as const satisfies readonly ReactionType[];
+
+// Who is voting or reacting, keyed so that each identity counts once
+export interface Voter {
+	key: string;
+	userId: string | null;
+	anonymousTokenHash: string | null;
+}
+
+/**
+ * Works out who is voting: signed-in users by their uid, everyone else by the anonymous
+ * token stored in their browser. Keying on the token's hash rather than the public
+ * anonymous ID keeps others from voting, or taking votes back, in a visitor's name.
+ *
+ * @returns The voter, or null if an anonymous request lacks its anonymous token
+ */
+export async function resolveVoter(user: AuthUser | null, anonymousToken: string | undefined): Promise<Voter | null> {
+	if (user) {
+		return { key: `user-${user.uid}`, userId: user.uid, anonymousTokenHash: null };
+	}
+
+	if (!anonymousToken) {
+		return null;
+	}
+
+	const anonymousTokenHash = await hashAnonymousToken(anonymousToken);
+	return { key: `anonymous-${anonymousTokenHash}`, userId: null, anonymousTokenHash };
+}
+
+export function votePath(threadPath: string, voter: Voter): string {
+	return `${threadPath}/votes/${voter.key}`;
+}
+
+// One document per voter, response and reaction, so reacting twice is a no-op
+export function reactionPath(threadPath: string, responseId: string, reaction: ReactionType, voter: Voter): string {
+	return `${threadPath}/reactions/${responseId}_${reaction}_${voter.key}`;
+}
+
+/**
+ * Gives threads created before voting a `voteCount` of zero, as Firestore leaves documents
+ * without the field out of the "most voted" ordering. Threads are created with one, so this
+ * runs once, as a migration, see migrations.ts.
+ *
+ * @returns Number of threads updated
+ */
+export async function backfillVoteCounts(env: Env): Promise<number> {
+	return runMigration<ThreadData>(env, 'voteCounts', 'threads', (threads) =>
+		threads
+			.filter((thread) => thread.data.voteCount === undefined)
+			.map((thread) => ({ path: thread.path, merge: true, exists: true, data: { voteCount: 0 } })),
+	);
+}
@@ -0,0 +1,92 @@
+import { AuthUser, ClosingReason, ThreadData, ThreadEventData, ThreadStatus } from '../types';
+import { counterWrites } from './counters';
+import { eventWrite } from './events';
+import { DocumentWrite, FirestoreDocument } from './firestore';
+
+/**
+ * The thread workflow, mirrored by the client in src/lib/threadStatus.ts. Every status
+ * except `closed` counts as open for the project counters.
+ */
+
+export const threadStatuses = ['open', 'triaged', 'in-progress', 'needs-info', 'planned', 'closed'] as const;
+
+export const activeThreadStatuses = ['open', 'triaged', 'in-progress', 'needs-info', 'planned'] as const;
+
+export const closingReasons = ['solved', 'feature backlog', 'duplicate', 'other'] as const;
+
+// Statuses each status can move to. Closed threads are reopened as open.
+const statusTransitions: Record<ThreadStatus, ThreadStatus[]> = {
+	open: ['triaged', 'in-progress', 'needs-info', 'planned', 'closed'],
+	triaged: ['in-progress', 'needs-info', 'planned', 'closed'],
+	'in-progress': ['triaged', 'needs-info', 'planned', 'closed'],
+	'needs-info': ['triaged', 'in-progress', 'closed'],
+	planned: ['triaged', 'in-progress', 'closed'],
+	closed: ['open'],
+};
+
+/**
+ * Whether a thread may move from one status to another
+ */
+export function canTransition(from: ThreadStatus, to: ThreadStatus): boolean {
+	// Threads with a status from outside the workflow can always be moved back into it
+	return (statusTransitions[from] || threadStatuses).includes(to);
+}
+
+// A move to another status, with the closing details when the move closes the thread
+export type StatusChange =
+	| { status: Exclude<ThreadStatus, 'closed'> }
+	| { status: 'closed'; closingReason: ClosingReason; closingNote?: string | null; duplicateOf?: string | null };
+
+/**
+ * Builds the writes that move a thread to another status: the thread's own fields, the
+ * status-changed event and the project counters. Closing details are cleared when a
+ * closed thread moves on. Checking that the move is allowed is up to the caller.
+ */
+export function statusChangeWrites(thread: FirestoreDocument<ThreadData>, actor: AuthUser, change: StatusChange): DocumentWrite[] {
+	const closing = change.status === 'closed' ? change : null;
+	const reopening = !closing && thread.data.status === 'closed';
+
+	const event: ThreadEventData = {
+		type: 'status-changed',
+		actorId: actor.uid,
+		actorName: actor.name || 'Founder',
+		from: thread.data.status,
+		to: change.status,
+		closingReason: closing ? closing.closingReason : null,
+		closingNote: closing ? closing.closingNote || null : null,
+		duplicateOf: closing ? closing.duplicateOf || null : null,
+	};
+
+	let data: Partial<ThreadData> = { status: change.status };
+	if (closing) {
+		data = {
+			status: 'closed',
+			closingReason: closing.closingReason,
+			closingNote: closing.closingNote || null,
+			closedBy: actor.name || 'Founder',
+			duplicateOf: closing.duplicateOf || null,
+		};
+	} else if (reopening) {
+		data = {
+			status: change.status,
+			// Clear closing reason, note, closedBy and duplicate link when reopening
+			closingReason: null,
+			closingNote: null,
+			closedBy: null,
+			duplicateOf: null,
+			reopenedBy: actor.uid,
+		};
+	}
+
+	return [
+		{
+			path: thread.path,
+			merge: true,
+			exists: true,
+			data,
+			serverTimestamps: closing ? ['updatedAt', 'closedAt'] : reopening ? ['updatedAt', 'reopenedAt'] : ['updatedAt'],
+		},
+		eventWrite(thread.path, event),
+		...counterWrites(thread.data.projectId, thread.data, { ...thread.data, status: change.status }),
+	];
+}
@@ -0,0 +1,297 @@
+export interface Env {
+	// Environment variables
+	ALLOWED_ORIGINS: string;
+	FIREBASE_PROJECT_ID: string;
+	// Where the app is served, for links in the changelog feeds
+	APP_URL: string;
+
+	// Service account credentials for the Firestore REST API (set using wrangler secret)
+	FIREBASE_CLIENT_EMAIL: string;
+	FIREBASE_PRIVATE_KEY: string;
+	// Verifies the unsubscribe links the email worker signs with the same secret (set using wrangler secret)
+	UNSUBSCRIBE_SECRET: string;
+	// Authenticates calls between this worker and the email worker: theirs to the /internal
+	// routes and ours to its send route (set using wrangler secret)
+	INTERNAL_API_SECRET: string;
+
+	// The email notification worker, which sends the notification emails
+	EMAIL_WORKER: Fetcher;
+	// The image worker's bucket, to check who uploaded the files attached to posts
+	ATTACHMENTS: R2Bucket;
+}
+
+// The caller identified by a verified Firebase ID token
+export interface AuthUser {
+	uid: string;
+	name?: string;
+	email?: string;
+	// Whether Firebase Auth has verified the email address
+	emailVerified?: boolean;
+}
+
+// Hono context typing shared by all endpoints
+export type AppEnv = {
+	Bindings: Env;
+	Variables: {
+		user: AuthUser | null;
+	};
+};
+
+// See lib/workflow.ts for the moves allowed between statuses
+export type ThreadStatus = 'open' | 'triaged' | 'in-progress' | 'needs-info' | 'planned' | 'closed';
+export type ClosingReason = 'solved' | 'feature backlog' | 'duplicate' | 'other';
+
+// The owner is identified by the project's ownerId; other members are listed in memberRoles
+export type ProjectRole = 'owner' | 'maintainer' | 'triager';
+export type MemberRole = Exclude<ProjectRole, 'owner'>;
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+// A tag threads can be filed under. `value` is what threads store, so it never changes once created
+export interface ProjectTag {
+	value: string;
+	label: string;
+	color: TagColor;
+}
+
+// Firestore document shapes written by this worker
+export interface ProjectData {
+	name: string;
+	slug: string;
+	ownerId: string;
+	// Mirrors the members subcollection so pages and rules can check roles without extra reads
+	memberRoles?: Record<string, MemberRole>;
+	// Unset until the owner customizes them, see getProjectTags
+	tags?: ProjectTag[];
+	// The tag of the threads on the roadmap; `feature` while unset and none when null, see getRoadmapTag
+	roadmapTag?: string | null;
+	totalIssues?: number;
+	closedIssues?: number;
+	statusCounts?: Record<string, number>;
+	tagCounts?: Record<string, number>;
+}
+
+// Counters kept on the project document, see lib/counters.ts
+export type ProjectCounters = Required<Pick<ProjectData, 'totalIssues' | 'closedIssues' | 'statusCounts' | 'tagCounts'>>;
+
+// A file attached to a thread or response, stored in the image worker's bucket under `key`
+export interface AttachmentData {
+	key: string;
+	// The file's name on the reporter's machine
+	name: string;
+	contentType: string;
+	size: number;
+}
+
+export interface ThreadData {
+	projectId: string;
+	title: string;
+	content: string;
+	status: ThreadStatus;
+	closingReason?: ClosingReason | null;
+	closingNote?: string | null;
+	closedBy?: string | null;
+	// The thread this one duplicates, when closed as a duplicate
+	duplicateOf?: string | null;
+	authorName: string;
+	authorId: string | null;
+	anonymousId: string | null;
+	// Hash of the anonymous author's token, see lib/anonymous.ts. Unset on older threads.
+	anonymousTokenHash?: string | null;
+	isPublic: boolean;
+	tags: string[];
+	// Only set on threads created before threads could have several tags, see threadTags
+	tag?: string;
+	attachments?: AttachmentData[];
+	responseCount: number;
+	// Number of documents in threads/{threadId}/votes, see lib/votes.ts
+	voteCount?: number;
+	// Team member responsible for the thread
+	assigneeId?: string | null;
+	assignedBy?: string | null;
+	assignedAt?: Date | null;
+	createdAt?: Date;
+	updatedAt?: Date;
+	// When the author last edited the title or content
+	editedAt?: Date;
+	closedAt?: Date | null;
+	// When the thread was last reopened, and by whom; the reporter can reopen their own thread
+	reopenedAt?: Date;
+	reopenedBy?: string;
+}
+
+// Kinds of entries in a thread's activity timeline, see lib/events.ts
+export type ThreadEventType =
+	'created' | 'edited' | 'status-changed' | 'tags-changed' | 'assigned' | 'response-edited' | 'response-deleted';
+
+// One entry in threads/{threadId}/events. Only the fields of the event's type are set.
+export interface ThreadEventData {
+	type: ThreadEventType;
+	// Who made the change; null for visitors who are not signed in
+	actorId: string | null;
+	actorName: string;
+	// status-changed: the closing details are kept here as the thread's own fields are cleared on reopening
+	from?: ThreadStatus;
+	to?: ThreadStatus;
+	closingReason?: ClosingReason | null;
+	closingNote?: string | null;
+	duplicateOf?: string | null;
+	// tags-changed
+	added?: string[];
+	removed?: string[];
+	// assigned: null when the thread was unassigned
+	assigneeId?: string | null;
+	// edited: the thread fields that changed
+	fields?: string[];
+	// response-edited and response-deleted
+	responseId?: string;
+	createdAt?: Date;
+}
+
+// The text of a thread or response before an edit, stored in threads/{threadId}/revisions.
+// `createdAt` is when the text was replaced.
+export interface RevisionData {
+	// null for the thread itself
+	responseId: string | null;
+	// Only kept for the thread itself
+	title?: string;
+	content: string;
+	createdAt?: Date;
+}
+
+export interface MemberData {
+	userId: string;
+	role: MemberRole;
+	displayName: string | null;
+	email: string | null;
+	invitedBy: string;
+	joinedAt?: Date;
+}
+
+export interface InvitationData {
+	email: string;
+	role: MemberRole;
+	invitedBy: string;
+	invitedByName: string;
+	createdAt?: Date;
+}
+
+export interface ResponseData {
+	threadId: string;
+	content: string;
+	authorName: string;
+	authorId: string | null;
+	anonymousId: string | null;
+	// Hash of the anonymous author's token, see lib/anonymous.ts. Unset on older responses.
+	anonymousTokenHash?: string | null;
+	isFounder: boolean;
+	attachments?: AttachmentData[];
+	// Number of reactions of each type, keyed by ReactionType
+	reactionCounts?: Record<string, number>;
+	createdAt?: Date;
+	// Set when the author edits the response
+	updatedAt?: Date;
+}
+
+// Emoji reactions a response can get, stored by name
+export type ReactionType = 'thumbs-up' | 'thumbs-down' | 'laugh' | 'hooray' | 'confused' | 'heart' | 'rocket' | 'eyes';
+
+// One vote in threads/{threadId}/votes, whose document ID is the voter's key. Exactly
+// one of userId and anonymousTokenHash is set.
+export interface VoteData {
+	userId: string | null;
+	anonymousTokenHash: string | null;
+	createdAt?: Date;
+}
+
+// One reaction in threads/{threadId}/reactions, kept with the thread so a visitor's
+// reactions to all of its responses can be read with one query
+export interface ReactionData {
+	responseId: string;
+	reaction: ReactionType;
+	voterKey: string;
+	userId: string | null;
+	anonymousTokenHash: string | null;
+	createdAt?: Date;
+}
+
+// Which emails a user gets: all of them, only those about threads they started, a digest
+// instead of immediate emails, or none
+export type EmailPreference = 'all' | 'own-threads' | 'digest' | 'none';
+
+// How often founders who chose the digest get it
+export type DigestFrequency = 'daily' | 'weekly';
+
+// Kept on the user's document. Unset fields mean the defaults: all emails, nothing muted.
+export interface NotificationPreferencesData {
+	emails?: EmailPreference;
+	// Daily unless set
+	digestFrequency?: DigestFrequency;
+	mutedProjectIds?: string[];
+	mutedThreadIds?: string[];
+}
+
+// The parts of a `users` document this worker reads or writes. The document is public, so
+// the email address is kept in UserContactData
+export interface UserData {
+	displayName?: string;
+	notificationPreferences?: NotificationPreferencesData;
+	// Only on documents created before emails moved to private/contact, see lib/users.ts
+	email?: string;
+}
+
+// users/{userId}/private/contact, only readable by the user and this worker, and only
+// written by this worker, see Save Contact Email
+export interface UserContactData {
+	email: string;
+}
+
+// An email the email worker gave up on, in projects/{projectId}/failedEmails, which only the
+// project owner can read. The address is masked, as the owner may not know it otherwise.
+export interface FailedEmailData {
+	// The notification type, e.g. new_response
+	type: string;
+	subject: string;
+	recipientName: string | null;
+	recipientEmail: string;
+	// The last error, e.g. SendGrid's answer
+	error: string;
+	attempts: number;
+	idempotencyKey: string;
+	queuedAt: Date;
+	createdAt?: Date;
+}
+
+export type ChangelogStatus = 'draft' | 'published';
+
+// A release note in the `changelog` collection. Drafts are only visible to the project team.
+export interface ChangelogEntryData {
+	projectId: string;
+	title: string;
+	content: string;
+	// e.g. "v1.4.0"
+	version: string | null;
+	// Threads closed as solved that the release resolves
+	threadIds: string[];
+	status: ChangelogStatus;
+	authorId: string;
+	authorName: string;
+	createdAt?: Date;
+	updatedAt?: Date;
+	// When the entry went live
+	publishedAt?: Date | null;
+}
+
+// Parts of a thread covered by full-text search
+export type SearchField = 'title' | 'content' | 'responses';
+
+// One term of a thread in the project's inverted index, see lib/search.ts
+export interface SearchPostingData {
+	projectId: string;
+	threadId: string;
+	term: string;
+	// Word positions of the term in each field
+	title: number[];
+	content: number[];
+	responses: number[];
+}
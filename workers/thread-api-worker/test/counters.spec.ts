@@ -0,0 +1,98 @@
+// test/counters.spec.ts
+import { describe, it, expect } from 'vitest';
+import { counterWrites, countThreads } from '../src/lib/counters';
+import { ThreadData } from '../src/types';
+
+// Threads created before threads could have several tags only have the single `tag`
+const olderThread = (status: ThreadData['status'], tag: string) => ({ status, tag }) as Pick<ThreadData, 'status' | 'tags' | 'tag'>;
+
+describe('counterWrites', () => {
+	it('counts a new thread', () => {
+		expect(counterWrites('project1', null, { status: 'open', tags: ['bug', 'ui'] })).toEqual([
+			{
+				path: 'projects/project1',
+				exists: true,
+				increments: { totalIssues: 1, 'statusCounts.open': 1, 'tagCounts.bug': 1, 'tagCounts.ui': 1 },
+			},
+		]);
+	});
+
+	it('uncounts a deleted closed thread', () => {
+		expect(counterWrites('project1', { status: 'closed', tags: ['bug'] }, null)).toEqual([
+			{
+				path: 'projects/project1',
+				exists: true,
+				increments: { totalIssues: -1, closedIssues: -1, 'statusCounts.closed': -1, 'tagCounts.bug': -1 },
+			},
+		]);
+	});
+
+	it('only moves the counters that change, quoting statuses and tags that are not identifiers', () => {
+		const [write] = counterWrites('project1', { status: 'open', tags: ['bug'] }, { status: 'in-progress', tags: ['bug'] });
+		expect(write.increments).toEqual({ 'statusCounts.open': -1, 'statusCounts.`in-progress`': 1 });
+	});
+
+	it('counts closing a thread', () => {
+		const [write] = counterWrites('project1', { status: 'triaged', tags: [] }, { status: 'closed', tags: [] });
+		expect(write.increments).toEqual({ closedIssues: 1, 'statusCounts.triaged': -1, 'statusCounts.closed': 1 });
+	});
+
+	it('moves tag counts when tags change', () => {
+		const [write] = counterWrites('project1', { status: 'open', tags: ['bug', 'ui'] }, { status: 'open', tags: ['ui', 'feature'] });
+		expect(write.increments).toEqual({ 'tagCounts.bug': -1, 'tagCounts.feature': 1 });
+	});
+
+	it('reads the single tag of older threads', () => {
+		const [write] = counterWrites('project1', olderThread('open', 'bug'), { status: 'open', tags: ['question'] });
+		expect(write.increments).toEqual({ 'tagCounts.bug': -1, 'tagCounts.question': 1 });
+	});
+
+	it('writes nothing when no counter changes', () => {
+		expect(counterWrites('project1', { status: 'open', tags: ['bug'] }, { status: 'open', tags: ['bug'] })).toEqual([]);
+	});
+});
+
+describe('countThreads', () => {
+	it('starts from zero', () => {
+		expect(countThreads([])).toEqual({ totalIssues: 0, closedIssues: 0, statusCounts: {}, tagCounts: {} });
+	});
+
+	it('counts threads by status and tag', () => {
+		expect(
+			countThreads([
+				{ status: 'open', tags: ['bug', 'ui'] },
+				{ status: 'closed', tags: ['bug'] },
+				olderThread('open', 'feature'),
+				{ status: 'planned', tags: [] },
+			]),
+		).toEqual({
+			totalIssues: 4,
+			closedIssues: 1,
+			statusCounts: { open: 2, closed: 1, planned: 1 },
+			tagCounts: { bug: 2, ui: 1, feature: 1 },
+		});
+	});
+
+	it('matches the writes made thread by thread', () => {
+		const threads = [
+			{ status: 'open' as const, tags: ['bug'] },
+			{ status: 'closed' as const, tags: ['bug', 'feature'] },
+		];
+		const increments: Record<string, number> = {};
+		for (const thread of threads) {
+			for (const [path, amount] of Object.entries(counterWrites('project1', null, thread)[0].increments!)) {
+				increments[path] = (increments[path] || 0) + amount;
+			}
+		}
+
+		const counters = countThreads(threads);
+		expect(increments).toEqual({
+			totalIssues: counters.totalIssues,
+			closedIssues: counters.closedIssues,
+			'statusCounts.open': counters.statusCounts.open,
+			'statusCounts.closed': counters.statusCounts.closed,
+			'tagCounts.bug': counters.tagCounts.bug,
+			'tagCounts.feature': counters.tagCounts.feature,
+		});
+	});
+});
@@ -0,0 +1,42 @@
+// test/notifications.spec.ts
+import { describe, it, expect } from 'vitest';
+import { wantsEmailAbout } from '../src/lib/notifications';
+
+const aboutThread = { projectId: 'project1', threadId: 'thread1', startedThread: false };
+const aboutOwnThread = { ...aboutThread, startedThread: true };
+const aboutProject = { projectId: 'project1', startedThread: false };
+
+describe('wantsEmailAbout', () => {
+	it('emails users about everything unless they chose otherwise', () => {
+		expect(wantsEmailAbout(undefined, aboutThread)).toBe(true);
+		expect(wantsEmailAbout({}, aboutProject)).toBe(true);
+		expect(wantsEmailAbout({ emails: 'all' }, aboutThread)).toBe(true);
+	});
+
+	it('sends no immediate emails to users who want none or a digest', () => {
+		for (const emails of ['none', 'digest'] as const) {
+			expect(wantsEmailAbout({ emails }, aboutOwnThread)).toBe(false);
+			expect(wantsEmailAbout({ emails }, aboutProject)).toBe(false);
+		}
+	});
+
+	it('only emails users about the threads they started when they asked for that', () => {
+		expect(wantsEmailAbout({ emails: 'own-threads' }, aboutOwnThread)).toBe(true);
+		expect(wantsEmailAbout({ emails: 'own-threads' }, aboutThread)).toBe(false);
+		expect(wantsEmailAbout({ emails: 'own-threads' }, aboutProject)).toBe(false);
+	});
+
+	it('sends nothing about muted projects, even about threads the user started', () => {
+		const preferences = { mutedProjectIds: ['project1'] };
+		expect(wantsEmailAbout(preferences, aboutOwnThread)).toBe(false);
+		expect(wantsEmailAbout(preferences, aboutProject)).toBe(false);
+		expect(wantsEmailAbout(preferences, { ...aboutThread, projectId: 'project2' })).toBe(true);
+	});
+
+	it('sends nothing about muted threads, but still about their project', () => {
+		const preferences = { mutedThreadIds: ['thread1'] };
+		expect(wantsEmailAbout(preferences, aboutOwnThread)).toBe(false);
+		expect(wantsEmailAbout(preferences, { ...aboutThread, threadId: 'thread2' })).toBe(true);
+		expect(wantsEmailAbout(preferences, aboutProject)).toBe(true);
+	});
+});
@@ -0,0 +1,61 @@
+// test/roadmap.spec.ts
+import { describe, it, expect } from 'vitest';
+import { columnStatusChanges, getRoadmapTag, roadmapColumn, roadmapColumns } from '../src/lib/roadmap';
+import { closingReasons, threadStatuses } from '../src/lib/workflow';
+
+describe('roadmapColumn', () => {
+	it('puts open threads under consideration', () => {
+		for (const status of ['open', 'triaged', 'needs-info'] as const) {
+			expect(roadmapColumn({ status })).toBe('under-consideration');
+		}
+	});
+
+	it('puts planned and in-progress threads in their own columns', () => {
+		expect(roadmapColumn({ status: 'planned' })).toBe('planned');
+		expect(roadmapColumn({ status: 'in-progress' })).toBe('in-progress');
+	});
+
+	it('ships threads closed as solved and keeps the feature backlog under consideration', () => {
+		expect(roadmapColumn({ status: 'closed', closingReason: 'solved' })).toBe('shipped');
+		expect(roadmapColumn({ status: 'closed', closingReason: 'feature backlog' })).toBe('under-consideration');
+	});
+
+	it('leaves threads closed for other reasons off the roadmap', () => {
+		expect(roadmapColumn({ status: 'closed', closingReason: 'duplicate' })).toBeNull();
+		expect(roadmapColumn({ status: 'closed', closingReason: 'other' })).toBeNull();
+		expect(roadmapColumn({ status: 'closed' })).toBeNull();
+	});
+
+	it('shows a moved thread in the column it was dropped in', () => {
+		for (const column of roadmapColumns) {
+			const change = columnStatusChanges[column];
+			expect(roadmapColumn({ status: change.status, closingReason: 'closingReason' in change ? change.closingReason : undefined })).toBe(
+				column,
+			);
+		}
+	});
+
+	it('puts every thread in a column or leaves it off', () => {
+		for (const status of threadStatuses) {
+			for (const closingReason of [undefined, ...closingReasons]) {
+				const column = roadmapColumn({ status, closingReason });
+				expect(column === null || roadmapColumns.includes(column)).toBe(true);
+			}
+		}
+	});
+});
+
+describe('getRoadmapTag', () => {
+	const project = { name: 'Acme', slug: 'acme', ownerId: 'founder1' };
+	const idea = { value: 'idea', label: 'Idea', color: 'green' as const };
+
+	it('uses the feature tag until the owner picks another', () => {
+		expect(getRoadmapTag(project)).toBe('feature');
+		expect(getRoadmapTag({ ...project, tags: [idea], roadmapTag: 'idea' })).toBe('idea');
+	});
+
+	it('has no roadmap when the owner turned it off or the tag is gone', () => {
+		expect(getRoadmapTag({ ...project, roadmapTag: null })).toBeNull();
+		expect(getRoadmapTag({ ...project, tags: [idea] })).toBeNull();
+	});
+});
@@ -0,0 +1,120 @@
+// test/search.spec.ts
+import { describe, it, expect } from 'vitest';
+import { buildPostings, matchPhrase, parseQuery, SearchClause, tokenize } from '../src/lib/search';
+import { ResponseData, SearchPostingData, ThreadData } from '../src/types';
+
+type Phrase = Extract<SearchClause, { type: 'phrase' }>;
+
+// Indexes threads the way indexThread does, without Firestore
+function indexThreads(threads: Record<string, { title: string; content: string; responses?: string[] }>): SearchPostingData[] {
+	return Object.entries(threads).flatMap(([threadId, { title, content, responses = [] }]) => {
+		const postings = buildPostings(
+			{ title, content } as ThreadData,
+			responses.map((response) => ({ content: response }) as ResponseData),
+		);
+		return [...postings].map(([term, positions]) => ({ projectId: 'project1', threadId, term, ...positions }));
+	});
+}
+
+function searchPhrase(query: string, postings: SearchPostingData[]) {
+	const [clause] = parseQuery(query) as Phrase[];
+	return matchPhrase(
+		clause,
+		clause.terms.map(({ term }) => postings.filter((posting) => posting.term === term)),
+	);
+}
+
+describe('tokenize', () => {
+	it('lowercases words and strips accents, keeping their offsets', () => {
+		expect(tokenize('Café crashes')).toEqual([
+			{ term: 'cafe', position: 0, start: 0, end: 4 },
+			{ term: 'crashes', position: 1, start: 5, end: 12 },
+		]);
+	});
+
+	it('splits on punctuation and counts every word, stop words included', () => {
+		expect(tokenize("can't open the file-picker").map(({ term, position }) => [term, position])).toEqual([
+			['can', 0],
+			['t', 1],
+			['open', 2],
+			['the', 3],
+			['file', 4],
+			['picker', 5],
+		]);
+	});
+
+	it('keeps letters and digits of any script', () => {
+		expect(tokenize('Ошибка 404 エラー').map(({ term }) => term)).toEqual(['ошибка', '404', 'エラー']);
+	});
+});
+
+describe('parseQuery', () => {
+	it('parses plain terms, dropping stop words and single letters', () => {
+		expect(parseQuery('the export is a failure')).toEqual([
+			{ type: 'term', term: 'export' },
+			{ type: 'term', term: 'failure' },
+		]);
+	});
+
+	it('parses prefix terms, even ones that are stop words', () => {
+		expect(parseQuery('auth* in*')).toEqual([
+			{ type: 'prefix', term: 'auth' },
+			{ type: 'prefix', term: 'in' },
+		]);
+	});
+
+	it('parses quoted phrases with the offsets of their words', () => {
+		expect(parseQuery('"reset the password" email')).toEqual([
+			{
+				type: 'phrase',
+				terms: [
+					{ term: 'reset', offset: 0 },
+					{ term: 'password', offset: 2 },
+				],
+			},
+			{ type: 'term', term: 'email' },
+		]);
+	});
+
+	it('treats a phrase of one indexed word as a term and drops empty ones', () => {
+		expect(parseQuery('"the login" ""')).toEqual([{ type: 'term', term: 'login' }]);
+	});
+
+	it('keeps at most eight clauses', () => {
+		expect(parseQuery('one two three four five six seven eight nine ten')).toHaveLength(8);
+	});
+});
+
+describe('phrase matching', () => {
+	const postings = indexThreads({
+		inOrder: { title: 'Cannot reset password', content: 'The reset password link is broken' },
+		reversed: { title: 'Password reset', content: 'Where do I reset my password?' },
+		stopWord: { title: 'Help', content: 'I want to reset the password of my account' },
+		acrossResponses: { title: 'Help', content: 'Nothing here', responses: ['How do I reset', 'password managers'] },
+	});
+
+	it('matches words in order and next to each other, per field', () => {
+		const matches = searchPhrase('"reset password"', postings);
+		expect([...matches.keys()]).toEqual(['inOrder']);
+		expect(matches.get('inOrder')!.hits).toEqual({ title: 1, content: 1, responses: 0 });
+		expect([...matches.get('inOrder')!.terms]).toEqual(['reset', 'password']);
+	});
+
+	it('lets any word take the place of a stop word, as stop words are not indexed', () => {
+		const matches = searchPhrase('"reset the password"', postings);
+		expect([...matches.keys()].sort()).toEqual(['reversed', 'stopWord']);
+		expect(matches.get('reversed')!.hits).toEqual({ title: 0, content: 1, responses: 0 });
+	});
+
+	it('matches phrases inside one response but not across two', () => {
+		const responsePostings = indexThreads({
+			oneResponse: { title: 'Help', content: 'Nothing here', responses: ['First', 'Try reset password again'] },
+		});
+		expect([...searchPhrase('"reset password"', responsePostings).keys()]).toEqual(['oneResponse']);
+		expect(searchPhrase('"reset password"', postings).has('acrossResponses')).toBe(false);
+	});
+
+	it('matches nothing when a word is missing from every thread', () => {
+		expect(searchPhrase('"reset username"', postings).size).toBe(0);
+	});
+});
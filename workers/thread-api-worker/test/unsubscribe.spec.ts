@@ -0,0 +1,52 @@
+// test/unsubscribe.spec.ts
+import { describe, it, expect } from 'vitest';
+import { SignJWT } from 'jose';
+import { verifyUnsubscribeToken } from '../src/lib/unsubscribe';
+import { Env } from '../src/types';
+
+const env = { UNSUBSCRIBE_SECRET: 'unsubscribe-secret' } as Env;
+
+// Signs a token the way the email worker's unsubscribe links do
+function signToken(claims: Record<string, unknown>, { secret = env.UNSUBSCRIBE_SECRET, audience = 'unsubscribe' } = {}) {
+	return new SignJWT(claims)
+		.setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+		.setSubject('user1')
+		.setAudience(audience)
+		.sign(new TextEncoder().encode(secret));
+}
+
+describe('verifyUnsubscribeToken', () => {
+	it('reads what a token stops', async () => {
+		expect(await verifyUnsubscribeToken(env, await signToken({ scope: 'all' }))).toEqual({
+			userId: 'user1',
+			scope: 'all',
+			id: undefined,
+		});
+		expect(await verifyUnsubscribeToken(env, await signToken({ scope: 'project', id: 'project1' }))).toEqual({
+			userId: 'user1',
+			scope: 'project',
+			id: 'project1',
+		});
+		expect(await verifyUnsubscribeToken(env, await signToken({ scope: 'thread', id: 'thread1' }))).toEqual({
+			userId: 'user1',
+			scope: 'thread',
+			id: 'thread1',
+		});
+	});
+
+	it('refuses tokens signed with another secret or for another audience', async () => {
+		expect(await verifyUnsubscribeToken(env, await signToken({ scope: 'all' }, { secret: 'another-secret' }))).toBeNull();
+		expect(await verifyUnsubscribeToken(env, await signToken({ scope: 'all' }, { audience: 'firebase' }))).toBeNull();
+	});
+
+	it('refuses tokens that do not say what to stop', async () => {
+		expect(await verifyUnsubscribeToken(env, await signToken({ scope: 'everything' }))).toBeNull();
+		expect(await verifyUnsubscribeToken(env, await signToken({ scope: 'thread' }))).toBeNull();
+		expect(await verifyUnsubscribeToken(env, await signToken({ scope: 'project', id: 42 }))).toBeNull();
+	});
+
+	it('refuses tokens that are not JWTs', async () => {
+		expect(await verifyUnsubscribeToken(env, 'not-a-token')).toBeNull();
+		expect(await verifyUnsubscribeToken(env, '')).toBeNull();
+	});
+});
@@ -0,0 +1,122 @@
+// test/workflow.spec.ts
+import { describe, it, expect } from 'vitest';
+import { FirestoreDocument } from '../src/lib/firestore';
+import { canTransition, statusChangeWrites, threadStatuses } from '../src/lib/workflow';
+import { ThreadData, ThreadStatus } from '../src/types';
+
+const founder = { uid: 'founder1', name: 'Ada' };
+
+function thread(data: Partial<ThreadData>): FirestoreDocument<ThreadData> {
+	return {
+		id: 'thread1',
+		path: 'threads/thread1',
+		data: { projectId: 'project1', status: 'open', tags: ['bug'], ...data } as ThreadData,
+	};
+}
+
+describe('canTransition', () => {
+	it('allows the moves of the workflow', () => {
+		expect(canTransition('open', 'triaged')).toBe(true);
+		expect(canTransition('triaged', 'in-progress')).toBe(true);
+		expect(canTransition('needs-info', 'triaged')).toBe(true);
+		expect(canTransition('planned', 'closed')).toBe(true);
+	});
+
+	it('lets every open status close the thread', () => {
+		for (const status of threadStatuses.filter((status) => status !== 'closed')) {
+			expect(canTransition(status, 'closed')).toBe(true);
+		}
+	});
+
+	it('only reopens closed threads as open', () => {
+		expect(canTransition('closed', 'open')).toBe(true);
+		expect(canTransition('closed', 'triaged')).toBe(false);
+		expect(canTransition('closed', 'in-progress')).toBe(false);
+	});
+
+	it('refuses moves outside the workflow', () => {
+		expect(canTransition('triaged', 'open')).toBe(false);
+		expect(canTransition('needs-info', 'planned')).toBe(false);
+		expect(canTransition('open', 'open')).toBe(false);
+	});
+
+	it('moves threads with an unknown status back into the workflow', () => {
+		expect(canTransition('pending' as ThreadStatus, 'triaged')).toBe(true);
+		expect(canTransition('pending' as ThreadStatus, 'closed')).toBe(true);
+	});
+});
+
+describe('statusChangeWrites', () => {
+	it('moves the thread, records the event and moves the status counters', () => {
+		const [threadWrite, eventWrite, counterWrite, ...rest] = statusChangeWrites(thread({ status: 'open' }), founder, {
+			status: 'triaged',
+		});
+
+		expect(threadWrite).toEqual({
+			path: 'threads/thread1',
+			merge: true,
+			exists: true,
+			data: { status: 'triaged' },
+			serverTimestamps: ['updatedAt'],
+		});
+		expect(eventWrite.path).toMatch(/^threads\/thread1\/events\//);
+		expect(eventWrite.data).toEqual({
+			type: 'status-changed',
+			actorId: 'founder1',
+			actorName: 'Ada',
+			from: 'open',
+			to: 'triaged',
+			closingReason: null,
+			closingNote: null,
+			duplicateOf: null,
+		});
+		expect(counterWrite.increments).toEqual({ 'statusCounts.open': -1, 'statusCounts.triaged': 1 });
+		expect(rest).toEqual([]);
+	});
+
+	it('records the closing details when closing', () => {
+		const [threadWrite, eventWrite, counterWrite] = statusChangeWrites(thread({ status: 'in-progress' }), founder, {
+			status: 'closed',
+			closingReason: 'duplicate',
+			closingNote: 'Same as the login bug',
+			duplicateOf: 'thread0',
+		});
+
+		expect(threadWrite.data).toEqual({
+			status: 'closed',
+			closingReason: 'duplicate',
+			closingNote: 'Same as the login bug',
+			closedBy: 'Ada',
+			duplicateOf: 'thread0',
+		});
+		expect(threadWrite.serverTimestamps).toEqual(['updatedAt', 'closedAt']);
+		expect(eventWrite.data).toMatchObject({ from: 'in-progress', to: 'closed', closingReason: 'duplicate', duplicateOf: 'thread0' });
+		expect(counterWrite.increments).toEqual({ closedIssues: 1, 'statusCounts.`in-progress`': -1, 'statusCounts.closed': 1 });
+	});
+
+	it('clears the closing details when reopening', () => {
+		const closed = thread({ status: 'closed', closingReason: 'solved', closingNote: 'Fixed in 1.2', closedBy: 'Ada' });
+		const [threadWrite, , counterWrite] = statusChangeWrites(closed, founder, { status: 'open' });
+
+		expect(threadWrite.data).toEqual({
+			status: 'open',
+			closingReason: null,
+			closingNote: null,
+			closedBy: null,
+			duplicateOf: null,
+			reopenedBy: 'founder1',
+		});
+		expect(threadWrite.serverTimestamps).toEqual(['updatedAt', 'reopenedAt']);
+		expect(counterWrite.increments).toEqual({ closedIssues: -1, 'statusCounts.closed': -1, 'statusCounts.open': 1 });
+	});
+
+	it('names actors without a display name Founder', () => {
+		const [threadWrite, eventWrite] = statusChangeWrites(
+			thread({ status: 'open' }),
+			{ uid: 'founder1' },
+			{ status: 'closed', closingReason: 'other' },
+		);
+		expect(threadWrite.data).toMatchObject({ closedBy: 'Founder', closingNote: null, duplicateOf: null });
+		expect(eventWrite.data).toMatchObject({ actorName: 'Founder' });
+	});
+});
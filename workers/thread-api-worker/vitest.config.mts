@@ -0,0 +1,17 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+export default defineWorkersConfig({
+	test: {
+		poolOptions: {
+			workers: {
+				wrangler: { configPath: './wrangler.jsonc' },
+				// Tests don't reach the email worker, so it is stubbed
+				miniflare: {
+					serviceBindings: {
+						EMAIL_WORKER: () => new Response('Not found', { status: 404 }),
+					},
+				},
+			},
+		},
+	},
+});
@@ -0,0 +1,9 @@
+// Generated by Wrangler by running `wrangler types`
+
+interface Env {
+	ALLOWED_ORIGINS: "http://localhost:5173,https://helpfromfounder.web.app";
+	FIREBASE_PROJECT_ID: "helpfromfounder";
+	APP_URL: "https://helpfromfounder.web.app";
+	EMAIL_WORKER: Fetcher;
+	ATTACHMENTS: R2Bucket;
+}